@@ -0,0 +1,141 @@
+import {
+  buildCaptionCues,
+  DEFAULT_CAPTION_OPTIONS,
+  formatCueTime,
+  formatSrt,
+  formatWebVtt,
+  wrapLines,
+} from '../../src/main/captions.js';
+
+describe('captions', () => {
+  const transcript = [
+    '[00:00:01] **Sam:** Welcome to the demo.',
+    '[00:00:04] **Kim:** Thanks. Today we will walk through the new export menu and show how captions are generated from the saved transcript.',
+    '[00:01:00] **Sam:** Any questions?',
+  ].join('\n\n');
+
+  describe('wrapLines', () => {
+    it('should break at word boundaries within the line length', () => {
+      expect(wrapLines('the quick brown fox jumps over', 10)).toEqual([
+        'the quick',
+        'brown fox',
+        'jumps over',
+      ]);
+    });
+
+    it('should keep a word longer than a line whole', () => {
+      expect(wrapLines('a supercalifragilistic word', 8)).toEqual([
+        'a',
+        'supercalifragilistic',
+        'word',
+      ]);
+    });
+  });
+
+  describe('buildCaptionCues', () => {
+    it('should prefix speakers and respect line and cue limits', () => {
+      const cues = buildCaptionCues(transcript);
+
+      expect(cues[0]).toEqual({
+        start: 1,
+        end: 3,
+        lines: ['Sam: Welcome to the demo.'],
+      });
+      const kimCues = cues.filter((cue) => cue.start >= 4 && cue.start < 60);
+      expect(kimCues.length).toBeGreaterThan(1);
+      expect(kimCues[0]?.lines[0]).toMatch(/^Kim: /);
+      for (const cue of cues) {
+        expect(cue.lines.length).toBeLessThanOrEqual(2);
+        expect(cue.lines.every((line) => line.length <= 42)).toBe(true);
+        expect(cue.end - cue.start).toBeLessThanOrEqual(6);
+        expect(cue.end).toBeGreaterThan(cue.start);
+      }
+    });
+
+    it('should time cues by speaking rate instead of stretching over pauses', () => {
+      const cues = buildCaptionCues(transcript, {
+        maxLineLength: 20,
+        maxLines: 1,
+        maxCueDuration: 60,
+        speakerPrefix: false,
+      });
+      const kimCues = cues.filter((cue) => cue.start >= 4 && cue.start < 60);
+
+      expect(kimCues[0]?.start).toBe(4);
+      kimCues.slice(1).forEach((cue, index) => {
+        expect(cue.start).toBeCloseTo(kimCues[index]?.end ?? 0);
+      });
+      // About 20 words at 2.5 words per second, well before the next turn
+      expect(kimCues[kimCues.length - 1]?.end).toBeGreaterThan(11);
+      expect(kimCues[kimCues.length - 1]?.end).toBeLessThan(14);
+    });
+
+    it('should fit a fast speaker into the time before the next turn', () => {
+      const cues = buildCaptionCues(
+        [
+          '[00:00:00] **Sam:** One two three four five six seven eight nine ten eleven twelve.',
+          '[00:00:04] **Kim:** Okay.',
+        ].join('\n\n'),
+        { ...DEFAULT_CAPTION_OPTIONS, maxLines: 1 }
+      );
+      const samCues = cues.filter((cue) => cue.start < 4);
+
+      expect(samCues.length).toBeGreaterThan(1);
+      expect(samCues[samCues.length - 1]?.end).toBeCloseTo(4);
+    });
+
+    it('should order turns by start and keep every cue visible', () => {
+      // Separate-stream transcripts store turns as each speaker finishes
+      const cues = buildCaptionCues(
+        [
+          '[00:00:10] **You:** Sounds good to me.',
+          '[00:00:02] **Others:** Shall we move the launch to March?',
+          '[00:00:12] **Others:** Great.',
+        ].join('\n\n')
+      );
+
+      expect(cues.map((cue) => cue.start)).toEqual([2, 10, 12]);
+      for (const cue of cues) {
+        expect(cue.end - cue.start).toBeGreaterThanOrEqual(1);
+      }
+    });
+
+    it('should estimate the length of the last turn', () => {
+      const last = buildCaptionCues(transcript).at(-1);
+
+      expect(last?.start).toBe(60);
+      expect(last?.end).toBeGreaterThan(60);
+    });
+
+    it('should return no cues for a transcript without timestamps', () => {
+      expect(buildCaptionCues('Just some plain text.')).toEqual([]);
+    });
+  });
+
+  describe('formatting', () => {
+    const cues = [
+      { start: 1, end: 3.5, lines: ['Sam: Hello <team>'] },
+      { start: 3661.25, end: 3663, lines: ['Line one', 'Line two'] },
+    ];
+
+    it('should format cue times for each format', () => {
+      expect(formatCueTime(3661.25, ',')).toBe('01:01:01,250');
+      expect(formatCueTime(0.0004, '.')).toBe('00:00:00.000');
+    });
+
+    it('should write numbered SRT cues', () => {
+      expect(formatSrt(cues)).toBe(
+        '1\n00:00:01,000 --> 00:00:03,500\nSam: Hello <team>\n\n' +
+          '2\n01:01:01,250 --> 01:01:03,000\nLine one\nLine two\n'
+      );
+    });
+
+    it('should write a WebVTT file with escaped cue text', () => {
+      expect(formatWebVtt(cues)).toBe(
+        'WEBVTT\n\n' +
+          '00:00:01.000 --> 00:00:03.500\nSam: Hello &lt;team&gt;\n\n' +
+          '01:01:01.250 --> 01:01:03.000\nLine one\nLine two\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import zlib from 'zlib';
+
+import {
+  buildDocxParts,
+  parseInline,
+  parseMarkdownBlocks,
+  renderDocx,
+  renderHtml,
+} from '../../src/main/document-export.js';
+import type { ActionItem, Recording } from '../../src/types/common.js';
+
+describe('document export', () => {
+  const recording: Recording = {
+    id: 'rec-1',
+    title: 'Budget <review>',
+    transcript:
+      '[00:00:05] **Sam:** We agreed on the budget.\n\n[00:01:10] **Kim:** I will send it round.',
+    summary:
+      '## Decisions\n- Budget approved\n  - Within **10%** of plan\n1. Send notes\n\nA closing *remark*.',
+    created_at: 1709510400000,
+    updated_at: 1709510400000,
+  };
+  const actionItems: ActionItem[] = [
+    {
+      id: 'a',
+      task: 'Send the budget',
+      owner: 'Kim',
+      due: 'Friday',
+      status: 'open',
+    },
+  ];
+  const full = {
+    id: 'full',
+    name: 'Full report',
+    sections: ['summary', 'actionItems', 'transcript'] as const,
+  };
+
+  describe('parseMarkdownBlocks', () => {
+    it('should read headings, nested lists and paragraphs', () => {
+      expect(parseMarkdownBlocks(recording.summary ?? '')).toEqual([
+        { type: 'heading', level: 2, runs: [{ text: 'Decisions' }] },
+        {
+          type: 'listItem',
+          ordered: false,
+          number: 0,
+          depth: 0,
+          runs: [{ text: 'Budget approved' }],
+        },
+        {
+          type: 'listItem',
+          ordered: false,
+          number: 0,
+          depth: 1,
+          runs: [
+            { text: 'Within ' },
+            { text: '10%', bold: true },
+            { text: ' of plan' },
+          ],
+        },
+        {
+          type: 'listItem',
+          ordered: true,
+          number: 1,
+          depth: 0,
+          runs: [{ text: 'Send notes' }],
+        },
+        {
+          type: 'paragraph',
+          runs: [
+            { text: 'A closing ' },
+            { text: 'remark', italic: true },
+            { text: '.' },
+          ],
+        },
+      ]);
+    });
+
+    it('should read inline code', () => {
+      expect(parseInline('Run `npm test` now')).toEqual([
+        { text: 'Run ' },
+        { text: 'npm test', code: true },
+        { text: ' now' },
+      ]);
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should include the sections of the template in order', () => {
+      const html = renderHtml(recording, actionItems, {
+        ...full,
+        sections: [...full.sections],
+      });
+
+      expect(html).toContain('<h1>Budget &lt;review&gt;</h1>');
+      expect(html).toContain('<h4>Decisions</h4>');
+      expect(html).toContain(
+        '<ul>\n<li>Budget approved</li>\n<ul>\n<li>Within <strong>10%</strong> of plan</li>\n</ul>\n</ul>\n<ol>\n<li>Send notes</li>\n</ol>'
+      );
+      expect(html).toContain(
+        'Send the budget <span class="details">(Kim, due Friday)</span>'
+      );
+      expect(html).toContain(
+        '<span class="time">00:01:10</span><strong>Kim:</strong> I will send it round.'
+      );
+      expect(html.indexOf('Summary')).toBeLessThan(html.indexOf('Transcript'));
+      expect(html).not.toMatch(/<(script|link|img)\b/);
+    });
+
+    it('should leave out sections the template does not list', () => {
+      const html = renderHtml(recording, actionItems, {
+        id: 'transcript',
+        name: 'Transcript only',
+        sections: ['transcript'],
+      });
+
+      expect(html).toContain('<h2>Transcript</h2>');
+      expect(html).not.toContain('<h2>Summary</h2>');
+      expect(html).not.toContain('Action items');
+    });
+  });
+
+  describe('DOCX', () => {
+    it('should write styled paragraphs for each section', () => {
+      const parts = buildDocxParts(recording, actionItems, {
+        ...full,
+        sections: [...full.sections],
+      });
+      const document = parts['word/document.xml'] ?? '';
+
+      expect(Object.keys(parts)).toEqual(
+        expect.arrayContaining([
+          '[Content_Types].xml',
+          '_rels/.rels',
+          'word/styles.xml',
+        ])
+      );
+      expect(document).toContain(
+        '<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">Budget &lt;review&gt;</w:t>'
+      );
+      expect(document).toContain('<w:pStyle w:val="Heading3"/>');
+      expect(document).toContain(
+        '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">10%</w:t></w:r>'
+      );
+      expect(document).toContain('Send the budget');
+    });
+
+    it('should package the parts as a ZIP archive', () => {
+      const archive = renderDocx(recording, [], {
+        id: 'brief',
+        name: 'Meeting brief',
+        sections: ['summary'],
+      });
+
+      expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+      const end = archive.length - 22;
+      expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+      expect(archive.readUInt16LE(end + 10)).toBe(5);
+
+      // The first entry round-trips through inflate with a matching CRC
+      const nameLength = archive.readUInt16LE(26);
+      const compressedSize = archive.readUInt32LE(18);
+      const data = zlib.inflateRawSync(
+        archive.subarray(30 + nameLength, 30 + nameLength + compressedSize)
+      );
+      expect(archive.subarray(30, 30 + nameLength).toString()).toBe(
+        '[Content_Types].xml'
+      );
+      expect(zlib.crc32(data)).toBe(archive.readUInt32LE(14));
+      expect(data.toString()).toContain('wordprocessingml.document.main+xml');
+    });
+  });
+});
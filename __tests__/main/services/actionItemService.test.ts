@@ -0,0 +1,203 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { ActionItemService } from '../../../src/main/services/actionItemService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+
+describe('ActionItemService', () => {
+  let service: ActionItemService;
+  let mockLLMGateway: { chat: jest.Mock };
+  let mockTranscriptFileService: {
+    getTranscriptById: jest.Mock;
+    getAllTranscripts: jest.Mock;
+    getActionItems: jest.Mock;
+    saveActionItems: jest.Mock;
+  };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const transcript =
+    '[00:01:00] **Sam:** I will send the revised budget to finance by Friday.';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLLMGateway = {
+      chat: jest.fn().mockResolvedValue(
+        JSON.stringify({
+          items: [
+            {
+              task: 'Send the revised budget to finance',
+              owner: 'Sam',
+              due: 'Friday',
+            },
+            { task: 'Book the offsite venue', owner: null, due: '' },
+          ],
+        })
+      ),
+    };
+    mockTranscriptFileService = {
+      getTranscriptById: jest.fn().mockResolvedValue({
+        id: 'rec-1',
+        transcript,
+        created_at: 1709510400000,
+        updated_at: 1709510400000,
+      }),
+      getAllTranscripts: jest.fn().mockResolvedValue([]),
+      getActionItems: jest.fn().mockResolvedValue([]),
+      saveActionItems: jest.fn().mockResolvedValue(undefined),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => ({ settings: { assemblyaiKey: 'test-api-key' } }),
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.LLMGatewayService,
+      mockLLMGateway as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(ActionItemService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  describe('extractActionItems', () => {
+    it('should request schema-constrained JSON and store the items', async () => {
+      const items = await service.extractActionItems('rec-1');
+
+      expect(mockLLMGateway.chat).toHaveBeenCalledWith(
+        expect.any(Array),
+        'test-api-key',
+        expect.objectContaining({
+          responseFormat: expect.objectContaining({ name: 'action_items' }),
+        })
+      );
+      expect(items).toEqual([
+        expect.objectContaining({
+          task: 'Send the revised budget to finance',
+          owner: 'Sam',
+          due: 'Friday',
+          status: 'open',
+        }),
+        expect.objectContaining({
+          task: 'Book the offsite venue',
+          owner: null,
+          due: null,
+          status: 'open',
+        }),
+      ]);
+      expect(mockTranscriptFileService.saveActionItems).toHaveBeenCalledWith(
+        'rec-1',
+        items
+      );
+    });
+
+    it('should keep the ID and status of items found again', async () => {
+      mockTranscriptFileService.getActionItems.mockResolvedValue([
+        {
+          id: 'item-1',
+          task: 'Send the revised budget to finance.',
+          owner: 'Sam',
+          due: null,
+          status: 'done',
+        },
+      ]);
+
+      const items = await service.extractActionItems('rec-1', transcript);
+
+      expect(items[0]).toEqual(
+        expect.objectContaining({ id: 'item-1', status: 'done', due: 'Friday' })
+      );
+      expect(items[1]?.status).toBe('open');
+    });
+
+    it('should accept a reply wrapped in a code fence', async () => {
+      mockLLMGateway.chat.mockResolvedValue(
+        '```json\n{"items": [{"task": "Ship it", "owner": null, "due": null}]}\n```'
+      );
+
+      const items = await service.extractActionItems('rec-1', transcript);
+
+      expect(items.map((item) => item.task)).toEqual(['Ship it']);
+    });
+
+    it('should accept JSON surrounded by text', async () => {
+      // Local endpoints are not sent the schema
+      mockLLMGateway.chat.mockResolvedValue(
+        'Here are the action items:\n[{"task": "Ship it", "owner": "Sam"}]\nLet me know!'
+      );
+
+      const items = await service.extractActionItems('rec-1', transcript);
+
+      expect(items).toEqual([
+        expect.objectContaining({ task: 'Ship it', owner: 'Sam', due: null }),
+      ]);
+    });
+
+    it('should rethrow and track an unreadable reply', async () => {
+      mockLLMGateway.chat.mockResolvedValue('Sorry, I cannot help with that.');
+
+      await expect(
+        service.extractActionItems('rec-1', transcript)
+      ).rejects.toThrow();
+      expect(mockPostHog.trackError).toHaveBeenCalled();
+      expect(mockTranscriptFileService.saveActionItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('open action items', () => {
+    it('should list open items across recordings and mark them done', async () => {
+      mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+        { id: 'rec-old', title: 'Kickoff', created_at: 1, updated_at: 1 },
+        { id: 'rec-new', title: 'Review', created_at: 2, updated_at: 2 },
+      ]);
+      const stored: Record<string, unknown[]> = {
+        'rec-old': [
+          {
+            id: 'a',
+            task: 'Write spec',
+            owner: null,
+            due: null,
+            status: 'open',
+          },
+          { id: 'b', task: 'Hire', owner: null, due: null, status: 'done' },
+        ],
+        'rec-new': [
+          { id: 'c', task: 'Fix bug', owner: 'Kim', due: null, status: 'open' },
+        ],
+      };
+      mockTranscriptFileService.getActionItems.mockImplementation(
+        (id: string) =>
+          Promise.resolve(JSON.parse(JSON.stringify(stored[id] ?? [])))
+      );
+
+      const open = await service.getOpenActionItems();
+      expect(open.map((item) => [item.id, item.recordingTitle])).toEqual([
+        ['c', 'Review'],
+        ['a', 'Kickoff'],
+      ]);
+
+      await expect(
+        service.setActionItemStatus('rec-old', 'a', 'done')
+      ).resolves.toBe(true);
+      expect(mockTranscriptFileService.saveActionItems).toHaveBeenCalledWith(
+        'rec-old',
+        [
+          expect.objectContaining({ id: 'a', status: 'done' }),
+          expect.objectContaining({ id: 'b', status: 'done' }),
+        ]
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { encodeWavFile } from '../../../src/main/audio-encoder.js';
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { AudioConversionService } from '../../../src/main/services/audioConversionService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+jest.mock('../../../src/main/audio-encoder.js', () => ({
+  ...jest.requireActual('../../../src/main/audio-encoder.js'),
+  encodeWavFile: jest.fn(),
+}));
+
+const mockEncodeWavFile = encodeWavFile as jest.MockedFunction<
+  typeof encodeWavFile
+>;
+
+describe('AudioConversionService', () => {
+  let service: AudioConversionService;
+  let state: {
+    settings: { audioFormat: string };
+    recording: { status: string };
+    recordings: { currentRecording: { id: string } | null };
+  };
+  let mockAudioRecordingService: {
+    getAudioFilePath: jest.Mock;
+    deleteAudioFile: jest.Mock;
+  };
+  let mockRecordingDataService: { updateAudioFilename: jest.Mock };
+  let mockTranscriptFileService: { getAllTranscripts: jest.Mock };
+  let mockPostHog: { trackError: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    state = {
+      settings: { audioFormat: 'opus' },
+      recording: { status: 'idle' },
+      recordings: { currentRecording: null },
+    };
+    mockEncodeWavFile.mockResolvedValue(undefined);
+    mockAudioRecordingService = {
+      getAudioFilePath: jest.fn((filename: string) => `/audio/${filename}`),
+      deleteAudioFile: jest.fn().mockResolvedValue(undefined),
+    };
+    mockRecordingDataService = {
+      updateAudioFilename: jest.fn().mockResolvedValue(undefined),
+    };
+    mockTranscriptFileService = {
+      getAllTranscripts: jest.fn().mockResolvedValue([]),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => state,
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.AudioRecordingService,
+      mockAudioRecordingService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.RecordingDataService,
+      mockRecordingDataService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(AudioConversionService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  describe('convertRecording', () => {
+    it('should leave recordings alone when storing WAV', async () => {
+      state.settings.audioFormat = 'wav';
+
+      const result = await service.convertRecording('rec-1', 'meeting.wav');
+
+      expect(result).toBe('meeting.wav');
+      expect(mockEncodeWavFile).not.toHaveBeenCalled();
+    });
+
+    it('should encode, update the recording and remove the WAV', async () => {
+      const result = await service.convertRecording('rec-1', 'meeting.wav');
+
+      expect(result).toBe('meeting.opus');
+      expect(mockEncodeWavFile).toHaveBeenCalledWith(
+        '/audio/meeting.wav',
+        '/audio/meeting.opus',
+        'opus'
+      );
+      expect(mockRecordingDataService.updateAudioFilename).toHaveBeenCalledWith(
+        'rec-1',
+        'meeting.opus'
+      );
+      expect(mockAudioRecordingService.deleteAudioFile).toHaveBeenCalledWith(
+        'meeting.wav'
+      );
+    });
+
+    it('should keep the WAV when encoding fails', async () => {
+      const error = new Error('Encoder crashed');
+      mockEncodeWavFile.mockRejectedValue(error);
+
+      const result = await service.convertRecording('rec-1', 'meeting.wav');
+
+      expect(result).toBe('meeting.wav');
+      expect(
+        mockRecordingDataService.updateAudioFilename
+      ).not.toHaveBeenCalled();
+      expect(mockAudioRecordingService.deleteAudioFile).not.toHaveBeenCalled();
+      expect(mockPostHog.trackError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ recordingId: 'rec-1' })
+      );
+    });
+  });
+
+  describe('convertLibrary', () => {
+    it('should convert WAV recordings and skip the active one', async () => {
+      state.settings.audioFormat = 'flac';
+      state.recording.status = 'recording';
+      state.recordings.currentRecording = { id: 'active' };
+      mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+        { id: 'old-1', audio_filename: 'old-1.wav' },
+        { id: 'old-2', audio_filename: 'old-2.opus' },
+        { id: 'old-3', audio_filename: 'old-3.wav' },
+        { id: 'no-audio' },
+        { id: 'active', audio_filename: 'active.wav' },
+      ]);
+      mockEncodeWavFile
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Corrupt file'));
+
+      const result = await service.convertLibrary();
+
+      expect(result).toEqual({ converted: 1, failed: 1 });
+      expect(mockEncodeWavFile).toHaveBeenCalledTimes(2);
+      expect(mockRecordingDataService.updateAudioFilename).toHaveBeenCalledWith(
+        'old-1',
+        'old-1.flac'
+      );
+    });
+
+    it('should do nothing when storing WAV', async () => {
+      state.settings.audioFormat = 'wav';
+
+      const result = await service.convertLibrary();
+
+      expect(result).toEqual({ converted: 0, failed: 0 });
+      expect(
+        mockTranscriptFileService.getAllTranscripts
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,23 +4,55 @@ import path from 'path';
 import { app } from 'electron';
 import Logger from 'electron-log';
 import { container } from 'tsyringe';
-import wavEncoder from 'wav-encoder';
 
 import { DI_TOKENS } from '../../../src/main/di-tokens.js';
 import { AudioRecordingService } from '../../../src/main/services/audioRecordingService.js';
+import { createWavHeader } from '../../../src/main/wav-writer.js';
 
 // Mock dependencies
 jest.mock('fs/promises');
 jest.mock('electron-log');
-jest.mock('wav-encoder');
 
 const mockFs = fs as jest.Mocked<typeof fs>;
 const mockApp = app as jest.Mocked<typeof app>;
-const mockWavEncoder = wavEncoder as jest.Mocked<typeof wavEncoder>;
+
+interface MockFileHandle {
+  write: jest.Mock;
+  read: jest.Mock;
+  close: jest.Mock;
+  stat: jest.Mock;
+  truncate: jest.Mock;
+}
+
+function createMockFileHandle(): MockFileHandle {
+  return {
+    write: jest.fn().mockResolvedValue({ bytesWritten: 0 }),
+    read: jest.fn().mockResolvedValue({ bytesRead: 0 }),
+    close: jest.fn().mockResolvedValue(undefined),
+    stat: jest.fn().mockResolvedValue({ size: 44 }),
+    truncate: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+// PCM samples written after the header, in order
+function writtenSamples(handle: MockFileHandle): number[] {
+  return handle.write.mock.calls
+    .filter(([, , , position]) => position !== 0)
+    .flatMap(([buffer, offset, length]) => {
+      const bytes = (buffer as Buffer).subarray(
+        offset as number,
+        (offset as number) + (length as number)
+      );
+      return Array.from(
+        new Int16Array(bytes.buffer, bytes.byteOffset, bytes.length / 2)
+      );
+    });
+}
 
 describe('AudioRecordingService', () => {
   let service: AudioRecordingService;
   let mockLogger: jest.Mocked<typeof Logger>;
+  let mockHandle: MockFileHandle;
 
   const testUserDataPath = '/test/user/data';
   const testAudioDir = path.join(testUserDataPath, 'recordings');
@@ -34,6 +66,11 @@ describe('AudioRecordingService', () => {
     // Mock fs.mkdir to succeed
     mockFs.mkdir.mockResolvedValue(undefined);
 
+    // Every opened file shares one mock handle
+    mockHandle = createMockFileHandle();
+    mockFs.open.mockResolvedValue(mockHandle as never);
+    mockFs.rename.mockResolvedValue(undefined);
+
     // Mock logger
     mockLogger = Logger as jest.Mocked<typeof Logger>;
 
@@ -77,15 +114,20 @@ describe('AudioRecordingService', () => {
   });
 
   describe('startRecording', () => {
-    it('should initialize buffers for recording', () => {
+    it('should open a partial file for the recording', async () => {
       service.startRecording('test-recording-id');
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
+      expect(mockFs.open).toHaveBeenCalledWith(
+        path.join(testAudioDir, 'test-recording-id.partial.wav'),
+        'w'
+      );
       expect(mockLogger.info).toHaveBeenCalledWith(
         'Started audio recording for test-recording-id'
       );
     });
 
-    it('should create separate buffers for multiple recordings', () => {
+    it('should track multiple recordings separately', () => {
       service.startRecording('recording-1');
       service.startRecording('recording-2');
 
@@ -103,84 +145,91 @@ describe('AudioRecordingService', () => {
       service.startRecording('test-id');
     });
 
-    it('should append microphone data', () => {
-      const testData = new Int16Array([1000, -1000, 500]).buffer;
-      service.appendAudioData('test-id', testData, 'microphone');
+    it('should stream combined data to disk as it arrives', async () => {
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([1500, -1500]).buffer,
+        'combined'
+      );
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([32767, -32768]).buffer,
+        'combined'
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      // No direct way to verify, but no error should occur
-      expect(true).toBe(true);
+      expect(writtenSamples(mockHandle)).toEqual([1500, -1500, 32767, -32768]);
     });
 
-    it('should append system data', () => {
-      const testData = new Int16Array([2000, -2000, 1000]).buffer;
-      service.appendAudioData('test-id', testData, 'system');
+    it('should complete samples split across chunks', async () => {
+      const bytes = new Uint8Array(new Int16Array([1500, -1500, 300]).buffer);
+      service.appendAudioData('test-id', bytes.slice(0, 3).buffer, 'combined');
+      service.appendAudioData('test-id', bytes.slice(3, 4).buffer, 'combined');
+      service.appendAudioData('test-id', bytes.slice(4).buffer, 'combined');
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      expect(true).toBe(true);
+      expect(writtenSamples(mockHandle)).toEqual([1500, -1500, 300]);
     });
 
-    it('should append combined data', () => {
-      const testData = new Int16Array([1500, -1500]).buffer;
-      service.appendAudioData('test-id', testData, 'combined');
+    it('should hold separate-stream data until both sources overlap', async () => {
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([1000, 2000]).buffer,
+        'microphone'
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(writtenSamples(mockHandle)).toEqual([]);
 
-      expect(true).toBe(true);
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([500]).buffer,
+        'system'
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(writtenSamples(mockHandle)).toEqual([750]);
     });
 
     it('should silently ignore data for unknown recording', () => {
       const testData = new Int16Array([1000]).buffer;
       service.appendAudioData('unknown-id', testData, 'microphone');
 
-      // Should not throw
-      expect(true).toBe(true);
-    });
-
-    it('should convert Int16 audio to Float32 correctly', async () => {
-      // Max positive value in Int16
-      const maxPositive = new Int16Array([32767]).buffer;
-      service.appendAudioData('test-id', maxPositive, 'combined');
-
-      // Max negative value in Int16
-      const maxNegative = new Int16Array([-32768]).buffer;
-      service.appendAudioData('test-id', maxNegative, 'combined');
-
-      mockWavEncoder.encode.mockResolvedValue(new ArrayBuffer(44));
-      mockFs.writeFile.mockResolvedValue(undefined);
-
-      await service.stopRecording('test-id');
-
-      // Verify wav encoder was called with channel data
-      expect(mockWavEncoder.encode).toHaveBeenCalledWith({
-        sampleRate: 16000,
-        channelData: [expect.any(Float32Array)],
-      });
+      expect(mockHandle.write).not.toHaveBeenCalledWith(
+        expect.anything(),
+        0,
+        2,
+        expect.anything()
+      );
     });
   });
 
   describe('stopRecording', () => {
-    beforeEach(() => {
-      mockWavEncoder.encode.mockResolvedValue(new ArrayBuffer(44));
-      mockFs.writeFile.mockResolvedValue(undefined);
-    });
-
     it('should return null for unknown recording', async () => {
       const result = await service.stopRecording('unknown-id');
       expect(result).toBeNull();
     });
 
-    it('should save WAV file and return filename', async () => {
+    it('should patch the header and rename the partial file', async () => {
       service.startRecording('test-id');
       const testData = new Int16Array([1000, -1000]).buffer;
-      service.appendAudioData('test-id', testData, 'microphone');
+      service.appendAudioData('test-id', testData, 'combined');
 
       const filename = await service.stopRecording('test-id');
 
       expect(filename).toBe('test-id.wav');
-      expect(mockWavEncoder.encode).toHaveBeenCalledWith({
-        sampleRate: 16000,
-        channelData: [expect.any(Float32Array)],
-      });
-      expect(mockFs.writeFile).toHaveBeenCalledWith(
-        path.join(testAudioDir, 'test-id.wav'),
-        expect.any(Buffer)
+
+      // Final header carries the data size (2 samples = 4 bytes)
+      const headerWrites = mockHandle.write.mock.calls.filter(
+        ([, , , position]) => position === 0
+      );
+      const finalHeader = headerWrites[headerWrites.length - 1]?.[0] as Buffer;
+      expect(finalHeader.readUInt32LE(40)).toBe(4);
+      expect(finalHeader.readUInt32LE(4)).toBe(40);
+      expect(mockHandle.close).toHaveBeenCalled();
+
+      expect(mockFs.rename).toHaveBeenCalledWith(
+        path.join(testAudioDir, 'test-id.partial.wav'),
+        path.join(testAudioDir, 'test-id.wav')
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         'Saved audio recording to test-id.wav'
@@ -198,37 +247,13 @@ describe('AudioRecordingService', () => {
       );
 
       expect(filename).toBe('2024-03-15_meeting.wav');
-      expect(mockFs.writeFile).toHaveBeenCalledWith(
-        path.join(testAudioDir, '2024-03-15_meeting.wav'),
-        expect.any(Buffer)
+      expect(mockFs.rename).toHaveBeenCalledWith(
+        path.join(testAudioDir, 'test-id.partial.wav'),
+        path.join(testAudioDir, '2024-03-15_meeting.wav')
       );
     });
 
-    it('should use combined buffer if available', async () => {
-      service.startRecording('test-id');
-      const combinedData = new Int16Array([1000, 2000, 3000]).buffer;
-      service.appendAudioData('test-id', combinedData, 'combined');
-
-      await service.stopRecording('test-id');
-
-      expect(mockWavEncoder.encode).toHaveBeenCalled();
-    });
-
-    it('should mix microphone and system audio when no combined buffer', async () => {
-      service.startRecording('test-id');
-
-      const micData = new Int16Array([1000, 2000]).buffer;
-      const sysData = new Int16Array([500, 1000]).buffer;
-
-      service.appendAudioData('test-id', micData, 'microphone');
-      service.appendAudioData('test-id', sysData, 'system');
-
-      await service.stopRecording('test-id');
-
-      expect(mockWavEncoder.encode).toHaveBeenCalled();
-    });
-
-    it('should clean up buffer after successful save', async () => {
+    it('should clean up after successful save', async () => {
       service.startRecording('test-id');
       service.appendAudioData(
         'test-id',
@@ -243,17 +268,19 @@ describe('AudioRecordingService', () => {
       expect(secondResult).toBeNull();
     });
 
-    it('should clean up buffer and return null on error', async () => {
+    it('should keep the partial file and return null on write error', async () => {
+      const error = new Error('Disk full');
+      mockHandle.write
+        .mockResolvedValueOnce({ bytesWritten: 44 })
+        .mockRejectedValueOnce(error);
+
       service.startRecording('test-id');
       service.appendAudioData(
         'test-id',
         new Int16Array([1]).buffer,
-        'microphone'
+        'combined'
       );
 
-      const error = new Error('Encoding failed');
-      mockWavEncoder.encode.mockRejectedValueOnce(error);
-
       const result = await service.stopRecording('test-id');
 
       expect(result).toBeNull();
@@ -261,13 +288,79 @@ describe('AudioRecordingService', () => {
         'Failed to save audio recording:',
         error
       );
+      expect(mockFs.rename).not.toHaveBeenCalled();
 
-      // Buffer should be cleaned up
+      // Recording is no longer tracked
       const secondResult = await service.stopRecording('test-id');
       expect(secondResult).toBeNull();
     });
   });
 
+  describe('recoverPartialRecordings', () => {
+    it('should repair and rename partial files', async () => {
+      mockFs.readdir.mockResolvedValue([
+        'crashed-id.partial.wav',
+        'meeting.md',
+        'meeting.wav',
+      ] as never);
+      mockHandle.stat.mockResolvedValue({ size: 44 + 32000 });
+
+      const recovered = await service.recoverPartialRecordings();
+
+      expect(recovered).toEqual([
+        { recordingId: 'crashed-id', filename: 'crashed-id.wav' },
+      ]);
+      expect(mockFs.open).toHaveBeenCalledWith(
+        path.join(testAudioDir, 'crashed-id.partial.wav'),
+        'r+'
+      );
+      const header = mockHandle.write.mock.calls[0]?.[0] as Buffer;
+      expect(header.readUInt32LE(40)).toBe(32000);
+      expect(mockFs.rename).toHaveBeenCalledWith(
+        path.join(testAudioDir, 'crashed-id.partial.wav'),
+        path.join(testAudioDir, 'crashed-id.wav')
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Recovered 1.0s of audio for crashed-id'
+      );
+    });
+
+    it('should keep the channel count of a stereo partial file', async () => {
+      mockFs.readdir.mockResolvedValue(['stereo-id.partial.wav'] as never);
+      mockHandle.stat.mockResolvedValue({ size: 44 + 32000 });
+      mockHandle.read.mockImplementation((buffer: Buffer) => {
+        createWavHeader(0, 16000, 2).copy(buffer);
+        return Promise.resolve({ bytesRead: 44 });
+      });
+
+      await service.recoverPartialRecordings();
+
+      const header = mockHandle.write.mock.calls[0]?.[0] as Buffer;
+      expect(header.readUInt16LE(22)).toBe(2);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Recovered 0.5s of audio for stereo-id'
+      );
+    });
+
+    it('should skip recordings that are still in progress', async () => {
+      service.startRecording('active-id');
+      mockFs.readdir.mockResolvedValue(['active-id.partial.wav'] as never);
+
+      const recovered = await service.recoverPartialRecordings();
+
+      expect(recovered).toEqual([]);
+      expect(mockFs.rename).not.toHaveBeenCalled();
+    });
+
+    it('should return empty array when the directory cannot be read', async () => {
+      mockFs.readdir.mockRejectedValue(new Error('ENOENT'));
+
+      const recovered = await service.recoverPartialRecordings();
+
+      expect(recovered).toEqual([]);
+    });
+  });
+
   describe('getAudioFilePath', () => {
     it('should return correct path for filename', () => {
       const result = service.getAudioFilePath('test.wav');
@@ -275,6 +368,36 @@ describe('AudioRecordingService', () => {
     });
   });
 
+  describe('resolveAudioFilePath', () => {
+    it('should return the stored file when it exists', async () => {
+      mockFs.access.mockResolvedValue(undefined);
+
+      const result = await service.resolveAudioFilePath('meeting.wav');
+
+      expect(result).toBe(path.join(testAudioDir, 'meeting.wav'));
+    });
+
+    it('should fall back to the same name in another format', async () => {
+      mockFs.access.mockImplementation((filepath) =>
+        String(filepath).endsWith('.opus')
+          ? Promise.resolve()
+          : Promise.reject(new Error('ENOENT'))
+      );
+
+      const result = await service.resolveAudioFilePath('meeting.wav');
+
+      expect(result).toBe(path.join(testAudioDir, 'meeting.opus'));
+    });
+
+    it('should return null when no variant exists', async () => {
+      mockFs.access.mockRejectedValue(new Error('ENOENT'));
+
+      const result = await service.resolveAudioFilePath('meeting.wav');
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('deleteAudioFile', () => {
     it('should delete file and log success', async () => {
       mockFs.unlink.mockResolvedValue(undefined);
@@ -303,7 +426,7 @@ describe('AudioRecordingService', () => {
   });
 
   describe('cleanup', () => {
-    it('should clear all recording buffers', async () => {
+    it('should stop tracking all recordings', async () => {
       service.startRecording('recording-1');
       service.startRecording('recording-2');
 
@@ -319,9 +442,23 @@ describe('AudioRecordingService', () => {
   });
 
   describe('audio mixing', () => {
-    beforeEach(() => {
-      mockWavEncoder.encode.mockResolvedValue(new ArrayBuffer(44));
-      mockFs.writeFile.mockResolvedValue(undefined);
+    it('should average overlapping microphone and system samples', async () => {
+      service.startRecording('test-id');
+
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([1000, 2000]).buffer,
+        'microphone'
+      );
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([500, 1000]).buffer,
+        'system'
+      );
+
+      await service.stopRecording('test-id');
+
+      expect(writtenSamples(mockHandle)).toEqual([750, 1500]);
     });
 
     it('should handle microphone-only recording', async () => {
@@ -333,19 +470,18 @@ describe('AudioRecordingService', () => {
       const filename = await service.stopRecording('test-id');
 
       expect(filename).toBe('test-id.wav');
-      expect(mockWavEncoder.encode).toHaveBeenCalled();
+      expect(writtenSamples(mockHandle)).toEqual([1000, 2000, 3000]);
     });
 
-    it('should handle system-only recording', async () => {
+    it('should write a source unmixed once it runs far ahead', async () => {
       service.startRecording('test-id');
 
-      const sysData = new Int16Array([500, 1000, 1500]).buffer;
-      service.appendAudioData('test-id', sysData, 'system');
-
-      const filename = await service.stopRecording('test-id');
+      // Just over two seconds of microphone audio with no system audio
+      const micData = new Int16Array(32001).fill(100).buffer;
+      service.appendAudioData('test-id', micData, 'microphone');
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      expect(filename).toBe('test-id.wav');
-      expect(mockWavEncoder.encode).toHaveBeenCalled();
+      expect(writtenSamples(mockHandle)).toHaveLength(32001);
     });
 
     it('should handle empty recording', async () => {
@@ -356,10 +492,7 @@ describe('AudioRecordingService', () => {
       const filename = await service.stopRecording('test-id');
 
       expect(filename).toBe('test-id.wav');
-      expect(mockWavEncoder.encode).toHaveBeenCalledWith({
-        sampleRate: 16000,
-        channelData: [expect.any(Float32Array)],
-      });
+      expect(writtenSamples(mockHandle)).toEqual([]);
     });
 
     it('should handle different length microphone and system buffers', async () => {
@@ -376,6 +509,61 @@ describe('AudioRecordingService', () => {
       const filename = await service.stopRecording('test-id');
 
       expect(filename).toBe('test-id.wav');
+      expect(writtenSamples(mockHandle)).toEqual([750, 1500, 3000, 4000, 5000]);
+    });
+  });
+
+  describe('stereo recording', () => {
+    it('should write a stereo header', async () => {
+      service.startRecording('test-id', 2);
+      await service.stopRecording('test-id');
+
+      const header = mockHandle.write.mock.calls.at(-1)?.[0] as Buffer;
+      expect(header.readUInt16LE(22)).toBe(2);
+    });
+
+    it('should put microphone on the left and system on the right', async () => {
+      service.startRecording('test-id', 2);
+
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([1000, 2000]).buffer,
+        'microphone'
+      );
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([500, 1000]).buffer,
+        'system'
+      );
+      await service.stopRecording('test-id');
+
+      expect(writtenSamples(mockHandle)).toEqual([1000, 500, 2000, 1000]);
+    });
+
+    it('should pad a lone source with silence on the other channel', async () => {
+      service.startRecording('test-id', 2);
+
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([300, 400]).buffer,
+        'system'
+      );
+      await service.stopRecording('test-id');
+
+      expect(writtenSamples(mockHandle)).toEqual([0, 300, 0, 400]);
+    });
+
+    it('should duplicate combined audio across both channels', async () => {
+      service.startRecording('test-id', 2);
+
+      service.appendAudioData(
+        'test-id',
+        new Int16Array([100, -100]).buffer,
+        'combined'
+      );
+      await service.stopRecording('test-id');
+
+      expect(writtenSamples(mockHandle)).toEqual([100, 100, -100, -100]);
     });
   });
 });
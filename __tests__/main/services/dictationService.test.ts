@@ -112,6 +112,7 @@ const mockMainWindow = {
 
 const mockLLMGatewayService = {
   chat: jest.fn().mockResolvedValue('styled text'),
+  hasCredentials: jest.fn(),
 } as any;
 
 describe('DictationService', () => {
@@ -124,6 +125,7 @@ describe('DictationService', () => {
 
     mockStore.getState.mockReturnValue(createDefaultState());
     mockRecordingManager.isRecording.mockReturnValue(false);
+    mockLLMGatewayService.hasCredentials.mockReturnValue(true);
     (globalShortcut.register as jest.Mock).mockReturnValue(true);
     (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([
       mockMainWindow,
@@ -0,0 +1,207 @@
+import fs from 'fs/promises';
+
+import { dialog } from 'electron';
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { ImportService } from '../../../src/main/services/importService.js';
+
+// Mock dependencies
+jest.mock('fs/promises');
+jest.mock('electron-log');
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+const mockDialog = dialog as jest.Mocked<typeof dialog>;
+
+describe('ImportService', () => {
+  let service: ImportService;
+  let settings: Record<string, unknown>;
+  let mockFileTranscriber: { transcribeFile: jest.Mock };
+  let mockTranscriptFileService: { saveTranscript: jest.Mock };
+  let mockRecordingDataService: {
+    updateAudioFilename: jest.Mock;
+    saveSummary: jest.Mock;
+  };
+  let mockSummarizationService: { summarizeTranscript: jest.Mock };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const memoPath = '/Users/me/Voice Memos/Standup.m4a';
+  const modifiedAt = 1710460800000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    settings = {
+      assemblyaiKey: 'test-api-key',
+      summaryPrompt: 'Summarize this',
+      summarizeImports: false,
+    };
+    mockFileTranscriber = {
+      transcribeFile: jest.fn().mockResolvedValue([
+        { speaker: 'A', text: 'Morning all.', start: 0, end: 1500 },
+        { speaker: 'B', text: 'Hi.', start: 2000, end: 2500 },
+      ]),
+    };
+    mockTranscriptFileService = {
+      saveTranscript: jest.fn().mockResolvedValue('2024-03-15-standup.md'),
+    };
+    mockRecordingDataService = {
+      updateAudioFilename: jest.fn().mockResolvedValue(undefined),
+      saveSummary: jest.fn().mockResolvedValue(undefined),
+    };
+    mockSummarizationService = {
+      summarizeTranscript: jest.fn().mockResolvedValue('Summary text'),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    mockFs.stat.mockResolvedValue({ mtimeMs: modifiedAt } as never);
+    mockFs.copyFile.mockResolvedValue(undefined);
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => ({ settings }),
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(DI_TOKENS.MainWindow, {} as any);
+    container.registerInstance(
+      DI_TOKENS.FileTranscriber,
+      mockFileTranscriber as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.RecordingDataService,
+      mockRecordingDataService as any
+    );
+    container.registerInstance(DI_TOKENS.AudioRecordingService, {
+      getAudioFilePath: (filename: string) => `/recordings/${filename}`,
+    } as any);
+    container.registerInstance(
+      DI_TOKENS.SummarizationService,
+      mockSummarizationService as any
+    );
+    container.registerInstance(DI_TOKENS.ActionItemService, {
+      extractActionItems: jest.fn().mockResolvedValue([]),
+    } as any);
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(ImportService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  describe('importAudioFile', () => {
+    it('should save the transcript and a copy of the audio', async () => {
+      const recordingId = await service.importAudioFile(memoPath);
+
+      expect(mockFileTranscriber.transcribeFile).toHaveBeenCalledWith(
+        'test-api-key',
+        memoPath
+      );
+      expect(mockTranscriptFileService.saveTranscript).toHaveBeenCalledWith({
+        id: recordingId,
+        title: 'Standup',
+        transcript:
+          '[00:00:00] **Speaker A:** Morning all.\n\n[00:00:02] **Speaker B:** Hi.',
+        created_at: modifiedAt,
+        updated_at: expect.any(Number),
+      });
+      expect(mockFs.copyFile).toHaveBeenCalledWith(
+        memoPath,
+        '/recordings/2024-03-15-standup.m4a'
+      );
+      expect(mockRecordingDataService.updateAudioFilename).toHaveBeenCalledWith(
+        recordingId,
+        '2024-03-15-standup.m4a'
+      );
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should summarize the import when enabled', async () => {
+      settings['summarizeImports'] = true;
+
+      const recordingId = await service.importAudioFile(memoPath);
+
+      expect(mockSummarizationService.summarizeTranscript).toHaveBeenCalledWith(
+        expect.stringContaining('Morning all.'),
+        'Summarize this',
+        'test-api-key'
+      );
+      expect(mockRecordingDataService.saveSummary).toHaveBeenCalledWith(
+        recordingId,
+        'Summary text'
+      );
+    });
+
+    it('should keep the import when summarization fails', async () => {
+      settings['summarizeImports'] = true;
+      mockSummarizationService.summarizeTranscript.mockRejectedValue(
+        new Error('LLM unavailable')
+      );
+
+      await expect(service.importAudioFile(memoPath)).resolves.toEqual(
+        expect.any(String)
+      );
+      expect(mockRecordingDataService.saveSummary).not.toHaveBeenCalled();
+      expect(mockPostHog.trackError).toHaveBeenCalled();
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(service.importAudioFile('/docs/notes.pdf')).rejects.toThrow(
+        'Cannot import notes.pdf'
+      );
+      expect(mockFileTranscriber.transcribeFile).not.toHaveBeenCalled();
+    });
+
+    it('should require an API key', async () => {
+      settings['assemblyaiKey'] = '';
+
+      await expect(service.importAudioFile(memoPath)).rejects.toThrow(
+        'API key is not configured'
+      );
+    });
+
+    it('should not create a recording when transcription fails', async () => {
+      mockFileTranscriber.transcribeFile.mockRejectedValue(
+        new Error('Transcription failed: Unsupported codec')
+      );
+
+      await expect(service.importAudioFile(memoPath)).rejects.toThrow(
+        'Unsupported codec'
+      );
+      expect(mockTranscriptFileService.saveTranscript).not.toHaveBeenCalled();
+      expect(mockFs.copyFile).not.toHaveBeenCalled();
+      expect(mockPostHog.trackError).toHaveBeenCalled();
+    });
+  });
+
+  describe('importWithDialog', () => {
+    it('should import the chosen file', async () => {
+      mockDialog.showOpenDialog.mockResolvedValue({
+        canceled: false,
+        filePaths: [memoPath],
+      });
+
+      const recordingId = await service.importWithDialog();
+
+      expect(recordingId).toEqual(expect.any(String));
+      expect(mockFileTranscriber.transcribeFile).toHaveBeenCalled();
+    });
+
+    it('should return null when cancelled', async () => {
+      mockDialog.showOpenDialog.mockResolvedValue({
+        canceled: true,
+        filePaths: [],
+      });
+
+      await expect(service.importWithDialog()).resolves.toBeNull();
+      expect(mockFileTranscriber.transcribeFile).not.toHaveBeenCalled();
+    });
+  });
+});
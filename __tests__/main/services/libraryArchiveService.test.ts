@@ -0,0 +1,317 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { app } from 'electron';
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import {
+  LIBRARY_SCHEMA_VERSION,
+  LibraryArchiveService,
+} from '../../../src/main/services/libraryArchiveService.js';
+import { TranscriptFileService } from '../../../src/main/services/transcriptFileService.js';
+import { ZipReader, ZipWriter } from '../../../src/main/zip.js';
+
+jest.mock('electron-log');
+
+const mockApp = app as jest.Mocked<typeof app>;
+
+describe('LibraryArchiveService', () => {
+  let tmpDir: string;
+  let settings: Record<string, unknown>;
+  let mockSettingsService: {
+    getSettings: jest.Mock;
+    updateSettings: jest.Mock;
+  };
+
+  // Each install gets its own userData directory
+  const createInstall = async (name: string) => {
+    const userData = path.join(tmpDir, name);
+    await fs.mkdir(path.join(userData, 'recordings'), { recursive: true });
+    mockApp.getPath.mockReturnValue(userData);
+
+    const child = container.createChildContainer();
+    child.registerInstance(DI_TOKENS.Logger, Logger);
+    child.registerInstance(DI_TOKENS.MainWindow, {} as any);
+    const transcriptFileService = child.resolve(TranscriptFileService);
+    child.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      transcriptFileService
+    );
+    child.registerInstance(DI_TOKENS.AudioRecordingService, {
+      getAudioFilePath: (filename: string) =>
+        path.join(userData, 'recordings', filename),
+      resolveAudioFilePath: (filename: string) =>
+        Promise.resolve(path.join(userData, 'recordings', filename)),
+    } as any);
+    child.registerInstance(
+      DI_TOKENS.SettingsService,
+      mockSettingsService as any
+    );
+    child.registerInstance(DI_TOKENS.PostHogService, {
+      trackError: jest.fn(),
+    } as any);
+
+    return {
+      recordingsDir: path.join(userData, 'recordings'),
+      transcriptFileService,
+      service: child.resolve(LibraryArchiveService),
+    };
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'library-archive-'));
+    mockApp.getVersion.mockReturnValue('1.0.0');
+
+    settings = {
+      assemblyaiKey: 'secret-key',
+      userId: 'user-1',
+      summaryPrompt: 'Summarize this',
+      autoTitle: false,
+      summaryLLM: {
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3',
+        apiKey: 'llm-secret',
+      },
+    };
+    mockSettingsService = {
+      getSettings: jest.fn(() => ({ ...settings })),
+      updateSettings: jest.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const seedRecording = async (install: {
+    recordingsDir: string;
+    transcriptFileService: TranscriptFileService;
+  }) => {
+    const filename = await install.transcriptFileService.saveTranscript({
+      id: 'rec-1',
+      title: 'Standup',
+      transcript: '[00:00:01] **Sam:** Morning.',
+      summary: 'Short standup.',
+      audio_filename: 'standup.ogg',
+      created_at: 1710460800000,
+      updated_at: 1710464400000,
+    });
+    await fs.writeFile(
+      path.join(install.recordingsDir, 'standup.ogg'),
+      Buffer.from([1, 2, 3])
+    );
+    await install.transcriptFileService.saveVersion(
+      'rec-1',
+      'summary',
+      'Old summary'
+    );
+    await install.transcriptFileService.saveActionItems('rec-1', [
+      { id: 'item-1', text: 'Send notes', status: 'open' } as any,
+    ]);
+    return filename;
+  };
+
+  it('should export recordings, sidecars, audio and settings without secrets', async () => {
+    const install = await createInstall('old-laptop');
+    const filename = await seedRecording(install);
+    const archivePath = path.join(tmpDir, 'library.zip');
+
+    const result = await install.service.exportLibrary(archivePath);
+
+    expect(result).toEqual({ filePath: archivePath, recordings: 1 });
+    const reader = await ZipReader.open(archivePath);
+    try {
+      const manifest = JSON.parse(
+        (await reader.read('manifest.json')).toString('utf-8')
+      );
+      expect(manifest.schemaVersion).toBe(LIBRARY_SCHEMA_VERSION);
+      expect(manifest.appVersion).toBe('1.0.0');
+      expect(manifest.recordings).toEqual([
+        expect.objectContaining({
+          id: 'rec-1',
+          file: `recordings/${filename}`,
+          audio: 'audio/standup.ogg',
+          sidecars: [
+            expect.stringMatching(
+              /^recordings\/\.assembly-notes\/versions\/rec-1\/summary-\d+\.md$/
+            ),
+            'recordings/.assembly-notes/action-items/rec-1.json',
+          ],
+        }),
+      ]);
+      expect(await reader.read('audio/standup.ogg')).toEqual(
+        Buffer.from([1, 2, 3])
+      );
+
+      const archivedSettings = JSON.parse(
+        (await reader.read('settings.json')).toString('utf-8')
+      );
+      expect(archivedSettings).not.toHaveProperty('assemblyaiKey');
+      expect(archivedSettings).not.toHaveProperty('userId');
+      expect(archivedSettings.summaryLLM.apiKey).toBe('');
+      expect(archivedSettings.summaryPrompt).toBe('Summarize this');
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('should import into another install and skip unchanged recordings', async () => {
+    const oldInstall = await createInstall('old-laptop');
+    await seedRecording(oldInstall);
+    const archivePath = path.join(tmpDir, 'library.zip');
+    await oldInstall.service.exportLibrary(archivePath);
+
+    const newInstall = await createInstall('new-laptop');
+    const report = await newInstall.service.importLibrary(archivePath, false);
+
+    expect(report).toEqual({
+      imported: 1,
+      skipped: 0,
+      conflicts: [],
+      settingsImported: false,
+    });
+    const imported =
+      await newInstall.transcriptFileService.getTranscriptById('rec-1');
+    expect(imported).toEqual(
+      expect.objectContaining({
+        title: 'Standup',
+        summary: 'Short standup.',
+        audio_filename: 'standup.ogg',
+        updated_at: 1710464400000,
+      })
+    );
+    expect(
+      await newInstall.transcriptFileService.getVersions('rec-1', 'summary')
+    ).toHaveLength(1);
+    expect(
+      await newInstall.transcriptFileService.getActionItems('rec-1')
+    ).toHaveLength(1);
+    expect(mockSettingsService.updateSettings).not.toHaveBeenCalled();
+
+    const again = await newInstall.service.importLibrary(archivePath, false);
+    expect(again).toEqual(
+      expect.objectContaining({ imported: 0, skipped: 1, conflicts: [] })
+    );
+  });
+
+  it('should keep the local copy of a changed recording and report it', async () => {
+    const install = await createInstall('laptop');
+    await seedRecording(install);
+    const archivePath = path.join(tmpDir, 'library.zip');
+    await install.service.exportLibrary(archivePath);
+    await install.transcriptFileService.updateTranscript('rec-1', {
+      summary: 'Edited locally',
+    });
+
+    const report = await install.service.importLibrary(archivePath, false);
+
+    expect(report.conflicts).toEqual([
+      { recordingId: 'rec-1', title: 'Standup', reason: 'changed' },
+    ]);
+    const local =
+      await install.transcriptFileService.getTranscriptById('rec-1');
+    expect(local?.summary).toBe('Edited locally');
+  });
+
+  it('should restore settings while keeping local secrets', async () => {
+    const oldInstall = await createInstall('old-laptop');
+    const archivePath = path.join(tmpDir, 'library.zip');
+    await oldInstall.service.exportLibrary(archivePath);
+
+    settings = {
+      assemblyaiKey: 'new-key',
+      userId: 'user-2',
+      summaryPrompt: '',
+      autoTitle: true,
+      summaryLLM: {
+        provider: 'assemblyai',
+        baseUrl: '',
+        model: '',
+        apiKey: 'new-llm-secret',
+      },
+    };
+    const newInstall = await createInstall('new-laptop');
+    const report = await newInstall.service.importLibrary(archivePath, true);
+
+    expect(report.settingsImported).toBe(true);
+    expect(mockSettingsService.updateSettings).toHaveBeenCalledWith({
+      summaryPrompt: 'Summarize this',
+      autoTitle: false,
+      summaryLLM: {
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3',
+        apiKey: 'new-llm-secret',
+      },
+    });
+  });
+
+  it('should ignore entries outside a recording sidecar location', async () => {
+    const archivePath = path.join(tmpDir, 'crafted.zip');
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add(
+      'recordings/note.md',
+      '---\nid: rec-2\ntitle: Note\ncreated_at: 1\nupdated_at: 2\n---\n\n# Note\n\n## Transcript\n\nHello\n'
+    );
+    await writer.add('recordings/../../evil.json', '{}');
+    await writer.add(
+      'manifest.json',
+      JSON.stringify({
+        schemaVersion: 1,
+        appVersion: '1.0.0',
+        exportedAt: 0,
+        recordings: [
+          {
+            id: 'rec-2',
+            title: 'Note',
+            created_at: 1,
+            updated_at: 2,
+            file: 'recordings/note.md',
+            sidecars: ['recordings/../../evil.json'],
+          },
+          {
+            id: '../escape',
+            title: 'Bad',
+            created_at: 1,
+            updated_at: 2,
+            file: 'recordings/note.md',
+            sidecars: [],
+          },
+        ],
+      })
+    );
+    await writer.close();
+
+    const install = await createInstall('laptop');
+    const report = await install.service.importLibrary(archivePath, false);
+
+    expect(report.imported).toBe(1);
+    expect(report.conflicts).toEqual([
+      { recordingId: '../escape', title: 'Bad', reason: 'invalid' },
+    ]);
+    await expect(fs.access(path.join(tmpDir, 'evil.json'))).rejects.toThrow();
+  });
+
+  it('should reject archives from a newer schema version', async () => {
+    const archivePath = path.join(tmpDir, 'future.zip');
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add(
+      'manifest.json',
+      JSON.stringify({
+        schemaVersion: LIBRARY_SCHEMA_VERSION + 1,
+        recordings: [],
+      })
+    );
+    await writer.close();
+
+    const install = await createInstall('laptop');
+
+    await expect(
+      install.service.importLibrary(archivePath, false)
+    ).rejects.toThrow('exported by a newer version');
+  });
+});
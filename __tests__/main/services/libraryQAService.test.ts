@@ -0,0 +1,119 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { LibraryQAService } from '../../../src/main/services/libraryQAService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+
+describe('LibraryQAService', () => {
+  let service: LibraryQAService;
+  let mockLLMGateway: { chat: jest.Mock };
+  let mockTranscriptFileService: { getAllTranscripts: jest.Mock };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const planning = {
+    id: 'rec-planning',
+    title: 'Q2 planning',
+    transcript: [
+      '[00:00:05] **Alex:** Welcome everyone, lots to cover today.',
+      '[00:12:34] **Sam:** Nobody uses the v2 API, so we decided to drop it and keep v3 only.',
+    ].join('\n\n'),
+    created_at: 1709510400000,
+    updated_at: 1709510400000,
+  };
+  const standup = {
+    id: 'rec-standup',
+    title: 'Standup',
+    transcript: '[00:00:10] **Kim:** I fixed the flaky login test yesterday.',
+    summary: '- Login test fixed',
+    created_at: 1709596800000,
+    updated_at: 1709596800000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLLMGateway = {
+      chat: jest.fn().mockResolvedValue('The v2 API was dropped [1].'),
+    };
+    mockTranscriptFileService = {
+      getAllTranscripts: jest.fn().mockResolvedValue([planning, standup]),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => ({ settings: { assemblyaiKey: 'test-api-key' } }),
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.LLMGatewayService,
+      mockLLMGateway as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(LibraryQAService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it('should answer from the best matching passages and cite them', async () => {
+    const result = await service.ask('When did we decide to drop the v2 API?');
+
+    expect(result.answer).toBe('The v2 API was dropped [1].');
+    expect(result.sources[0]).toEqual(
+      expect.objectContaining({
+        recordingId: 'rec-planning',
+        title: 'Q2 planning',
+        start: 5,
+      })
+    );
+    expect(
+      result.sources.some((source) => source.recordingId === 'rec-standup')
+    ).toBe(false);
+
+    const [messages, apiKey, options] = mockLLMGateway.chat.mock.calls[0];
+    expect(messages[0].content).toContain('[1] "Q2 planning"');
+    expect(messages[0].content).toContain('at 00:00:05');
+    expect(messages[0].content).toContain('decided to drop it');
+    expect(messages[1]).toEqual({
+      role: 'user',
+      content: 'When did we decide to drop the v2 API?',
+    });
+    expect(apiKey).toBe('test-api-key');
+    expect(options).toEqual({ useCase: 'summary' });
+  });
+
+  it('should not call the model when nothing matches', async () => {
+    const result = await service.ask('budget for the offsite?');
+
+    expect(result.sources).toEqual([]);
+    expect(mockLLMGateway.chat).not.toHaveBeenCalled();
+  });
+
+  it('should pick up edited recordings on the next question', async () => {
+    await service.ask('flaky login test');
+
+    mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+      planning,
+      {
+        ...standup,
+        transcript: '[00:00:10] **Kim:** The offsite budget is approved.',
+        summary: '',
+        updated_at: standup.updated_at + 1,
+      },
+    ]);
+    const result = await service.ask('offsite budget');
+
+    expect(result.sources).toEqual([
+      expect.objectContaining({ recordingId: 'rec-standup', start: 10 }),
+    ]);
+  });
+});
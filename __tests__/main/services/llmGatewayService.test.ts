@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens';
+import { LLMGatewayService } from '../../../src/main/services/llmGatewayService';
+
+describe('LLMGatewayService', () => {
+  let service: LLMGatewayService;
+  let settings: Record<string, unknown>;
+  let mockFetch: jest.Mock;
+  const originalFetch = global.fetch;
+
+  const messages = [{ role: 'user' as const, content: 'Summarize this' }];
+
+  beforeEach(() => {
+    settings = {};
+    mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({ choices: [{ message: { content: 'Summary' } }] }),
+    });
+    global.fetch = mockFetch;
+
+    container.register(DI_TOKENS.Store, {
+      useValue: { getState: () => ({ settings }) },
+    });
+    service = container.resolve(LLMGatewayService);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    container.clearInstances();
+  });
+
+  it('should use the AssemblyAI gateway by default', async () => {
+    const result = await service.chat(messages, 'aai-key', {
+      useCase: 'summary',
+    });
+
+    expect(result).toBe('Summary');
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://llm-gateway.assemblyai.com/v1/chat/completions',
+      expect.objectContaining({
+        headers: expect.objectContaining({ authorization: 'aai-key' }),
+      })
+    );
+  });
+
+  it('should send the use case to its OpenAI-compatible endpoint', async () => {
+    settings['summaryLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+      apiKey: '',
+    };
+
+    await service.chat(messages, 'aai-key', { useCase: 'summary' });
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('authorization');
+    expect(JSON.parse(init.body as string)).toEqual(
+      expect.objectContaining({ model: 'llama3.1', messages })
+    );
+  });
+
+  it('should keep other use cases on their own backend', async () => {
+    settings['summaryLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'https://api.openai.com/v1',
+      model: 'gpt-4o-mini',
+      apiKey: 'sk-test',
+    };
+    settings['dictationLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:8080/v1',
+      model: 'qwen2.5',
+      apiKey: 'local-key',
+    };
+
+    await service.chat(messages, 'aai-key', { useCase: 'dictation' });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://localhost:8080/v1/chat/completions',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          authorization: 'Bearer local-key',
+        }),
+      })
+    );
+  });
+
+  it('should stream the completion when asked for deltas', async () => {
+    const encoder = new TextEncoder();
+    const events = [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Sum"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"mary"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    mockFetch.mockResolvedValue({
+      ok: true,
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(encoder.encode(event));
+          }
+          controller.close();
+        },
+      }),
+    });
+    const onDelta = jest.fn();
+
+    const result = await service.chat(messages, 'aai-key', {
+      useCase: 'summary',
+      onDelta,
+    });
+
+    expect(result).toBe('Summary');
+    expect(onDelta.mock.calls).toEqual([['Sum'], ['mary']]);
+    const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual(
+      expect.objectContaining({ stream: true })
+    );
+  });
+
+  it('should only send the JSON schema to the gateway', async () => {
+    const responseFormat = { name: 'items', schema: { type: 'object' } };
+    settings['summaryLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:8080/v1',
+      model: 'qwen2.5',
+      apiKey: '',
+    };
+
+    await service.chat(messages, 'aai-key', {
+      useCase: 'summary',
+      responseFormat,
+    });
+    await service.chat(messages, 'aai-key', {
+      useCase: 'dictation',
+      responseFormat,
+    });
+
+    const [, endpointInit] = mockFetch.mock.calls[0] as [string, RequestInit];
+    const [, gatewayInit] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(JSON.parse(endpointInit.body as string)).not.toHaveProperty(
+      'response_format'
+    );
+    expect(JSON.parse(gatewayInit.body as string)).toEqual(
+      expect.objectContaining({
+        response_format: {
+          type: 'json_schema',
+          json_schema: { ...responseFormat, strict: true },
+        },
+      })
+    );
+  });
+
+  it('should reject an endpoint without a model', async () => {
+    settings['summaryLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      model: '',
+      apiKey: '',
+    };
+
+    await expect(
+      service.chat(messages, 'aai-key', { useCase: 'summary' })
+    ).rejects.toThrow('LLM endpoint requires a base URL and model');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should only need an AssemblyAI key for the gateway', () => {
+    settings['dictationLLM'] = {
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      apiKey: '',
+    };
+
+    expect(service.hasCredentials('dictation', '')).toBe(true);
+    expect(service.hasCredentials('summary', '')).toBe(false);
+    expect(service.hasCredentials('summary', 'aai-key')).toBe(true);
+  });
+});
@@ -23,6 +23,10 @@ describe('RecordingDataService', () => {
     getAllTranscripts: jest.Mock;
     searchTranscripts: jest.Mock;
     deleteTranscript: jest.Mock;
+    saveVersion: jest.Mock;
+    getVersions: jest.Mock;
+    readVersion: jest.Mock;
+    deleteVersion: jest.Mock;
   };
   let mockLogger: jest.Mocked<typeof Logger>;
   let store: ReturnType<typeof configureStore<RootState>>;
@@ -49,6 +53,10 @@ describe('RecordingDataService', () => {
       getAllTranscripts: jest.fn().mockResolvedValue([]),
       searchTranscripts: jest.fn().mockResolvedValue([]),
       deleteTranscript: jest.fn().mockResolvedValue(true),
+      saveVersion: jest.fn().mockResolvedValue(1),
+      getVersions: jest.fn().mockResolvedValue([]),
+      readVersion: jest.fn().mockResolvedValue(null),
+      deleteVersion: jest.fn().mockResolvedValue(undefined),
     };
 
     // Mock the logger
@@ -176,4 +184,159 @@ describe('RecordingDataService', () => {
       );
     });
   });
+
+  describe('replaceTranscript', () => {
+    it('should persist the transcript and reload it for the current recording', async () => {
+      await recordingDataService.newRecording();
+      const recordingId = store.getState().recordings.currentRecording?.id;
+      const transcript = '**Speaker A:** Hi\n\n**Speaker B:** Hello';
+
+      await recordingDataService.replaceTranscript(recordingId!, transcript);
+
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        recordingId,
+        { transcript }
+      );
+      expect(store.getState().recordings.currentRecording?.transcript).toBe(
+        transcript
+      );
+      expect(store.getState().transcription.currentTranscript).toBe(transcript);
+      expect(store.getState().transcription.segments).toEqual([
+        expect.objectContaining({ speaker: 'Speaker A', text: 'Hi' }),
+        expect.objectContaining({ speaker: 'Speaker B', text: 'Hello' }),
+      ]);
+    });
+
+    it('should not touch the store for other recordings', async () => {
+      await recordingDataService.newRecording();
+
+      await recordingDataService.replaceTranscript('other-id', 'Text');
+
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        'other-id',
+        { transcript: 'Text' }
+      );
+      expect(store.getState().recordings.currentRecording?.transcript).toBe('');
+    });
+
+    it('should keep the replaced transcript as a version', async () => {
+      mockTranscriptFileService.getTranscriptById.mockResolvedValue({
+        id: 'other-id',
+        title: 'Standup',
+        transcript: 'Hi Hello',
+        created_at: 1,
+        updated_at: 1,
+      });
+
+      await recordingDataService.replaceTranscript(
+        'other-id',
+        '**Speaker A:** Hi\n\n**Speaker B:** Hello'
+      );
+
+      expect(mockTranscriptFileService.saveVersion).toHaveBeenCalledWith(
+        'other-id',
+        'transcript',
+        'Hi Hello'
+      );
+    });
+  });
+
+  describe('applyGeneratedTitle', () => {
+    it('should rename an untitled current recording', async () => {
+      await recordingDataService.newRecording();
+      const recordingId = store.getState().recordings.currentRecording?.id;
+
+      const applied = await recordingDataService.applyGeneratedTitle(
+        recordingId!,
+        'Budget review'
+      );
+
+      expect(applied).toBe(true);
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        recordingId,
+        { title: 'Budget review' }
+      );
+      expect(store.getState().recordings.currentRecording?.title).toBe(
+        'Budget review'
+      );
+    });
+
+    it('should never replace a title the user typed', async () => {
+      mockTranscriptFileService.getTranscriptById.mockResolvedValue({
+        id: 'other-id',
+        title: 'Hiring sync',
+        created_at: 1,
+        updated_at: 1,
+      });
+
+      const applied = await recordingDataService.applyGeneratedTitle(
+        'other-id',
+        'Budget review'
+      );
+
+      expect(applied).toBe(false);
+      expect(mockTranscriptFileService.updateTranscript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summary versions', () => {
+    beforeEach(() => {
+      mockTranscriptFileService.getTranscriptById.mockResolvedValue({
+        id: 'rec-1',
+        title: 'Weekly sync',
+        summary: 'Old summary',
+        created_at: 1,
+        updated_at: 1,
+      });
+    });
+
+    it('should keep the replaced summary and record the template', async () => {
+      await recordingDataService.saveSummary('rec-1', 'New summary', 'Brief');
+
+      expect(mockTranscriptFileService.saveVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'summary',
+        'Old summary'
+      );
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        'rec-1',
+        { summary: 'New summary', summary_template: 'Brief' }
+      );
+    });
+
+    it('should not version a summary that did not change', async () => {
+      await recordingDataService.saveSummary('rec-1', 'Old summary');
+
+      expect(mockTranscriptFileService.saveVersion).not.toHaveBeenCalled();
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        'rec-1',
+        { summary: 'Old summary' }
+      );
+    });
+
+    it('should swap a stored summary back in', async () => {
+      mockTranscriptFileService.readVersion.mockResolvedValue('First summary');
+
+      const restored = await recordingDataService.restoreSummaryVersion(
+        'rec-1',
+        42
+      );
+
+      expect(restored).toBe(true);
+      expect(mockTranscriptFileService.saveVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'summary',
+        'Old summary'
+      );
+      expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+        'rec-1',
+        { summary: 'First summary' }
+      );
+      expect(mockTranscriptFileService.deleteVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'summary',
+        42
+      );
+    });
+  });
 });
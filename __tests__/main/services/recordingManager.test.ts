@@ -3,6 +3,7 @@ import { container } from 'tsyringe';
 
 import { DI_TOKENS } from '../../../src/main/di-tokens';
 import { RecordingManager } from '../../../src/main/services/recordingManager';
+import { startRecording } from '../../../src/main/store/slices/recordingSlice';
 import { resetTestContainer } from '../../test-helpers/container-setup';
 import {
   createMockStore,
@@ -68,7 +69,9 @@ function createDefaultTestState() {
 function createMockTranscriptionService() {
   return {
     createCombinedConnection: jest.fn(),
+    createSeparateConnection: jest.fn(),
     createMicrophoneOnlyConnection: jest.fn(),
+    diarizeAudioFile: jest.fn(),
     sendAudio: jest.fn(),
     sendKeepAlive: jest.fn(),
     closeConnections: jest.fn(),
@@ -97,6 +100,23 @@ describe('RecordingManager', () => {
   let mockTranscriptionService: ReturnType<
     typeof createMockTranscriptionService
   >;
+  let mockRecordingDataService: {
+    saveCurrentTranscription: jest.Mock;
+    saveSummary: jest.Mock;
+    updateAudioFilename: jest.Mock;
+    replaceTranscript: jest.Mock;
+    setRecordingStatus: jest.Mock;
+    applyGeneratedTitle: jest.Mock;
+    getRecordingTranscript: jest.Mock;
+  };
+  let mockAudioRecordingService: ReturnType<
+    typeof createMockAudioRecordingService
+  >;
+  let mockAudioConversionService: { convertRecording: jest.Mock };
+  let mockSummarizationService: {
+    summarizeTranscript: jest.Mock;
+    generateTitle: jest.Mock;
+  };
   let defaultState: ReturnType<typeof createDefaultTestState>;
 
   beforeEach(() => {
@@ -115,26 +135,42 @@ describe('RecordingManager', () => {
     mockLogger = createMockLogger();
     mockMainWindow = createMockBrowserWindow();
     mockTranscriptionService = createMockTranscriptionService();
+    mockRecordingDataService = {
+      saveCurrentTranscription: jest.fn(),
+      saveSummary: jest.fn(),
+      updateAudioFilename: jest.fn(),
+      replaceTranscript: jest.fn(),
+      setRecordingStatus: jest.fn(),
+      applyGeneratedTitle: jest.fn().mockResolvedValue(true),
+      getRecordingTranscript: jest.fn().mockResolvedValue('Saved transcript'),
+    };
+    mockAudioRecordingService = createMockAudioRecordingService();
+    mockAudioConversionService = {
+      convertRecording: jest.fn().mockResolvedValue('test-audio.wav'),
+    };
+    mockSummarizationService = {
+      summarizeTranscript: jest.fn(),
+      generateTitle: jest.fn().mockResolvedValue('Budget review'),
+    };
 
     // Register all mocks
     container.register(DI_TOKENS.Store, { useValue: mockStore });
     container.register(DI_TOKENS.Logger, { useValue: mockLogger });
     container.register(DI_TOKENS.MainWindow, { useValue: mockMainWindow });
     container.register(DI_TOKENS.RecordingDataService, {
-      useValue: {
-        saveCurrentTranscription: jest.fn(),
-        saveSummary: jest.fn(),
-        updateAudioFilename: jest.fn(),
-      },
+      useValue: mockRecordingDataService,
     });
     container.register(DI_TOKENS.TranscriptionService, {
       useValue: mockTranscriptionService,
     });
     container.register(DI_TOKENS.SummarizationService, {
-      useValue: { summarizeTranscript: jest.fn() },
+      useValue: mockSummarizationService,
     });
     container.register(DI_TOKENS.AudioRecordingService, {
-      useValue: createMockAudioRecordingService(),
+      useValue: mockAudioRecordingService,
+    });
+    container.register(DI_TOKENS.AudioConversionService, {
+      useValue: mockAudioConversionService,
     });
     container.register(DI_TOKENS.StateBroadcaster, {
       useValue: createMockStateBroadcaster(),
@@ -146,6 +182,9 @@ describe('RecordingManager', () => {
         captureException: jest.fn(),
       },
     });
+    container.register(DI_TOKENS.ActionItemService, {
+      useValue: { extractActionItems: jest.fn().mockResolvedValue([]) },
+    });
 
     recordingManager = container.resolve(RecordingManager);
   });
@@ -176,6 +215,51 @@ describe('RecordingManager', () => {
           onConnectionStatus: expect.any(Function),
         })
       );
+      // Marked in progress so a crash can be detected on next launch
+      expect(mockRecordingDataService.setRecordingStatus).toHaveBeenCalledWith(
+        'test-recording-id',
+        'recording'
+      );
+    });
+
+    it('should report reconnect attempts without failing the recording', async () => {
+      mockTranscriptionService.createCombinedConnection.mockResolvedValue({
+        microphone: { id: 'mic-1' },
+        system: null,
+      });
+      await recordingManager.startTranscription();
+      const callbacks = mockTranscriptionService.createCombinedConnection.mock
+        .calls[0]?.[1] as {
+        onError: (stream: string, error: Error) => void;
+        onConnectionStatus: (
+          stream: string,
+          connected: boolean,
+          nextRetryIn?: number
+        ) => void;
+      };
+      mockStore.dispatch.mockClear();
+
+      callbacks.onError(
+        'microphone',
+        new Error('Connection lost for microphone stream.')
+      );
+      callbacks.onConnectionStatus('microphone', false, 2000);
+
+      expect(mockStore.dispatch).toHaveBeenCalledTimes(1);
+      expect(mockStore.dispatch).toHaveBeenCalledWith({
+        type: 'recording/updateConnectionStatus',
+        payload: {
+          stream: 'microphone',
+          connected: false,
+          retrying: true,
+          nextRetryIn: 2000,
+        },
+      });
+      expect(
+        container.resolve<{ recordingConnection: jest.Mock }>(
+          DI_TOKENS.StateBroadcaster
+        ).recordingConnection
+      ).toHaveBeenCalledWith('microphone', false, 2000);
     });
 
     it('should fail when no current recording exists', async () => {
@@ -245,6 +329,33 @@ describe('RecordingManager', () => {
       );
     });
 
+    it('should start a local recording without an AssemblyAI key', async () => {
+      defaultState.settings = {
+        ...defaultState.settings,
+        assemblyaiKey: '',
+        transcriptionProvider: 'local',
+      } as typeof defaultState.settings;
+      mockTranscriptionService.createCombinedConnection.mockResolvedValue({
+        microphone: { id: 'mic-1' },
+        system: null,
+      });
+
+      const result = await recordingManager.startTranscription();
+
+      expect(result).toBe(true);
+      expect(
+        mockTranscriptionService.createCombinedConnection
+      ).toHaveBeenCalledWith('', expect.any(Object));
+
+      // The thunk that marks the recording as starting lets it through too
+      const action = await startRecording()(
+        jest.fn(),
+        () => defaultState as any,
+        undefined
+      );
+      expect(action.payload).toEqual({ recordingId: 'test-recording-id' });
+    });
+
     it('should handle transcription service errors', async () => {
       // Set up the state to pass the initial checks
       mockStore.getState.mockReturnValueOnce({
@@ -289,6 +400,105 @@ describe('RecordingManager', () => {
     });
   });
 
+  describe('speaker separation', () => {
+    beforeEach(() => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        recording: { ...defaultState.recording, status: 'recording' as const },
+        settings: {
+          ...defaultState.settings,
+          speakerSeparation: true,
+          postCallDiarization: true,
+        },
+      });
+      mockTranscriptionService.createSeparateConnection.mockResolvedValue({
+        microphone: { id: 'mic-1' },
+        system: { id: 'sys-1' },
+      });
+    });
+
+    it('should use separate connections and label final turns with offsets', async () => {
+      const result = await recordingManager.startTranscription();
+
+      expect(result).toBe(true);
+      expect(
+        mockTranscriptionService.createSeparateConnection
+      ).toHaveBeenCalled();
+      expect(
+        mockTranscriptionService.createCombinedConnection
+      ).not.toHaveBeenCalled();
+
+      const callbacks = mockTranscriptionService.createSeparateConnection.mock
+        .calls[0][1] as {
+        onTranscript: (data: {
+          text: string;
+          partial: boolean;
+          streamType: 'microphone' | 'system';
+          start?: number;
+          end?: number;
+        }) => void;
+      };
+      callbacks.onTranscript({
+        text: 'Sounds good',
+        partial: false,
+        streamType: 'system',
+        start: 12500,
+        end: 13250,
+      });
+
+      expect(mockStore.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            text: 'Sounds good',
+            speaker: 'Others',
+            start: 12.5,
+            end: 13.25,
+          }),
+        })
+      );
+    });
+
+    it('should route system audio to the system connection', async () => {
+      await recordingManager.startTranscription();
+      const audioData = new ArrayBuffer(1024);
+
+      recordingManager.sendSystemAudio(audioData);
+
+      expect(mockTranscriptionService.sendAudio).toHaveBeenCalledWith(
+        { id: 'sys-1' },
+        audioData
+      );
+      expect(mockAudioRecordingService.appendAudioData).toHaveBeenCalledWith(
+        'test-recording-id',
+        audioData,
+        'system'
+      );
+    });
+
+    it('should replace the transcript with diarized turns after stopping', async () => {
+      mockTranscriptionService.diarizeAudioFile.mockResolvedValue([
+        { speaker: 'A', text: 'Hi everyone', start: 0, end: 800 },
+        { speaker: 'B', text: 'Hello', start: 61000, end: 62400 },
+      ]);
+      (recordingManager as any).connections = {
+        microphone: { id: 'mic-1' },
+        system: { id: 'sys-1' },
+      };
+
+      await recordingManager.stopTranscription();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockTranscriptionService.diarizeAudioFile).toHaveBeenCalledWith(
+        'test-api-key',
+        '/path/to/audio.wav'
+      );
+      expect(mockRecordingDataService.replaceTranscript).toHaveBeenCalledWith(
+        'test-recording-id',
+        '[00:00:00] **Speaker A:** Hi everyone\n\n[00:01:01] **Speaker B:** Hello'
+      );
+    });
+  });
+
   describe('stopTranscription', () => {
     it('should successfully stop transcription', async () => {
       // Mock existing connections
@@ -310,6 +520,43 @@ describe('RecordingManager', () => {
         mockConnections
       );
       expect(mockStore.dispatch).toHaveBeenCalled();
+      expect(mockRecordingDataService.setRecordingStatus).toHaveBeenCalledWith(
+        'test-recording-id',
+        'complete'
+      );
+    });
+
+    it('should convert the saved audio to the storage format after stopping', async () => {
+      await recordingManager.stopTranscription();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockAudioConversionService.convertRecording).toHaveBeenCalledWith(
+        'test-recording-id',
+        'test-audio.wav'
+      );
+    });
+
+    it('should name an untitled recording after stopping', async () => {
+      defaultState.recordings.currentRecording.title = 'New Recording';
+
+      await recordingManager.stopTranscription();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSummarizationService.generateTitle).toHaveBeenCalledWith(
+        'Test transcript content',
+        'test-api-key'
+      );
+      expect(mockRecordingDataService.applyGeneratedTitle).toHaveBeenCalledWith(
+        'test-recording-id',
+        'Budget review'
+      );
+    });
+
+    it('should leave a recording the user has named alone', async () => {
+      await recordingManager.stopTranscription();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSummarizationService.generateTitle).not.toHaveBeenCalled();
     });
 
     it('should handle stop errors gracefully', async () => {
@@ -373,6 +620,99 @@ describe('RecordingManager', () => {
     });
   });
 
+  describe('stereo recording', () => {
+    beforeEach(() => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        recording: { ...defaultState.recording, status: 'recording' as const },
+        settings: { ...defaultState.settings, stereoRecording: true },
+      });
+      mockTranscriptionService.createCombinedConnection.mockResolvedValue({
+        microphone: { id: 'mic-1' },
+        system: null,
+      });
+    });
+
+    it('should open a two-channel audio file', async () => {
+      await recordingManager.startTranscription();
+
+      expect(mockAudioRecordingService.startRecording).toHaveBeenCalledWith(
+        'test-recording-id',
+        2
+      );
+    });
+
+    it('should archive unmixed sources instead of the combined stream', async () => {
+      await recordingManager.startTranscription();
+      const audioData = new ArrayBuffer(1024);
+
+      recordingManager.sendMicrophoneAudio(audioData);
+      recordingManager.sendArchiveAudio('system', audioData);
+
+      expect(mockAudioRecordingService.appendAudioData).toHaveBeenCalledTimes(
+        1
+      );
+      expect(mockAudioRecordingService.appendAudioData).toHaveBeenCalledWith(
+        'test-recording-id',
+        audioData,
+        'system'
+      );
+    });
+
+    it('should ignore archive audio for mono recordings', () => {
+      recordingManager.sendArchiveAudio('microphone', new ArrayBuffer(1024));
+
+      expect(mockAudioRecordingService.appendAudioData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should pause an active recording and drop incoming audio', () => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        recording: { ...defaultState.recording, status: 'recording' as const },
+      });
+
+      expect(recordingManager.pauseRecording()).toBe(true);
+      expect(mockStore.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'recording/pause' })
+      );
+
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        recording: { ...defaultState.recording, status: 'paused' as const },
+      });
+      (recordingManager as any).connections = { microphone: { id: 'mic-1' } };
+
+      recordingManager.sendMicrophoneAudio(new ArrayBuffer(1024));
+
+      expect(mockTranscriptionService.sendAudio).not.toHaveBeenCalled();
+      expect(mockAudioRecordingService.appendAudioData).not.toHaveBeenCalled();
+      expect(recordingManager.isRecording()).toBe(true);
+    });
+
+    it('should not pause when nothing is recording', () => {
+      expect(recordingManager.pauseRecording()).toBe(false);
+      expect(mockStore.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should resume a paused recording', () => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        recording: { ...defaultState.recording, status: 'paused' as const },
+      });
+
+      expect(recordingManager.resumeRecording()).toBe(true);
+      expect(mockStore.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'recording/resume' })
+      );
+    });
+
+    it('should not resume when not paused', () => {
+      expect(recordingManager.resumeRecording()).toBe(false);
+    });
+  });
+
   describe('summarizeTranscript', () => {
     it('should return false when no transcript available', async () => {
       mockStore.getState.mockReturnValueOnce({
@@ -396,7 +736,33 @@ describe('RecordingManager', () => {
       );
     });
 
+    it('should return false when no recording is open', async () => {
+      mockStore.getState.mockReturnValueOnce({
+        ...defaultState,
+        transcription: {
+          currentTranscript: 'Test transcript content',
+          isTranscribing: false,
+        },
+        recordings: { currentRecording: null },
+      });
+
+      const result = await recordingManager.summarizeTranscript();
+
+      expect(result).toBe(false);
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).not.toHaveBeenCalled();
+      expect(mockMainWindow.webContents.send).not.toHaveBeenCalledWith(
+        'summarization-started',
+        expect.anything()
+      );
+    });
+
     it('should handle missing API key', async () => {
+      // Thrown by the LLM gateway; an OpenAI-compatible backend needs no key
+      mockSummarizationService.summarizeTranscript.mockRejectedValue(
+        new Error('AssemblyAI API key not available')
+      );
       mockStore.getState.mockReturnValueOnce({
         recording: {
           status: 'idle',
@@ -428,6 +794,211 @@ describe('RecordingManager', () => {
         'Error during summarization: AssemblyAI API key not available'
       );
     });
+
+    it('should push partial summary text to the renderer', async () => {
+      mockSummarizationService.summarizeTranscript.mockImplementation(
+        (
+          _transcript: string,
+          _prompt: string,
+          _apiKey: string,
+          options: { onPartial: (text: string) => void }
+        ) => {
+          options.onPartial('## Key');
+          options.onPartial('## Key points');
+          return Promise.resolve('## Key points');
+        }
+      );
+
+      const result = await recordingManager.summarizeTranscript();
+
+      expect(result).toBe(true);
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+        'summary-partial',
+        { text: '## Key', recordingId: 'test-recording-id' }
+      );
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith('summary', {
+        text: '## Key points',
+        recordingId: 'test-recording-id',
+      });
+    });
+
+    it('should summarize with the chosen template and remember it', async () => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        settings: {
+          ...defaultState.settings,
+          summaryPrompt: 'Last used',
+          prompts: [{ name: 'Decisions', content: 'List the decisions' }],
+        },
+      });
+      mockSummarizationService.summarizeTranscript.mockResolvedValue(
+        '- Ship it'
+      );
+
+      const result = await recordingManager.summarizeTranscript(
+        undefined,
+        'Decisions'
+      );
+
+      expect(result).toBe(true);
+      expect(mockSummarizationService.summarizeTranscript).toHaveBeenCalledWith(
+        'Test transcript content',
+        'List the decisions',
+        'test-api-key',
+        expect.any(Object)
+      );
+      expect(mockRecordingDataService.saveSummary).toHaveBeenCalledWith(
+        'test-recording-id',
+        '- Ship it',
+        'Decisions'
+      );
+    });
+
+    it('should keep the existing summary when stopped', async () => {
+      mockSummarizationService.summarizeTranscript.mockImplementation(
+        (
+          _transcript: string,
+          _prompt: string,
+          _apiKey: string,
+          options: { signal: AbortSignal }
+        ) =>
+          new Promise((_resolve, reject) => {
+            options.signal.addEventListener('abort', () => {
+              reject(new Error('This operation was aborted'));
+            });
+          })
+      );
+
+      const summarizing = recordingManager.summarizeTranscript();
+      expect(recordingManager.stopSummarization()).toBe(true);
+
+      expect(await summarizing).toBe(false);
+      expect(mockMainWindow.webContents.send).not.toHaveBeenCalledWith(
+        'summary',
+        expect.anything()
+      );
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+        'summarization-completed',
+        { recordingId: 'test-recording-id' }
+      );
+      expect(mockRecordingDataService.saveSummary).not.toHaveBeenCalled();
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(recordingManager.stopSummarization()).toBe(false);
+    });
+  });
+
+  describe('automatic summaries', () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should summarize with the chosen template after stopping', async () => {
+      mockStore.getState.mockReturnValue({
+        ...defaultState,
+        settings: {
+          ...defaultState.settings,
+          summaryPrompt: 'Last used',
+          autoSummarize: true,
+          autoSummaryTemplate: 'Decisions',
+          prompts: [{ name: 'Decisions', content: 'List the decisions' }],
+        },
+      });
+      mockSummarizationService.summarizeTranscript.mockResolvedValue(
+        '- Ship it'
+      );
+
+      await recordingManager.stopTranscription();
+      await flush();
+
+      expect(mockSummarizationService.summarizeTranscript).toHaveBeenCalledWith(
+        'Test transcript content',
+        'List the decisions',
+        'test-api-key',
+        expect.any(Object)
+      );
+      expect(mockRecordingDataService.saveSummary).toHaveBeenCalledWith(
+        'test-recording-id',
+        '- Ship it',
+        'Decisions'
+      );
+    });
+
+    it('should not summarize after stopping when turned off', async () => {
+      await recordingManager.stopTranscription();
+      await flush();
+
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should run queued summaries one at a time', async () => {
+      const pending: ((summary: string) => void)[] = [];
+      mockSummarizationService.summarizeTranscript.mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            pending.push(resolve);
+          })
+      );
+
+      recordingManager.enqueueAutoSummary('rec-1', 'First meeting');
+      recordingManager.enqueueAutoSummary('rec-2', 'Second meeting');
+      await flush();
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).toHaveBeenCalledTimes(1);
+
+      pending[0]?.('First summary');
+      await flush();
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).toHaveBeenCalledTimes(2);
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).toHaveBeenLastCalledWith(
+        'Second meeting',
+        expect.any(String),
+        'test-api-key',
+        expect.any(Object)
+      );
+      expect(mockRecordingDataService.saveSummary).toHaveBeenCalledWith(
+        'rec-1',
+        'First summary',
+        undefined
+      );
+    });
+
+    it('should report a failure and retry with the saved transcript', async () => {
+      mockSummarizationService.summarizeTranscript.mockRejectedValueOnce(
+        new Error('Gateway unavailable')
+      );
+
+      recordingManager.enqueueAutoSummary('rec-1', 'First meeting');
+      await flush();
+
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+        'auto-summary-failed',
+        { recordingId: 'rec-1', error: 'Gateway unavailable' }
+      );
+
+      mockSummarizationService.summarizeTranscript.mockResolvedValue('Summary');
+      await expect(recordingManager.retryAutoSummary('rec-1')).resolves.toBe(
+        true
+      );
+      await flush();
+
+      expect(
+        mockSummarizationService.summarizeTranscript
+      ).toHaveBeenLastCalledWith(
+        'Saved transcript',
+        expect.any(String),
+        'test-api-key',
+        expect.any(Object)
+      );
+      expect(mockRecordingDataService.saveSummary).toHaveBeenCalledWith(
+        'rec-1',
+        'Summary',
+        undefined
+      );
+    });
   });
 
   describe('cleanup', () => {
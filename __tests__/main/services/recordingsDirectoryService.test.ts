@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { app } from 'electron';
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { AudioRecordingService } from '../../../src/main/services/audioRecordingService.js';
+import { RecordingsDirectoryService } from '../../../src/main/services/recordingsDirectoryService.js';
+import { TranscriptFileService } from '../../../src/main/services/transcriptFileService.js';
+
+jest.mock('electron-log');
+
+const mockApp = app as jest.Mocked<typeof app>;
+
+describe('RecordingsDirectoryService', () => {
+  let tmpDir: string;
+  let defaultDir: string;
+  let vaultDir: string;
+  let storedSettings: Record<string, string>;
+  let mockSettingsService: { getSetting: jest.Mock; updateSettings: jest.Mock };
+  let transcriptFileService: TranscriptFileService;
+  let audioRecordingService: AudioRecordingService;
+  let service: RecordingsDirectoryService;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recordings-dir-'));
+    defaultDir = path.join(tmpDir, 'userData', 'recordings');
+    vaultDir = path.join(tmpDir, 'Vault');
+    await fs.mkdir(defaultDir, { recursive: true });
+    await fs.mkdir(vaultDir);
+    mockApp.getPath.mockReturnValue(path.join(tmpDir, 'userData'));
+
+    storedSettings = { recordingsDirectory: '', audioSubfolder: '' };
+    mockSettingsService = {
+      getSetting: jest.fn((key: string) => storedSettings[key]),
+      updateSettings: jest.fn((updates: Record<string, string>) => {
+        Object.assign(storedSettings, updates);
+      }),
+    };
+
+    const child = container.createChildContainer();
+    child.registerInstance(DI_TOKENS.Logger, Logger);
+    child.registerInstance(DI_TOKENS.MainWindow, {} as any);
+    child.registerInstance(
+      DI_TOKENS.SettingsService,
+      mockSettingsService as any
+    );
+    child.registerInstance(DI_TOKENS.PostHogService, {
+      trackError: jest.fn(),
+    } as any);
+    transcriptFileService = child.resolve(TranscriptFileService);
+    audioRecordingService = child.resolve(AudioRecordingService);
+    child.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      transcriptFileService
+    );
+    child.registerInstance(
+      DI_TOKENS.AudioRecordingService,
+      audioRecordingService
+    );
+    service = child.resolve(RecordingsDirectoryService);
+
+    await transcriptFileService.saveTranscript({
+      id: 'rec-1',
+      title: 'Standup',
+      transcript: 'Morning.',
+      audio_filename: '2024-03-15_standup.wav',
+      created_at: Date.parse('2024-03-15T09:00:00Z'),
+      updated_at: Date.parse('2024-03-15T09:15:00Z'),
+    });
+    await fs.writeFile(
+      path.join(defaultDir, '2024-03-15_standup.wav'),
+      Buffer.from([1, 2, 3])
+    );
+    await transcriptFileService.saveChatHistory('rec-1', [
+      { role: 'user', content: 'Who owns QA?', created_at: 1 },
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should move notes, sidecars and audio into a vault subfolder', async () => {
+    await fs.writeFile(path.join(vaultDir, 'Ideas.md'), '# My own note\n');
+
+    const result = await service.moveRecordings(vaultDir, 'audio');
+
+    expect(result).toEqual({ recordings: 1, files: 3 });
+    expect(await fs.readdir(defaultDir)).toEqual(['.assembly-notes']);
+    // Sidecars stay in a hidden folder the vault app does not index
+    expect((await fs.readdir(vaultDir)).sort()).toEqual([
+      '.assembly-notes',
+      '2024-03-15_standup.md',
+      'Ideas.md',
+      'audio',
+    ]);
+    expect(
+      await fs.readFile(path.join(vaultDir, 'audio', '2024-03-15_standup.wav'))
+    ).toEqual(Buffer.from([1, 2, 3]));
+    expect(mockSettingsService.updateSettings).toHaveBeenCalledWith({
+      recordingsDirectory: vaultDir,
+      audioSubfolder: 'audio',
+    });
+
+    // The services now read from the vault, ignoring the vault's own notes
+    const recordings = await transcriptFileService.getAllTranscripts();
+    expect(recordings.map((recording) => recording.id)).toEqual(['rec-1']);
+    expect(await transcriptFileService.getChatHistory('rec-1')).toHaveLength(1);
+    expect(
+      await audioRecordingService.resolveAudioFilePath('2024-03-15_standup.wav')
+    ).toBe(path.join(vaultDir, 'audio', '2024-03-15_standup.wav'));
+  });
+
+  it('should leave everything in place when the target has a clashing file', async () => {
+    await fs.writeFile(
+      path.join(vaultDir, '2024-03-15_standup.md'),
+      '# Someone else\n'
+    );
+
+    await expect(service.moveRecordings(vaultDir, '')).rejects.toThrow(
+      'already exists'
+    );
+
+    expect(transcriptFileService.getTranscriptsDir()).toBe(defaultDir);
+    expect(mockSettingsService.updateSettings).not.toHaveBeenCalled();
+    expect(await fs.readdir(vaultDir)).toEqual(['2024-03-15_standup.md']);
+    expect((await fs.readdir(defaultDir)).sort()).toEqual([
+      '.assembly-notes',
+      '2024-03-15_standup.md',
+      '2024-03-15_standup.wav',
+    ]);
+  });
+
+  it('should only move audio when just the subfolder changes', async () => {
+    const result = await service.moveRecordings('', 'audio');
+
+    expect(result).toEqual({ recordings: 1, files: 1 });
+    expect(
+      await fs.access(path.join(defaultDir, 'audio', '2024-03-15_standup.wav'))
+    ).toBeUndefined();
+  });
+
+  it('should refuse to move while recording', async () => {
+    audioRecordingService.startRecording('rec-2');
+
+    await expect(service.moveRecordings(vaultDir, '')).rejects.toThrow(
+      'Stop the current recording'
+    );
+    audioRecordingService.cleanup();
+  });
+
+  it('should reject audio subfolders outside the recordings folder', async () => {
+    await expect(service.moveRecordings(vaultDir, '../audio')).rejects.toThrow(
+      'single folder name'
+    );
+  });
+
+  it('should apply the configured directory at startup', () => {
+    storedSettings = { recordingsDirectory: vaultDir, audioSubfolder: 'audio' };
+
+    service.applyConfiguredDirectory();
+
+    expect(transcriptFileService.getTranscriptsDir()).toBe(vaultDir);
+    expect(audioRecordingService.getAudioFilePath('a.wav')).toBe(
+      path.join(vaultDir, 'audio', 'a.wav')
+    );
+  });
+});
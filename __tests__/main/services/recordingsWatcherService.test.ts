@@ -0,0 +1,164 @@
+import { watch } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { app } from 'electron';
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { RecordingsWatcherService } from '../../../src/main/services/recordingsWatcherService.js';
+import { TranscriptFileService } from '../../../src/main/services/transcriptFileService.js';
+import {
+  recordingsRemoved,
+  recordingsUpserted,
+} from '../../../src/main/store/slices/recordingsSlice.js';
+
+jest.mock('electron-log');
+jest.mock('fs', () => ({
+  ...jest.requireActual<typeof import('fs')>('fs'),
+  watch: jest.fn(),
+}));
+
+const mockApp = app as jest.Mocked<typeof app>;
+const mockWatch = watch as jest.MockedFunction<typeof watch>;
+
+describe('RecordingsWatcherService', () => {
+  let tmpDir: string;
+  let recordingsDir: string;
+  let mockStore: { dispatch: jest.Mock; getState: jest.Mock };
+  let mockBroadcaster: {
+    recordingsUpserted: jest.Mock;
+    recordingsRemoved: jest.Mock;
+  };
+  let mockWatcher: { on: jest.Mock; close: jest.Mock };
+  let transcriptFileService: TranscriptFileService;
+  let service: RecordingsWatcherService;
+  let filename: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recordings-watch-'));
+    recordingsDir = path.join(tmpDir, 'recordings');
+    mockApp.getPath.mockReturnValue(tmpDir);
+    mockWatcher = { on: jest.fn(), close: jest.fn() };
+    mockWatch.mockReturnValue(mockWatcher as any);
+
+    mockStore = { dispatch: jest.fn(), getState: jest.fn() };
+    mockBroadcaster = {
+      recordingsUpserted: jest.fn(),
+      recordingsRemoved: jest.fn(),
+    };
+
+    const child = container.createChildContainer();
+    child.registerInstance(DI_TOKENS.Logger, Logger);
+    child.registerInstance(DI_TOKENS.Store, mockStore as any);
+    child.registerInstance(DI_TOKENS.StateBroadcaster, mockBroadcaster as any);
+    transcriptFileService = child.resolve(TranscriptFileService);
+    child.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      transcriptFileService
+    );
+    service = child.resolve(RecordingsWatcherService);
+
+    filename = await transcriptFileService.saveTranscript({
+      id: 'rec-1',
+      title: 'Standup',
+      transcript: 'Morning.',
+      summary: 'Short standup.',
+      created_at: Date.parse('2024-03-15T09:00:00Z'),
+      updated_at: Date.parse('2024-03-15T09:15:00Z'),
+    });
+    await service.start();
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const editFile = async (name: string, edit: (content: string) => string) => {
+    const filePath = path.join(recordingsDir, name);
+    await fs.writeFile(filePath, edit(await fs.readFile(filePath, 'utf-8')));
+  };
+
+  it('should watch the recordings folder', () => {
+    expect(mockWatch).toHaveBeenCalledWith(recordingsDir, expect.any(Function));
+  });
+
+  it('should publish recordings edited in another app', async () => {
+    await editFile(filename, (content) =>
+      content.replace('Short standup.', 'Edited in the vault.')
+    );
+
+    await service.syncChanges();
+
+    const recording = expect.objectContaining({
+      id: 'rec-1',
+      filename,
+      summary: 'Edited in the vault.',
+    });
+    expect(mockBroadcaster.recordingsUpserted).toHaveBeenCalledWith([
+      recording,
+    ]);
+    expect(mockStore.dispatch).toHaveBeenCalledWith(
+      recordingsUpserted([recording])
+    );
+    expect(mockBroadcaster.recordingsRemoved).not.toHaveBeenCalled();
+  });
+
+  it('should ignore changes made by the app itself', async () => {
+    await transcriptFileService.updateTranscript('rec-1', {
+      summary: 'Saved in the app',
+    });
+    // A rename by the app removes the old file
+    await transcriptFileService.updateTranscript('rec-1', {
+      title: 'Daily Standup',
+    });
+
+    await service.syncChanges();
+
+    expect(mockBroadcaster.recordingsUpserted).not.toHaveBeenCalled();
+    expect(mockBroadcaster.recordingsRemoved).not.toHaveBeenCalled();
+  });
+
+  it('should treat a renamed file as the same recording', async () => {
+    await fs.rename(
+      path.join(recordingsDir, filename),
+      path.join(recordingsDir, 'Standup notes.md')
+    );
+
+    await service.syncChanges();
+
+    expect(mockBroadcaster.recordingsUpserted).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'rec-1', filename: 'Standup notes.md' }),
+    ]);
+    expect(mockBroadcaster.recordingsRemoved).not.toHaveBeenCalled();
+  });
+
+  it('should publish recordings deleted outside the app', async () => {
+    await fs.rm(path.join(recordingsDir, filename));
+
+    await service.syncChanges();
+
+    expect(mockBroadcaster.recordingsRemoved).toHaveBeenCalledWith(['rec-1']);
+    expect(mockStore.dispatch).toHaveBeenCalledWith(
+      recordingsRemoved(['rec-1'])
+    );
+  });
+
+  it('should pick up new recordings and skip other notes', async () => {
+    await fs.writeFile(path.join(recordingsDir, 'Ideas.md'), '# My note\n');
+    await fs.writeFile(
+      path.join(recordingsDir, 'Synced.md'),
+      '---\nid: rec-2\ntitle: Synced\ncreated_at: 1\nupdated_at: 2\n---\n\n# Synced\n\n## Transcript\n\nHello\n'
+    );
+
+    await service.syncChanges();
+
+    expect(mockBroadcaster.recordingsUpserted).toHaveBeenCalledTimes(1);
+    expect(mockBroadcaster.recordingsUpserted).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'rec-2', title: 'Synced' }),
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { RecoveryService } from '../../../src/main/services/recoveryService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+
+describe('RecoveryService', () => {
+  let service: RecoveryService;
+  let mockTranscriptFileService: {
+    getAllTranscripts: jest.Mock;
+    updateTranscript: jest.Mock;
+  };
+  let mockAudioRecordingService: {
+    recoverPartialRecordings: jest.Mock;
+  };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const baseRecord = {
+    title: 'Meeting',
+    transcript: 'Hello there.',
+    summary: '',
+    created_at: 1710460800000,
+    updated_at: 1710460800000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockTranscriptFileService = {
+      getAllTranscripts: jest.fn().mockResolvedValue([]),
+      updateTranscript: jest.fn().mockResolvedValue(true),
+    };
+    mockAudioRecordingService = {
+      recoverPartialRecordings: jest.fn().mockResolvedValue([]),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.AudioRecordingService,
+      mockAudioRecordingService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(RecoveryService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it('should mark recordings left in progress as interrupted', async () => {
+    mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+      { ...baseRecord, id: 'crashed', status: 'recording' },
+      { ...baseRecord, id: 'finished' },
+    ]);
+
+    const result = await service.recoverInterruptedRecordings();
+
+    expect(result.map((r) => r.id)).toEqual(['crashed']);
+    expect(result[0]?.status).toBe('interrupted');
+    expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledTimes(1);
+    expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+      'crashed',
+      { status: 'interrupted' }
+    );
+  });
+
+  it('should attach recovered partial audio to its recording', async () => {
+    mockAudioRecordingService.recoverPartialRecordings.mockResolvedValue([
+      { recordingId: 'crashed', filename: 'crashed.wav' },
+    ]);
+    mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+      { ...baseRecord, id: 'crashed', status: 'recording' },
+    ]);
+
+    const result = await service.recoverInterruptedRecordings();
+
+    expect(result[0]?.audio_filename).toBe('crashed.wav');
+    expect(mockTranscriptFileService.updateTranscript).toHaveBeenCalledWith(
+      'crashed',
+      { status: 'interrupted', audio_filename: 'crashed.wav' }
+    );
+  });
+
+  it('should return nothing when every recording finished cleanly', async () => {
+    mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+      { ...baseRecord, id: 'finished' },
+      { ...baseRecord, id: 'old-crash', status: 'interrupted' },
+    ]);
+
+    const result = await service.recoverInterruptedRecordings();
+
+    expect(result).toEqual([]);
+    expect(mockTranscriptFileService.updateTranscript).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when one recording fails to update', async () => {
+    const error = new Error('Disk full');
+    mockTranscriptFileService.getAllTranscripts.mockResolvedValue([
+      { ...baseRecord, id: 'first', status: 'recording' },
+      { ...baseRecord, id: 'second', status: 'recording' },
+    ]);
+    mockTranscriptFileService.updateTranscript
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce(true);
+
+    const result = await service.recoverInterruptedRecordings();
+
+    expect(result.map((r) => r.id)).toEqual(['second']);
+    expect(mockPostHog.trackError).toHaveBeenCalledWith(
+      error,
+      expect.objectContaining({ recordingId: 'first' })
+    );
+  });
+});
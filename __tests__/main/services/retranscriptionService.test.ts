@@ -0,0 +1,200 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { RetranscriptionService } from '../../../src/main/services/retranscriptionService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+
+describe('RetranscriptionService', () => {
+  let service: RetranscriptionService;
+  let state: {
+    recording: { status: string };
+    recordings: { currentRecording: { id: string } | null };
+    settings: { assemblyaiKey: string };
+  };
+  let mockFileTranscriber: { transcribeFile: jest.Mock };
+  let mockTranscriptFileService: {
+    getTranscriptById: jest.Mock;
+    saveVersion: jest.Mock;
+    getVersions: jest.Mock;
+    readVersion: jest.Mock;
+    deleteVersion: jest.Mock;
+  };
+  let mockRecordingDataService: { replaceTranscript: jest.Mock };
+  let mockAudioRecordingService: { resolveAudioFilePath: jest.Mock };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const savedRecording = {
+    id: 'rec-1',
+    title: 'Weekly sync',
+    transcript: 'Hello... [connection lost]',
+    audio_filename: '2024-03-15_weekly-sync.wav',
+    created_at: 1710460800000,
+    updated_at: 1710460800000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    state = {
+      recording: { status: 'idle' },
+      recordings: { currentRecording: null },
+      settings: { assemblyaiKey: 'test-api-key' },
+    };
+    mockFileTranscriber = {
+      transcribeFile: jest
+        .fn()
+        .mockResolvedValue([
+          { speaker: 'A', text: 'Hello everyone.', start: 0, end: 1200 },
+        ]),
+    };
+    mockTranscriptFileService = {
+      getTranscriptById: jest.fn().mockResolvedValue(savedRecording),
+      saveVersion: jest.fn().mockResolvedValue(1710470000000),
+      getVersions: jest.fn().mockResolvedValue([]),
+      readVersion: jest.fn().mockResolvedValue(null),
+      deleteVersion: jest.fn().mockResolvedValue(undefined),
+    };
+    mockRecordingDataService = {
+      replaceTranscript: jest.fn().mockResolvedValue(undefined),
+    };
+    mockAudioRecordingService = {
+      resolveAudioFilePath: jest
+        .fn()
+        .mockResolvedValue('/recordings/2024-03-15_weekly-sync.flac'),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => state,
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.FileTranscriber,
+      mockFileTranscriber as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.RecordingDataService,
+      mockRecordingDataService as any
+    );
+    container.registerInstance(
+      DI_TOKENS.AudioRecordingService,
+      mockAudioRecordingService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(RetranscriptionService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  describe('retranscribe', () => {
+    it('should keep the old transcript and replace it from the saved audio', async () => {
+      const result = await service.retranscribe('rec-1');
+
+      expect(result).toBe(true);
+      expect(mockFileTranscriber.transcribeFile).toHaveBeenCalledWith(
+        'test-api-key',
+        '/recordings/2024-03-15_weekly-sync.flac'
+      );
+      expect(mockTranscriptFileService.saveVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'transcript',
+        'Hello... [connection lost]'
+      );
+      expect(mockRecordingDataService.replaceTranscript).toHaveBeenCalledWith(
+        'rec-1',
+        '[00:00:00] **Speaker A:** Hello everyone.'
+      );
+    });
+
+    it('should refuse while the recording is in progress', async () => {
+      state.recording.status = 'recording';
+      state.recordings.currentRecording = { id: 'rec-1' };
+
+      const result = await service.retranscribe('rec-1');
+
+      expect(result).toBe(false);
+      expect(mockFileTranscriber.transcribeFile).not.toHaveBeenCalled();
+    });
+
+    it('should fail without saved audio', async () => {
+      mockAudioRecordingService.resolveAudioFilePath.mockResolvedValue(null);
+
+      const result = await service.retranscribe('rec-1');
+
+      expect(result).toBe(false);
+      expect(mockFileTranscriber.transcribeFile).not.toHaveBeenCalled();
+    });
+
+    it('should leave the transcript untouched when transcription fails', async () => {
+      mockFileTranscriber.transcribeFile.mockRejectedValue(
+        new Error('Transcription failed: Upload timed out')
+      );
+
+      const result = await service.retranscribe('rec-1');
+
+      expect(result).toBe(false);
+      expect(mockTranscriptFileService.saveVersion).not.toHaveBeenCalled();
+      expect(mockRecordingDataService.replaceTranscript).not.toHaveBeenCalled();
+      expect(mockPostHog.trackError).toHaveBeenCalled();
+    });
+
+    it('should leave the transcript untouched when no speech is found', async () => {
+      mockFileTranscriber.transcribeFile.mockResolvedValue([]);
+
+      const result = await service.retranscribe('rec-1');
+
+      expect(result).toBe(false);
+      expect(mockRecordingDataService.replaceTranscript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreTranscriptVersion', () => {
+    it('should swap the stored version back in', async () => {
+      mockTranscriptFileService.readVersion.mockResolvedValue(
+        'Hello... [connection lost]'
+      );
+      mockTranscriptFileService.getTranscriptById.mockResolvedValue({
+        ...savedRecording,
+        transcript: '[00:00:00] **Speaker A:** Hello everyone.',
+      });
+
+      const result = await service.restoreTranscriptVersion(
+        'rec-1',
+        1710460900000
+      );
+
+      expect(result).toBe(true);
+      expect(mockTranscriptFileService.saveVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'transcript',
+        '[00:00:00] **Speaker A:** Hello everyone.'
+      );
+      expect(mockRecordingDataService.replaceTranscript).toHaveBeenCalledWith(
+        'rec-1',
+        'Hello... [connection lost]'
+      );
+      expect(mockTranscriptFileService.deleteVersion).toHaveBeenCalledWith(
+        'rec-1',
+        'transcript',
+        1710460900000
+      );
+    });
+
+    it('should return false for an unknown version', async () => {
+      const result = await service.restoreTranscriptVersion('rec-1', 1);
+
+      expect(result).toBe(false);
+      expect(mockRecordingDataService.replaceTranscript).not.toHaveBeenCalled();
+    });
+  });
+});
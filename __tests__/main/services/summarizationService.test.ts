@@ -49,7 +49,8 @@ describe('SummarizationService', () => {
             content: expect.stringContaining(mockSummaryPrompt),
           }),
         ]),
-        mockApiKey
+        mockApiKey,
+        { useCase: 'summary' }
       );
     });
 
@@ -74,26 +75,49 @@ describe('SummarizationService', () => {
       expect(userMessage.content).toContain(mockTranscript);
     });
 
-    it('should throw error when API key is missing', async () => {
-      await expect(
-        summarizationService.summarizeTranscript(
-          mockTranscript,
-          mockSummaryPrompt,
-          ''
-        )
-      ).rejects.toThrow('AssemblyAI API key not available');
+    it('should report the summary generated so far while streaming', async () => {
+      mockLLMGatewayService.chat.mockImplementation(
+        (_messages, _apiKey, options: { onDelta: (text: string) => void }) => {
+          options.onDelta('Mock ');
+          options.onDelta('summary');
+          return Promise.resolve('Mock summary');
+        }
+      );
+      const onPartial = jest.fn();
+      const controller = new AbortController();
 
-      expect(mockLLMGatewayService.chat).not.toHaveBeenCalled();
+      await summarizationService.summarizeTranscript(
+        mockTranscript,
+        mockSummaryPrompt,
+        mockApiKey,
+        { onPartial, signal: controller.signal }
+      );
+
+      expect(onPartial.mock.calls).toEqual([['Mock '], ['Mock summary']]);
+      expect(mockLLMGatewayService.chat).toHaveBeenCalledWith(
+        expect.any(Array),
+        mockApiKey,
+        expect.objectContaining({
+          useCase: 'summary',
+          signal: controller.signal,
+        })
+      );
     });
 
-    it('should throw error when API key is null', async () => {
-      await expect(
-        summarizationService.summarizeTranscript(
-          mockTranscript,
-          mockSummaryPrompt,
-          null as any
-        )
-      ).rejects.toThrow('AssemblyAI API key not available');
+    it('should leave the API key check to the LLM backend', async () => {
+      // An OpenAI-compatible endpoint runs without an AssemblyAI key
+      const result = await summarizationService.summarizeTranscript(
+        mockTranscript,
+        mockSummaryPrompt,
+        ''
+      );
+
+      expect(result).toBe(mockResponse);
+      expect(mockLLMGatewayService.chat).toHaveBeenCalledWith(
+        expect.any(Array),
+        '',
+        { useCase: 'summary' }
+      );
     });
 
     it('should handle LLM Gateway errors', async () => {
@@ -170,4 +194,106 @@ describe('SummarizationService', () => {
       expect(userMessage.content).toContain(specialTranscript);
     });
   });
+
+  describe('long transcripts', () => {
+    // About 20k estimated tokens, over the single-request budget
+    const turns = Array.from(
+      { length: 80 },
+      (_, i) =>
+        `[00:${String(i).padStart(2, '0')}:00] **Speaker A:** Turn ${String(i)}. ${'We discussed the roadmap. '.repeat(38)}`
+    );
+    const workshop = turns.join('\n\n');
+
+    const userContent = (call: number): string =>
+      (
+        mockLLMGatewayService.chat.mock.calls[call][0] as {
+          role: string;
+          content: string;
+        }[]
+      ).find((m) => m.role === 'user')?.content ?? '';
+
+    it('should summarize overlapping parts and merge them', async () => {
+      mockLLMGatewayService.chat
+        .mockResolvedValueOnce('Notes for part one')
+        .mockResolvedValueOnce('Notes for part two')
+        .mockResolvedValueOnce('Merged summary');
+      const onProgress = jest.fn();
+      const onPartial = jest.fn();
+
+      const result = await summarizationService.summarizeTranscript(
+        workshop,
+        'Sections:\n- Decisions',
+        'test-api-key',
+        { onProgress, onPartial }
+      );
+
+      expect(result).toBe('Merged summary');
+      expect(mockLLMGatewayService.chat).toHaveBeenCalledTimes(3);
+      expect(userContent(0)).toContain('part 1 of 2');
+      expect(userContent(0)).toContain('Turn 0.');
+      expect(userContent(1)).toContain('part 2 of 2');
+      expect(userContent(1)).toContain('Turn 79.');
+
+      // The second part repeats the end of the first
+      const lastTurnOfFirst = [...userContent(0).matchAll(/Turn (\d+)\./g)]
+        .map((match) => match[1])
+        .pop();
+      expect(userContent(1)).toContain(`Turn ${String(lastTurnOfFirst)}.`);
+
+      expect(userContent(2)).toContain('Sections:\n- Decisions');
+      expect(userContent(2)).toContain('Notes for part one');
+      expect(userContent(2)).toContain('Notes for part two');
+
+      // Only the final merge streams to the renderer
+      expect(mockLLMGatewayService.chat.mock.calls[0][2]).not.toHaveProperty(
+        'onDelta'
+      );
+      expect(mockLLMGatewayService.chat.mock.calls[2][2]).toHaveProperty(
+        'onDelta'
+      );
+      expect(onProgress.mock.calls).toEqual([
+        [{ stage: 'summarizing', completed: 0, total: 2 }],
+        [{ stage: 'summarizing', completed: 1, total: 2 }],
+        [{ stage: 'merging', completed: 2, total: 2 }],
+      ]);
+    });
+
+    it('should not go on to later parts once stopped', async () => {
+      const controller = new AbortController();
+      mockLLMGatewayService.chat.mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new Error('This operation was aborted'));
+      });
+
+      await expect(
+        summarizationService.summarizeTranscript(
+          workshop,
+          'Sections:\n- Decisions',
+          'test-api-key',
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow('This operation was aborted');
+      expect(mockLLMGatewayService.chat).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('generateTitle', () => {
+    it('should clean up the proposed title', async () => {
+      mockLLMGatewayService.chat.mockResolvedValue(
+        'Title: "Q3 roadmap review with design."\nSome explanation'
+      );
+
+      const title = await summarizationService.generateTitle(
+        'We went through the Q3 roadmap with the design team.',
+        'test-api-key'
+      );
+
+      expect(title).toBe('Q3 roadmap review with design');
+      expect(mockLLMGatewayService.chat).toHaveBeenCalledWith(
+        expect.any(Array),
+        'test-api-key',
+        expect.objectContaining({ useCase: 'summary' })
+      );
+    });
+  });
 });
@@ -0,0 +1,151 @@
+import Logger from 'electron-log';
+import { container } from 'tsyringe';
+
+import { DI_TOKENS } from '../../../src/main/di-tokens.js';
+import { TranscriptChatService } from '../../../src/main/services/transcriptChatService.js';
+
+// Mock dependencies
+jest.mock('electron-log');
+
+describe('TranscriptChatService', () => {
+  let service: TranscriptChatService;
+  let state: {
+    transcription: { currentTranscript: string };
+    recordings: {
+      currentRecording: {
+        id: string;
+        transcript?: string;
+        summary?: string;
+      } | null;
+    };
+    settings: { assemblyaiKey: string };
+  };
+  let mockLLMGateway: { chat: jest.Mock };
+  let mockTranscriptFileService: {
+    getTranscriptById: jest.Mock;
+    getChatHistory: jest.Mock;
+    saveChatHistory: jest.Mock;
+  };
+  let mockPostHog: { trackError: jest.Mock };
+
+  const history = [
+    { role: 'user', content: 'When is the launch?', created_at: 1 },
+    { role: 'assistant', content: 'March 3rd.', created_at: 2 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    state = {
+      transcription: { currentTranscript: '' },
+      recordings: { currentRecording: null },
+      settings: { assemblyaiKey: 'test-api-key' },
+    };
+    mockLLMGateway = {
+      chat: jest.fn().mockResolvedValue('Sam will update the test plan.'),
+    };
+    mockTranscriptFileService = {
+      getTranscriptById: jest.fn().mockResolvedValue({
+        id: 'rec-1',
+        transcript: '[00:01:05] **Sam:** I will update the test plan.',
+        summary: '## Action Items\n- Update test plan - Sam',
+        created_at: 1,
+        updated_at: 1,
+      }),
+      getChatHistory: jest.fn().mockResolvedValue(history),
+      saveChatHistory: jest.fn().mockResolvedValue(undefined),
+    };
+    mockPostHog = { trackError: jest.fn() };
+
+    container.registerInstance(DI_TOKENS.Store, {
+      getState: () => state,
+    } as any);
+    container.registerInstance(DI_TOKENS.Logger, Logger);
+    container.registerInstance(
+      DI_TOKENS.LLMGatewayService,
+      mockLLMGateway as any
+    );
+    container.registerInstance(
+      DI_TOKENS.TranscriptFileService,
+      mockTranscriptFileService as any
+    );
+    container.registerInstance(DI_TOKENS.PostHogService, mockPostHog as any);
+
+    service = container.resolve(TranscriptChatService);
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it('should answer with the transcript and earlier questions as context', async () => {
+    const result = await service.ask('rec-1', 'What did Sam commit to?');
+
+    const [messages, apiKey, options] = mockLLMGateway.chat.mock.calls[0];
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('I will update the test plan.');
+    expect(messages[0].content).toContain('Update test plan - Sam');
+    expect(messages.slice(1)).toEqual([
+      { role: 'user', content: 'When is the launch?' },
+      { role: 'assistant', content: 'March 3rd.' },
+      { role: 'user', content: 'What did Sam commit to?' },
+    ]);
+    expect(apiKey).toBe('test-api-key');
+    expect(options).toEqual({ useCase: 'summary' });
+
+    expect(result).toHaveLength(4);
+    expect(result[3]).toEqual(
+      expect.objectContaining({
+        role: 'assistant',
+        content: 'Sam will update the test plan.',
+      })
+    );
+    expect(mockTranscriptFileService.saveChatHistory).toHaveBeenCalledWith(
+      'rec-1',
+      result
+    );
+  });
+
+  it('should use the live transcript of the open recording', async () => {
+    state.recordings.currentRecording = { id: 'rec-1', transcript: '' };
+    state.transcription.currentTranscript = 'We are still talking.';
+
+    await service.ask('rec-1', 'What is being discussed?');
+
+    expect(mockTranscriptFileService.getTranscriptById).not.toHaveBeenCalled();
+    expect(mockLLMGateway.chat.mock.calls[0][0][0].content).toContain(
+      'We are still talking.'
+    );
+  });
+
+  it('should send only the relevant parts of a long transcript', async () => {
+    const filler = 'We went through the slides one more time. '.repeat(12);
+    const turns = Array.from(
+      { length: 200 },
+      (_, i) => `**Alex:** Part ${String(i)}. ${filler}`
+    );
+    turns[150] = '**Sam:** The budget was approved by finance.';
+    state.recordings.currentRecording = {
+      id: 'rec-1',
+      transcript: turns.join('\n\n'),
+    };
+
+    await service.ask('rec-1', 'Was the budget approved?');
+
+    const content: string = mockLLMGateway.chat.mock.calls[0][0][0].content;
+    expect(content).toContain('The budget was approved by finance.');
+    expect(content).toContain('too long to include in full');
+    expect(content).toContain('[…]');
+    expect(content.length).toBeLessThan(17_000 * 4);
+  });
+
+  it('should not keep an unanswered question', async () => {
+    mockLLMGateway.chat.mockRejectedValue(new Error('LLM Gateway error: 500'));
+
+    await expect(service.ask('rec-1', 'Anything else?')).rejects.toThrow(
+      'LLM Gateway error: 500'
+    );
+    expect(mockTranscriptFileService.saveChatHistory).not.toHaveBeenCalled();
+    expect(mockPostHog.trackError).toHaveBeenCalled();
+  });
+});
@@ -160,11 +160,35 @@ describe('TranscriptFileService', () => {
       const filename = await service.saveTranscript(testRecord);
 
       expect(filename).toBe('2024-03-15_test-meeting.md');
+      // Written to a hidden temporary file, then renamed into place
+      const tempPath = mockFs.writeFile.mock.calls[0]?.[0] as string;
+      expect(path.basename(tempPath)).toMatch(
+        /^\.2024-03-15_test-meeting\.md\..+\.tmp$/
+      );
       expect(mockFs.writeFile).toHaveBeenCalledWith(
-        path.join(testTranscriptsDir, '2024-03-15_test-meeting.md'),
+        tempPath,
         expect.stringContaining('id: test-id-123'),
         'utf-8'
       );
+      expect(mockFs.rename).toHaveBeenCalledWith(
+        tempPath,
+        path.join(testTranscriptsDir, '2024-03-15_test-meeting.md')
+      );
+    });
+
+    it('should remove the temporary file when the write fails', async () => {
+      mockFs.writeFile.mockRejectedValue(new Error('ENOSPC'));
+      mockFs.rm.mockResolvedValue(undefined);
+
+      await expect(service.saveTranscript(testRecord)).rejects.toThrow(
+        'ENOSPC'
+      );
+
+      expect(mockFs.rename).not.toHaveBeenCalled();
+      expect(mockFs.rm).toHaveBeenCalledWith(
+        mockFs.writeFile.mock.calls[0]?.[0],
+        { force: true }
+      );
     });
 
     it('should include frontmatter in saved file', async () => {
@@ -192,13 +216,35 @@ describe('TranscriptFileService', () => {
       const filename = await service.saveTranscript(recordWithFilename);
 
       expect(filename).toBe('existing-file.md');
-      expect(mockFs.writeFile).toHaveBeenCalledWith(
-        path.join(testTranscriptsDir, 'existing-file.md'),
+      expect(mockFs.rename).toHaveBeenCalledWith(
         expect.any(String),
-        'utf-8'
+        path.join(testTranscriptsDir, 'existing-file.md')
       );
     });
 
+    it('should remember its own writes so external edits stand out', async () => {
+      const filename = await service.saveTranscript(testRecord);
+      const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+
+      expect(service.isOwnChange(filename, content)).toBe(true);
+      expect(service.isOwnChange(filename, `${content}\nEdited`)).toBe(false);
+      expect(service.isOwnChange(filename, null)).toBe(false);
+      expect(service.isOwnChange('other.md', content)).toBe(false);
+    });
+    it('should recognise its recent writes while a recording is saved repeatedly', async () => {
+      mockFs.access.mockResolvedValue(undefined);
+      const record = { ...testRecord, filename: 'live.md' };
+      await service.saveTranscript(record);
+      await service.saveTranscript({ ...record, transcript: 'More words' });
+      const [first, second] = mockFs.writeFile.mock.calls.map(
+        (call) => call[1] as string
+      );
+
+      // A scan may read the earlier save after the later one was started
+      expect(service.isOwnChange('live.md', first ?? '')).toBe(true);
+      expect(service.isOwnChange('live.md', second ?? '')).toBe(true);
+    });
+
     it('should include audio_filename in frontmatter when present', async () => {
       const recordWithAudio = {
         ...testRecord,
@@ -211,6 +257,68 @@ describe('TranscriptFileService', () => {
       const content = writeCall?.[1] as string;
       expect(content).toContain('audio_filename: test-audio.wav');
     });
+
+    it('should write status to frontmatter only while not complete', async () => {
+      await service.saveTranscript({ ...testRecord, status: 'interrupted' });
+      await service.saveTranscript({ ...testRecord, status: 'complete' });
+
+      const interruptedContent = mockFs.writeFile.mock.calls[0]?.[1] as string;
+      const completeContent = mockFs.writeFile.mock.calls[1]?.[1] as string;
+      expect(interruptedContent).toContain('status: interrupted');
+      expect(completeContent).not.toContain('status:');
+    });
+
+    it('should include the summary template in frontmatter when set', async () => {
+      await service.saveTranscript({
+        ...testRecord,
+        summary_template: 'Action Items',
+      });
+
+      const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+      expect(content).toContain('summary_template: Action Items');
+    });
+
+    it.each(['Retro: what went well', '#1 priorities', '"Board" update'])(
+      'should quote a summary template named %s',
+      async (name) => {
+        await service.saveTranscript({ ...testRecord, summary_template: name });
+
+        const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+        expect(content).toContain(`summary_template: ${JSON.stringify(name)}`);
+        expect(
+          service.parseTranscriptContent(content, 'note.md')?.summary_template
+        ).toBe(name);
+      }
+    );
+
+    it('should write vault-friendly frontmatter', async () => {
+      await service.saveTranscript({
+        ...testRecord,
+        title: 'Q3 planning: budget',
+        tags: ['meeting', 'planning'],
+      });
+
+      const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+      expect(content).toContain(
+        [
+          'title: "Q3 planning: budget"',
+          'aliases:',
+          '  - "Q3 planning: budget"',
+          'tags:',
+          '  - meeting',
+          '  - planning',
+          'created_at: 2024-03-15T00:00:00.000Z',
+          'updated_at: 2024-03-15T00:00:00.000Z',
+        ].join('\n')
+      );
+    });
+
+    it('should write an empty tag list for untagged recordings', async () => {
+      await service.saveTranscript(testRecord);
+
+      const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+      expect(content).toContain('tags: []');
+    });
   });
 
   describe('loadTranscript', () => {
@@ -245,6 +353,75 @@ This is the summary.
       expect(result?.summary).toBe('This is the summary.');
       expect(result?.audio_filename).toBe('test.wav');
       expect(result?.filename).toBe('test-file.md');
+      expect(result?.status).toBeUndefined();
+    });
+
+    it('should parse recording status from frontmatter', async () => {
+      mockFs.readFile.mockResolvedValue(
+        validMarkdown.replace(
+          'audio_filename',
+          'status: recording\naudio_filename'
+        )
+      );
+
+      const result = await service.loadTranscript('test-file.md');
+
+      expect(result?.status).toBe('recording');
+    });
+
+    it('should parse the summary template from frontmatter', async () => {
+      mockFs.readFile.mockResolvedValue(
+        validMarkdown.replace(
+          'audio_filename',
+          'summary_template: Action Items\naudio_filename'
+        )
+      );
+
+      const result = await service.loadTranscript('test-file.md');
+
+      expect(result?.summary_template).toBe('Action Items');
+    });
+
+    it('should parse vault frontmatter with ISO dates, lists and quotes', async () => {
+      mockFs.readFile.mockResolvedValue(`---
+id: test-id-123
+title: "Q3 planning: budget"
+aliases:
+  - "Q3 planning: budget"
+tags:
+  - meeting
+  - "2024"
+created_at: 2024-03-15T09:30:00.000Z
+updated_at: 2024-03-15T10:45:12.345Z
+---
+
+# Q3 planning: budget
+
+## Transcript
+
+Hello.
+`);
+
+      const result = await service.loadTranscript('test-file.md');
+
+      expect(result?.title).toBe('Q3 planning: budget');
+      expect(result?.tags).toEqual(['meeting', '2024']);
+      expect(result?.created_at).toBe(Date.parse('2024-03-15T09:30:00.000Z'));
+      expect(result?.updated_at).toBe(Date.parse('2024-03-15T10:45:12.345Z'));
+    });
+
+    it('should accept inline tag lists', async () => {
+      mockFs.readFile.mockResolvedValue(
+        validMarkdown.replace(
+          'audio_filename',
+          'tags: [meeting, weekly]\naudio_filename'
+        )
+      );
+
+      const result = await service.loadTranscript('test-file.md');
+
+      expect(result?.tags).toEqual(['meeting', 'weekly']);
+      expect(result?.audio_filename).toBe('test.wav');
     });
 
     it('should return null for file without id', async () => {
@@ -259,7 +436,8 @@ Content
       const result = await service.loadTranscript('test.md');
 
       expect(result).toBeNull();
-      expect(mockLogger.warn).toHaveBeenCalledWith(
+      // Notes without an id are expected in a shared vault
+      expect(mockLogger.debug).toHaveBeenCalledWith(
         'No id in frontmatter for test.md'
       );
     });
@@ -298,6 +476,31 @@ Just transcript, no summary.
       expect(result?.transcript).toBe('Just transcript, no summary.');
       expect(result?.summary).toBe('');
     });
+
+    it('should keep timestamped speaker turns intact', async () => {
+      const timestampedMarkdown = `---
+id: test-123
+title: Test
+created_at: 1710460800000
+updated_at: 1710460800000
+---
+
+# Test
+
+## Transcript
+
+[00:00:05] **You:** Shall we start?
+
+[00:00:09] **Others:** Sure.
+`;
+      mockFs.readFile.mockResolvedValue(timestampedMarkdown);
+
+      const result = await service.loadTranscript('test.md');
+
+      expect(result?.transcript).toBe(
+        '[00:00:05] **You:** Shall we start?\n\n[00:00:09] **Others:** Sure.'
+      );
+    });
   });
 
   describe('getAllTranscripts', () => {
@@ -467,6 +670,67 @@ Original content
       expect(mockFs.writeFile).toHaveBeenCalled();
     });
 
+    it('should keep frontmatter properties added in the vault', async () => {
+      const custom = [
+        'project: "[[Apollo]]"',
+        'reviewers:',
+        '  - Ana',
+        '  - Ben',
+        'cssclasses: [wide]',
+      ];
+      mockFs.readFile.mockResolvedValue(`---
+id: update-id
+title: Original Title
+${custom.slice(0, 4).join('\n')}
+created_at: 1710000000000
+updated_at: 1710000000000
+${custom[4] ?? ''}
+---
+
+# Original Title
+
+## Transcript
+
+Original content
+`);
+
+      await service.updateTranscript('update-id', { summary: 'New summary' });
+
+      const content = mockFs.writeFile.mock.calls[0]?.[1] as string;
+      expect(content).toContain(`${custom.join('\n')}\n---`);
+      expect(content).toContain('## Summary\n\nNew summary');
+      expect(
+        service.parseTranscriptContent(content, 'existing.md')
+      ).toMatchObject({
+        id: 'update-id',
+        title: 'Original Title',
+        extra_frontmatter: custom,
+      });
+    });
+
+    it('should apply concurrent updates one after another', async () => {
+      let onDisk = await mockFs.readFile('existing.md', 'utf-8');
+      mockFs.readFile.mockImplementation(() => Promise.resolve(onDisk));
+      mockFs.writeFile.mockImplementation((_file, data) => {
+        onDisk = data as string;
+        return Promise.resolve();
+      });
+
+      await Promise.all([
+        service.updateTranscript('update-id', { transcript: 'Final words' }),
+        service.updateTranscript('update-id', { audio_filename: 'a.wav' }),
+        service.updateTranscript('update-id', { summary: 'Decisions' }),
+      ]);
+
+      expect(
+        service.parseTranscriptContent(onDisk, 'existing.md')
+      ).toMatchObject({
+        transcript: 'Final words',
+        audio_filename: 'a.wav',
+        summary: 'Decisions',
+      });
+    });
+
     it('should return false if transcript not found', async () => {
       mockFs.readdir.mockResolvedValue(
         [] as unknown as Awaited<ReturnType<typeof fs.readdir>>
@@ -541,6 +805,24 @@ Content
       expect(mockFs.unlink).toHaveBeenCalledWith(
         path.join(testTranscriptsDir, 'to-delete.md')
       );
+      expect(mockFs.rm).toHaveBeenCalledWith(
+        path.join(
+          testTranscriptsDir,
+          '.assembly-notes',
+          'versions',
+          'delete-id'
+        ),
+        { recursive: true, force: true }
+      );
+      expect(mockFs.rm).toHaveBeenCalledWith(
+        path.join(
+          testTranscriptsDir,
+          '.assembly-notes',
+          'chats',
+          'delete-id.json'
+        ),
+        { force: true }
+      );
     });
 
     it('should return false if transcript not found', async () => {
@@ -755,4 +1037,103 @@ Content
       expect(result).toBe(false);
     });
   });
+
+  describe('versions', () => {
+    const versionsDir = path.join(
+      testTranscriptsDir,
+      '.assembly-notes',
+      'versions',
+      'rec-id'
+    );
+
+    it('should save a version under the recording ID', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1710000000000);
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      const createdAt = await service.saveVersion(
+        'rec-id',
+        'transcript',
+        'Old transcript'
+      );
+
+      expect(createdAt).toBe(1710000000000);
+      expect(mockFs.mkdir).toHaveBeenCalledWith(versionsDir, {
+        recursive: true,
+      });
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        path.join(versionsDir, 'transcript-1710000000000.md'),
+        'Old transcript',
+        'utf-8'
+      );
+    });
+
+    it('should list versions newest first', async () => {
+      mockFs.readdir.mockResolvedValue([
+        'transcript-1710000000000.md',
+        'transcript-1720000000000.md',
+        'notes.txt',
+      ] as unknown as Awaited<ReturnType<typeof fs.readdir>>);
+
+      const versions = await service.getVersions('rec-id', 'transcript');
+
+      expect(versions).toEqual([1720000000000, 1710000000000]);
+    });
+
+    it('should return no versions when none were saved', async () => {
+      mockFs.readdir.mockRejectedValue(new Error('ENOENT'));
+
+      await expect(
+        service.getVersions('rec-id', 'transcript')
+      ).resolves.toEqual([]);
+    });
+
+    it('should return null for a missing version', async () => {
+      mockFs.readFile.mockRejectedValue(new Error('ENOENT'));
+
+      await expect(
+        service.readVersion('rec-id', 'transcript', 1710000000000)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('chat history', () => {
+    const chatPath = path.join(
+      testTranscriptsDir,
+      '.assembly-notes',
+      'chats',
+      'rec-id.json'
+    );
+    const messages = [
+      { role: 'user' as const, content: 'Who owns QA?', created_at: 1 },
+      { role: 'assistant' as const, content: 'Sam.', created_at: 2 },
+    ];
+
+    it('should store the history under the recording ID', async () => {
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      await service.saveChatHistory('rec-id', messages);
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        chatPath,
+        JSON.stringify(messages, null, 2),
+        'utf-8'
+      );
+    });
+
+    it('should read back a stored history', async () => {
+      mockFs.readFile.mockResolvedValue(JSON.stringify(messages));
+
+      await expect(service.getChatHistory('rec-id')).resolves.toEqual(messages);
+    });
+
+    it('should return an empty history when the file is missing or unreadable', async () => {
+      mockFs.readFile.mockRejectedValueOnce(new Error('ENOENT'));
+      await expect(service.getChatHistory('rec-id')).resolves.toEqual([]);
+
+      mockFs.readFile.mockResolvedValueOnce('{not json');
+      await expect(service.getChatHistory('rec-id')).resolves.toEqual([]);
+    });
+  });
 });
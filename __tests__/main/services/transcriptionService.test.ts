@@ -2,7 +2,11 @@ import 'reflect-metadata';
 import { container } from 'tsyringe';
 
 import { DI_TOKENS } from '../../../src/main/di-tokens';
-import { TranscriptionService } from '../../../src/main/services/transcriptionService';
+import { ReconnectingTranscriber } from '../../../src/main/reconnecting-transcriber';
+import {
+  AssemblyAIFileTranscriber,
+  TranscriptionService,
+} from '../../../src/main/services/transcriptionService';
 import {
   resetTestContainer,
   registerMock,
@@ -12,6 +16,7 @@ import {
   createMockAssemblyAIClient,
   createMockAssemblyAIFactory,
   createMockTranscriptionCallbacks,
+  type MockAssemblyAIClient,
   type MockRealtimeTranscriber,
   type MockTranscriptionCallbacks,
 } from '../../test-helpers/mock-factories';
@@ -23,7 +28,9 @@ describe('TranscriptionService', () => {
   let transcriptionService: TranscriptionService;
   let callbacks: MockTranscriptionCallbacks;
   let mockRealtimeTranscriber: MockRealtimeTranscriber;
+  let mockAssemblyAIClient: MockAssemblyAIClient;
   let mockAssemblyAIFactory: ReturnType<typeof createMockAssemblyAIFactory>;
+  let settings: Record<string, unknown>;
 
   beforeEach(() => {
     // Reset the container and mocks
@@ -32,13 +39,15 @@ describe('TranscriptionService', () => {
 
     // Create mocks using factories
     mockRealtimeTranscriber = createMockRealtimeTranscriber();
-    const mockAssemblyAIClient = createMockAssemblyAIClient(
-      mockRealtimeTranscriber
-    );
+    mockAssemblyAIClient = createMockAssemblyAIClient(mockRealtimeTranscriber);
     mockAssemblyAIFactory = createMockAssemblyAIFactory(mockAssemblyAIClient);
 
     // Register mocks using the helper
     registerMock(DI_TOKENS.AssemblyAIFactory, mockAssemblyAIFactory);
+    settings = { transcriptionProvider: 'assemblyai' };
+    container.register(DI_TOKENS.Store, {
+      useValue: { getState: () => ({ settings }) },
+    });
 
     transcriptionService = container.resolve(TranscriptionService);
     callbacks = createMockTranscriptionCallbacks();
@@ -58,7 +67,7 @@ describe('TranscriptionService', () => {
       expect(mockAssemblyAIFactory.createClient).toHaveBeenCalledWith(
         'test-api-key'
       );
-      expect(connections.microphone).toBe(mockRealtimeTranscriber);
+      expect(connections.microphone).toBeInstanceOf(ReconnectingTranscriber);
       expect(connections.system).toBeNull();
     });
 
@@ -98,6 +107,379 @@ describe('TranscriptionService', () => {
     });
   });
 
+  describe('createSeparateConnection', () => {
+    it('should create microphone and system connections', async () => {
+      const connections = await transcriptionService.createSeparateConnection(
+        'test-api-key',
+        callbacks
+      );
+
+      expect(mockAssemblyAIClient.streaming.transcriber).toHaveBeenCalledTimes(
+        2
+      );
+      expect(connections.microphone).toBeInstanceOf(ReconnectingTranscriber);
+      expect(connections.system).toBeInstanceOf(ReconnectingTranscriber);
+    });
+
+    it('should tag transcripts with the stream they came from', async () => {
+      await transcriptionService.createSeparateConnection(
+        'test-api-key',
+        callbacks
+      );
+
+      const turnHandlers = mockRealtimeTranscriber.on.mock.calls
+        .filter(([event]) => event === 'turn')
+        .map(([, handler]) => handler as (turn: unknown) => void);
+      expect(turnHandlers).toHaveLength(2);
+
+      turnHandlers[1]?.({
+        transcript: 'Hello there',
+        end_of_turn: true,
+        turn_is_formatted: true,
+        words: [
+          { text: 'Hello', start: 1200, end: 1500 },
+          { text: 'there', start: 1550, end: 1900 },
+        ],
+      });
+
+      expect(callbacks.onTranscript).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: 'Hello there',
+          partial: false,
+          streamType: 'system',
+          start: 1200,
+          end: 1900,
+        })
+      );
+    });
+  });
+
+  describe('reconnection', () => {
+    // Handlers are registered again for every new session; use the latest
+    const emit = (event: string, payload?: unknown) => {
+      const handler = mockRealtimeTranscriber.on.mock.calls
+        .filter(([name]) => name === event)
+        .at(-1)?.[1] as ((payload?: unknown) => void) | undefined;
+      handler?.(payload);
+    };
+    // 100ms of 16 kHz 16-bit PCM
+    const chunk = () => new ArrayBuffer(3200);
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should reconnect with backoff and replay audio sent while disconnected', async () => {
+      const connections = await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      emit('open');
+      emit('close');
+
+      expect(callbacks.onConnectionStatus).toHaveBeenLastCalledWith(
+        'microphone',
+        false,
+        1000
+      );
+
+      const buffered = chunk();
+      transcriptionService.sendAudio(connections.microphone, buffered);
+      expect(mockRealtimeTranscriber.sendAudio).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockAssemblyAIClient.streaming.transcriber).toHaveBeenCalledTimes(
+        2
+      );
+      emit('open');
+
+      expect(mockRealtimeTranscriber.sendAudio).toHaveBeenCalledWith(buffered);
+      expect(callbacks.onConnectionStatus).toHaveBeenLastCalledWith(
+        'microphone',
+        true
+      );
+    });
+
+    it('should back off further while the connection stays down', async () => {
+      await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      emit('open');
+      emit('close');
+      await jest.advanceTimersByTimeAsync(1000);
+      emit('close');
+
+      expect(callbacks.onConnectionStatus).toHaveBeenLastCalledWith(
+        'microphone',
+        false,
+        2000
+      );
+    });
+
+    it('should replay unfinished turns and keep offsets on the stream timeline', async () => {
+      const connections = await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      emit('open');
+
+      const finished = chunk();
+      const unfinished = chunk();
+      transcriptionService.sendAudio(connections.microphone, finished);
+      transcriptionService.sendAudio(connections.microphone, unfinished);
+      emit('turn', {
+        transcript: 'Done.',
+        end_of_turn: true,
+        turn_is_formatted: true,
+        words: [{ text: 'Done.', start: 0, end: 100 }],
+      });
+      emit('close');
+      mockRealtimeTranscriber.sendAudio.mockClear();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      emit('open');
+
+      // Only the audio after the last final turn is sent again
+      expect(mockRealtimeTranscriber.sendAudio).toHaveBeenCalledTimes(1);
+      expect(mockRealtimeTranscriber.sendAudio).toHaveBeenCalledWith(
+        unfinished
+      );
+
+      emit('turn', {
+        transcript: 'Still talking.',
+        end_of_turn: true,
+        turn_is_formatted: true,
+        words: [{ text: 'Still talking.', start: 0, end: 90 }],
+      });
+      expect(callbacks.onTranscript).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          text: 'Still talking.',
+          start: 100,
+          end: 190,
+        })
+      );
+    });
+
+    it('should leave keep-alive silence out of the stream timeline', async () => {
+      const connections = await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      emit('open');
+
+      transcriptionService.sendAudio(connections.microphone, chunk());
+      transcriptionService.sendKeepAlive(connections.microphone);
+      transcriptionService.sendAudio(connections.microphone, chunk());
+
+      // The session heard 300ms, but only 200ms of it were recorded
+      emit('turn', {
+        transcript: 'Before and after the pause.',
+        end_of_turn: true,
+        turn_is_formatted: true,
+        words: [
+          { text: 'Before', start: 20, end: 90 },
+          { text: 'after.', start: 210, end: 300 },
+        ],
+      });
+      expect(callbacks.onTranscript).toHaveBeenLastCalledWith(
+        expect.objectContaining({ start: 20, end: 200 })
+      );
+    });
+
+    it('should not reconnect after the connection is closed on purpose', async () => {
+      const connections = await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      emit('open');
+
+      await transcriptionService.closeConnections(connections);
+      emit('close');
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(mockAssemblyAIClient.streaming.transcriber).toHaveBeenCalledTimes(
+        1
+      );
+      expect(callbacks.onConnectionStatus).toHaveBeenLastCalledWith(
+        'microphone',
+        false,
+        undefined
+      );
+    });
+  });
+
+  describe('local provider', () => {
+    class FakeWebSocket {
+      static OPEN = 1;
+      static instances: FakeWebSocket[] = [];
+      readyState = 0;
+      binaryType = 'blob';
+      send = jest.fn();
+      close = jest.fn();
+      onopen: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      onmessage: ((event: { data: string }) => void) | null = null;
+
+      constructor(readonly url: string) {
+        FakeWebSocket.instances.push(this);
+        queueMicrotask(() => {
+          this.readyState = FakeWebSocket.OPEN;
+          this.onopen?.();
+        });
+      }
+    }
+    const originalWebSocket = global.WebSocket;
+
+    beforeEach(() => {
+      FakeWebSocket.instances = [];
+      global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+      settings = {
+        transcriptionProvider: 'local',
+        localTranscriptionUrl: 'ws://127.0.0.1:2700',
+      };
+    });
+
+    afterEach(() => {
+      global.WebSocket = originalWebSocket;
+    });
+
+    it('should stream to the local engine instead of AssemblyAI', async () => {
+      const connections = await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      const socket = FakeWebSocket.instances[0];
+
+      expect(mockAssemblyAIFactory.createClient).not.toHaveBeenCalled();
+      expect(socket?.url).toBe('ws://127.0.0.1:2700');
+      expect(socket?.send).toHaveBeenCalledWith(
+        JSON.stringify({ config: { sample_rate: 16000, words: 1 } })
+      );
+      expect(callbacks.onConnectionStatus).toHaveBeenCalledWith(
+        'microphone',
+        true
+      );
+
+      transcriptionService.sendAudio(
+        connections.microphone,
+        new ArrayBuffer(3200)
+      );
+      expect(socket?.send).toHaveBeenLastCalledWith(expect.any(Uint8Array));
+    });
+
+    it('should report local results as transcripts', async () => {
+      await transcriptionService.createCombinedConnection(
+        'test-api-key',
+        callbacks
+      );
+      const socket = FakeWebSocket.instances[0];
+
+      socket?.onmessage?.({ data: JSON.stringify({ partial: 'hello th' }) });
+      socket?.onmessage?.({
+        data: JSON.stringify({
+          text: 'hello there',
+          result: [
+            { word: 'hello', start: 1.2, end: 1.5, conf: 1 },
+            { word: 'there', start: 1.55, end: 1.9, conf: 1 },
+          ],
+        }),
+      });
+
+      expect(callbacks.onTranscript).toHaveBeenCalledWith({
+        streamType: 'microphone',
+        text: 'hello th',
+        partial: true,
+      });
+      expect(callbacks.onTranscript).toHaveBeenLastCalledWith({
+        streamType: 'microphone',
+        text: 'hello there',
+        partial: false,
+        start: 1200,
+        end: 1900,
+      });
+    });
+  });
+
+  describe('diarizeAudioFile', () => {
+    it('should request speaker labels and return utterances', async () => {
+      const utterances = [
+        { speaker: 'A', text: 'Hi', start: 0, end: 500 },
+        { speaker: 'B', text: 'Hello', start: 600, end: 1200 },
+      ];
+      mockAssemblyAIClient.transcripts.transcribe.mockResolvedValue({
+        status: 'completed',
+        utterances,
+      });
+
+      const result = await transcriptionService.diarizeAudioFile(
+        'test-api-key',
+        '/audio/test.wav'
+      );
+
+      expect(mockAssemblyAIClient.transcripts.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio: '/audio/test.wav',
+          speaker_labels: true,
+        })
+      );
+      expect(result).toEqual(utterances);
+    });
+
+    it('should throw when diarization fails', async () => {
+      mockAssemblyAIClient.transcripts.transcribe.mockResolvedValue({
+        status: 'error',
+        error: 'Audio too short',
+      });
+
+      await expect(
+        transcriptionService.diarizeAudioFile('test-api-key', '/audio/x.wav')
+      ).rejects.toThrow('Diarization failed: Audio too short');
+    });
+  });
+
+  describe('AssemblyAIFileTranscriber', () => {
+    it('should upload the file with speaker labels', async () => {
+      const utterances = [{ speaker: 'A', text: 'Hi', start: 0, end: 500 }];
+      mockAssemblyAIClient.transcripts.transcribe.mockResolvedValue({
+        status: 'completed',
+        utterances,
+      });
+      const fileTranscriber = container.resolve(AssemblyAIFileTranscriber);
+
+      const result = await fileTranscriber.transcribeFile(
+        'test-api-key',
+        '/imports/memo.m4a'
+      );
+
+      expect(mockAssemblyAIFactory.createClient).toHaveBeenCalledWith(
+        'test-api-key'
+      );
+      expect(mockAssemblyAIClient.transcripts.transcribe).toHaveBeenCalledWith({
+        audio: '/imports/memo.m4a',
+        speaker_labels: true,
+      });
+      expect(result).toEqual(utterances);
+    });
+
+    it('should throw when transcription fails', async () => {
+      mockAssemblyAIClient.transcripts.transcribe.mockResolvedValue({
+        status: 'error',
+        error: 'Unsupported codec',
+      });
+      const fileTranscriber = container.resolve(AssemblyAIFileTranscriber);
+
+      await expect(
+        fileTranscriber.transcribeFile('test-api-key', '/imports/memo.m4a')
+      ).rejects.toThrow('Transcription failed: Unsupported codec');
+    });
+  });
+
   describe('closeConnections', () => {
     it('should close both connections', async () => {
       const connections = {
@@ -157,20 +539,17 @@ describe('TranscriptionService', () => {
   });
 
   describe('sendKeepAlive', () => {
-    beforeEach(() => {
-      // Reset the sendAudio mock specifically for this test
-      mockRealtimeTranscriber.sendAudio.mockClear();
-    });
+    it('should send keep alive silence to the connection', () => {
+      const connection = { sendKeepAlive: jest.fn() };
 
-    it('should send keep alive message to transcriber', () => {
-      transcriptionService.sendKeepAlive(mockRealtimeTranscriber as any);
-
-      expect(mockRealtimeTranscriber.sendAudio).toHaveBeenCalledTimes(1);
+      transcriptionService.sendKeepAlive(connection as any);
 
-      // Check that sendAudio was called with some data
-      const callArgs = mockRealtimeTranscriber.sendAudio.mock.calls[0];
-      expect(callArgs).toBeDefined();
-      expect(callArgs![0]).toBeDefined();
+      expect(connection.sendKeepAlive).toHaveBeenCalledTimes(1);
+      // 100ms of 16 kHz 16-bit PCM silence
+      const silence = connection.sendKeepAlive.mock.calls[0]?.[0] as
+        | ArrayBuffer
+        | undefined;
+      expect(silence?.byteLength).toBe(3200);
     });
 
     it('should handle null transcriber gracefully', () => {
@@ -459,5 +459,34 @@ describe('StateBroadcaster', () => {
         );
       });
     });
+
+    describe('recordingsUpserted', () => {
+      it('should broadcast recordings changed outside the app', () => {
+        const recording = {
+          id: 'rec-123',
+          title: 'Edited in a vault',
+          created_at: 1234567890,
+          updated_at: 1234567899,
+        };
+
+        broadcaster.recordingsUpserted([recording]);
+
+        expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+          IPC_STATE_CHANNELS.RECORDINGS_UPSERTED,
+          { recordings: [recording] }
+        );
+      });
+    });
+
+    describe('recordingsRemoved', () => {
+      it('should broadcast removed recording ids', () => {
+        broadcaster.recordingsRemoved(['rec-123']);
+
+        expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+          IPC_STATE_CHANNELS.RECORDINGS_REMOVED,
+          { ids: ['rec-123'] }
+        );
+      });
+    });
   });
 });
@@ -0,0 +1,205 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+
+import { createZip, ZipReader, ZipWriter } from '../../src/main/zip.js';
+
+describe('zip', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zip-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read back stored and deflated entries written to disk', async () => {
+    const archivePath = path.join(dir, 'archive.zip');
+    const audio = Buffer.from([0, 1, 2, 3, 254, 255]);
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add('notes/2024-03-15_standup.md', '# Standup\n'.repeat(50));
+    await writer.add('audio/standup.ogg', audio, { compress: false });
+    await writer.add('notes/über.md', 'Grüße');
+    await writer.close();
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      expect(reader.entries()).toEqual([
+        'notes/2024-03-15_standup.md',
+        'audio/standup.ogg',
+        'notes/über.md',
+      ]);
+      expect(reader.has('missing.md')).toBe(false);
+      expect(
+        (await reader.read('notes/2024-03-15_standup.md')).toString('utf-8')
+      ).toBe('# Standup\n'.repeat(50));
+      expect(await reader.read('audio/standup.ogg')).toEqual(audio);
+      expect((await reader.read('notes/über.md')).toString('utf-8')).toBe(
+        'Grüße'
+      );
+      await expect(reader.read('missing.md')).rejects.toThrow(
+        'Archive has no entry missing.md'
+      );
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('should reject files that are not archives', async () => {
+    const notZip = path.join(dir, 'notes.txt');
+    await fs.writeFile(notZip, 'just some notes, long enough to search');
+
+    await expect(ZipReader.open(notZip)).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('should detect corrupted entry data', async () => {
+    const archivePath = path.join(dir, 'archive.zip');
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add('a.txt', 'hello world', { compress: false });
+    await writer.close();
+
+    const bytes = await fs.readFile(archivePath);
+    // Entry data follows the 30 byte header and the 5 byte name
+    bytes[35] = 'j'.charCodeAt(0);
+    await fs.writeFile(archivePath, bytes);
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      await expect(reader.read('a.txt')).rejects.toThrow('Checksum mismatch');
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('should stream files in and out of an archive', async () => {
+    const archivePath = path.join(dir, 'archive.zip');
+    // Larger than one copy chunk
+    const audio = Buffer.alloc(3 * 1024 * 1024 + 7);
+    for (let i = 0; i < audio.length; i++) {
+      audio[i] = (i * 31) % 251;
+    }
+    const audioPath = path.join(dir, 'meeting.wav');
+    await fs.writeFile(audioPath, audio);
+    await fs.writeFile(path.join(dir, 'empty.wav'), '');
+
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add('notes/meeting.md', '# Meeting\n'.repeat(50));
+    await writer.addFile('audio/meeting.wav', audioPath);
+    await writer.addFile('audio/empty.wav', path.join(dir, 'empty.wav'));
+    await writer.close();
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      // Compared with equals(), a deep toEqual() on megabytes is slow
+      expect((await reader.read('audio/meeting.wav')).equals(audio)).toBe(true);
+
+      await reader.extract('audio/meeting.wav', path.join(dir, 'out.wav'));
+      expect((await fs.readFile(path.join(dir, 'out.wav'))).equals(audio)).toBe(
+        true
+      );
+      await reader.extract('notes/meeting.md', path.join(dir, 'out.md'));
+      expect(await fs.readFile(path.join(dir, 'out.md'), 'utf-8')).toBe(
+        '# Meeting\n'.repeat(50)
+      );
+      await reader.extract('audio/empty.wav', path.join(dir, 'out-empty.wav'));
+      expect((await fs.stat(path.join(dir, 'out-empty.wav'))).size).toBe(0);
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('should remove extracted files that fail the checksum', async () => {
+    const archivePath = path.join(dir, 'archive.zip');
+    const writer = await ZipWriter.create(archivePath);
+    await writer.add('a.txt', 'hello world', { compress: false });
+    await writer.close();
+
+    const bytes = await fs.readFile(archivePath);
+    bytes[35] = 'j'.charCodeAt(0);
+    await fs.writeFile(archivePath, bytes);
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      await expect(
+        reader.extract('a.txt', path.join(dir, 'a.txt'))
+      ).rejects.toThrow('Checksum mismatch');
+      await expect(fs.access(path.join(dir, 'a.txt'))).rejects.toThrow();
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('should use ZIP64 records for more than 65,535 entries', async () => {
+    const archivePath = path.join(dir, 'archive.zip');
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({
+      name: `${String(i)}.txt`,
+      data: String(i),
+    }));
+    const bytes = createZip(entries);
+    await fs.writeFile(archivePath, bytes);
+
+    // The base end record can only count to 0xffff
+    expect(bytes.readUInt16LE(bytes.length - 22 + 10)).toBe(0xffff);
+    expect(bytes.readUInt32LE(bytes.length - 22 - 20)).toBe(0x07064b50);
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      expect(reader.entries()).toHaveLength(0x10000);
+      expect((await reader.read('65535.txt')).toString('utf-8')).toBe('65535');
+    } finally {
+      await reader.close();
+    }
+  }, 30_000);
+
+  it('should read sizes and offsets from ZIP64 extra fields', async () => {
+    const name = Buffer.from('big.bin');
+    const data = Buffer.from('pretend this is over 4 GB');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(zlib.crc32(data), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    // Every 32-bit field overflows into the extra, in spec order
+    const extra = Buffer.alloc(28);
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(24, 2);
+    extra.writeBigUInt64LE(BigInt(data.length), 4);
+    extra.writeBigUInt64LE(BigInt(data.length), 12);
+    extra.writeBigUInt64LE(0n, 20);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(zlib.crc32(data), 16);
+    central.writeUInt32LE(0xffffffff, 20);
+    central.writeUInt32LE(0xffffffff, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(0xffffffff, 42);
+
+    const directoryOffset = local.length + name.length + data.length;
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 8);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(central.length + name.length + extra.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    const archivePath = path.join(dir, 'archive.zip');
+    await fs.writeFile(
+      archivePath,
+      Buffer.concat([local, name, data, central, name, extra, end])
+    );
+
+    const reader = await ZipReader.open(archivePath);
+    try {
+      expect(await reader.read('big.bin')).toEqual(data);
+    } finally {
+      await reader.close();
+    }
+  });
+});
@@ -3,7 +3,7 @@
  */
 /* eslint-disable import/order */
 import { configureStore } from '@reduxjs/toolkit';
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { Provider } from 'react-redux';
 
@@ -16,6 +16,10 @@ jest.mock('../../../src/renderer/store', () => ({
     type: 'ui/navigateToNewRecording',
     payload: id,
   })),
+  navigateToRecording: jest.fn((id) => ({
+    type: 'ui/navigateToRecording',
+    payload: id,
+  })),
   setActiveModal: jest.fn((modal) => ({
     type: 'ui/setActiveModal',
     payload: modal,
@@ -27,6 +31,8 @@ jest.mock('../../../src/renderer/slices/apiSlice', () => ({
   useGetAllRecordingsQuery: jest.fn(),
   useSearchRecordingsQuery: jest.fn(),
   useDeleteRecordingMutation: jest.fn(),
+  useImportAudioFileMutation: jest.fn(),
+  useAskLibraryMutation: jest.fn(),
 }));
 
 // Import the mocked hooks
@@ -34,7 +40,10 @@ import {
   useGetAllRecordingsQuery,
   useSearchRecordingsQuery,
   useDeleteRecordingMutation,
+  useImportAudioFileMutation,
+  useAskLibraryMutation,
 } from '../../../src/renderer/slices/apiSlice';
+import { navigateToRecording } from '../../../src/renderer/store';
 import { Recording } from '../../../src/types/common';
 
 // Mock electron API
@@ -54,15 +63,18 @@ Object.defineProperty(window, 'electronAPI', {
 const mockOnNavigateToRecording = jest.fn();
 
 // Create simple mock store
-const createMockStore = (assemblyaiKey = 'test-key') => {
+const createMockStore = (
+  assemblyaiKey = 'test-key',
+  transcriptionProvider = 'assemblyai'
+) => {
   return configureStore({
     reducer: {
-      settings: (state = { assemblyaiKey }) => state,
+      settings: (state = { assemblyaiKey, transcriptionProvider }) => state,
       recording: (state = { status: 'idle' }) => state,
       ui: (state = { currentPage: 'list', currentRecordingId: null }) => state,
     },
     preloadedState: {
-      settings: { assemblyaiKey },
+      settings: { assemblyaiKey, transcriptionProvider },
       recording: { status: 'idle' },
       ui: { currentPage: 'list', currentRecordingId: null },
     },
@@ -101,6 +113,14 @@ describe('RecordingsList', () => {
     useDeleteRecordingMutation as jest.MockedFunction<
       typeof useDeleteRecordingMutation
     >;
+  const mockUseImportAudioFileMutation =
+    useImportAudioFileMutation as jest.MockedFunction<
+      typeof useImportAudioFileMutation
+    >;
+  const mockUseAskLibraryMutation =
+    useAskLibraryMutation as jest.MockedFunction<typeof useAskLibraryMutation>;
+  let mockImportAudioFile: jest.Mock;
+  let mockAskLibrary: jest.Mock;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -123,10 +143,27 @@ describe('RecordingsList', () => {
       jest.fn().mockResolvedValue({ data: true }),
       { isLoading: false },
     ] as any);
+
+    mockImportAudioFile = jest.fn().mockReturnValue({
+      unwrap: () => Promise.resolve('imported-id'),
+    });
+    mockUseImportAudioFileMutation.mockReturnValue([
+      mockImportAudioFile,
+      { isLoading: false, error: undefined },
+    ] as any);
+
+    mockAskLibrary = jest.fn();
+    mockUseAskLibraryMutation.mockReturnValue([
+      mockAskLibrary,
+      { isLoading: false, isError: false, data: undefined, reset: jest.fn() },
+    ] as any);
   });
 
-  const renderList = (assemblyaiKey = 'test-key') => {
-    const store = createMockStore(assemblyaiKey);
+  const renderList = (
+    assemblyaiKey = 'test-key',
+    transcriptionProvider = 'assemblyai'
+  ) => {
+    const store = createMockStore(assemblyaiKey, transcriptionProvider);
     return render(
       <Provider store={store}>
         <RecordingsList onNavigateToRecording={mockOnNavigateToRecording} />
@@ -158,10 +195,106 @@ describe('RecordingsList', () => {
     });
   });
 
+  it('should flag interrupted recordings', async () => {
+    mockUseGetAllRecordingsQuery.mockReturnValue({
+      data: [
+        { ...mockRecordings[0], status: 'interrupted' },
+        mockRecordings[1],
+      ],
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+    } as any);
+
+    renderList();
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('interrupted-badge')).toHaveLength(1);
+    });
+  });
+
   it('should disable new recording when API key is missing', () => {
     renderList(''); // Empty API key
 
     const newButton = screen.getByTestId('new-recording-btn');
     expect(newButton).toBeDisabled();
   });
+
+  it('should allow local recordings without an API key', () => {
+    renderList('', 'local');
+
+    expect(screen.getByTestId('new-recording-btn')).toBeEnabled();
+    expect(screen.getByTestId('import-audio-btn')).toBeDisabled();
+  });
+
+  it('should open the imported recording', async () => {
+    renderList();
+
+    fireEvent.click(screen.getByTestId('import-audio-btn'));
+
+    await waitFor(() => {
+      expect(navigateToRecording).toHaveBeenCalledWith('imported-id');
+    });
+    expect(mockImportAudioFile).toHaveBeenCalled();
+  });
+
+  it('should show import progress and errors', () => {
+    mockUseImportAudioFileMutation.mockReturnValue([
+      mockImportAudioFile,
+      {
+        isLoading: true,
+        error: { status: 'CUSTOM_ERROR', error: 'Unsupported codec' },
+      },
+    ] as any);
+
+    renderList();
+
+    expect(screen.getByTestId('import-audio-btn')).toBeDisabled();
+    expect(screen.getByTestId('import-audio-btn')).toHaveTextContent(
+      'Importing...'
+    );
+    expect(screen.getByTestId('import-error')).toHaveTextContent(
+      'Unsupported codec'
+    );
+  });
+
+  it('should ask a question across all recordings and open a cited one', () => {
+    renderList();
+
+    expect(screen.queryByTestId('ask-library-btn')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByTestId('search-input'), {
+      target: { value: 'when did we drop the v2 API?' },
+    });
+
+    mockUseAskLibraryMutation.mockReturnValue([
+      mockAskLibrary,
+      {
+        isLoading: false,
+        isError: false,
+        reset: jest.fn(),
+        data: {
+          answer: 'It was dropped in the planning meeting [1].',
+          sources: [
+            {
+              recordingId: 'rec-2',
+              title: 'Second Recording',
+              created_at: mockRecordings[1]!.created_at,
+              start: 754,
+              excerpt: 'Let us drop the v2 API.',
+            },
+          ],
+        },
+      },
+    ] as any);
+    fireEvent.click(screen.getByTestId('ask-library-btn'));
+
+    expect(mockAskLibrary).toHaveBeenCalledWith('when did we drop the v2 API?');
+    expect(screen.getByTestId('library-answer')).toHaveTextContent(
+      'It was dropped in the planning meeting [1].'
+    );
+    expect(screen.getByTestId('library-source')).toHaveTextContent('00:12:34');
+
+    fireEvent.click(screen.getByTestId('library-source'));
+    expect(mockOnNavigateToRecording).toHaveBeenCalledWith('rec-2');
+  });
 });
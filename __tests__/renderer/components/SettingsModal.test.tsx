@@ -3,7 +3,7 @@
  */
 /* eslint-disable import/order */
 import { configureStore } from '@reduxjs/toolkit';
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { Provider } from 'react-redux';
 
@@ -19,13 +19,24 @@ jest.mock('../../../src/renderer/store', () => ({
 jest.mock('../../../src/renderer/slices/apiSlice', () => ({
   useGetSettingsQuery: jest.fn(),
   useUpdateSettingsMutation: jest.fn(),
+  useConvertAudioLibraryMutation: jest.fn(),
+  useExportLibraryMutation: jest.fn(),
+  useImportLibraryMutation: jest.fn(),
+  useChooseRecordingsDirectoryMutation: jest.fn(),
+  useMoveRecordingsMutation: jest.fn(),
 }));
 
 // Import the mocked hooks
 import {
+  useChooseRecordingsDirectoryMutation,
+  useConvertAudioLibraryMutation,
+  useExportLibraryMutation,
   useGetSettingsQuery,
+  useImportLibraryMutation,
+  useMoveRecordingsMutation,
   useUpdateSettingsMutation,
 } from '../../../src/renderer/slices/apiSlice';
+import { setStatus } from '../../../src/renderer/store';
 
 // Mock electron API
 const mockElectronAPI = {
@@ -72,6 +83,26 @@ describe('SettingsModal', () => {
     useUpdateSettingsMutation as jest.MockedFunction<
       typeof useUpdateSettingsMutation
     >;
+  const mockUseConvertAudioLibraryMutation =
+    useConvertAudioLibraryMutation as jest.MockedFunction<
+      typeof useConvertAudioLibraryMutation
+    >;
+  const mockUseExportLibraryMutation =
+    useExportLibraryMutation as jest.MockedFunction<
+      typeof useExportLibraryMutation
+    >;
+  const mockUseImportLibraryMutation =
+    useImportLibraryMutation as jest.MockedFunction<
+      typeof useImportLibraryMutation
+    >;
+  const mockUseChooseRecordingsDirectoryMutation =
+    useChooseRecordingsDirectoryMutation as jest.MockedFunction<
+      typeof useChooseRecordingsDirectoryMutation
+    >;
+  const mockUseMoveRecordingsMutation =
+    useMoveRecordingsMutation as jest.MockedFunction<
+      typeof useMoveRecordingsMutation
+    >;
 
   beforeEach(() => {
     store = createMockStore();
@@ -93,6 +124,27 @@ describe('SettingsModal', () => {
       jest.fn().mockResolvedValue({ data: true }),
       { isLoading: false },
     ] as any);
+
+    mockUseConvertAudioLibraryMutation.mockReturnValue([
+      jest.fn(),
+      { isLoading: false },
+    ] as any);
+    mockUseExportLibraryMutation.mockReturnValue([
+      jest.fn(),
+      { isLoading: false },
+    ] as any);
+    mockUseImportLibraryMutation.mockReturnValue([
+      jest.fn(),
+      { isLoading: false },
+    ] as any);
+    mockUseChooseRecordingsDirectoryMutation.mockReturnValue([
+      jest.fn(),
+      { isLoading: false },
+    ] as any);
+    mockUseMoveRecordingsMutation.mockReturnValue([
+      jest.fn(),
+      { isLoading: false },
+    ] as any);
   });
 
   const renderModal = (customStore = store) => {
@@ -134,6 +186,204 @@ describe('SettingsModal', () => {
     });
   });
 
+  it('should offer to convert existing recordings once a compressed format is saved', async () => {
+    const convert = jest.fn(() => ({
+      unwrap: () => Promise.resolve({ converted: 2, failed: 0 }),
+    }));
+    mockUseConvertAudioLibraryMutation.mockReturnValue([
+      convert,
+      { isLoading: false },
+    ] as any);
+    mockUseGetSettingsQuery.mockReturnValue({
+      data: {
+        assemblyaiKey: 'test-key',
+        autoStart: false,
+        summaryPrompt: 'Test prompt',
+        prompts: [],
+        audioFormat: 'opus',
+      },
+      isLoading: false,
+      error: null,
+    } as any);
+
+    renderModal();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('audio-format-select')).toHaveValue('opus');
+    });
+    (setStatus as unknown as jest.Mock).mockReturnValue({
+      type: 'ui/setStatus',
+      payload: 'test',
+    });
+    screen.getByTestId('convert-audio-library-btn').click();
+
+    expect(convert).toHaveBeenCalled();
+    await waitFor(() => {
+      expect(setStatus).toHaveBeenCalledWith('Converted 2 recording(s)');
+    });
+  });
+
+  it('should not offer conversion while storing WAV', async () => {
+    renderModal();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('audio-format-select')).toHaveValue('wav');
+    });
+    expect(
+      screen.queryByTestId('convert-audio-library-btn')
+    ).not.toBeInTheDocument();
+  });
+
+  it('should show endpoint fields for an OpenAI-compatible summary model', async () => {
+    mockUseGetSettingsQuery.mockReturnValue({
+      data: {
+        assemblyaiKey: 'test-key',
+        autoStart: false,
+        summaryPrompt: 'Test prompt',
+        prompts: [],
+        summaryLLM: {
+          provider: 'openai-compatible',
+          baseUrl: 'http://localhost:11434/v1',
+          model: 'llama3.1',
+          apiKey: '',
+        },
+      },
+      isLoading: false,
+      error: null,
+    } as any);
+
+    renderModal();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('summary-llm-base-url-input')).toHaveValue(
+        'http://localhost:11434/v1'
+      );
+    });
+    expect(screen.getByTestId('summary-llm-model-input')).toHaveValue(
+      'llama3.1'
+    );
+    expect(screen.getByTestId('dictation-llm-provider-select')).toHaveValue(
+      'assemblyai'
+    );
+    expect(
+      screen.queryByTestId('dictation-llm-base-url-input')
+    ).not.toBeInTheDocument();
+  });
+
+  it('should import a library and report conflicts', async () => {
+    const importLibrary = jest.fn(() => ({
+      unwrap: () =>
+        Promise.resolve({
+          imported: 3,
+          skipped: 1,
+          conflicts: [
+            { recordingId: 'rec-1', title: 'Standup', reason: 'changed' },
+          ],
+          settingsImported: true,
+        }),
+    }));
+    mockUseImportLibraryMutation.mockReturnValue([
+      importLibrary,
+      { isLoading: false },
+    ] as any);
+    (setStatus as unknown as jest.Mock).mockReturnValue({
+      type: 'ui/setStatus',
+      payload: 'test',
+    });
+
+    renderModal();
+    screen.getByTestId('import-library-settings-checkbox').click();
+    screen.getByTestId('import-library-btn').click();
+
+    expect(importLibrary).toHaveBeenCalledWith(true);
+    await waitFor(() => {
+      expect(screen.getByTestId('import-library-report')).toHaveTextContent(
+        'Imported 3, skipped 1 already present, settings restored'
+      );
+    });
+    expect(screen.getByTestId('import-library-report')).toHaveTextContent(
+      'Standup: differs from your copy, kept yours'
+    );
+  });
+
+  it('should move recordings to a chosen folder', async () => {
+    const chooseDirectory = jest.fn(() => ({
+      unwrap: () => Promise.resolve('/Users/me/Vault/Meetings'),
+    }));
+    const moveRecordings = jest.fn(() => ({
+      unwrap: () => Promise.resolve({ recordings: 4, files: 9 }),
+    }));
+    mockUseChooseRecordingsDirectoryMutation.mockReturnValue([
+      chooseDirectory,
+      { isLoading: false },
+    ] as any);
+    mockUseMoveRecordingsMutation.mockReturnValue([
+      moveRecordings,
+      { isLoading: false },
+    ] as any);
+    (setStatus as unknown as jest.Mock).mockReturnValue({
+      type: 'ui/setStatus',
+      payload: 'test',
+    });
+
+    renderModal();
+    expect(screen.getByTestId('move-recordings-btn')).toBeDisabled();
+    screen.getByTestId('choose-recordings-directory-btn').click();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('recordings-directory-input')).toHaveValue(
+        '/Users/me/Vault/Meetings'
+      );
+    });
+    screen.getByTestId('move-recordings-btn').click();
+
+    expect(moveRecordings).toHaveBeenCalledWith({
+      directory: '/Users/me/Vault/Meetings',
+      audioSubfolder: '',
+    });
+    await waitFor(() => {
+      expect(setStatus).toHaveBeenCalledWith(
+        'Moved 4 recording(s) to the new folder'
+      );
+    });
+  });
+
+  it('should keep unsaved edits when only the recordings folder changes', () => {
+    const fetched = {
+      assemblyaiKey: 'test-key',
+      autoStart: false,
+      summaryPrompt: 'Test prompt',
+      prompts: [],
+      recordingsDirectory: '',
+    };
+    mockUseGetSettingsQuery.mockReturnValue({
+      data: fetched,
+      isLoading: false,
+      error: null,
+    } as any);
+    const { rerender } = renderModal();
+    fireEvent.change(screen.getByDisplayValue('test-key'), {
+      target: { value: 'edited-key' },
+    });
+
+    // A move updates the cached settings with the new folder
+    mockUseGetSettingsQuery.mockReturnValue({
+      data: { ...fetched, recordingsDirectory: '/Users/me/Vault' },
+      isLoading: false,
+      error: null,
+    } as any);
+    rerender(
+      <Provider store={store}>
+        <SettingsModal onClose={mockOnClose} />
+      </Provider>
+    );
+
+    expect(screen.getByDisplayValue('edited-key')).toBeInTheDocument();
+    expect(screen.getByTestId('recordings-directory-input')).toHaveValue(
+      '/Users/me/Vault'
+    );
+  });
+
   it('should show loading state', () => {
     mockUseGetSettingsQuery.mockReturnValue({
       data: undefined,
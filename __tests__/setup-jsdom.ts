@@ -22,7 +22,10 @@ Object.defineProperty(window, 'electronAPI', {
     saveSettings: jest.fn().mockResolvedValue(true),
     startRecording: jest.fn().mockResolvedValue(true),
     stopRecording: jest.fn().mockResolvedValue(true),
+    pauseRecording: jest.fn().mockResolvedValue(true),
+    resumeRecording: jest.fn().mockResolvedValue(true),
     summarizeTranscript: jest.fn().mockResolvedValue(true),
+    stopSummarization: jest.fn().mockResolvedValue(true),
     getRecording: jest.fn().mockResolvedValue(null),
     loadRecording: jest.fn().mockResolvedValue(null),
     updateRecordingTitle: jest.fn().mockResolvedValue(true),
@@ -32,10 +35,14 @@ Object.defineProperty(window, 'electronAPI', {
     disableLoopbackAudio: jest.fn().mockResolvedValue(undefined),
     sendMicrophoneAudio: jest.fn(),
     sendSystemAudio: jest.fn(),
+    sendArchiveAudio: jest.fn(),
     onTranscript: jest.fn(),
     onSummary: jest.fn(),
+    onSummaryPartial: jest.fn(),
     onSummarizationStarted: jest.fn(),
+    onSummarizationProgress: jest.fn(),
     onSummarizationCompleted: jest.fn(),
+    onAutoSummaryFailed: jest.fn(),
     onConnectionStatus: jest.fn(),
     onRecordingStopped: jest.fn(),
     removeListener: jest.fn(),
@@ -49,6 +56,29 @@ Object.defineProperty(window, 'electronAPI', {
     checkForUpdates: jest.fn().mockResolvedValue(undefined),
     getUpdateStatus: jest.fn().mockResolvedValue({}),
     updateRecordingSummary: jest.fn().mockResolvedValue(true),
+    convertAudioLibrary: jest
+      .fn()
+      .mockResolvedValue({ converted: 0, failed: 0 }),
+    importAudioFile: jest.fn().mockResolvedValue(null),
+    retranscribeRecording: jest.fn().mockResolvedValue(true),
+    getTranscriptVersions: jest.fn().mockResolvedValue([]),
+    restoreTranscriptVersion: jest.fn().mockResolvedValue(true),
+    getSummaryVersions: jest.fn().mockResolvedValue([]),
+    restoreSummaryVersion: jest.fn().mockResolvedValue(true),
+    getTranscriptChat: jest.fn().mockResolvedValue([]),
+    askTranscript: jest.fn().mockResolvedValue([]),
+    clearTranscriptChat: jest.fn().mockResolvedValue(true),
+    retryAutoSummary: jest.fn().mockResolvedValue(true),
+    askLibrary: jest.fn().mockResolvedValue({ answer: '', sources: [] }),
+    getOpenActionItems: jest.fn().mockResolvedValue([]),
+    setActionItemStatus: jest.fn().mockResolvedValue(true),
+    exportCaptions: jest.fn().mockResolvedValue(null),
+    exportDocument: jest.fn().mockResolvedValue(null),
+    exportLibrary: jest.fn().mockResolvedValue(null),
+    importLibrary: jest.fn().mockResolvedValue(null),
+    chooseRecordingsDirectory: jest.fn().mockResolvedValue(null),
+    moveRecordings: jest.fn().mockResolvedValue({ recordings: 0, files: 0 }),
+    onImportAudioRequested: jest.fn(),
   },
   configurable: true,
 });
@@ -37,6 +37,9 @@ export interface MockAssemblyAIClient {
   streaming: {
     transcriber: jest.Mock;
   };
+  transcripts: {
+    transcribe: jest.Mock;
+  };
 }
 
 export function createMockAssemblyAIClient(
@@ -46,6 +49,12 @@ export function createMockAssemblyAIClient(
     streaming: {
       transcriber: jest.fn().mockReturnValue(transcriber),
     },
+    transcripts: {
+      transcribe: jest.fn().mockResolvedValue({
+        status: 'completed',
+        utterances: [],
+      }),
+    },
   };
 }
 
@@ -0,0 +1,20 @@
+import type { DocumentTemplate } from '../types/common.js';
+
+// Layouts offered when exporting a recording as a document
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'full',
+    name: 'Full report',
+    sections: ['summary', 'actionItems', 'transcript'],
+  },
+  {
+    id: 'brief',
+    name: 'Meeting brief',
+    sections: ['summary', 'actionItems'],
+  },
+  {
+    id: 'transcript',
+    name: 'Transcript only',
+    sections: ['transcript'],
+  },
+];
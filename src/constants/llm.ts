@@ -0,0 +1,10 @@
+import type { LLMBackendSettings } from '../types/common.js';
+
+// Summaries and dictation styling go through the AssemblyAI LLM Gateway
+// unless an OpenAI-compatible endpoint is configured
+export const DEFAULT_LLM_BACKEND: LLMBackendSettings = {
+  provider: 'assemblyai',
+  baseUrl: '',
+  model: '',
+  apiKey: '',
+};
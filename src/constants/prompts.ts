@@ -20,12 +20,60 @@ Rules:
 3. Extract action items with: Task - Owner - Due date
 4. Stay objective - report what was said, include disagreements
 5. Focus on decisions, blockers, and next steps
+6. When turns are labeled "**Speaker:**", attribute statements and action item owners to that speaker
 
 Key phrases to capture: "decided to", "will handle", "blocker is", "next step", "action item", "by [date]", "assigned to"
 
 Meeting Context and Structure:
 `;
 
+// Follow-up questions about a single recording
+export const TRANSCRIPT_CHAT_SYSTEM_PROMPT = `You answer questions about a meeting using only its transcript and notes below.
+
+Rules:
+1. If the transcript does not say, answer that it was not discussed - never guess
+2. Be brief and direct
+3. Attribute statements to speakers when turns are labeled "**Speaker:**"
+4. Quote the \`[HH:MM:SS]\` offset of the turn you rely on when one is given
+
+`;
+
+// Prepended to the transcript when only its most relevant parts fit
+export const TRANSCRIPT_CHAT_EXCERPTS_NOTE =
+  'The transcript is too long to include in full. Only the parts most related to the question are shown; "[…]" marks where parts were left out.\n\n';
+
+// Questions across every recording in the library
+export const LIBRARY_QA_SYSTEM_PROMPT = `You answer questions about past meetings using only the numbered excerpts below. Each excerpt names its meeting, date and, when known, the time in the recording.
+
+Rules:
+1. Cite every claim with the excerpt number in brackets, e.g. [2]
+2. If the excerpts do not answer the question, say so - never guess
+3. Be brief; mention the meeting and date when it matters (e.g. "decided in the Mar 4 planning meeting [3]")
+
+`;
+
+// Structured follow-ups, returned as JSON
+export const ACTION_ITEMS_SYSTEM_PROMPT = `You extract action items from meeting transcripts.
+
+Rules:
+1. Only include commitments someone actually made or was assigned - not ideas or suggestions
+2. task: a short imperative sentence ("Send the revised budget to finance")
+3. owner: the person responsible as named in the transcript, or null if nobody was named
+4. due: the deadline as stated ("Friday", "end of Q2", "2024-03-15"), or null if none was given
+5. Merge duplicates; if nothing was committed, return an empty list
+
+Reply with JSON only: {"items": [{"task": "...", "owner": "...", "due": "..."}]}`;
+
+// Names a recording from its transcript or summary
+export const TITLE_SYSTEM_PROMPT = `You name meeting recordings. Reply with a concise, specific title of at most eight words that says what the meeting was about, e.g. "Q3 roadmap review with design".
+
+Reply with the title only - no quotes, no trailing punctuation, no date.`;
+
+// Long transcripts are summarized in parts, then merged
+export const CHUNK_SUMMARY_INSTRUCTIONS = `This is part {part} of {total} of a longer transcript. Write notes for this part only, using the sections above. Leave out sections with nothing to report. The notes will be merged with the other parts later, so keep every decision, action item, owner and date.`;
+
+export const MERGE_SUMMARY_INSTRUCTIONS = `Below are notes written separately for consecutive parts of one meeting transcript. Parts overlap slightly, so the same point may appear twice. Merge them into a single summary that follows the sections above exactly, combining duplicates and keeping the order in which topics came up.`;
+
 // Default meeting prompt templates
 export const DEFAULT_PROMPTS: PromptTemplate[] = [
   {
@@ -0,0 +1,2 @@
+// Default address of vosk-server, the reference local transcription engine
+export const DEFAULT_LOCAL_TRANSCRIPTION_URL = 'ws://localhost:2700';
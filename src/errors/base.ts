@@ -51,6 +51,9 @@ export enum ErrorCode {
   INVALID_CONFIG = 'INVALID_CONFIG',
   NO_ACTIVE_RECORDING = 'NO_ACTIVE_RECORDING',
   TRANSCRIPTION_CONNECTION_FAILED = 'TRANSCRIPTION_CONNECTION_FAILED',
+  UNSUPPORTED_AUDIO_FILE = 'UNSUPPORTED_AUDIO_FILE',
+  NO_CAPTION_TIMINGS = 'NO_CAPTION_TIMINGS',
+  INVALID_LIBRARY_ARCHIVE = 'INVALID_LIBRARY_ARCHIVE',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
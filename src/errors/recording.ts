@@ -16,3 +16,42 @@ export class NoActiveRecordingError extends AppError {
     );
   }
 }
+
+/**
+ * Error thrown when importing a file whose format cannot be transcribed
+ */
+export class UnsupportedAudioFileError extends AppError {
+  constructor(filename: string) {
+    super(
+      `Cannot import ${filename}. Supported formats are WAV, MP3, M4A and WebM.`,
+      ErrorCode.UNSUPPORTED_AUDIO_FILE,
+      true
+    );
+  }
+}
+
+/**
+ * Error thrown when exporting captions from a transcript without timestamps
+ */
+export class NoCaptionTimingsError extends AppError {
+  constructor() {
+    super(
+      'This transcript has no timestamps, so captions cannot be exported. Re-transcribe the recording to add them.',
+      ErrorCode.NO_CAPTION_TIMINGS,
+      true
+    );
+  }
+}
+
+/**
+ * Error thrown when importing a file that is not a library archive we can read
+ */
+export class InvalidLibraryArchiveError extends AppError {
+  constructor(reason: string) {
+    super(
+      `Cannot import this library archive: ${reason}`,
+      ErrorCode.INVALID_LIBRARY_ARCHIVE,
+      true
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Compressed audio encoding for stored recordings
+ *
+ * Recordings are always captured as WAV (see `wav-writer.ts`) so a crash
+ * leaves a recoverable file. When a compressed storage format is configured
+ * the finished WAV is re-encoded with WASM builds of libFLAC or libopus,
+ * reading the PCM in chunks so long meetings never sit in memory at once.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+import { WAV_HEADER_SIZE } from './wav-writer.js';
+import type { AudioStorageFormat } from '../types/common.js';
+
+export const AUDIO_EXTENSIONS: Record<AudioStorageFormat, string> = {
+  wav: '.wav',
+  flac: '.flac',
+  opus: '.opus',
+};
+
+// Speech-oriented Opus settings; ~14 MB per hour of mono audio
+const OPUS_BITRATE_KBPS = 32;
+const CHUNK_SECONDS = 10;
+
+interface StreamEncoder {
+  encode(channels: Float32Array[]): Uint8Array;
+  flush(): Uint8Array;
+  free(): void;
+}
+
+/**
+ * Swap the extension of an audio filename for the given storage format
+ */
+export function withAudioExtension(
+  filename: string,
+  format: AudioStorageFormat
+): string {
+  const ext = path.extname(filename);
+  const base = ext ? filename.slice(0, -ext.length) : filename;
+  return `${base}${AUDIO_EXTENSIONS[format]}`;
+}
+
+async function createEncoder(
+  format: Exclude<AudioStorageFormat, 'wav'>,
+  sampleRate: number,
+  channels: number
+): Promise<StreamEncoder> {
+  if (format === 'flac') {
+    const { default: flac } = await import('@audio/encode-flac');
+    return flac({ sampleRate, channels });
+  }
+  const { default: opus } = await import('@audio/encode-opus');
+  return opus({
+    sampleRate,
+    channels,
+    bitrate: OPUS_BITRATE_KBPS,
+    application: 'voip',
+  });
+}
+
+/**
+ * Encode a 16-bit PCM WAV file written by `WavFileWriter` into FLAC or
+ * Ogg Opus. The output is removed again if encoding fails part-way.
+ */
+export async function encodeWavFile(
+  inputPath: string,
+  outputPath: string,
+  format: Exclude<AudioStorageFormat, 'wav'>
+): Promise<void> {
+  const input = await fs.open(inputPath, 'r');
+  let output: fs.FileHandle | null = null;
+  let encoder: StreamEncoder | null = null;
+
+  try {
+    const header = Buffer.alloc(WAV_HEADER_SIZE);
+    await input.read(header, 0, WAV_HEADER_SIZE, 0);
+    if (
+      header.toString('ascii', 0, 4) !== 'RIFF' ||
+      header.toString('ascii', 36, 40) !== 'data' ||
+      header.readUInt16LE(34) !== 16
+    ) {
+      throw new Error(`Unsupported WAV file: ${path.basename(inputPath)}`);
+    }
+    const channels = header.readUInt16LE(22);
+    const sampleRate = header.readUInt32LE(24);
+    const blockAlign = channels * 2;
+
+    // Trust the file size over the header so unpatched files still convert
+    const { size } = await input.stat();
+    const dataEnd =
+      WAV_HEADER_SIZE +
+      Math.floor((size - WAV_HEADER_SIZE) / blockAlign) * blockAlign;
+
+    encoder = await createEncoder(format, sampleRate, channels);
+    output = await fs.open(outputPath, 'w');
+
+    const chunk = Buffer.alloc(sampleRate * CHUNK_SECONDS * blockAlign);
+    for (let position = WAV_HEADER_SIZE; position < dataEnd; ) {
+      const { bytesRead } = await input.read(
+        chunk,
+        0,
+        Math.min(chunk.length, dataEnd - position),
+        position
+      );
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const encoded = encoder.encode(deinterleave(chunk, bytesRead, channels));
+      if (encoded.length > 0) {
+        await output.write(encoded);
+      }
+    }
+
+    const tail = encoder.flush();
+    if (tail.length > 0) {
+      await output.write(tail);
+    }
+  } catch (error) {
+    await output?.close();
+    output = null;
+    await fs.rm(outputPath, { force: true });
+    throw error;
+  } finally {
+    encoder?.free();
+    await output?.close();
+    await input.close();
+  }
+}
+
+/**
+ * Split interleaved 16-bit samples into per-channel float arrays
+ */
+function deinterleave(
+  bytes: Buffer,
+  length: number,
+  channels: number
+): Float32Array[] {
+  const frames = length / (channels * 2);
+  const result = Array.from(
+    { length: channels },
+    () => new Float32Array(frames)
+  );
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = bytes.readInt16LE((frame * channels + channel) * 2);
+      const target = result[channel];
+      if (target) target[frame] = sample / 32768;
+    }
+  }
+  return result;
+}
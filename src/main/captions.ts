@@ -0,0 +1,171 @@
+/**
+ * Subtitle and caption files from a stored transcript
+ *
+ * Each timestamped turn is wrapped into lines and grouped into cues of a few
+ * lines. Cues follow each other from the start of the turn, each shown for
+ * as long as its words take to say, so captions clear during pauses instead
+ * of lingering until the next speaker. Turns without an offset cannot be
+ * placed in time and are left out.
+ */
+
+import type { CaptionFormat } from '../types/common.js';
+import {
+  parseTranscriptTurns,
+  type TranscriptTurn,
+} from '../utils/transcript.js';
+
+// Typical speaking rate, used to time each cue
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_SECONDS = 1;
+
+export interface CaptionOptions {
+  maxLineLength: number; // Characters per line
+  maxLines: number; // Lines per cue
+  maxCueDuration: number; // Seconds
+  speakerPrefix: boolean; // Start each turn with `Speaker: `
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 6,
+  speakerPrefix: true,
+};
+
+export interface CaptionCue {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Break text into lines of at most `maxLength` characters at word
+ * boundaries. Words longer than a line are kept whole on their own line.
+ */
+export function wrapLines(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    if (!word) continue;
+    if (current && current.length + 1 + word.length > maxLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Timed cues for every timestamped turn of a transcript, in time order
+ */
+export function buildCaptionCues(
+  transcript: string,
+  options: CaptionOptions = DEFAULT_CAPTION_OPTIONS
+): CaptionCue[] {
+  // Separate-stream recordings store each speaker's turns as they finish,
+  // which is not always the order they started in
+  const turns = parseTranscriptTurns(transcript)
+    .filter(
+      (turn): turn is TranscriptTurn & { start: number } =>
+        turn.start !== undefined && turn.text.length > 0
+    )
+    .sort((a, b) => a.start - b.start);
+  const cues: CaptionCue[] = [];
+
+  for (const [index, turn] of turns.entries()) {
+    const text =
+      options.speakerPrefix && turn.speaker
+        ? `${turn.speaker}: ${turn.text}`
+        : turn.text;
+    const lines = wrapLines(text, options.maxLineLength);
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += options.maxLines) {
+      groups.push(lines.slice(i, i + options.maxLines));
+    }
+
+    const durations = groups.map((group) =>
+      Math.min(
+        options.maxCueDuration,
+        Math.max(
+          MIN_CUE_SECONDS,
+          group.join(' ').split(/\s+/).length / WORDS_PER_SECOND
+        )
+      )
+    );
+    // A fast speaker gets shorter cues rather than running into the next turn
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    const nextStart = turns[index + 1]?.start;
+    const available =
+      nextStart !== undefined && nextStart > turn.start
+        ? nextStart - turn.start
+        : total;
+    const scale = Math.min(1, available / total);
+
+    let start = turn.start;
+    for (const [i, group] of groups.entries()) {
+      const duration = Math.max(MIN_CUE_SECONDS, (durations[i] ?? 0) * scale);
+      cues.push({ start, end: start + duration, lines: group });
+      start += duration;
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Format seconds as `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT)
+ */
+export function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const mins = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${[hours, mins, secs]
+    .map((value) => value.toString().padStart(2, '0'))
+    .join(':')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${String(index + 1)}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+    )
+    .join('\n');
+}
+
+// Cue text is markup in WebVTT, and "-->" would end the cue
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  return [
+    'WEBVTT\n',
+    ...cues.map(
+      (cue) =>
+        `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.lines
+          .map(escapeVttText)
+          .join('\n')}\n`
+    ),
+  ].join('\n');
+}
+
+/**
+ * Caption file contents in the requested format
+ */
+export function formatCaptions(
+  cues: CaptionCue[],
+  format: CaptionFormat
+): string {
+  return format === 'srt' ? formatSrt(cues) : formatWebVtt(cues);
+}
@@ -7,18 +7,30 @@ import { AutoUpdaterService } from './auto-updater.js';
 import { DI_TOKENS } from './di-tokens.js';
 import { DictationStatusWindow } from './dictationStatusWindow.js';
 import logger from './logger.js';
+import { ActionItemService } from './services/actionItemService.js';
+import { AudioConversionService } from './services/audioConversionService.js';
 import { AudioRecordingService } from './services/audioRecordingService.js';
 import { DictationService } from './services/dictationService.js';
+import { ExportService } from './services/exportService.js';
+import { ImportService } from './services/importService.js';
+import { LibraryArchiveService } from './services/libraryArchiveService.js';
+import { LibraryQAService } from './services/libraryQAService.js';
 import { LLMGatewayService } from './services/llmGatewayService.js';
 import { MigrationService } from './services/migrationService.js';
 import { PostHogService } from './services/posthogService.js';
 import { RecordingDataService } from './services/recordingDataService.js';
 import { RecordingManager } from './services/recordingManager.js';
+import { RecordingsDirectoryService } from './services/recordingsDirectoryService.js';
+import { RecordingsWatcherService } from './services/recordingsWatcherService.js';
+import { RecoveryService } from './services/recoveryService.js';
+import { RetranscriptionService } from './services/retranscriptionService.js';
 import { SettingsService } from './services/settingsService.js';
 import { SummarizationService } from './services/summarizationService.js';
+import { TranscriptChatService } from './services/transcriptChatService.js';
 import { TranscriptFileService } from './services/transcriptFileService.js';
 import {
   AssemblyAIFactory,
+  AssemblyAIFileTranscriber,
   TranscriptionService,
 } from './services/transcriptionService.js';
 import { StateBroadcaster } from './state-broadcaster.js';
@@ -50,6 +62,9 @@ export function setupContainer(mainWindow: BrowserWindow): void {
   container.register(DI_TOKENS.AssemblyAIFactory, {
     useClass: AssemblyAIFactory,
   });
+  container.register(DI_TOKENS.FileTranscriber, {
+    useClass: AssemblyAIFileTranscriber,
+  });
   container.registerSingleton(DI_TOKENS.LLMGatewayService, LLMGatewayService);
 
   // Register services as singletons
@@ -79,6 +94,35 @@ export function setupContainer(mainWindow: BrowserWindow): void {
     DI_TOKENS.AudioRecordingService,
     AudioRecordingService
   );
+  container.registerSingleton(
+    DI_TOKENS.AudioConversionService,
+    AudioConversionService
+  );
+  container.registerSingleton(DI_TOKENS.RecoveryService, RecoveryService);
+  container.registerSingleton(DI_TOKENS.ImportService, ImportService);
+  container.registerSingleton(
+    DI_TOKENS.RetranscriptionService,
+    RetranscriptionService
+  );
+  container.registerSingleton(
+    DI_TOKENS.TranscriptChatService,
+    TranscriptChatService
+  );
+  container.registerSingleton(DI_TOKENS.LibraryQAService, LibraryQAService);
+  container.registerSingleton(DI_TOKENS.ActionItemService, ActionItemService);
+  container.registerSingleton(DI_TOKENS.ExportService, ExportService);
+  container.registerSingleton(
+    DI_TOKENS.LibraryArchiveService,
+    LibraryArchiveService
+  );
+  container.registerSingleton(
+    DI_TOKENS.RecordingsDirectoryService,
+    RecordingsDirectoryService
+  );
+  container.registerSingleton(
+    DI_TOKENS.RecordingsWatcherService,
+    RecordingsWatcherService
+  );
   container.registerSingleton(
     DI_TOKENS.DictationStatusWindow,
     DictationStatusWindow
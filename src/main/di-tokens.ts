@@ -9,12 +9,24 @@ export const DI_TOKENS = {
   RecordingDataService: Symbol('RecordingDataService'),
   AutoUpdaterService: Symbol('AutoUpdaterService'),
   AssemblyAIFactory: Symbol('AssemblyAIFactory'),
+  FileTranscriber: Symbol('FileTranscriber'),
   LLMGatewayService: Symbol('LLMGatewayService'),
   SummarizationService: Symbol('SummarizationService'),
   DictationService: Symbol('DictationService'),
   AudioRecordingService: Symbol('AudioRecordingService'),
+  AudioConversionService: Symbol('AudioConversionService'),
   DictationStatusWindow: Symbol('DictationStatusWindow'),
   PostHogService: Symbol('PostHogService'),
   TranscriptFileService: Symbol('TranscriptFileService'),
   MigrationService: Symbol('MigrationService'),
+  RecoveryService: Symbol('RecoveryService'),
+  ImportService: Symbol('ImportService'),
+  RetranscriptionService: Symbol('RetranscriptionService'),
+  TranscriptChatService: Symbol('TranscriptChatService'),
+  LibraryQAService: Symbol('LibraryQAService'),
+  ActionItemService: Symbol('ActionItemService'),
+  ExportService: Symbol('ExportService'),
+  LibraryArchiveService: Symbol('LibraryArchiveService'),
+  RecordingsDirectoryService: Symbol('RecordingsDirectoryService'),
+  RecordingsWatcherService: Symbol('RecordingsWatcherService'),
 } as const;
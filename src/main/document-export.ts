@@ -0,0 +1,402 @@
+/**
+ * Recordings as documents for people outside the app
+ *
+ * A recording is rendered as a title, its date and the sections chosen by the
+ * template. Summaries are markdown; the subset the summary prompts produce
+ * (headings, lists, paragraphs and inline emphasis) is turned into the
+ * equivalent HTML or WordprocessingML. HTML output is self-contained and also
+ * serves as the source for PDF export.
+ */
+
+import { createZip } from './zip.js';
+import type {
+  ActionItem,
+  DocumentTemplate,
+  Recording,
+} from '../types/common.js';
+import { formatOffset, parseTranscriptTurns } from '../utils/transcript.js';
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | {
+      type: 'listItem';
+      ordered: boolean;
+      number: number;
+      depth: number;
+      runs: InlineRun[];
+    };
+
+const INLINE_REGEX =
+  /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/;
+
+/**
+ * Split a line into runs of plain, bold, italic and code text
+ */
+export function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  for (const part of text.split(INLINE_REGEX)) {
+    if (!part) continue;
+    if (/^(\*\*|__).+\1$/.test(part)) {
+      runs.push({ text: part.slice(2, -2), bold: true });
+    } else if (/^`.+`$/.test(part)) {
+      runs.push({ text: part.slice(1, -1), code: true });
+    } else if (/^([*_]).+\1$/.test(part)) {
+      runs.push({ text: part.slice(1, -1), italic: true });
+    } else {
+      runs.push({ text: part });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Read markdown into blocks. Consecutive plain lines form one paragraph.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line.trim());
+    const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^(\s*)(\d+)[.)]\s+(.*)$/.exec(line);
+
+    if (!line.trim()) {
+      flush();
+    } else if (heading?.[1] && heading[2] !== undefined) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        runs: parseInline(heading[2].replace(/\s*#+$/, '')),
+      });
+    } else if (bullet?.[2] !== undefined) {
+      flush();
+      blocks.push({
+        type: 'listItem',
+        ordered: false,
+        number: 0,
+        depth: Math.floor((bullet[1]?.length ?? 0) / 2),
+        runs: parseInline(bullet[2]),
+      });
+    } else if (numbered?.[3] !== undefined) {
+      flush();
+      blocks.push({
+        type: 'listItem',
+        ordered: true,
+        number: Number(numbered[2]),
+        depth: Math.floor((numbered[1]?.length ?? 0) / 2),
+        runs: parseInline(numbered[3]),
+      });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'long',
+    timeStyle: 'short',
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function actionItemDetails(item: ActionItem): string {
+  return [item.owner, item.due && `due ${item.due}`].filter(Boolean).join(', ');
+}
+
+// ==================== HTML ====================
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2328; line-height: 1.5; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #d0d7de; }
+  h3, h4, h5, h6 { font-size: 15px; margin: 20px 0 6px; }
+  .meta { color: #656d76; margin: 0 0 24px; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; background: #f6f8fa; padding: 1px 4px; border-radius: 3px; }
+  ul.action-items { list-style: none; padding-left: 0; }
+  ul.action-items li::before { content: '\\2610'; margin-right: 8px; }
+  ul.action-items li.done::before { content: '\\2611'; }
+  .details { color: #656d76; }
+  .turn { margin: 0 0 10px; }
+  .time { color: #656d76; font-family: Menlo, Consolas, monospace; font-size: 0.85em; margin-right: 6px; }
+  @media print { body { margin: 0 auto; } }
+`;
+
+function runsToHtml(runs: InlineRun[]): string {
+  return runs
+    .map((run) => {
+      const text = escapeXml(run.text);
+      if (run.code) return `<code>${text}</code>`;
+      if (run.bold) return `<strong>${text}</strong>`;
+      if (run.italic) return `<em>${text}</em>`;
+      return text;
+    })
+    .join('');
+}
+
+function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  // Open lists, innermost last
+  const open: ('ul' | 'ol')[] = [];
+
+  for (const block of parseMarkdownBlocks(markdown)) {
+    const depth = block.type === 'listItem' ? block.depth + 1 : 0;
+    while (open.length > depth) {
+      html.push(`</${open.pop() ?? 'ul'}>`);
+    }
+    if (block.type === 'listItem') {
+      const tag = block.ordered ? 'ol' : 'ul';
+      if (open.length === depth && open[depth - 1] !== tag) {
+        html.push(`</${open.pop() ?? 'ul'}>`);
+      }
+      while (open.length < depth) {
+        open.push(tag);
+        html.push(`<${tag}>`);
+      }
+      html.push(`<li>${runsToHtml(block.runs)}</li>`);
+    } else if (block.type === 'heading') {
+      // h1 and h2 are taken by the document and its sections
+      const level = Math.min(block.level + 2, 6);
+      html.push(
+        `<h${String(level)}>${runsToHtml(block.runs)}</h${String(level)}>`
+      );
+    } else {
+      html.push(`<p>${runsToHtml(block.runs)}</p>`);
+    }
+  }
+  while (open.length > 0) {
+    html.push(`</${open.pop() ?? 'ul'}>`);
+  }
+
+  return html.join('\n');
+}
+
+/**
+ * A standalone HTML page with inline styles and no external resources
+ */
+export function renderHtml(
+  recording: Recording,
+  actionItems: ActionItem[],
+  template: DocumentTemplate
+): string {
+  const title = recording.title ?? 'Untitled Recording';
+  const body: string[] = [
+    `<h1>${escapeXml(title)}</h1>`,
+    `<p class="meta">${escapeXml(formatDate(recording.created_at))}</p>`,
+  ];
+
+  for (const section of template.sections) {
+    if (section === 'summary' && recording.summary?.trim()) {
+      body.push('<h2>Summary</h2>', markdownToHtml(recording.summary));
+    } else if (section === 'actionItems' && actionItems.length > 0) {
+      body.push(
+        '<h2>Action items</h2>',
+        '<ul class="action-items">',
+        ...actionItems.map((item) => {
+          const details = actionItemDetails(item);
+          return `<li${item.status === 'done' ? ' class="done"' : ''}>${escapeXml(item.task)}${
+            details
+              ? ` <span class="details">(${escapeXml(details)})</span>`
+              : ''
+          }</li>`;
+        }),
+        '</ul>'
+      );
+    } else if (section === 'transcript' && recording.transcript?.trim()) {
+      body.push(
+        '<h2>Transcript</h2>',
+        ...parseTranscriptTurns(recording.transcript).map((turn) => {
+          const time =
+            turn.start !== undefined
+              ? `<span class="time">${formatOffset(turn.start)}</span>`
+              : '';
+          const speaker = turn.speaker
+            ? `<strong>${escapeXml(turn.speaker)}:</strong> `
+            : '';
+          return `<p class="turn">${time}${speaker}${escapeXml(turn.text)}</p>`;
+        })
+      );
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+// ==================== DOCX ====================
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function docxRun(run: InlineRun): string {
+  const props = [
+    run.bold && '<w:b/>',
+    run.italic && '<w:i/>',
+    run.code && '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>',
+  ]
+    .filter(Boolean)
+    .join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}
+
+function docxParagraph(
+  runs: InlineRun[],
+  options: { style?: string; indent?: number } = {}
+): string {
+  const props = [
+    options.style && `<w:pStyle w:val="${options.style}"/>`,
+    options.indent !== undefined &&
+      `<w:ind w:left="${String(options.indent)}" w:hanging="360"/>`,
+  ]
+    .filter(Boolean)
+    .join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs.map(docxRun).join('')}</w:p>`;
+}
+
+function markdownToDocx(markdown: string): string[] {
+  return parseMarkdownBlocks(markdown).map((block) => {
+    if (block.type === 'heading') {
+      return docxParagraph(block.runs, {
+        style: `Heading${String(Math.min(block.level + 1, 6))}`,
+      });
+    }
+    if (block.type === 'listItem') {
+      // Markers are written as text, which keeps the package free of
+      // numbering definitions
+      const marker = block.ordered ? `${String(block.number)}.\t` : '•\t';
+      return docxParagraph([{ text: marker }, ...block.runs], {
+        indent: 720 + block.depth * 360,
+      });
+    }
+    return docxParagraph(block.runs);
+  });
+}
+
+/**
+ * The XML parts of a DOCX package, keyed by their path in the archive
+ */
+export function buildDocxParts(
+  recording: Recording,
+  actionItems: ActionItem[],
+  template: DocumentTemplate
+): Record<string, string> {
+  const paragraphs: string[] = [
+    docxParagraph([{ text: recording.title ?? 'Untitled Recording' }], {
+      style: 'Title',
+    }),
+    docxParagraph([{ text: formatDate(recording.created_at) }], {
+      style: 'Subtitle',
+    }),
+  ];
+
+  for (const section of template.sections) {
+    if (section === 'summary' && recording.summary?.trim()) {
+      paragraphs.push(
+        docxParagraph([{ text: 'Summary' }], { style: 'Heading1' }),
+        ...markdownToDocx(recording.summary)
+      );
+    } else if (section === 'actionItems' && actionItems.length > 0) {
+      paragraphs.push(
+        docxParagraph([{ text: 'Action items' }], { style: 'Heading1' }),
+        ...actionItems.map((item) => {
+          const details = actionItemDetails(item);
+          return docxParagraph(
+            [
+              { text: `${item.status === 'done' ? '☑' : '☐'}\t` },
+              { text: item.task },
+              ...(details ? [{ text: ` (${details})`, italic: true }] : []),
+            ],
+            { indent: 720 }
+          );
+        })
+      );
+    } else if (section === 'transcript' && recording.transcript?.trim()) {
+      paragraphs.push(
+        docxParagraph([{ text: 'Transcript' }], { style: 'Heading1' }),
+        ...parseTranscriptTurns(recording.transcript).map((turn) =>
+          docxParagraph([
+            ...(turn.start !== undefined
+              ? [{ text: `[${formatOffset(turn.start)}] `, code: true }]
+              : []),
+            ...(turn.speaker
+              ? [{ text: `${turn.speaker}: `, bold: true }]
+              : []),
+            { text: turn.text },
+          ])
+        )
+      );
+    }
+  }
+
+  const heading = (id: string, name: string, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/></w:pPr><w:rPr><w:b/><w:sz w:val="${String(size)}"/></w:rPr></w:style>`;
+
+  return {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+    'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    'word/styles.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="656D76"/></w:rPr></w:style>${[
+      heading('Heading1', 'heading 1', 32),
+      heading('Heading2', 'heading 2', 28),
+      heading('Heading3', 'heading 3', 24),
+      heading('Heading4', 'heading 4', 22),
+      heading('Heading5', 'heading 5', 22),
+      heading('Heading6', 'heading 6', 22),
+    ].join('')}</w:styles>`,
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NS}"><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`,
+  };
+}
+
+/**
+ * A DOCX file that Word, Pages, LibreOffice and Google Docs can open
+ */
+export function renderDocx(
+  recording: Recording,
+  actionItems: ActionItem[],
+  template: DocumentTemplate
+): Buffer {
+  return createZip(
+    Object.entries(buildDocxParts(recording, actionItems, template)).map(
+      ([name, data]) => ({ name, data })
+    )
+  );
+}
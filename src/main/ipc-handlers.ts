@@ -9,9 +9,19 @@ import { BrowserWindow, ipcMain, shell } from 'electron';
 
 import type { AutoUpdaterService } from './auto-updater.js';
 import { DI_TOKENS, container } from './container.js';
+import type { ActionItemService } from './services/actionItemService.js';
+import type { AudioConversionService } from './services/audioConversionService.js';
+import type { ExportService } from './services/exportService.js';
+import type { ImportService } from './services/importService.js';
+import type { LibraryArchiveService } from './services/libraryArchiveService.js';
+import type { LibraryQAService } from './services/libraryQAService.js';
 import type { RecordingDataService } from './services/recordingDataService.js';
 import type { RecordingManager } from './services/recordingManager.js';
+import type { RecordingsDirectoryService } from './services/recordingsDirectoryService.js';
+import type { RecordingsWatcherService } from './services/recordingsWatcherService.js';
+import type { RetranscriptionService } from './services/retranscriptionService.js';
 import type { SettingsService } from './services/settingsService.js';
+import type { TranscriptChatService } from './services/transcriptChatService.js';
 import type { TranscriptFileService } from './services/transcriptFileService.js';
 import type { StateBroadcaster } from './state-broadcaster.js';
 import {
@@ -19,7 +29,12 @@ import {
   updateCurrentRecordingSummary,
 } from './store/slices/recordingsSlice.js';
 import type { AppDispatch, RootState } from './store/store.js';
-import { PromptTemplate } from '../types/common.js';
+import type {
+  ActionItemStatus,
+  CaptionFormat,
+  DocumentFormat,
+  PromptTemplate,
+} from '../types/common.js';
 
 interface LogLevel {
   info: (message: string) => void;
@@ -60,6 +75,37 @@ function setupIpcHandlers(
   const audioRecordingService = container.resolve<
     import('./services/audioRecordingService.js').AudioRecordingService
   >(DI_TOKENS.AudioRecordingService);
+  const audioConversionService = container.resolve<AudioConversionService>(
+    DI_TOKENS.AudioConversionService
+  );
+  const importService = container.resolve<ImportService>(
+    DI_TOKENS.ImportService
+  );
+  const retranscriptionService = container.resolve<RetranscriptionService>(
+    DI_TOKENS.RetranscriptionService
+  );
+  const transcriptChatService = container.resolve<TranscriptChatService>(
+    DI_TOKENS.TranscriptChatService
+  );
+  const libraryQAService = container.resolve<LibraryQAService>(
+    DI_TOKENS.LibraryQAService
+  );
+  const actionItemService = container.resolve<ActionItemService>(
+    DI_TOKENS.ActionItemService
+  );
+  const exportService = container.resolve<ExportService>(
+    DI_TOKENS.ExportService
+  );
+  const libraryArchiveService = container.resolve<LibraryArchiveService>(
+    DI_TOKENS.LibraryArchiveService
+  );
+  const recordingsDirectoryService =
+    container.resolve<RecordingsDirectoryService>(
+      DI_TOKENS.RecordingsDirectoryService
+    );
+  const recordingsWatcherService = container.resolve<RecordingsWatcherService>(
+    DI_TOKENS.RecordingsWatcherService
+  );
 
   // ==================== Events (Fire-and-Forget) ====================
 
@@ -83,6 +129,13 @@ function setupIpcHandlers(
     recordingManager.sendSystemAudio(audioData);
   });
 
+  ipcMain.on(
+    'archive-audio-data',
+    (_event, source: 'microphone' | 'system', audioData: ArrayBuffer) => {
+      recordingManager.sendArchiveAudio(source, audioData);
+    }
+  );
+
   // ==================== Recording Control ====================
 
   ipcMain.handle('start-recording', () =>
@@ -91,14 +144,28 @@ function setupIpcHandlers(
 
   ipcMain.handle('stop-recording', () => recordingManager.stopTranscription());
 
+  ipcMain.handle('pause-recording', () => recordingManager.pauseRecording());
+
+  ipcMain.handle('resume-recording', () => recordingManager.resumeRecording());
+
   ipcMain.handle('new-recording', () => recordingDataService.newRecording());
 
   ipcMain.handle('load-recording', (_event, recordingId: string) =>
     recordingDataService.loadRecording(recordingId)
   );
 
-  ipcMain.handle('summarize-transcript', (_event, transcript?: string) =>
-    recordingManager.summarizeTranscript(transcript)
+  ipcMain.handle(
+    'summarize-transcript',
+    (_event, transcript?: string, template?: string) =>
+      recordingManager.summarizeTranscript(transcript, template)
+  );
+
+  ipcMain.handle('stop-summarization', () =>
+    recordingManager.stopSummarization()
+  );
+
+  ipcMain.handle('retry-auto-summary', (_event, recordingId: string) =>
+    recordingManager.retryAutoSummary(recordingId)
   );
 
   // ==================== Recording Data ====================
@@ -162,7 +229,9 @@ function setupIpcHandlers(
     const recording =
       await transcriptFileService.getTranscriptById(recordingId);
     if (recording?.audio_filename) {
-      return audioRecordingService.getAudioFilePath(recording.audio_filename);
+      return audioRecordingService.resolveAudioFilePath(
+        recording.audio_filename
+      );
     }
     return null;
   });
@@ -173,7 +242,7 @@ function setupIpcHandlers(
       const recording =
         await transcriptFileService.getTranscriptById(recordingId);
       if (recording?.audio_filename) {
-        const filepath = audioRecordingService.getAudioFilePath(
+        const filepath = await audioRecordingService.resolveAudioFilePath(
           recording.audio_filename
         );
         if (filepath) {
@@ -191,6 +260,104 @@ function setupIpcHandlers(
     return true;
   });
 
+  ipcMain.handle('convert-audio-library', () =>
+    audioConversionService.convertLibrary()
+  );
+
+  ipcMain.handle('import-audio-file', () => importService.importWithDialog());
+
+  ipcMain.handle('retranscribe-recording', (_event, recordingId: string) =>
+    retranscriptionService.retranscribe(recordingId)
+  );
+
+  ipcMain.handle('get-transcript-versions', (_event, recordingId: string) =>
+    retranscriptionService.getTranscriptVersions(recordingId)
+  );
+
+  ipcMain.handle(
+    'restore-transcript-version',
+    (_event, recordingId: string, createdAt: number) =>
+      retranscriptionService.restoreTranscriptVersion(recordingId, createdAt)
+  );
+
+  ipcMain.handle('get-summary-versions', (_event, recordingId: string) =>
+    recordingDataService.getSummaryVersions(recordingId)
+  );
+
+  ipcMain.handle(
+    'restore-summary-version',
+    (_event, recordingId: string, createdAt: number) =>
+      recordingDataService.restoreSummaryVersion(recordingId, createdAt)
+  );
+
+  ipcMain.handle('get-transcript-chat', (_event, recordingId: string) =>
+    transcriptChatService.getHistory(recordingId)
+  );
+
+  ipcMain.handle(
+    'ask-transcript',
+    (_event, recordingId: string, question: string) =>
+      transcriptChatService.ask(recordingId, question)
+  );
+
+  ipcMain.handle('clear-transcript-chat', (_event, recordingId: string) =>
+    transcriptChatService.clearHistory(recordingId)
+  );
+
+  ipcMain.handle('ask-library', (_event, question: string) =>
+    libraryQAService.ask(question)
+  );
+
+  ipcMain.handle('get-open-action-items', () =>
+    actionItemService.getOpenActionItems()
+  );
+
+  ipcMain.handle(
+    'set-action-item-status',
+    (_event, recordingId: string, itemId: string, status: ActionItemStatus) =>
+      actionItemService.setActionItemStatus(recordingId, itemId, status)
+  );
+
+  ipcMain.handle(
+    'export-captions',
+    (_event, recordingId: string, format: CaptionFormat) =>
+      exportService.exportCaptions(recordingId, format)
+  );
+
+  ipcMain.handle(
+    'export-document',
+    (_event, recordingId: string, format: DocumentFormat, templateId: string) =>
+      exportService.exportDocument(recordingId, format, templateId)
+  );
+
+  ipcMain.handle('export-library', () =>
+    libraryArchiveService.exportWithDialog()
+  );
+
+  ipcMain.handle('import-library', (_event, includeSettings: boolean) =>
+    libraryArchiveService.importWithDialog(includeSettings)
+  );
+
+  ipcMain.handle('choose-recordings-directory', () =>
+    recordingsDirectoryService.chooseDirectory()
+  );
+
+  ipcMain.handle(
+    'move-recordings',
+    async (_event, directory: string, audioSubfolder: string) => {
+      // Files leaving the old folder are not deletions
+      recordingsWatcherService.stop();
+      try {
+        return await recordingsDirectoryService.moveRecordings(
+          directory,
+          audioSubfolder
+        );
+      } finally {
+        await recordingsWatcherService.start();
+      }
+    }
+  );
+
   // ==================== Settings ====================
 
   ipcMain.handle('get-settings', () => settingsService.getSettings());
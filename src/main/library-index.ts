@@ -0,0 +1,225 @@
+/**
+ * Keyword index over every recording in the library
+ *
+ * Transcripts are cut into passages of a few consecutive turns, and each
+ * passage remembers where in the recording it starts. Passages are ranked
+ * with Okapi BM25. The index is kept in memory and only re-indexes recordings
+ * whose `updated_at` changed since the last query.
+ */
+
+import type { Recording } from '../types/common.js';
+import { parseTranscriptTurns } from '../utils/transcript.js';
+
+// Rough passage size; long enough to hold a decision and its context
+const PASSAGE_WORDS = 120;
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'did',
+  'do',
+  'for',
+  'from',
+  'had',
+  'has',
+  'have',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'we',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'why',
+  'with',
+  'you',
+]);
+
+export interface LibraryPassage {
+  recordingId: string;
+  title: string;
+  created_at: number;
+  start?: number; // Seconds from the start of the recording
+  text: string;
+}
+
+export interface LibraryMatch extends LibraryPassage {
+  score: number;
+}
+
+interface IndexedPassage extends LibraryPassage {
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface IndexedRecording {
+  updated_at: number;
+  passages: IndexedPassage[];
+}
+
+/**
+ * Lowercase words without punctuation or stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOP_WORDS.has(term)
+  );
+}
+
+export class LibraryIndex {
+  private recordings = new Map<string, IndexedRecording>();
+
+  /**
+   * Bring the index in line with the library, re-indexing only what changed
+   */
+  sync(recordings: Recording[]): void {
+    const ids = new Set(recordings.map((recording) => recording.id));
+    for (const id of this.recordings.keys()) {
+      if (!ids.has(id)) {
+        this.recordings.delete(id);
+      }
+    }
+
+    for (const recording of recordings) {
+      if (
+        this.recordings.get(recording.id)?.updated_at === recording.updated_at
+      ) {
+        continue;
+      }
+      this.recordings.set(recording.id, {
+        updated_at: recording.updated_at,
+        passages: splitPassages(recording).map((passage) => {
+          const terms = new Map<string, number>();
+          const tokens = tokenize(passage.text);
+          for (const term of tokens) {
+            terms.set(term, (terms.get(term) ?? 0) + 1);
+          }
+          return { ...passage, terms, length: tokens.length };
+        }),
+      });
+    }
+  }
+
+  /**
+   * Best matching passages for a question, highest score first
+   */
+  search(query: string, limit: number): LibraryMatch[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const passages = [...this.recordings.values()].flatMap(
+      (recording) => recording.passages
+    );
+    if (queryTerms.length === 0 || passages.length === 0) {
+      return [];
+    }
+
+    const averageLength =
+      passages.reduce((total, passage) => total + passage.length, 0) /
+      passages.length;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const containing = passages.filter((passage) =>
+          passage.terms.has(term)
+        ).length;
+        return [
+          term,
+          Math.log(
+            1 + (passages.length - containing + 0.5) / (containing + 0.5)
+          ),
+        ];
+      })
+    );
+
+    const matches: LibraryMatch[] = [];
+    for (const passage of passages) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = passage.terms.get(term);
+        if (!frequency) continue;
+        score +=
+          ((idf.get(term) ?? 0) * frequency * (K1 + 1)) /
+          (frequency +
+            K1 * (1 - B + (B * passage.length) / (averageLength || 1)));
+      }
+      if (score > 0) {
+        const { terms: _terms, length: _length, ...match } = passage;
+        matches.push({ ...match, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Group transcript turns into passages, plus one passage for the summary
+ */
+function splitPassages(recording: Recording): LibraryPassage[] {
+  const base = {
+    recordingId: recording.id,
+    title: recording.title ?? 'Untitled Recording',
+    created_at: recording.created_at,
+  };
+  const passages: LibraryPassage[] = [];
+
+  if (recording.summary?.trim()) {
+    passages.push({ ...base, text: recording.summary.trim() });
+  }
+
+  let current: string[] = [];
+  let currentWords = 0;
+  let currentStart: number | undefined;
+  const flush = () => {
+    if (current.length === 0) return;
+    passages.push({
+      ...base,
+      text: current.join('\n'),
+      ...(currentStart !== undefined && { start: currentStart }),
+    });
+    current = [];
+    currentWords = 0;
+    currentStart = undefined;
+  };
+
+  for (const turn of parseTranscriptTurns(recording.transcript ?? '')) {
+    const words = turn.text.split(/\s+/);
+    // Unlabeled transcripts come back as one long turn
+    for (let i = 0; i < words.length; i += PASSAGE_WORDS) {
+      if (currentWords >= PASSAGE_WORDS) {
+        flush();
+      }
+      if (current.length === 0) {
+        currentStart = turn.start;
+      }
+      const text = words.slice(i, i + PASSAGE_WORDS).join(' ');
+      current.push(turn.speaker && i === 0 ? `${turn.speaker}: ${text}` : text);
+      currentWords += Math.min(PASSAGE_WORDS, words.length - i);
+    }
+  }
+  flush();
+
+  return passages;
+}
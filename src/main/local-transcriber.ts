@@ -0,0 +1,171 @@
+/**
+ * Live transcription against an engine running on this machine
+ *
+ * Speaks the Vosk server WebSocket protocol (`vosk-server`, or any local
+ * whisper.cpp bridge that mimics it): raw 16 kHz PCM goes up as binary
+ * frames, `{"partial": ...}` and `{"result": [...], "text": ...}` messages
+ * come back. Results are mapped onto the same turn shape AssemblyAI sends,
+ * so the rest of the pipeline does not care which engine is in use.
+ */
+
+import logger from './logger.js';
+import type {
+  StreamingSession,
+  StreamingTurn,
+} from './services/transcriptionService.js';
+
+// How long to wait for the final result after asking the engine to finish
+const CLOSE_TIMEOUT_MS = 2000;
+
+interface LocalEngineWord {
+  word: string;
+  start: number; // Seconds from the start of the session
+  end: number;
+}
+
+interface LocalEngineMessage {
+  partial?: string;
+  text?: string;
+  result?: LocalEngineWord[];
+}
+
+interface LocalSessionListeners {
+  open?: () => void;
+  turn?: (turn: StreamingTurn) => void;
+  error?: (error: Error) => void;
+  close?: () => void;
+}
+
+export class LocalStreamingSession implements StreamingSession {
+  private socket: WebSocket | null = null;
+  private listeners: LocalSessionListeners = {};
+
+  constructor(
+    private url: string,
+    private sampleRate = 16000
+  ) {}
+
+  on(event: 'open' | 'close', listener: () => void): void;
+  on(event: 'turn', listener: (turn: StreamingTurn) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(
+    event: keyof LocalSessionListeners,
+    listener: LocalSessionListeners[keyof LocalSessionListeners]
+  ): void {
+    Object.assign(this.listeners, { [event]: listener });
+  }
+
+  connect(): Promise<void> {
+    if (this.socket) {
+      return Promise.reject(new Error('Already connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.binaryType = 'arraybuffer';
+      this.socket = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        socket.send(
+          JSON.stringify({
+            config: { sample_rate: this.sampleRate, words: 1 },
+          })
+        );
+        resolve();
+        this.listeners.open?.();
+      };
+      socket.onerror = () => {
+        const error = new Error(
+          `Local transcription engine connection failed (${this.url})`
+        );
+        if (!opened) {
+          reject(error);
+        }
+        this.listeners.error?.(error);
+      };
+      socket.onclose = () => {
+        this.listeners.close?.();
+      };
+      socket.onmessage = (event: MessageEvent) => {
+        if (typeof event.data === 'string') {
+          this.handleMessage(event.data);
+        }
+      };
+    });
+  }
+
+  sendAudio(audio: ArrayBufferLike): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error('Socket is not open for communication');
+    }
+    this.socket.send(new Uint8Array(audio));
+  }
+
+  /**
+   * Ask the engine to flush its last result, then drop the socket
+   */
+  async close(waitForSessionTermination = true): Promise<void> {
+    const socket = this.socket;
+    if (socket) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ eof: 1 }));
+        if (waitForSessionTermination) {
+          await new Promise<void>((resolve) => {
+            const timeout = setTimeout(resolve, CLOSE_TIMEOUT_MS);
+            socket.addEventListener('close', () => {
+              clearTimeout(timeout);
+              resolve();
+            });
+          });
+        }
+      }
+      // Once the listeners are cleared below the socket's own close event
+      // reaches no one, so report the disconnect here unless it already was
+      const closeListener =
+        socket.readyState === WebSocket.CLOSED
+          ? undefined
+          : this.listeners.close;
+      socket.onclose = null;
+      socket.close();
+      closeListener?.();
+    }
+    this.listeners = {};
+    this.socket = null;
+  }
+
+  private handleMessage(data: string): void {
+    let message: LocalEngineMessage;
+    try {
+      message = JSON.parse(data) as LocalEngineMessage;
+    } catch (error) {
+      logger.warn('Ignoring malformed local transcription message:', error);
+      return;
+    }
+
+    if (message.partial !== undefined) {
+      this.listeners.turn?.({
+        transcript: message.partial,
+        end_of_turn: false,
+        turn_is_formatted: false,
+        words: [],
+      });
+      return;
+    }
+
+    // The engine has no separate formatting pass, so every final is complete
+    if (message.text !== undefined) {
+      this.listeners.turn?.({
+        transcript: message.text,
+        end_of_turn: true,
+        turn_is_formatted: true,
+        words: (message.result ?? []).map((word) => ({
+          text: word.word,
+          start: Math.round(word.start * 1000),
+          end: Math.round(word.end * 1000),
+        })),
+      });
+    }
+  }
+}
@@ -25,6 +25,9 @@ import log from './logger.js';
 import type { DictationService } from './services/dictationService.js';
 import type { MigrationService } from './services/migrationService.js';
 import type { PostHogService } from './services/posthogService.js';
+import type { RecordingsDirectoryService } from './services/recordingsDirectoryService.js';
+import type { RecordingsWatcherService } from './services/recordingsWatcherService.js';
+import type { RecoveryService } from './services/recoveryService.js';
 import type { SettingsService } from './services/settingsService.js';
 import { store } from './store/store.js';
 
@@ -53,6 +56,10 @@ function createWindow(): void {
 
   // Set up the container and IPC handlers before loading the renderer
   setupContainer(mainWindow);
+  // Recordings may live outside the app data folder, e.g. in a notes vault
+  container
+    .resolve<RecordingsDirectoryService>(DI_TOKENS.RecordingsDirectoryService)
+    .applyConfiguredDirectory();
   setupIpcHandlers(mainWindow, store);
 
   // Initialize PostHog for error tracking (constructor handles initialization)
@@ -184,6 +191,17 @@ void app.whenReady().then(async () => {
     log.error('Migration failed - some data may not have been exported');
   }
 
+  // Salvage recordings left in progress by a crash or forced quit
+  const recoveryService = container.resolve<RecoveryService>(
+    DI_TOKENS.RecoveryService
+  );
+  await recoveryService.recoverInterruptedRecordings();
+
+  // Reflect notes edited in other apps, e.g. when recordings live in a vault
+  await container
+    .resolve<RecordingsWatcherService>(DI_TOKENS.RecordingsWatcherService)
+    .start();
+
   const template: Electron.MenuItemConstructorOptions[] = [
     {
       label: app.getName(),
@@ -199,6 +217,18 @@ void app.whenReady().then(async () => {
         { role: 'quit' },
       ],
     },
+    {
+      label: 'File',
+      submenu: [
+        {
+          label: 'Import Audio...',
+          click: () => {
+            // The renderer runs the import so the list and navigation update
+            mainWindow?.webContents.send('import-audio-requested');
+          },
+        },
+      ],
+    },
     {
       label: 'Edit',
       submenu: [
@@ -286,6 +316,12 @@ app.on('before-quit', () => {
     autoUpdaterService.stopPeriodicUpdateCheck();
   }
 
+  if (container.isRegistered(DI_TOKENS.RecordingsWatcherService)) {
+    container
+      .resolve<RecordingsWatcherService>(DI_TOKENS.RecordingsWatcherService)
+      .stop();
+  }
+
   if (
     container.isRegistered(DI_TOKENS.PostHogService) &&
     process.env['NODE_ENV'] !== 'test'
@@ -0,0 +1,258 @@
+/**
+ * Streaming transcriber that survives dropped sockets
+ *
+ * Streaming sockets cannot be reopened, so each reconnect creates a fresh
+ * `StreamingSession`. Audio that has not been covered by a final turn
+ * yet is kept and replayed into the new session, together with anything
+ * sent while disconnected, so a short outage loses no transcript text.
+ * Turn offsets from the new session are shifted back onto the original
+ * stream timeline with `toStreamOffset`. Keep-alive silence is not part
+ * of the recording, so it is left out of that timeline too.
+ */
+
+import logger from './logger.js';
+import type { StreamingSession } from './services/transcriptionService.js';
+
+// 16 kHz mono 16-bit PCM
+const BYTES_PER_MS = 32;
+// Audio older than this is dropped from the replay buffer
+const MAX_PENDING_AUDIO_MS = 120_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+const INITIAL_CONNECT_ATTEMPTS = 3;
+
+interface PendingAudio {
+  audio: ArrayBufferLike;
+  offsetMs: number; // Position of the chunk in the stream
+}
+
+interface KeepAliveGap {
+  atMs: number; // Session time the silence was sent at
+  durationMs: number;
+}
+
+export interface ReconnectingTranscriberEvents {
+  onConnected: () => void;
+  /** `nextRetryIn` is omitted once the connection has been closed on purpose */
+  onDisconnected: (nextRetryIn?: number) => void;
+}
+
+export class ReconnectingTranscriber {
+  private transcriber: StreamingSession | null = null;
+  private pending: PendingAudio[] = [];
+  private streamMs = 0;
+  private sessionStartMs = 0;
+  // Audio sent in the current session, including keep-alive silence
+  private sessionMs = 0;
+  private keepAlives: KeepAliveGap[] = [];
+  private connected = false;
+  private hasConnected = false;
+  private closed = false;
+  private overflowed = false;
+  private retryCount = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly streamType: 'microphone' | 'system',
+    private createTranscriber: () => StreamingSession,
+    private events: ReconnectingTranscriberEvents
+  ) {}
+
+  /**
+   * Open the first session, retrying a few times before giving up
+   */
+  async connect(): Promise<void> {
+    let attempt = 0;
+
+    for (;;) {
+      attempt++;
+      const transcriber = this.attach(this.createTranscriber());
+      try {
+        await transcriber.connect();
+        logger.info(`Transcription ${this.streamType} connected successfully`);
+        return;
+      } catch (error) {
+        logger.error(
+          `Transcription ${this.streamType} connection attempt ${String(attempt)} failed:`,
+          error
+        );
+
+        if (attempt >= INITIAL_CONNECT_ATTEMPTS) {
+          throw new Error(
+            `Failed to connect ${this.streamType} after ${String(INITIAL_CONNECT_ATTEMPTS)} attempts: ${String(error)}`
+          );
+        }
+
+        // Wait before retrying (exponential backoff)
+        const waitTime = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        logger.info(
+          `Retrying ${this.streamType} connection in ${String(waitTime)}ms...`
+        );
+        await new Promise((resolve) => setTimeout(resolve, waitTime));
+      }
+    }
+  }
+
+  /**
+   * Send audio, or hold on to it until the connection is back
+   */
+  sendAudio(audio: ArrayBufferLike): void {
+    this.pending.push({ audio, offsetMs: this.streamMs });
+    this.streamMs += audio.byteLength / BYTES_PER_MS;
+    this.trimPending();
+
+    if (this.connected && this.transcriber) {
+      this.transcriber.sendAudio(audio);
+      this.sessionMs += audio.byteLength / BYTES_PER_MS;
+    }
+  }
+
+  /**
+   * Send silence to keep an idle session open. It is never replayed and
+   * does not count towards the stream timeline.
+   */
+  sendKeepAlive(silence: ArrayBufferLike): void {
+    if (!this.connected || !this.transcriber) return;
+
+    this.transcriber.sendAudio(silence);
+    const durationMs = silence.byteLength / BYTES_PER_MS;
+    this.keepAlives.push({ atMs: this.sessionMs, durationMs });
+    this.sessionMs += durationMs;
+  }
+
+  /**
+   * Release audio up to a final turn's end, given in session time
+   */
+  acknowledge(sessionMs: number): void {
+    const streamMs = this.toStreamOffset(sessionMs);
+    this.pending = this.pending.filter(
+      (chunk) =>
+        chunk.offsetMs + chunk.audio.byteLength / BYTES_PER_MS > streamMs
+    );
+  }
+
+  /**
+   * Map a session-relative offset onto the stream timeline
+   */
+  toStreamOffset(sessionMs: number): number {
+    let audioMs = sessionMs;
+    for (const gap of this.keepAlives) {
+      if (gap.atMs >= sessionMs) break;
+      audioMs -= Math.min(gap.durationMs, sessionMs - gap.atMs);
+    }
+    return this.sessionStartMs + audioMs;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.pending = [];
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await this.transcriber?.close();
+  }
+
+  private attach(transcriber: StreamingSession): StreamingSession {
+    this.transcriber = transcriber;
+
+    transcriber.on('open', () => {
+      if (transcriber !== this.transcriber) return;
+      logger.info(`Transcription ${this.streamType} connection opened`);
+
+      this.connected = true;
+      this.hasConnected = true;
+      this.retryCount = 0;
+      this.overflowed = false;
+      this.replayPending(transcriber);
+      this.events.onConnected();
+    });
+
+    transcriber.on('close', () => {
+      if (transcriber !== this.transcriber) return;
+      logger.info(`Transcription ${this.streamType} connection closed`);
+
+      this.connected = false;
+      if (this.closed || !this.hasConnected) {
+        this.events.onDisconnected();
+        return;
+      }
+      this.scheduleReconnect();
+    });
+
+    return transcriber;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.retryTimer) return;
+
+    this.retryCount++;
+    const delay = Math.min(
+      1000 * Math.pow(2, this.retryCount - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    logger.warn(
+      `Transcription ${this.streamType} connection lost, reconnecting in ${String(delay)}ms (attempt ${String(this.retryCount)})`
+    );
+    this.events.onDisconnected(delay);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private reconnect(): void {
+    if (this.closed) return;
+
+    // The old socket is already gone; this only detaches its listeners
+    void this.transcriber?.close(false).catch(() => undefined);
+
+    const transcriber = this.attach(this.createTranscriber());
+    transcriber.connect().catch((error: unknown) => {
+      logger.error(`Transcription ${this.streamType} reconnect failed:`, error);
+      if (transcriber === this.transcriber && !this.connected) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * The new session starts at the oldest unacknowledged chunk
+   */
+  private replayPending(transcriber: StreamingSession): void {
+    this.sessionStartMs = this.pending[0]?.offsetMs ?? this.streamMs;
+    this.sessionMs = 0;
+    this.keepAlives = [];
+    if (this.pending.length === 0) return;
+
+    logger.info(
+      `Replaying ${String(Math.round(this.streamMs - this.sessionStartMs))}ms of ${this.streamType} audio`
+    );
+    for (const chunk of this.pending) {
+      try {
+        transcriber.sendAudio(chunk.audio);
+        this.sessionMs += chunk.audio.byteLength / BYTES_PER_MS;
+      } catch (error) {
+        // The session dropped again; the rest stays pending for the next one
+        logger.warn(`Failed to replay ${this.streamType} audio:`, error);
+        return;
+      }
+    }
+  }
+
+  private trimPending(): void {
+    const oldestKeptMs = this.streamMs - MAX_PENDING_AUDIO_MS;
+    const first = this.pending[0];
+    if (!first || first.offsetMs >= oldestKeptMs) return;
+
+    this.pending = this.pending.filter(
+      (chunk) => chunk.offsetMs >= oldestKeptMs
+    );
+    if (!this.connected && !this.overflowed) {
+      this.overflowed = true;
+      logger.warn(
+        `${this.streamType} outage exceeded the replay buffer; older audio will only be in the saved recording`
+      );
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import { ACTION_ITEMS_SYSTEM_PROMPT } from '../../constants/prompts.js';
+import type {
+  ActionItem,
+  ActionItemStatus,
+  RecordingActionItem,
+} from '../../types/common.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import { chunkTranscript } from '../transcript-chunker.js';
+import type { LLMGatewayService } from './llmGatewayService.js';
+import type { PostHogService } from './posthogService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import type { RootState } from '../store/store.js';
+
+// Long transcripts are read in parts; items are merged afterwards
+const MAX_INPUT_TOKENS = 16_000;
+const CHUNK_OVERLAP_TOKENS = 400;
+
+const ACTION_ITEMS_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          task: { type: 'string' },
+          owner: { type: ['string', 'null'] },
+          due: { type: ['string', 'null'] },
+        },
+        required: ['task', 'owner', 'due'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['items'],
+  additionalProperties: false,
+};
+
+type ExtractedItem = Pick<ActionItem, 'task' | 'owner' | 'due'>;
+
+/**
+ * Extracts follow-ups from a transcript as structured items and keeps them
+ * with the recording, so they can be listed and ticked off across the
+ * whole library.
+ */
+@injectable()
+export class ActionItemService {
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.LLMGatewayService)
+    private llmGateway: LLMGatewayService,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Extract a recording's action items, replacing the previous extraction.
+   * Items that come back again keep their ID and done state.
+   */
+  async extractActionItems(
+    recordingId: string,
+    transcript?: string
+  ): Promise<ActionItem[]> {
+    try {
+      const text =
+        transcript ??
+        (await this.transcriptFileService.getTranscriptById(recordingId))
+          ?.transcript ??
+        '';
+      if (!text.trim()) {
+        return [];
+      }
+
+      const extracted: ExtractedItem[] = [];
+      for (const chunk of chunkTranscript(
+        text,
+        MAX_INPUT_TOKENS,
+        CHUNK_OVERLAP_TOKENS
+      )) {
+        extracted.push(...(await this.extractFromChunk(chunk)));
+      }
+
+      const previous =
+        await this.transcriptFileService.getActionItems(recordingId);
+      const previousByTask = new Map(
+        previous.map((item) => [normalizeTask(item.task), item])
+      );
+      const seen = new Set<string>();
+      const items: ActionItem[] = [];
+      for (const item of extracted) {
+        const key = normalizeTask(item.task);
+        // Overlapping parts of a long transcript repeat items
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        const existing = previousByTask.get(key);
+        items.push({
+          ...item,
+          id: existing?.id ?? crypto.randomUUID(),
+          status: existing?.status ?? 'open',
+        });
+      }
+
+      await this.transcriptFileService.saveActionItems(recordingId, items);
+      this.logger.info(
+        `Extracted ${String(items.length)} action items for recording: ${recordingId}`
+      );
+      return items;
+    } catch (error) {
+      this.logger.error('Failed to extract action items:', error);
+      this.posthog.trackError(error, {
+        service: 'ActionItemService',
+        operation: 'extractActionItems',
+        recordingId,
+        fatal: false,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Open items from every recording, newest recording first
+   */
+  async getOpenActionItems(): Promise<RecordingActionItem[]> {
+    const recordings = await this.transcriptFileService.getAllTranscripts();
+    const open: RecordingActionItem[] = [];
+    for (const recording of recordings) {
+      const items = await this.transcriptFileService.getActionItems(
+        recording.id
+      );
+      for (const item of items) {
+        if (item.status !== 'open') continue;
+        open.push({
+          ...item,
+          recordingId: recording.id,
+          recordingTitle: recording.title ?? 'Untitled Recording',
+          recordingCreatedAt: recording.created_at,
+        });
+      }
+    }
+    return open.sort((a, b) => b.recordingCreatedAt - a.recordingCreatedAt);
+  }
+
+  async setActionItemStatus(
+    recordingId: string,
+    itemId: string,
+    status: ActionItemStatus
+  ): Promise<boolean> {
+    try {
+      const items =
+        await this.transcriptFileService.getActionItems(recordingId);
+      const item = items.find((candidate) => candidate.id === itemId);
+      if (!item) {
+        this.logger.warn(`Action item not found: ${itemId}`);
+        return false;
+      }
+      item.status = status;
+      await this.transcriptFileService.saveActionItems(recordingId, items);
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to update action item:', error);
+      return false;
+    }
+  }
+
+  private async extractFromChunk(chunk: string): Promise<ExtractedItem[]> {
+    const reply = await this.llmGateway.chat(
+      [
+        { role: 'system', content: ACTION_ITEMS_SYSTEM_PROMPT },
+        { role: 'user', content: `Transcript:\n${chunk}` },
+      ],
+      this.store.getState().settings.assemblyaiKey,
+      {
+        useCase: 'summary',
+        responseFormat: { name: 'action_items', schema: ACTION_ITEMS_SCHEMA },
+      }
+    );
+    return parseExtractedItems(reply);
+  }
+}
+
+function normalizeTask(task: string): string {
+  return task
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Read the model's JSON reply. Only the gateway is sent the schema and not
+ * every model honours it, so code fences and text around the JSON are
+ * tolerated and malformed entries are dropped.
+ */
+export function parseExtractedItems(reply: string): ExtractedItem[] {
+  const start = reply.search(/[[{]/);
+  const end = Math.max(reply.lastIndexOf('}'), reply.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new Error('Action item reply contains no JSON');
+  }
+  const parsed = JSON.parse(reply.slice(start, end + 1)) as unknown;
+  const list =
+    parsed && typeof parsed === 'object' && 'items' in parsed
+      ? parsed.items
+      : parsed;
+  if (!Array.isArray(list)) {
+    throw new Error('Action item reply is not a list');
+  }
+
+  const items: ExtractedItem[] = [];
+  for (const entry of list as unknown[]) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { task, owner, due } = entry as Record<string, unknown>;
+    const text = optionalText(task);
+    if (!text) continue;
+    items.push({
+      task: text,
+      owner: optionalText(owner),
+      due: optionalText(due),
+    });
+  }
+  return items;
+}
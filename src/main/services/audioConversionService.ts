@@ -0,0 +1,153 @@
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import type {
+  AudioConversionResult,
+  AudioStorageFormat,
+} from '../../types/common.js';
+import {
+  AUDIO_EXTENSIONS,
+  encodeWavFile,
+  withAudioExtension,
+} from '../audio-encoder.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type { RecordingDataService } from './recordingDataService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import type { RootState } from '../store/store.js';
+
+/**
+ * Converts saved WAV recordings to the configured storage format.
+ * Conversions run one at a time in the background so they never compete
+ * with an active recording for CPU.
+ */
+@injectable()
+export class AudioConversionService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.RecordingDataService)
+    private recordingDataService: RecordingDataService,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  private getFormat(): AudioStorageFormat {
+    return this.store.getState().settings.audioFormat ?? 'wav';
+  }
+
+  /**
+   * Convert a just-saved recording to the configured format.
+   * Resolves to the stored filename, which is unchanged for WAV or on failure.
+   */
+  convertRecording(
+    recordingId: string,
+    audioFilename: string
+  ): Promise<string> {
+    const format = this.getFormat();
+    if (format === 'wav' || !audioFilename.endsWith(AUDIO_EXTENSIONS.wav)) {
+      return Promise.resolve(audioFilename);
+    }
+
+    return this.enqueue(async () => {
+      const converted = await this.convertFile(
+        recordingId,
+        audioFilename,
+        format
+      );
+      return converted ?? audioFilename;
+    });
+  }
+
+  /**
+   * Convert every WAV recording in the library to the configured format
+   */
+  async convertLibrary(): Promise<AudioConversionResult> {
+    const result: AudioConversionResult = { converted: 0, failed: 0 };
+    const format = this.getFormat();
+    if (format === 'wav') {
+      return result;
+    }
+
+    const activeRecordingId =
+      this.store.getState().recording.status !== 'idle'
+        ? this.store.getState().recordings.currentRecording?.id
+        : undefined;
+    const transcripts = await this.transcriptFileService.getAllTranscripts();
+    const pending = transcripts.filter(
+      (t) =>
+        t.audio_filename?.endsWith(AUDIO_EXTENSIONS.wav) &&
+        t.id !== activeRecordingId &&
+        t.status !== 'recording'
+    );
+
+    this.logger.info(
+      `Converting ${String(pending.length)} recording(s) to ${format}`
+    );
+
+    for (const transcript of pending) {
+      const audioFilename = transcript.audio_filename;
+      if (!audioFilename) continue;
+
+      const converted = await this.enqueue(() =>
+        this.convertFile(transcript.id, audioFilename, format)
+      );
+      if (converted) {
+        result.converted++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    this.logger.info(
+      `Audio library conversion finished: ${String(result.converted)} converted, ${String(result.failed)} failed`
+    );
+    return result;
+  }
+
+  private async convertFile(
+    recordingId: string,
+    audioFilename: string,
+    format: Exclude<AudioStorageFormat, 'wav'>
+  ): Promise<string | null> {
+    const outputFilename = withAudioExtension(audioFilename, format);
+
+    try {
+      await encodeWavFile(
+        this.audioRecordingService.getAudioFilePath(audioFilename),
+        this.audioRecordingService.getAudioFilePath(outputFilename),
+        format
+      );
+      await this.recordingDataService.updateAudioFilename(
+        recordingId,
+        outputFilename
+      );
+      await this.audioRecordingService.deleteAudioFile(audioFilename);
+
+      this.logger.info(`Converted ${audioFilename} to ${outputFilename}`);
+      return outputFilename;
+    } catch (error) {
+      this.logger.error(`Failed to convert ${audioFilename}:`, error);
+      this.posthog.trackError(error, {
+        service: 'AudioConversionService',
+        operation: 'convertFile',
+        recordingId,
+      });
+      return null;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -3,22 +3,41 @@ import path from 'path';
 
 import { app } from 'electron';
 import { inject, injectable } from 'tsyringe';
-import wavEncoder from 'wav-encoder';
 
+import type { AudioStorageFormat } from '../../types/common.js';
+import { AUDIO_EXTENSIONS, withAudioExtension } from '../audio-encoder.js';
 import { DI_TOKENS } from '../di-tokens.js';
 import type Logger from '../logger.js';
+import { WavFileWriter, repairWavFile } from '../wav-writer.js';
 
-interface AudioBuffer {
-  microphone: Float32Array[];
-  system: Float32Array[];
-  combined?: Float32Array[]; // For combined stream mode
+type SeparateSource = 'microphone' | 'system';
+type AudioSource = SeparateSource | 'combined';
+
+interface ActiveRecording {
+  writer: WavFileWriter;
+  // 1 = mixed mono, 2 = microphone left / system right
+  channels: number;
+  // Separate-stream samples waiting for the other source before mixing
+  pending: Record<SeparateSource, Int16Array>;
+  // First byte of a sample split across two chunks
+  oddBytes: Record<AudioSource, number | null>;
+}
+
+export interface RecoveredAudio {
+  recordingId: string;
+  filename: string;
 }
 
+const PARTIAL_SUFFIX = '.partial.wav';
+const EMPTY_SAMPLES = new Int16Array(0);
+
 @injectable()
 export class AudioRecordingService {
-  private recordingBuffers = new Map<string, AudioBuffer>();
+  private activeRecordings = new Map<string, ActiveRecording>();
   private audioDir: string;
   private sampleRate = 16000;
+  // A source running this far ahead of the other is written unmixed
+  private maxPendingSamples = this.sampleRate * 2;
 
   constructor(@inject(DI_TOKENS.Logger) private logger: typeof Logger) {
     // Create audio directory in user data
@@ -35,145 +54,235 @@ export class AudioRecordingService {
     }
   }
 
-  startRecording(recordingId: string): void {
-    this.recordingBuffers.set(recordingId, {
-      microphone: [],
-      system: [],
-      combined: [],
+  startRecording(recordingId: string, channels = 1): void {
+    const existing = this.activeRecordings.get(recordingId);
+    if (existing) {
+      void existing.writer.close();
+    }
+
+    // Audio streams straight to a partial file so a crash loses at most a few chunks
+    this.activeRecordings.set(recordingId, {
+      writer: new WavFileWriter(
+        this.getPartialFilePath(recordingId),
+        this.sampleRate,
+        channels
+      ),
+      channels,
+      pending: { microphone: EMPTY_SAMPLES, system: EMPTY_SAMPLES },
+      oddBytes: { microphone: null, system: null, combined: null },
     });
-    this.logger.info(`Started audio recording for ${recordingId}`);
+    this.logger.info(
+      channels === 2
+        ? `Started stereo audio recording for ${recordingId}`
+        : `Started audio recording for ${recordingId}`
+    );
   }
 
   appendAudioData(
     recordingId: string,
     audioData: ArrayBuffer,
-    source: 'microphone' | 'system' | 'combined'
+    source: AudioSource
   ): void {
-    const buffer = this.recordingBuffers.get(recordingId);
-    if (!buffer) {
+    const recording = this.activeRecordings.get(recordingId);
+    if (!recording) {
       return;
     }
 
-    // Convert Int16Array to Float32Array for wav-encoder
-    const int16Data = new Int16Array(audioData);
-    const float32Data = new Float32Array(int16Data.length);
+    const samples = toSamples(recording, source, audioData);
 
-    // Convert from int16 range (-32768 to 32767) to float32 range (-1 to 1)
-    for (let i = 0; i < int16Data.length; i++) {
-      float32Data[i] = (int16Data[i] ?? 0) / 32768.0;
-    }
-
-    // Handle combined stream separately
+    // Combined stream is already mixed by the renderer
     if (source === 'combined') {
-      buffer.combined ??= [];
-      buffer.combined.push(float32Data);
-    } else {
-      buffer[source].push(float32Data);
+      recording.writer.write(
+        recording.channels === 2 ? interleave(samples, samples) : samples
+      );
+      return;
     }
+
+    recording.pending[source] = concatSamples(
+      recording.pending[source],
+      samples
+    );
+    this.flushPending(recording, false);
   }
 
   async stopRecording(
     recordingId: string,
     transcriptFilename?: string
   ): Promise<string | null> {
-    const buffer = this.recordingBuffers.get(recordingId);
-    if (!buffer) {
+    const recording = this.activeRecordings.get(recordingId);
+    if (!recording) {
       return null;
     }
+    this.activeRecordings.delete(recordingId);
 
     try {
-      // Use combined buffer if available, otherwise combine microphone and system
-      const combinedBuffer =
-        buffer.combined && buffer.combined.length > 0
-          ? this.concatenateBuffers(buffer.combined)
-          : this.combineAudioBuffers(buffer.microphone, buffer.system);
+      this.flushPending(recording, true);
+      await recording.writer.finalize();
 
       // Generate filename - use transcript filename pattern if available
       const filename = transcriptFilename
         ? transcriptFilename.replace(/\.md$/, '.wav')
         : `${recordingId}.wav`;
-      const filepath = path.join(this.audioDir, filename);
-
-      // Encode to WAV using wav-encoder
-      const audioData = {
-        sampleRate: this.sampleRate,
-        channelData: [combinedBuffer], // Mono audio
-      };
-
-      const wavBuffer = await wavEncoder.encode(audioData);
-      await fs.writeFile(filepath, Buffer.from(wavBuffer));
-
-      // Clean up buffer
-      this.recordingBuffers.delete(recordingId);
+      await fs.rename(
+        recording.writer.filepath,
+        path.join(this.audioDir, filename)
+      );
 
       this.logger.info(`Saved audio recording to ${filename}`);
       return filename;
     } catch (error) {
+      // The partial file is left in place for recovery on next launch
       this.logger.error('Failed to save audio recording:', error);
-      this.recordingBuffers.delete(recordingId);
       return null;
     }
   }
 
-  private combineAudioBuffers(
-    micBuffers: Float32Array[],
-    systemBuffers: Float32Array[]
-  ): Float32Array {
-    // Calculate total length
-    const micLength = micBuffers.reduce((sum, buf) => sum + buf.length, 0);
-    const systemLength = systemBuffers.reduce(
-      (sum, buf) => sum + buf.length,
-      0
-    );
-    const maxLength = Math.max(micLength, systemLength);
+  /**
+   * Finalizes partial audio files left behind by a crash mid-recording
+   */
+  async recoverPartialRecordings(): Promise<RecoveredAudio[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.audioDir);
+    } catch (error) {
+      this.logger.error('Failed to scan for partial recordings:', error);
+      return [];
+    }
 
-    // Create combined buffer
-    const combined = new Float32Array(maxLength);
+    const recovered: RecoveredAudio[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith(PARTIAL_SUFFIX)) continue;
 
-    // Copy microphone data
-    let offset = 0;
-    for (const buf of micBuffers) {
-      combined.set(buf, offset);
-      offset += buf.length;
+      const recordingId = entry.slice(0, -PARTIAL_SUFFIX.length);
+      if (this.activeRecordings.has(recordingId)) continue;
+
+      try {
+        const partialPath = path.join(this.audioDir, entry);
+        const seconds = await repairWavFile(partialPath, this.sampleRate);
+        const filename = `${recordingId}.wav`;
+        await fs.rename(partialPath, path.join(this.audioDir, filename));
+
+        this.logger.info(
+          `Recovered ${seconds.toFixed(1)}s of audio for ${recordingId}`
+        );
+        recovered.push({ recordingId, filename });
+      } catch (error) {
+        this.logger.error(`Failed to recover partial audio ${entry}:`, error);
+      }
     }
 
-    // Mix in system audio
-    offset = 0;
-    for (const buf of systemBuffers) {
-      for (let i = 0; i < buf.length; i++) {
-        if (offset + i < combined.length) {
-          // Mix audio by averaging and clamp to prevent overflow
-          const mixedSample = ((combined[offset + i] ?? 0) + (buf[i] ?? 0)) / 2;
-          combined[offset + i] = Math.max(-1, Math.min(1, mixedSample));
+    return recovered;
+  }
+
+  /**
+   * Writes microphone and system samples that overlap in time, either mixed
+   * to mono or interleaved as left/right channels. A source with no
+   * counterpart (e.g. no system audio) is written on its own once it runs
+   * ahead, or when the recording stops.
+   */
+  private flushPending(recording: ActiveRecording, final: boolean): void {
+    const { microphone, system } = recording.pending;
+    const overlap = Math.min(microphone.length, system.length);
+
+    if (overlap > 0) {
+      recording.writer.write(
+        this.combineSources(
+          recording,
+          microphone.subarray(0, overlap),
+          system.subarray(0, overlap)
+        )
+      );
+      recording.pending = {
+        microphone: microphone.subarray(overlap),
+        system: system.subarray(overlap),
+      };
+    }
+
+    for (const source of ['microphone', 'system'] as const) {
+      const lone = recording.pending[source];
+      if (lone.length > 0 && (final || lone.length > this.maxPendingSamples)) {
+        if (recording.channels === 2) {
+          const silence = new Int16Array(lone.length);
+          recording.writer.write(
+            source === 'microphone'
+              ? interleave(lone, silence)
+              : interleave(silence, lone)
+          );
+        } else {
+          recording.writer.write(lone);
         }
+        recording.pending[source] = EMPTY_SAMPLES;
       }
-      offset += buf.length;
     }
+  }
 
-    return combined;
+  private combineSources(
+    recording: ActiveRecording,
+    microphone: Int16Array,
+    system: Int16Array
+  ): Int16Array {
+    if (recording.channels === 2) {
+      return interleave(microphone, system);
+    }
+
+    const mixed = new Int16Array(microphone.length);
+    for (let i = 0; i < mixed.length; i++) {
+      // Mix audio by averaging to prevent overflow
+      mixed[i] = Math.round(((microphone[i] ?? 0) + (system[i] ?? 0)) / 2);
+    }
+    return mixed;
   }
 
-  private concatenateBuffers(buffers: Float32Array[]): Float32Array {
-    // Calculate total length
-    const totalLength = buffers.reduce((sum, buf) => sum + buf.length, 0);
+  getAudioDir(): string {
+    return this.audioDir;
+  }
 
-    // Create concatenated buffer
-    const concatenated = new Float32Array(totalLength);
+  /**
+   * Store audio in another directory from now on
+   */
+  setAudioDir(dir: string): void {
+    this.audioDir = dir;
+    void this.ensureAudioDirectory();
+  }
 
-    // Copy all buffers
-    let offset = 0;
-    for (const buf of buffers) {
-      concatenated.set(buf, offset);
-      offset += buf.length;
-    }
+  hasActiveRecordings(): boolean {
+    return this.activeRecordings.size > 0;
+  }
 
-    return concatenated;
+  private getPartialFilePath(recordingId: string): string {
+    return path.join(this.audioDir, `${recordingId}${PARTIAL_SUFFIX}`);
   }
 
   getAudioFilePath(filename: string): string {
     return path.join(this.audioDir, filename);
   }
 
+  /**
+   * Locate the audio file for a recording, falling back to the same name in
+   * another storage format (e.g. after a WAV was converted to Opus)
+   */
+  async resolveAudioFilePath(filename: string): Promise<string | null> {
+    const candidates = [
+      filename,
+      ...(Object.keys(AUDIO_EXTENSIONS) as AudioStorageFormat[]).map((format) =>
+        withAudioExtension(filename, format)
+      ),
+    ];
+
+    for (const candidate of new Set(candidates)) {
+      const filepath = this.getAudioFilePath(candidate);
+      try {
+        await fs.access(filepath);
+        return filepath;
+      } catch {
+        // Try the next extension
+      }
+    }
+
+    this.logger.warn(`Audio file not found: ${filename}`);
+    return null;
+  }
+
   async deleteAudioFile(filename: string): Promise<void> {
     try {
       const filepath = path.join(this.audioDir, filename);
@@ -185,6 +294,50 @@ export class AudioRecordingService {
   }
 
   cleanup(): void {
-    this.recordingBuffers.clear();
+    // Close without finalizing; partial files are recovered on next launch
+    for (const recording of this.activeRecordings.values()) {
+      void recording.writer.close();
+    }
+    this.activeRecordings.clear();
+  }
+}
+
+/**
+ * Whole 16-bit samples in a chunk. A trailing odd byte is held back and
+ * completed by the next chunk from the same source.
+ */
+function toSamples(
+  recording: ActiveRecording,
+  source: AudioSource,
+  audioData: ArrayBuffer
+): Int16Array {
+  let bytes = new Uint8Array(audioData);
+  const carried = recording.oddBytes[source];
+  if (carried !== null) {
+    const joined = new Uint8Array(bytes.length + 1);
+    joined[0] = carried;
+    joined.set(bytes, 1);
+    bytes = joined;
   }
+
+  const whole = bytes.length - (bytes.length % 2);
+  recording.oddBytes[source] = bytes[whole] ?? null;
+  return new Int16Array(bytes.buffer, bytes.byteOffset, whole / 2);
+}
+
+function interleave(left: Int16Array, right: Int16Array): Int16Array {
+  const frames = new Int16Array(left.length * 2);
+  for (let i = 0; i < left.length; i++) {
+    frames[i * 2] = left[i] ?? 0;
+    frames[i * 2 + 1] = right[i] ?? 0;
+  }
+  return frames;
+}
+
+function concatSamples(a: Int16Array, b: Int16Array): Int16Array {
+  if (a.length === 0) return b;
+  const result = new Int16Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
 }
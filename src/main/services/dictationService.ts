@@ -209,7 +209,7 @@ export class DictationService {
 
   private resetSilenceTimer(): void {
     const settings = this.store.getState().settings;
-    if (!settings.assemblyaiKey) {
+    if (!this.llmGateway.hasCredentials('dictation', settings.assemblyaiKey)) {
       return;
     }
 
@@ -239,7 +239,7 @@ export class DictationService {
     }
 
     const settings = this.store.getState().settings;
-    if (!settings.assemblyaiKey) {
+    if (!this.llmGateway.hasCredentials('dictation', settings.assemblyaiKey)) {
       return;
     }
 
@@ -354,8 +354,13 @@ export class DictationService {
         throw new Error('AbortError');
       }
 
-      const chatOptions: { maxTokens: number; signal?: AbortSignal } = {
+      const chatOptions: {
+        maxTokens: number;
+        signal?: AbortSignal;
+        useCase: 'dictation';
+      } = {
         maxTokens: 1000,
+        useCase: 'dictation',
       };
       if (signal) {
         chatOptions.signal = signal;
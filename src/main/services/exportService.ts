@@ -0,0 +1,194 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { app, BrowserWindow, dialog } from 'electron';
+import { inject, injectable } from 'tsyringe';
+
+import { DOCUMENT_TEMPLATES } from '../../constants/export.js';
+import { NoCaptionTimingsError } from '../../errors/index.js';
+import type { CaptionFormat, DocumentFormat } from '../../types/common.js';
+import { buildCaptionCues, formatCaptions } from '../captions.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import { renderDocx, renderHtml } from '../document-export.js';
+import type Logger from '../logger.js';
+import type { PostHogService } from './posthogService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+
+const CAPTION_FILTERS: Record<CaptionFormat, Electron.FileFilter> = {
+  srt: { name: 'SubRip subtitles', extensions: ['srt'] },
+  vtt: { name: 'WebVTT captions', extensions: ['vtt'] },
+};
+
+const DOCUMENT_FILTERS: Record<DocumentFormat, Electron.FileFilter> = {
+  docx: { name: 'Word document', extensions: ['docx'] },
+  pdf: { name: 'PDF', extensions: ['pdf'] },
+  html: { name: 'Web page', extensions: ['html'] },
+};
+
+/**
+ * Writes recordings out as files for use outside the app
+ */
+@injectable()
+export class ExportService {
+  constructor(
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.MainWindow) private mainWindow: BrowserWindow,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Ask where to save and write the recording's captions. Resolves to the
+   * saved path, or null if the dialog is cancelled.
+   */
+  async exportCaptions(
+    recordingId: string,
+    format: CaptionFormat
+  ): Promise<string | null> {
+    const recording =
+      await this.transcriptFileService.getTranscriptById(recordingId);
+    const cues = buildCaptionCues(recording?.transcript ?? '');
+    if (!recording || cues.length === 0) {
+      throw new NoCaptionTimingsError();
+    }
+
+    const filePath = await this.askForPath(
+      'Export Captions',
+      `${toFileName(recording.title)}.${format}`,
+      CAPTION_FILTERS[format]
+    );
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      await fs.writeFile(filePath, formatCaptions(cues, format), 'utf-8');
+      this.logger.info(
+        `Exported ${String(cues.length)} captions for ${recordingId} to ${filePath}`
+      );
+      return filePath;
+    } catch (error) {
+      this.logger.error('Failed to export captions:', error);
+      this.posthog.trackError(error, {
+        service: 'ExportService',
+        operation: 'exportCaptions',
+        recordingId,
+        format,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ask where to save and write the recording as a document laid out by the
+   * given template. Resolves to the saved path, or null if cancelled.
+   */
+  async exportDocument(
+    recordingId: string,
+    format: DocumentFormat,
+    templateId: string
+  ): Promise<string | null> {
+    const recording =
+      await this.transcriptFileService.getTranscriptById(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    const template =
+      DOCUMENT_TEMPLATES.find((candidate) => candidate.id === templateId) ??
+      DOCUMENT_TEMPLATES[0];
+    if (!template) {
+      throw new Error(`Unknown document template: ${templateId}`);
+    }
+
+    const filePath = await this.askForPath(
+      'Export Document',
+      `${toFileName(recording.title)}.${format}`,
+      DOCUMENT_FILTERS[format]
+    );
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      const actionItems = template.sections.includes('actionItems')
+        ? await this.transcriptFileService.getActionItems(recordingId)
+        : [];
+      if (format === 'docx') {
+        await fs.writeFile(
+          filePath,
+          renderDocx(recording, actionItems, template)
+        );
+      } else {
+        const html = renderHtml(recording, actionItems, template);
+        await fs.writeFile(
+          filePath,
+          format === 'pdf' ? await this.printToPdf(html) : html
+        );
+      }
+      this.logger.info(
+        `Exported ${recordingId} as ${format} (${template.id}) to ${filePath}`
+      );
+      return filePath;
+    } catch (error) {
+      this.logger.error('Failed to export document:', error);
+      this.posthog.trackError(error, {
+        service: 'ExportService',
+        operation: 'exportDocument',
+        recordingId,
+        format,
+        template: template.id,
+      });
+      throw error;
+    }
+  }
+
+  private async askForPath(
+    title: string,
+    defaultName: string,
+    filter: Electron.FileFilter
+  ): Promise<string | null> {
+    const result = await dialog.showSaveDialog(this.mainWindow, {
+      title,
+      defaultPath: path.join(app.getPath('documents'), defaultName),
+      filters: [filter],
+    });
+    return result.canceled || !result.filePath ? null : result.filePath;
+  }
+
+  /**
+   * Lay out the HTML in a hidden offscreen window and print it. The page is
+   * loaded from a temporary file because long transcripts exceed the length
+   * Chromium allows for data URLs.
+   */
+  private async printToPdf(html: string): Promise<Buffer> {
+    const dir = await fs.mkdtemp(
+      path.join(app.getPath('temp'), 'assembly-notes-export-')
+    );
+    const htmlPath = path.join(dir, 'export.html');
+    const window = new BrowserWindow({
+      show: false,
+      webPreferences: { offscreen: true, javascript: false },
+    });
+    try {
+      await fs.writeFile(htmlPath, html, 'utf-8');
+      await window.loadFile(htmlPath);
+      return await window.webContents.printToPDF({
+        pageSize: 'A4',
+        printBackground: true,
+      });
+    } finally {
+      window.destroy();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * A recording title without the characters file systems reject
+ */
+function toFileName(title?: string): string {
+  const name = (title ?? '').replace(/[\\/:*?"<>|]+/g, '-').trim();
+  return name.length > 0 ? name : 'Recording';
+}
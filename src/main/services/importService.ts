@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import type { Store } from '@reduxjs/toolkit';
+import { dialog, type BrowserWindow } from 'electron';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  MissingApiKeyError,
+  UnsupportedAudioFileError,
+} from '../../errors/index.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { ActionItemService } from './actionItemService.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type { RecordingDataService } from './recordingDataService.js';
+import type { SummarizationService } from './summarizationService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import {
+  formatUtterances,
+  type IFileTranscriber,
+} from './transcriptionService.js';
+import type { RootState } from '../store/store.js';
+
+export const IMPORTABLE_AUDIO_EXTENSIONS = ['wav', 'mp3', 'm4a', 'webm'];
+
+/**
+ * Turns existing audio or video files (voice memos, conference tool
+ * exports) into regular recordings with a transcript and audio copy
+ */
+@injectable()
+export class ImportService {
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.MainWindow) private mainWindow: BrowserWindow,
+    @inject(DI_TOKENS.FileTranscriber)
+    private fileTranscriber: IFileTranscriber,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.RecordingDataService)
+    private recordingDataService: RecordingDataService,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.SummarizationService)
+    private summarizationService: SummarizationService,
+    @inject(DI_TOKENS.ActionItemService)
+    private actionItemService: ActionItemService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Ask for a file and import it. Resolves to null if the dialog is cancelled.
+   */
+  async importWithDialog(): Promise<string | null> {
+    const result = await dialog.showOpenDialog(this.mainWindow, {
+      title: 'Import Audio',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Audio and video', extensions: IMPORTABLE_AUDIO_EXTENSIONS },
+      ],
+    });
+
+    const filePath = result.filePaths[0];
+    if (result.canceled || !filePath) {
+      return null;
+    }
+    return this.importAudioFile(filePath);
+  }
+
+  /**
+   * Transcribe a file and save it as a new recording.
+   * Nothing is written until transcription succeeds. Returns the recording ID.
+   */
+  async importAudioFile(filePath: string): Promise<string> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!IMPORTABLE_AUDIO_EXTENSIONS.includes(extension.slice(1))) {
+      throw new UnsupportedAudioFileError(path.basename(filePath));
+    }
+
+    const settings = this.store.getState().settings;
+    if (!settings.assemblyaiKey) {
+      throw new MissingApiKeyError();
+    }
+
+    try {
+      this.logger.info(`Importing audio file: ${filePath}`);
+      const stats = await fs.stat(filePath);
+      const utterances = await this.fileTranscriber.transcribeFile(
+        settings.assemblyaiKey,
+        filePath
+      );
+
+      const recordingId = crypto.randomUUID();
+      const transcript = formatUtterances(utterances);
+      // Dated by the file so imported memos sort with the day they were recorded
+      const filename = await this.transcriptFileService.saveTranscript({
+        id: recordingId,
+        title: path.basename(filePath, path.extname(filePath)),
+        transcript,
+        created_at: Math.round(stats.mtimeMs),
+        updated_at: Date.now(),
+      });
+
+      const audioFilename = filename.replace(/\.md$/, extension);
+      await fs.copyFile(
+        filePath,
+        this.audioRecordingService.getAudioFilePath(audioFilename)
+      );
+      await this.recordingDataService.updateAudioFilename(
+        recordingId,
+        audioFilename
+      );
+
+      if (settings.summarizeImports && transcript.trim()) {
+        await this.summarize(recordingId, transcript);
+      }
+
+      this.logger.info(`Imported ${filePath} as recording ${recordingId}`);
+      return recordingId;
+    } catch (error) {
+      this.logger.error(`Failed to import ${filePath}:`, error);
+      this.posthog.trackError(error, {
+        service: 'ImportService',
+        operation: 'importAudioFile',
+      });
+      throw error;
+    }
+  }
+
+  private async summarize(
+    recordingId: string,
+    transcript: string
+  ): Promise<void> {
+    const settings = this.store.getState().settings;
+
+    try {
+      const summary = await this.summarizationService.summarizeTranscript(
+        transcript,
+        settings.summaryPrompt,
+        settings.assemblyaiKey
+      );
+      if (summary) {
+        await this.recordingDataService.saveSummary(recordingId, summary);
+        await this.actionItemService.extractActionItems(
+          recordingId,
+          transcript
+        );
+      }
+    } catch (error) {
+      // The import itself succeeded; the summary can be generated later
+      this.logger.error('Failed to summarize imported recording:', error);
+      this.posthog.trackError(error, {
+        service: 'ImportService',
+        operation: 'summarize',
+        recordingId,
+        fatal: false,
+      });
+    }
+  }
+}
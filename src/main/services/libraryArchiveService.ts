@@ -0,0 +1,417 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { app, dialog, type BrowserWindow } from 'electron';
+import { inject, injectable } from 'tsyringe';
+
+import { InvalidLibraryArchiveError } from '../../errors/index.js';
+import type {
+  LibraryExportResult,
+  LibraryImportConflict,
+  LibraryImportReport,
+  SettingsSchema,
+} from '../../types/common.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import { ZipReader, ZipWriter } from '../zip.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type { SettingsService } from './settingsService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+
+// Bump when the archive layout changes; older archives must stay importable
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+const MANIFEST_ENTRY = 'manifest.json';
+const SETTINGS_ENTRY = 'settings.json';
+const RECORDINGS_PREFIX = 'recordings/';
+const AUDIO_PREFIX = 'audio/';
+const SAFE_ID = /^[\w-]+$/;
+
+// Secrets, per-install identifiers and local paths never leave this machine
+const LOCAL_ONLY_SETTINGS: (keyof SettingsSchema)[] = [
+  'assemblyaiKey',
+  'userId',
+  'recordingsDirectory',
+  'audioSubfolder',
+];
+const LLM_SETTINGS = ['summaryLLM', 'dictationLLM'] as const;
+
+interface ManifestRecording {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  file: string; // Archive entry of the markdown file
+  audio?: string; // Archive entry of the audio file
+  sidecars: string[]; // Archive entries of versions, chats and action items
+}
+
+interface LibraryManifest {
+  schemaVersion: number;
+  appVersion: string;
+  exportedAt: number;
+  recordings: ManifestRecording[];
+}
+
+/**
+ * Moves the whole library between installs as a single ZIP archive:
+ * markdown files, sidecar files, audio, and settings without secrets
+ */
+@injectable()
+export class LibraryArchiveService {
+  constructor(
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.MainWindow) private mainWindow: BrowserWindow,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.SettingsService)
+    private settingsService: SettingsService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Ask where to save and export. Resolves to null if the dialog is cancelled.
+   */
+  async exportWithDialog(): Promise<LibraryExportResult | null> {
+    const date = new Date().toISOString().split('T')[0] ?? 'export';
+    const result = await dialog.showSaveDialog(this.mainWindow, {
+      title: 'Export Library',
+      defaultPath: path.join(
+        app.getPath('documents'),
+        `assembly-notes-library-${date}.zip`
+      ),
+      filters: [{ name: 'Library archive', extensions: ['zip'] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    return this.exportLibrary(result.filePath);
+  }
+
+  /**
+   * Write every recording, its sidecar files and audio, and the settings
+   * to an archive. A failed export leaves no partial file behind.
+   */
+  async exportLibrary(filePath: string): Promise<LibraryExportResult> {
+    const writer = await ZipWriter.create(filePath);
+    try {
+      const transcriptsDir = this.transcriptFileService.getTranscriptsDir();
+      const transcripts = await this.transcriptFileService.getAllTranscripts();
+      const recordings: ManifestRecording[] = [];
+
+      for (const record of transcripts) {
+        if (!record.filename) {
+          continue;
+        }
+
+        const file = `${RECORDINGS_PREFIX}${record.filename}`;
+        await writer.add(
+          file,
+          await fs.readFile(path.join(transcriptsDir, record.filename))
+        );
+
+        const sidecars: string[] = [];
+        for (const sidecar of await this.transcriptFileService.listSidecarFiles(
+          record.id
+        )) {
+          const entry = `${RECORDINGS_PREFIX}${sidecar}`;
+          await writer.add(
+            entry,
+            await fs.readFile(path.join(transcriptsDir, sidecar))
+          );
+          sidecars.push(entry);
+        }
+
+        const entry: ManifestRecording = {
+          id: record.id,
+          title: record.title ?? 'Untitled',
+          created_at: record.created_at,
+          updated_at: record.updated_at,
+          file,
+          sidecars,
+        };
+        const audioPath = record.audio_filename
+          ? await this.audioRecordingService.resolveAudioFilePath(
+              record.audio_filename
+            )
+          : null;
+        if (audioPath) {
+          entry.audio = `${AUDIO_PREFIX}${path.basename(audioPath)}`;
+          // Streamed and stored: audio can run to gigabytes and is already
+          // compressed or not worth deflating
+          await writer.addFile(entry.audio, audioPath);
+        }
+        recordings.push(entry);
+      }
+
+      await writer.add(
+        SETTINGS_ENTRY,
+        JSON.stringify(this.getExportableSettings(), null, 2)
+      );
+      const manifest: LibraryManifest = {
+        schemaVersion: LIBRARY_SCHEMA_VERSION,
+        appVersion: app.getVersion(),
+        exportedAt: Date.now(),
+        recordings,
+      };
+      await writer.add(MANIFEST_ENTRY, JSON.stringify(manifest, null, 2));
+      await writer.close();
+
+      this.logger.info(
+        `Exported ${String(recordings.length)} recordings to ${filePath}`
+      );
+      return { filePath, recordings: recordings.length };
+    } catch (error) {
+      await writer.abort();
+      await fs.rm(filePath, { force: true });
+      this.logger.error('Failed to export library:', error);
+      this.posthog.trackError(error, {
+        service: 'LibraryArchiveService',
+        operation: 'exportLibrary',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ask for an archive and import it. Resolves to null if cancelled.
+   */
+  async importWithDialog(
+    includeSettings: boolean
+  ): Promise<LibraryImportReport | null> {
+    const result = await dialog.showOpenDialog(this.mainWindow, {
+      title: 'Import Library',
+      properties: ['openFile'],
+      filters: [{ name: 'Library archive', extensions: ['zip'] }],
+    });
+
+    const filePath = result.filePaths[0];
+    if (result.canceled || !filePath) {
+      return null;
+    }
+    return this.importLibrary(filePath, includeSettings);
+  }
+
+  /**
+   * Merge an archive into the library. Recordings already present with the
+   * same `updated_at` are skipped; ones that differ keep the local copy and
+   * are reported as conflicts. Nothing local is ever overwritten.
+   */
+  async importLibrary(
+    filePath: string,
+    includeSettings: boolean
+  ): Promise<LibraryImportReport> {
+    let reader: ZipReader;
+    try {
+      reader = await ZipReader.open(filePath);
+    } catch (error) {
+      this.logger.warn(`Cannot open library archive ${filePath}:`, error);
+      throw new InvalidLibraryArchiveError('the file is not a ZIP archive.');
+    }
+
+    try {
+      const manifest = await this.readManifest(reader);
+      const report: LibraryImportReport = {
+        imported: 0,
+        skipped: 0,
+        conflicts: [],
+        settingsImported: false,
+      };
+
+      for (const entry of manifest.recordings) {
+        const outcome = await this.importRecording(reader, entry);
+        if (outcome === 'imported') {
+          report.imported++;
+        } else if (outcome === 'skipped') {
+          report.skipped++;
+        } else {
+          report.conflicts.push(outcome);
+        }
+      }
+
+      if (includeSettings && reader.has(SETTINGS_ENTRY)) {
+        this.importSettings(await reader.read(SETTINGS_ENTRY));
+        report.settingsImported = true;
+      }
+
+      this.logger.info(
+        `Imported library ${filePath}: ${String(report.imported)} imported, ` +
+          `${String(report.skipped)} skipped, ${String(report.conflicts.length)} conflicts`
+      );
+      return report;
+    } catch (error) {
+      this.logger.error('Failed to import library:', error);
+      this.posthog.trackError(error, {
+        service: 'LibraryArchiveService',
+        operation: 'importLibrary',
+      });
+      throw error;
+    } finally {
+      await reader.close();
+    }
+  }
+
+  private async readManifest(reader: ZipReader): Promise<LibraryManifest> {
+    if (!reader.has(MANIFEST_ENTRY)) {
+      throw new InvalidLibraryArchiveError('it has no manifest.');
+    }
+
+    let manifest: Partial<LibraryManifest>;
+    try {
+      manifest = JSON.parse(
+        (await reader.read(MANIFEST_ENTRY)).toString('utf-8')
+      ) as Partial<LibraryManifest>;
+    } catch {
+      throw new InvalidLibraryArchiveError('its manifest is unreadable.');
+    }
+
+    if (
+      typeof manifest.schemaVersion !== 'number' ||
+      !Array.isArray(manifest.recordings)
+    ) {
+      throw new InvalidLibraryArchiveError('its manifest is incomplete.');
+    }
+    if (manifest.schemaVersion > LIBRARY_SCHEMA_VERSION) {
+      throw new InvalidLibraryArchiveError(
+        'it was exported by a newer version of Assembly Notes. Update the app and try again.'
+      );
+    }
+    return manifest as LibraryManifest;
+  }
+
+  /**
+   * Import one recording. The markdown file is written last so an import
+   * that fails part way never leaves a recording without its files.
+   */
+  private async importRecording(
+    reader: ZipReader,
+    entry: ManifestRecording
+  ): Promise<'imported' | 'skipped' | LibraryImportConflict> {
+    const invalid: LibraryImportConflict = {
+      recordingId: entry.id,
+      title: entry.title,
+      reason: 'invalid',
+    };
+    if (!SAFE_ID.test(entry.id) || !reader.has(entry.file)) {
+      return invalid;
+    }
+
+    const record = this.transcriptFileService.parseTranscriptContent(
+      (await reader.read(entry.file)).toString('utf-8'),
+      path.basename(entry.file)
+    );
+    if (record?.id !== entry.id) {
+      return invalid;
+    }
+
+    if (await this.transcriptFileService.transcriptExists(entry.id)) {
+      const existing = await this.transcriptFileService.getTranscriptById(
+        entry.id
+      );
+      return existing?.updated_at === record.updated_at
+        ? 'skipped'
+        : { recordingId: entry.id, title: invalid.title, reason: 'changed' };
+    }
+
+    const transcriptsDir = this.transcriptFileService.getTranscriptsDir();
+    for (const sidecar of entry.sidecars) {
+      const relativePath = sidecar.slice(RECORDINGS_PREFIX.length);
+      if (
+        !sidecar.startsWith(RECORDINGS_PREFIX) ||
+        !this.transcriptFileService.isSidecarPath(entry.id, relativePath) ||
+        !reader.has(sidecar)
+      ) {
+        this.logger.warn(`Ignoring unexpected archive entry ${sidecar}`);
+        continue;
+      }
+      const target = path.join(transcriptsDir, relativePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, await reader.read(sidecar));
+    }
+
+    delete record.audio_filename;
+    if (entry.audio?.startsWith(AUDIO_PREFIX) && reader.has(entry.audio)) {
+      const audioFilename = await this.findFreeAudioFilename(
+        path.basename(entry.audio)
+      );
+      await reader.extract(
+        entry.audio,
+        this.audioRecordingService.getAudioFilePath(audioFilename)
+      );
+      record.audio_filename = audioFilename;
+    }
+
+    // Without a filename a new file is created, never replacing a local one
+    delete record.filename;
+    await this.transcriptFileService.saveTranscript(record);
+    return 'imported';
+  }
+
+  private async findFreeAudioFilename(filename: string): Promise<string> {
+    const ext = path.extname(filename);
+    const base = filename.slice(0, filename.length - ext.length);
+    for (let counter = 1; counter < 1000; counter++) {
+      const candidate =
+        counter === 1 ? filename : `${base}_${String(counter)}${ext}`;
+      try {
+        await fs.access(this.audioRecordingService.getAudioFilePath(candidate));
+      } catch {
+        return candidate;
+      }
+    }
+    throw new Error(`Could not find unique filename for ${filename}`);
+  }
+
+  private getExportableSettings(): Partial<SettingsSchema> {
+    const settings = Object.fromEntries(
+      Object.entries(this.settingsService.getSettings()).filter(
+        ([key]) => !LOCAL_ONLY_SETTINGS.includes(key as keyof SettingsSchema)
+      )
+    ) as Partial<SettingsSchema>;
+    for (const key of LLM_SETTINGS) {
+      const backend = settings[key];
+      if (backend) {
+        settings[key] = { ...backend, apiKey: '' };
+      }
+    }
+    return settings;
+  }
+
+  /**
+   * Apply archived settings, keeping this install's secrets
+   */
+  private importSettings(content: Buffer): void {
+    let archived: Record<string, unknown>;
+    try {
+      archived = JSON.parse(content.toString('utf-8')) as Record<
+        string,
+        unknown
+      >;
+    } catch {
+      throw new InvalidLibraryArchiveError('its settings are unreadable.');
+    }
+
+    const current = this.settingsService.getSettings();
+    const updates: Record<string, unknown> = {};
+    for (const key of Object.keys(current)) {
+      if (
+        key in archived &&
+        !LOCAL_ONLY_SETTINGS.includes(key as keyof SettingsSchema)
+      ) {
+        updates[key] = archived[key];
+      }
+    }
+    for (const key of LLM_SETTINGS) {
+      const backend = updates[key];
+      if (backend && typeof backend === 'object') {
+        updates[key] = { ...backend, apiKey: current[key]?.apiKey ?? '' };
+      }
+    }
+
+    this.settingsService.updateSettings(updates as Partial<SettingsSchema>);
+  }
+}
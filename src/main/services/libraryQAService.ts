@@ -0,0 +1,103 @@
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import { LIBRARY_QA_SYSTEM_PROMPT } from '../../constants/prompts.js';
+import type { LibraryAnswer, LibrarySource } from '../../types/common.js';
+import { formatOffset } from '../../utils/transcript.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import { LibraryIndex, type LibraryMatch } from '../library-index.js';
+import type Logger from '../logger.js';
+import type { LLMGatewayService } from './llmGatewayService.js';
+import type { PostHogService } from './posthogService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import type { RootState } from '../store/store.js';
+
+// Passages handed to the model per question
+const MAX_SOURCES = 8;
+const EXCERPT_LENGTH = 280;
+
+/**
+ * Answers questions across every recording: the best matching passages
+ * are found with a local keyword index, then the model answers from those
+ * passages only, citing them by number.
+ */
+@injectable()
+export class LibraryQAService {
+  private index = new LibraryIndex();
+
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.LLMGatewayService)
+    private llmGateway: LLMGatewayService,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  async ask(question: string): Promise<LibraryAnswer> {
+    try {
+      this.index.sync(await this.transcriptFileService.getAllTranscripts());
+      const matches = this.index.search(question, MAX_SOURCES);
+      this.logger.info(
+        `Library question matched ${String(matches.length)} passages`
+      );
+
+      if (matches.length === 0) {
+        return {
+          answer: 'No recordings mention anything related to this question.',
+          sources: [],
+        };
+      }
+
+      const answer = await this.llmGateway.chat(
+        [
+          {
+            role: 'system',
+            content: `${LIBRARY_QA_SYSTEM_PROMPT}${matches
+              .map((match, i) => this.formatExcerpt(match, i + 1))
+              .join('\n\n')}`,
+          },
+          { role: 'user', content: question },
+        ],
+        this.store.getState().settings.assemblyaiKey,
+        { useCase: 'summary' }
+      );
+
+      return {
+        answer,
+        sources: matches.map((match) => this.toSource(match)),
+      };
+    } catch (error) {
+      this.logger.error('Failed to answer library question:', error);
+      this.posthog.trackError(error, {
+        service: 'LibraryQAService',
+        operation: 'ask',
+        fatal: false,
+      });
+      throw error;
+    }
+  }
+
+  private formatExcerpt(match: LibraryMatch, number: number): string {
+    const date = new Date(match.created_at).toDateString();
+    const at =
+      match.start !== undefined ? ` at ${formatOffset(match.start)}` : '';
+    return `[${String(number)}] "${match.title}" (${date}${at}):\n${match.text}`;
+  }
+
+  private toSource(match: LibraryMatch): LibrarySource {
+    const excerpt =
+      match.text.length > EXCERPT_LENGTH
+        ? `${match.text.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : match.text;
+    return {
+      recordingId: match.recordingId,
+      title: match.title,
+      created_at: match.created_at,
+      ...(match.start !== undefined && { start: match.start }),
+      excerpt,
+    };
+  }
+}
@@ -1,4 +1,9 @@
-import { injectable } from 'tsyringe';
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import type { LLMBackendSettings, LLMUseCase } from '../../types/common.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type { RootState } from '../store/store.js';
 
 const LLM_GATEWAY_URL =
   'https://llm-gateway.assemblyai.com/v1/chat/completions';
@@ -17,31 +22,116 @@ export interface LLMGatewayResponse {
   }[];
 }
 
+interface LLMGatewayStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+    };
+  }[];
+}
+
+export interface LLMChatOptions {
+  model?: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  useCase?: LLMUseCase;
+  /** Stream the completion as server-sent events, called with each new piece of text */
+  onDelta?: (text: string) => void;
+  /** Constrain the reply to JSON matching this schema (gateway only) */
+  responseFormat?: { name: string; schema: Record<string, unknown> };
+}
+
+/**
+ * Sends chat completions to the AssemblyAI LLM Gateway, or to an
+ * OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp server, ...) when
+ * one is configured for the use case
+ */
 @injectable()
 export class LLMGatewayService {
+  constructor(@inject(DI_TOKENS.Store) private store: Store<RootState>) {}
+
   async chat(
     messages: LLMGatewayMessage[],
     apiKey: string,
-    options?: {
-      model?: string;
-      maxTokens?: number;
-      signal?: AbortSignal;
-    }
+    options?: LLMChatOptions
   ): Promise<string> {
+    const backend = options?.useCase
+      ? this.getBackend(options.useCase)
+      : undefined;
+
+    if (backend?.provider === 'openai-compatible') {
+      if (!backend.baseUrl.trim() || !backend.model.trim()) {
+        throw new Error('LLM endpoint requires a base URL and model');
+      }
+      // Many local servers reject strict JSON schemas, so callers parse
+      // the reply tolerantly instead
+      const {
+        responseFormat: _responseFormat,
+        ...endpointOptions
+      }: LLMChatOptions = options ?? {};
+      return this.complete(
+        `${backend.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`,
+        // Local servers usually run without a key
+        backend.apiKey ? { authorization: `Bearer ${backend.apiKey}` } : {},
+        backend.model.trim(),
+        messages,
+        endpointOptions
+      );
+    }
+
     if (!apiKey) {
       throw new Error('AssemblyAI API key not available');
     }
 
+    return this.complete(
+      LLM_GATEWAY_URL,
+      { authorization: apiKey },
+      options?.model ?? DEFAULT_MODEL,
+      messages,
+      options
+    );
+  }
+
+  /**
+   * Whether the use case can run: its own endpoint needs no AssemblyAI key,
+   * the gateway does
+   */
+  hasCredentials(useCase: LLMUseCase, apiKey: string): boolean {
+    return (
+      this.getBackend(useCase)?.provider === 'openai-compatible' || !!apiKey
+    );
+  }
+
+  private getBackend(useCase: LLMUseCase): LLMBackendSettings | undefined {
+    const settings = this.store.getState().settings;
+    return useCase === 'summary' ? settings.summaryLLM : settings.dictationLLM;
+  }
+
+  private async complete(
+    url: string,
+    headers: Record<string, string>,
+    model: string,
+    messages: LLMGatewayMessage[],
+    options?: LLMChatOptions
+  ): Promise<string> {
+    const onDelta = options?.onDelta;
     const fetchOptions: RequestInit = {
       method: 'POST',
       headers: {
-        authorization: apiKey,
+        ...headers,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: options?.model ?? DEFAULT_MODEL,
+        model,
         messages,
         max_tokens: options?.maxTokens ?? 4000,
+        ...(onDelta && { stream: true }),
+        ...(options?.responseFormat && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { ...options.responseFormat, strict: true },
+          },
+        }),
       }),
     };
 
@@ -49,7 +139,7 @@ export class LLMGatewayService {
       fetchOptions.signal = options.signal;
     }
 
-    const response = await fetch(LLM_GATEWAY_URL, fetchOptions);
+    const response = await fetch(url, fetchOptions);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -58,6 +148,10 @@ export class LLMGatewayService {
       );
     }
 
+    if (onDelta) {
+      return this.readStream(response, onDelta);
+    }
+
     const result = (await response.json()) as LLMGatewayResponse;
     const firstChoice = result.choices[0];
 
@@ -67,4 +161,61 @@ export class LLMGatewayService {
 
     return firstChoice.message.content;
   }
+
+  /**
+   * Collect an SSE completion (`data: {...}` lines, ended by `data: [DONE]`)
+   */
+  private async readStream(
+    response: Response,
+    onDelta: (text: string) => void
+  ): Promise<string> {
+    if (!response.body) {
+      throw new Error('No response content from LLM Gateway');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let content = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const delta = this.parseStreamLine(line);
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+    }
+
+    const delta = this.parseStreamLine(buffered + decoder.decode());
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+
+    return content;
+  }
+
+  private parseStreamLine(line: string): string | undefined {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return undefined;
+
+    const data = trimmed.slice('data:'.length).trim();
+    if (data === '[DONE]') return undefined;
+
+    try {
+      const chunk = JSON.parse(data) as LLMGatewayStreamChunk;
+      return chunk.choices?.[0]?.delta?.content ?? undefined;
+    } catch {
+      throw new Error(`Malformed LLM Gateway stream: ${data}`);
+    }
+  }
 }
@@ -5,6 +5,7 @@ import { Store } from '@reduxjs/toolkit';
 import Logger from 'electron-log';
 import { injectable, inject } from 'tsyringe';
 
+import type { RecordingFileStatus } from '../../types/common.js';
 import { DI_TOKENS } from '../di-tokens.js';
 import type { StateBroadcaster } from '../state-broadcaster.js';
 import type { PostHogService } from './posthogService.js';
@@ -13,6 +14,7 @@ import { stopRecording } from '../store/slices/recordingSlice.js';
 import {
   setCurrentRecording,
   updateCurrentRecordingSummary,
+  updateCurrentRecordingTitle,
   updateCurrentRecordingTranscript,
 } from '../store/slices/recordingsSlice.js';
 import {
@@ -21,6 +23,9 @@ import {
 } from '../store/slices/transcriptionSlice.js';
 import { RootState, AppDispatch } from '../store/store.js';
 
+// Recordings keep this title until they are named, by the user or the model
+export const DEFAULT_RECORDING_TITLE = 'New Recording';
+
 @injectable()
 export class RecordingDataService {
   constructor(
@@ -36,7 +41,7 @@ export class RecordingDataService {
   ) {}
 
   async newRecording(): Promise<string | null> {
-    const title = 'New Recording';
+    const title = DEFAULT_RECORDING_TITLE;
 
     // Clear existing transcription state first
     this.store.dispatch(clearTranscription());
@@ -46,6 +51,7 @@ export class RecordingDataService {
     const state = this.store.getState();
     if (
       state.recording.status === 'recording' ||
+      state.recording.status === 'paused' ||
       state.recording.status === 'starting'
     ) {
       this.logger.info('Stopping ongoing recording before creating new one');
@@ -156,10 +162,29 @@ export class RecordingDataService {
     }
   }
 
-  async saveSummary(recordingId: string, summary: string): Promise<void> {
+  /**
+   * Save a generated summary and the template it came from. The summary it
+   * replaces is kept as a version.
+   */
+  async saveSummary(
+    recordingId: string,
+    summary: string,
+    template?: string
+  ): Promise<void> {
     try {
+      const existing =
+        await this.transcriptFileService.getTranscriptById(recordingId);
+      if (existing?.summary?.trim() && existing.summary !== summary) {
+        await this.transcriptFileService.saveVersion(
+          recordingId,
+          'summary',
+          existing.summary
+        );
+      }
+
       await this.transcriptFileService.updateTranscript(recordingId, {
         summary,
+        ...(template && { summary_template: template }),
       });
 
       // Only update Redux if this is for the current recording
@@ -181,6 +206,159 @@ export class RecordingDataService {
     }
   }
 
+  /**
+   * Apply a generated title, unless the recording has been named already.
+   * Goes through the same rename as a title the user types.
+   */
+  async applyGeneratedTitle(
+    recordingId: string,
+    title: string
+  ): Promise<boolean> {
+    try {
+      const current = this.store.getState().recordings.currentRecording;
+      const recording =
+        current?.id === recordingId
+          ? current
+          : await this.transcriptFileService.getTranscriptById(recordingId);
+      if (
+        !title ||
+        !recording ||
+        (recording.title && recording.title !== DEFAULT_RECORDING_TITLE)
+      ) {
+        return false;
+      }
+
+      await this.transcriptFileService.updateTranscript(recordingId, {
+        title,
+      });
+      if (
+        this.store.getState().recordings.currentRecording?.id === recordingId
+      ) {
+        this.store.dispatch(updateCurrentRecordingTitle(title));
+        this.stateBroadcaster.recordingsTitle(title);
+      }
+
+      this.logger.info(`Named recording ${recordingId}: ${title}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to apply generated title: ${String(error)}`);
+      this.posthog.trackError(error, {
+        service: 'RecordingDataService',
+        operation: 'applyGeneratedTitle',
+        recordingId,
+      });
+      return false;
+    }
+  }
+
+  getSummaryVersions(recordingId: string): Promise<number[]> {
+    return this.transcriptFileService.getVersions(recordingId, 'summary');
+  }
+
+  /**
+   * Swap a stored summary back in. The summary it replaces becomes a
+   * version itself, so a restore can be undone the same way.
+   */
+  async restoreSummaryVersion(
+    recordingId: string,
+    createdAt: number
+  ): Promise<boolean> {
+    try {
+      const [recording, previous] = await Promise.all([
+        this.transcriptFileService.getTranscriptById(recordingId),
+        this.transcriptFileService.readVersion(
+          recordingId,
+          'summary',
+          createdAt
+        ),
+      ]);
+      if (!recording || previous === null) {
+        this.logger.warn(
+          `Summary version ${String(createdAt)} not found for ${recordingId}`
+        );
+        return false;
+      }
+
+      if (recording.summary?.trim()) {
+        await this.transcriptFileService.saveVersion(
+          recordingId,
+          'summary',
+          recording.summary
+        );
+      }
+      await this.transcriptFileService.updateTranscript(recordingId, {
+        summary: previous,
+      });
+      if (
+        this.store.getState().recordings.currentRecording?.id === recordingId
+      ) {
+        this.store.dispatch(updateCurrentRecordingSummary(previous));
+        this.stateBroadcaster.recordingsSummary(previous);
+      }
+      await this.transcriptFileService.deleteVersion(
+        recordingId,
+        'summary',
+        createdAt
+      );
+      this.logger.info(
+        `Restored summary version ${String(createdAt)} for ${recordingId}`
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to restore summary version: ${String(error)}`);
+      this.posthog.trackError(error, {
+        service: 'RecordingDataService',
+        operation: 'restoreSummaryVersion',
+        recordingId,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Swap in a reworked transcript, e.g. after diarization. The transcript
+   * it replaces is kept as a version.
+   */
+  async replaceTranscript(
+    recordingId: string,
+    transcript: string
+  ): Promise<void> {
+    try {
+      const existing =
+        await this.transcriptFileService.getTranscriptById(recordingId);
+      if (existing?.transcript?.trim() && existing.transcript !== transcript) {
+        await this.transcriptFileService.saveVersion(
+          recordingId,
+          'transcript',
+          existing.transcript
+        );
+      }
+
+      await this.transcriptFileService.updateTranscript(recordingId, {
+        transcript,
+      });
+
+      // Only update Redux if this is for the current recording
+      const currentRecordingId =
+        this.store.getState().recordings.currentRecording?.id;
+      if (currentRecordingId === recordingId) {
+        this.store.dispatch(updateCurrentRecordingTranscript(transcript));
+        this.stateBroadcaster.recordingsTranscript(transcript);
+        this.store.dispatch(loadExistingTranscript(transcript));
+        this.stateBroadcaster.transcriptionLoad(transcript);
+      }
+
+      this.logger.info(`Replaced transcript for recording: ${recordingId}`);
+    } catch (error) {
+      this.logger.error(`Failed to replace transcript: ${String(error)}`);
+      this.posthog.trackError(error, {
+        service: 'RecordingDataService',
+        operation: 'replaceTranscript',
+        recordingId,
+      });
+    }
+  }
+
   async getRecordingTranscript(recordingId: string): Promise<string | null> {
     try {
       const recording =
@@ -216,6 +394,25 @@ export class RecordingDataService {
     }
   }
 
+  async setRecordingStatus(
+    recordingId: string,
+    status: RecordingFileStatus
+  ): Promise<void> {
+    try {
+      await this.transcriptFileService.updateTranscript(recordingId, {
+        status,
+      });
+      this.logger.info(`Marked recording ${recordingId} as ${status}`);
+    } catch (error) {
+      this.logger.error(`Failed to update recording status: ${String(error)}`);
+      this.posthog.trackError(error, {
+        service: 'RecordingDataService',
+        operation: 'setRecordingStatus',
+        recordingId,
+      });
+    }
+  }
+
   private async waitForRecordingToStop(): Promise<void> {
     return new Promise((resolve) => {
       const checkStatus = () => {
@@ -2,24 +2,35 @@ import type { Store } from '@reduxjs/toolkit';
 import type { BrowserWindow } from 'electron';
 import { inject, injectable } from 'tsyringe';
 
+import { DEFAULT_PROMPTS } from '../../constants/prompts.js';
 import {
   MissingApiKeyError,
   NoActiveRecordingError,
   TranscriptionConnectionError,
   ErrorLogger,
 } from '../../errors/index.js';
+import type { PromptTemplate } from '../../types/common.js';
+import { SPEAKER_LABELS } from '../../utils/transcript.js';
 import { DI_TOKENS } from '../di-tokens.js';
 import type Logger from '../logger.js';
 import type { StateBroadcaster } from '../state-broadcaster.js';
+import type { ActionItemService } from './actionItemService.js';
+import type { AudioConversionService } from './audioConversionService.js';
 import { AudioRecordingService } from './audioRecordingService.js';
 import type { PostHogService } from './posthogService.js';
-import { RecordingDataService } from './recordingDataService.js';
+import {
+  DEFAULT_RECORDING_TITLE,
+  RecordingDataService,
+} from './recordingDataService.js';
 import { SummarizationService } from './summarizationService.js';
 import {
   TranscriptionService,
+  formatUtterances,
   type TranscriptionConnection,
 } from './transcriptionService.js';
 import {
+  pauseRecording,
+  resumeRecording,
   setRecordingError,
   startRecording,
   startDictation,
@@ -33,6 +44,10 @@ import {
 } from '../store/slices/transcriptionSlice.js';
 import { AppDispatch, RootState } from '../store/store.js';
 
+type SummaryOutcome =
+  | { status: 'completed' | 'stopped' }
+  | { status: 'failed'; error: string };
+
 @injectable()
 export class RecordingManager {
   private connections: TranscriptionConnection = {
@@ -40,7 +55,14 @@ export class RecordingManager {
     system: null,
   };
   private keepAliveInterval: NodeJS.Timeout | null = null;
+  private speakerSeparation = false;
+  private stereoRecording = false;
   private errorLogger: ErrorLogger;
+  // Keyed by recording ID, so a queued summary and one for the open
+  // recording can run side by side
+  private summaryAbortControllers = new Map<string, AbortController>();
+  private autoSummaryQueue: { recordingId: string; transcript: string }[] = [];
+  private isProcessingAutoSummaries = false;
 
   constructor(
     @inject(DI_TOKENS.Store)
@@ -55,10 +77,14 @@ export class RecordingManager {
     private summarizationService: SummarizationService,
     @inject(DI_TOKENS.AudioRecordingService)
     private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.AudioConversionService)
+    private audioConversionService: AudioConversionService,
     @inject(DI_TOKENS.StateBroadcaster)
     private stateBroadcaster: StateBroadcaster,
     @inject(DI_TOKENS.PostHogService)
-    private posthog: PostHogService
+    private posthog: PostHogService,
+    @inject(DI_TOKENS.ActionItemService)
+    private actionItemService: ActionItemService
   ) {
     this.errorLogger = new ErrorLogger(this.logger);
     this.setupStoreSubscriptions();
@@ -82,18 +108,12 @@ export class RecordingManager {
       errorMessage.includes('ECONNRESET');
 
     if (isConnectionReset) {
+      // The stream reconnects by itself and replays buffered audio; progress
+      // is reported through the connection status rather than as an error
       const modePrefix = mode === 'dictation' ? 'Dictation ' : '';
       this.logger.warn(
-        `${modePrefix}${stream} stream connection reset - may reconnect automatically`
+        `${modePrefix}${stream} stream connection reset - reconnecting`
       );
-
-      const reconnectMsg =
-        mode === 'dictation'
-          ? 'Dictation connection interrupted. Attempting to reconnect...'
-          : `${stream === 'microphone' ? 'Microphone' : 'System audio'} connection interrupted. Attempting to reconnect...`;
-
-      this.store.dispatch(setRecordingError(reconnectMsg));
-      this.stateBroadcaster.recordingError(reconnectMsg);
       return;
     }
 
@@ -147,16 +167,22 @@ export class RecordingManager {
   /**
    * Handles connection status updates uniformly.
    */
-  private handleConnectionStatus(stream: string, connected: boolean): void {
+  private handleConnectionStatus(
+    stream: string,
+    connected: boolean,
+    nextRetryIn?: number
+  ): void {
     this.store.dispatch(
       updateConnectionStatus({
         stream: stream as 'microphone' | 'system',
         connected,
+        ...(nextRetryIn !== undefined && { retrying: true, nextRetryIn }),
       })
     );
     this.stateBroadcaster.recordingConnection(
       stream as 'microphone' | 'system',
-      connected
+      connected,
+      nextRetryIn
     );
   }
 
@@ -165,6 +191,8 @@ export class RecordingManager {
       microphone: false,
       system: false,
     };
+    // A stream reconnecting mid-session must not restart audio capture
+    let audioCaptureStarted = false;
 
     // Subscribe to Redux store changes
     this.store.subscribe(() => {
@@ -176,7 +204,8 @@ export class RecordingManager {
       const connectionsReady =
         connectionStatus.microphone && !lastConnectionStatus.microphone;
 
-      if (connectionsReady) {
+      if (connectionsReady && !audioCaptureStarted) {
+        audioCaptureStarted = true;
         const modeDescription = isDictating
           ? 'Microphone'
           : 'Combined audio stream';
@@ -189,6 +218,10 @@ export class RecordingManager {
       // Check if we're stopping - always just check microphone since we use combined stream
       const wasPreviouslyConnected = lastConnectionStatus.microphone;
 
+      if (status === 'idle') {
+        audioCaptureStarted = false;
+      }
+
       if (status === 'idle' && wasPreviouslyConnected) {
         this.logger.info(
           'RecordingManager: Connections closed, stopping audio capture'
@@ -203,7 +236,46 @@ export class RecordingManager {
 
   isRecording(): boolean {
     const state = this.store.getState();
-    return state.recording.status === 'recording';
+    // A paused meeting keeps its session open, so it still counts as recording
+    return (
+      state.recording.status === 'recording' ||
+      state.recording.status === 'paused'
+    );
+  }
+
+  /**
+   * Stops capturing audio without ending the session. The streaming
+   * connections stay open (kept alive by the keep-alive interval) and the
+   * audio buffer and transcript continue where they left off on resume.
+   */
+  pauseRecording(): boolean {
+    const state = this.store.getState();
+    if (state.recording.status !== 'recording' || state.recording.isDictating) {
+      this.logger.warn('Cannot pause: no meeting recording in progress');
+      return false;
+    }
+
+    this.store.dispatch(pauseRecording());
+    this.stateBroadcaster.recordingStatus('paused', {
+      recordingId: state.recording.recordingId,
+    });
+    this.logger.info('Recording paused');
+    return true;
+  }
+
+  resumeRecording(): boolean {
+    const state = this.store.getState();
+    if (state.recording.status !== 'paused') {
+      this.logger.warn('Cannot resume: recording is not paused');
+      return false;
+    }
+
+    this.store.dispatch(resumeRecording());
+    this.stateBroadcaster.recordingStatus('recording', {
+      recordingId: state.recording.recordingId,
+    });
+    this.logger.info('Recording resumed');
+    return true;
   }
 
   async startTranscriptionForDictation(): Promise<boolean> {
@@ -219,7 +291,8 @@ export class RecordingManager {
       const state = this.store.getState();
       const apiKey = state.settings.assemblyaiKey;
 
-      if (!apiKey) {
+      // The local engine transcribes without an AssemblyAI key
+      if (!apiKey && state.settings.transcriptionProvider !== 'local') {
         const error = new MissingApiKeyError();
         this.errorLogger.logError(error, {
           operation: 'startTranscriptionForDictation',
@@ -246,8 +319,8 @@ export class RecordingManager {
           onError: (stream: string, error: unknown) => {
             this.handleTranscriptionError(stream, error, 'dictation');
           },
-          onConnectionStatus: (stream: string, connected: boolean) => {
-            this.handleConnectionStatus(stream, connected);
+          onConnectionStatus: (stream, connected, nextRetryIn) => {
+            this.handleConnectionStatus(stream, connected, nextRetryIn);
           },
         });
 
@@ -293,7 +366,8 @@ export class RecordingManager {
       const state = this.store.getState();
       const apiKey = state.settings.assemblyaiKey;
 
-      if (!apiKey) {
+      // The local engine transcribes without an AssemblyAI key
+      if (!apiKey && state.settings.transcriptionProvider !== 'local') {
         const error = new MissingApiKeyError();
         this.errorLogger.logError(error, {
           operation: 'startTranscription',
@@ -305,78 +379,104 @@ export class RecordingManager {
       }
 
       // Create connections with callbacks that dispatch Redux actions
-      // Always use combined connection for meeting transcription (refactored pipeline)
-      this.connections =
-        await this.transcriptionService.createCombinedConnection(apiKey, {
-          onTranscript: (data) => {
-            // Check if we're in dictation mode via the DictationService
-            const isDictating = this.store.getState().recording.isDictating;
-
-            if (isDictating) {
-              // Emit speech activity for ANY transcript (partial or final) in dictation mode
-              this.transcriptionService.emitSpeechActivity();
-
-              // In dictation mode, only emit final transcripts for insertion
-              // Only emit from microphone stream to avoid duplicates
-              if (!data.partial && data.streamType === 'microphone') {
-                this.transcriptionService.emitDictationText(data.text);
-              }
-              // Don't process partials or store transcripts in dictation mode
-              return;
-            }
+      // Separate mic/system connections label turns by speaker; otherwise use the combined stream
+      this.speakerSeparation = Boolean(state.settings.speakerSeparation);
+      this.stereoRecording = Boolean(state.settings.stereoRecording);
+      const createConnection = this.speakerSeparation
+        ? this.transcriptionService.createSeparateConnection.bind(
+            this.transcriptionService
+          )
+        : this.transcriptionService.createCombinedConnection.bind(
+            this.transcriptionService
+          );
+      this.connections = await createConnection(apiKey, {
+        onTranscript: (data) => {
+          // Check if we're in dictation mode via the DictationService
+          const isDictating = this.store.getState().recording.isDictating;
+
+          if (isDictating) {
+            // Emit speech activity for ANY transcript (partial or final) in dictation mode
+            this.transcriptionService.emitSpeechActivity();
 
-            // Normal transcription mode
-            if (data.partial) {
-              // Handle partial transcripts - update buffer for immediate UI display
-              this.store.dispatch(
-                updateTranscriptBuffer({
-                  source: data.streamType,
-                  text: data.text,
-                })
-              );
-              this.stateBroadcaster.transcriptionBuffer(
-                data.streamType,
-                data.text
-              );
-            } else {
-              // Handle final transcripts - add to segments and clear buffers
-              const segment = {
+            // In dictation mode, only emit final transcripts for insertion
+            // Only emit from microphone stream to avoid duplicates
+            if (!data.partial && data.streamType === 'microphone') {
+              this.transcriptionService.emitDictationText(data.text);
+            }
+            // Don't process partials or store transcripts in dictation mode
+            return;
+          }
+
+          // Normal transcription mode
+          if (data.partial) {
+            // Handle partial transcripts - update buffer for immediate UI display
+            this.store.dispatch(
+              updateTranscriptBuffer({
+                source: data.streamType,
                 text: data.text,
-                timestamp: Date.now(),
-                isFinal: true,
+              })
+            );
+            this.stateBroadcaster.transcriptionBuffer(
+              data.streamType,
+              data.text
+            );
+          } else {
+            // Handle final transcripts - add to segments and clear buffers
+            const segment = {
+              text: data.text,
+              timestamp: Date.now(),
+              isFinal: true,
+              source: data.streamType,
+              ...(this.speakerSeparation && {
+                speaker: SPEAKER_LABELS[data.streamType],
+              }),
+              ...(data.start !== undefined && { start: data.start / 1000 }),
+              ...(data.end !== undefined && { end: data.end / 1000 }),
+            };
+            this.store.dispatch(addTranscriptSegment(segment));
+            this.stateBroadcaster.transcriptionSegment(segment);
+            // Clear the buffer for this source since we now have the final transcript
+            this.store.dispatch(
+              updateTranscriptBuffer({
                 source: data.streamType,
-              };
-              this.store.dispatch(addTranscriptSegment(segment));
-              this.stateBroadcaster.transcriptionSegment(segment);
-              // Clear the buffer for this source since we now have the final transcript
-              this.store.dispatch(
-                updateTranscriptBuffer({
-                  source: data.streamType,
-                  text: '',
-                })
-              );
-              this.stateBroadcaster.transcriptionBuffer(data.streamType, '');
-              // Auto-save transcript after receiving final transcript
-              void this.recordingDataService.saveCurrentTranscription();
-            }
-          },
-          onError: (stream: string, error: unknown) => {
-            this.handleTranscriptionError(stream, error, 'meeting');
-          },
-          onConnectionStatus: (stream: string, connected: boolean) => {
-            this.handleConnectionStatus(stream, connected);
-          },
-        });
+                text: '',
+              })
+            );
+            this.stateBroadcaster.transcriptionBuffer(data.streamType, '');
+            // Auto-save transcript after receiving final transcript
+            void this.recordingDataService.saveCurrentTranscription();
+          }
+        },
+        onError: (stream: string, error: unknown) => {
+          this.handleTranscriptionError(stream, error, 'meeting');
+        },
+        onConnectionStatus: (stream, connected, nextRetryIn) => {
+          this.handleConnectionStatus(stream, connected, nextRetryIn);
+        },
+      });
 
       // Log the mode being used
-      this.logger.info('Using combined audio stream with echo cancellation');
+      this.logger.info(
+        this.speakerSeparation
+          ? 'Using separate microphone and system audio streams'
+          : 'Using combined audio stream with echo cancellation'
+      );
 
       // Start keep-alive interval
       this.startKeepAliveInterval();
 
       // Start audio recording
       const recordingId = currentState.recordings.currentRecording.id;
-      this.audioRecordingService.startRecording(recordingId);
+      this.audioRecordingService.startRecording(
+        recordingId,
+        this.stereoRecording ? 2 : 1
+      );
+
+      // Left as 'recording' in the file if the app exits before stop
+      void this.recordingDataService.setRecordingStatus(
+        recordingId,
+        'recording'
+      );
 
       // Broadcast 'recording' status to renderer - transcription is now active
       this.stateBroadcaster.recordingStatus('recording', {
@@ -406,7 +506,7 @@ export class RecordingManager {
       this.stateBroadcaster.recordingStatus('stopping');
 
       // Save current transcription before stopping
-      void this.recordingDataService.saveCurrentTranscription();
+      await this.recordingDataService.saveCurrentTranscription();
 
       // Clear keep-alive interval
       this.stopKeepAliveInterval();
@@ -438,11 +538,32 @@ export class RecordingManager {
         );
         if (audioFilename) {
           // Update the recording with the audio filename
-          void this.recordingDataService.updateAudioFilename(
+          await this.recordingDataService.updateAudioFilename(
             currentRecording.id,
             audioFilename
           );
         }
+
+        await this.recordingDataService.setRecordingStatus(
+          currentRecording.id,
+          'complete'
+        );
+
+        const { settings, transcription } = this.store.getState();
+        void this.generateTitle(
+          currentRecording.id,
+          transcription.currentTranscript
+        );
+        if (settings.autoSummarize) {
+          this.enqueueAutoSummary(
+            currentRecording.id,
+            transcription.currentTranscript
+          );
+        }
+
+        if (audioFilename) {
+          void this.processSavedAudio(currentRecording.id, audioFilename);
+        }
       }
 
       await this.store.dispatch(stopRecording());
@@ -505,6 +626,11 @@ export class RecordingManager {
   sendMicrophoneAudio(audioData: ArrayBuffer): void {
     const state = this.store.getState();
 
+    // Off-the-record: drop audio entirely while paused
+    if (state.recording.status === 'paused') {
+      return;
+    }
+
     // Only send audio if we have an active connection
     if (this.connections.microphone) {
       this.transcriptionService.sendAudio(
@@ -516,22 +642,166 @@ export class RecordingManager {
     // Save audio data for recording
     const recordingId = state.recordings.currentRecording?.id;
     if (recordingId && state.recording.status === 'recording') {
-      // All audio comes through combined stream for meetings
+      if (this.speakerSeparation) {
+        this.audioRecordingService.appendAudioData(
+          recordingId,
+          audioData,
+          'microphone'
+        );
+      } else if (!this.stereoRecording) {
+        // Without speaker separation all audio comes through the combined stream
+        this.audioRecordingService.appendAudioData(
+          recordingId,
+          audioData,
+          'combined'
+        );
+      }
+      // Stereo files get unmixed audio through sendArchiveAudio instead
+    }
+  }
+
+  /**
+   * Unmixed microphone/system audio for stereo files, sent by the renderer
+   * alongside the combined stream that is transcribed
+   */
+  sendArchiveAudio(
+    source: 'microphone' | 'system',
+    audioData: ArrayBuffer
+  ): void {
+    if (!this.stereoRecording || this.speakerSeparation) {
+      return;
+    }
+
+    const state = this.store.getState();
+    const recordingId = state.recordings.currentRecording?.id;
+    if (recordingId && state.recording.status === 'recording') {
       this.audioRecordingService.appendAudioData(
         recordingId,
         audioData,
-        'combined'
+        source
+      );
+    }
+  }
+
+  sendSystemAudio(audioData: ArrayBuffer): void {
+    // Without speaker separation system audio is already mixed into the combined stream
+    if (!this.speakerSeparation) {
+      return;
+    }
+
+    const state = this.store.getState();
+    if (state.recording.status === 'paused') {
+      return;
+    }
+
+    if (this.connections.system) {
+      this.transcriptionService.sendAudio(this.connections.system, audioData);
+    }
+
+    const recordingId = state.recordings.currentRecording?.id;
+    if (recordingId && state.recording.status === 'recording') {
+      this.audioRecordingService.appendAudioData(
+        recordingId,
+        audioData,
+        'system'
+      );
+    }
+  }
+
+  /**
+   * Name a recording that still has the default title. The title is checked
+   * again before it is applied, so one typed meanwhile is kept.
+   */
+  private async generateTitle(
+    recordingId: string,
+    text: string
+  ): Promise<void> {
+    const settings = this.store.getState().settings;
+    const recording = this.store.getState().recordings.currentRecording;
+    if (
+      !(settings.autoTitle ?? true) ||
+      !text.trim() ||
+      (recording?.id === recordingId &&
+        recording.title !== DEFAULT_RECORDING_TITLE)
+    ) {
+      return;
+    }
+
+    try {
+      const title = await this.summarizationService.generateTitle(
+        text,
+        settings.assemblyaiKey
       );
+      await this.recordingDataService.applyGeneratedTitle(recordingId, title);
+    } catch (error) {
+      this.logger.error('Failed to generate recording title:', error);
+      this.posthog.trackError(error, {
+        service: 'RecordingManager',
+        operation: 'generateTitle',
+        recordingId,
+        fatal: false,
+      });
+    }
+  }
+
+  /**
+   * Background work on the saved WAV: diarization reads it before it is
+   * converted to the configured storage format
+   */
+  private async processSavedAudio(
+    recordingId: string,
+    audioFilename: string
+  ): Promise<void> {
+    // Replace live labels with speaker diarization of the saved audio
+    if (this.store.getState().settings.postCallDiarization) {
+      await this.diarizeRecording(recordingId, audioFilename);
     }
+    await this.audioConversionService.convertRecording(
+      recordingId,
+      audioFilename
+    );
   }
 
-  sendSystemAudio(_audioData: ArrayBuffer): void {
-    // System audio is already mixed in the combined stream, so we don't process it separately
-    // This method is kept for backward compatibility but does nothing
-    return;
+  /**
+   * Runs post-call speaker diarization on the saved audio and replaces the transcript
+   */
+  private async diarizeRecording(
+    recordingId: string,
+    audioFilename: string
+  ): Promise<void> {
+    const apiKey = this.store.getState().settings.assemblyaiKey;
+
+    try {
+      this.logger.info(`Running speaker diarization for ${recordingId}`);
+      const utterances = await this.transcriptionService.diarizeAudioFile(
+        apiKey,
+        this.audioRecordingService.getAudioFilePath(audioFilename)
+      );
+
+      if (utterances.length === 0) {
+        this.logger.warn(`Diarization returned no utterances: ${recordingId}`);
+        return;
+      }
+
+      await this.recordingDataService.replaceTranscript(
+        recordingId,
+        formatUtterances(utterances)
+      );
+    } catch (error) {
+      this.logger.error('Failed to diarize recording:', error);
+      this.posthog.trackError(error, {
+        service: 'RecordingManager',
+        operation: 'diarizeRecording',
+        recordingId,
+        fatal: false,
+      });
+    }
   }
 
-  async summarizeTranscript(transcript?: string): Promise<boolean> {
+  async summarizeTranscript(
+    transcript?: string,
+    templateName?: string
+  ): Promise<boolean> {
     // Get current recording and transcript from state
     const state = this.store.getState();
     const currentTranscript =
@@ -548,50 +818,179 @@ export class RecordingManager {
       this.logger.warn('No transcript available for summarization');
       return false;
     }
+    // Summaries belong to a recording; without one there is nowhere to
+    // save or show it
+    if (!currentRecordingId) {
+      this.logger.warn('No recording open to summarize');
+      return false;
+    }
 
-    try {
-      this.mainWindow.webContents.send('summarization-started');
+    const template = this.findPromptTemplate(templateName);
+    const outcome = await this.runSummary(
+      currentRecordingId,
+      currentTranscript,
+      template ?? { name: '', content: state.settings.summaryPrompt },
+      state.settings.assemblyaiKey
+    );
+    return outcome.status === 'completed';
+  }
+
+  /**
+   * Queue a summary of a recording that just stopped. Queued summaries run
+   * one at a time in the background and keep their own recording ID, so
+   * starting another meeting straight away doesn't interrupt them.
+   */
+  enqueueAutoSummary(recordingId: string, transcript: string): void {
+    if (!transcript.trim()) {
+      this.logger.info(
+        `Skipping auto-summary of empty recording ${recordingId}`
+      );
+      return;
+    }
+    if (this.autoSummaryQueue.some((job) => job.recordingId === recordingId)) {
+      return;
+    }
 
-      const settings = state.settings;
-      const summaryPrompt = settings.summaryPrompt;
-      const apiKey = settings.assemblyaiKey;
+    this.autoSummaryQueue.push({ recordingId, transcript });
+    void this.processAutoSummaryQueue();
+  }
 
-      if (!apiKey) {
-        throw new Error('AssemblyAI API key not available');
+  /**
+   * Try a failed automatic summary again with the saved transcript
+   */
+  async retryAutoSummary(recordingId: string): Promise<boolean> {
+    const transcript =
+      await this.recordingDataService.getRecordingTranscript(recordingId);
+    if (!transcript?.trim()) {
+      return false;
+    }
+
+    this.enqueueAutoSummary(recordingId, transcript);
+    return true;
+  }
+
+  private async processAutoSummaryQueue(): Promise<void> {
+    if (this.isProcessingAutoSummaries) return;
+    this.isProcessingAutoSummaries = true;
+
+    try {
+      let job = this.autoSummaryQueue.shift();
+      while (job) {
+        const settings = this.store.getState().settings;
+        // Falls back to the last used prompt if the template was removed
+        const template = this.findPromptTemplate(settings.autoSummaryTemplate);
+        this.logger.info(`Auto-summarizing recording ${job.recordingId}`);
+
+        const outcome = await this.runSummary(
+          job.recordingId,
+          job.transcript,
+          template ?? { name: '', content: settings.summaryPrompt },
+          settings.assemblyaiKey
+        );
+        if (outcome.status === 'failed') {
+          this.mainWindow.webContents.send('auto-summary-failed', {
+            recordingId: job.recordingId,
+            error: outcome.error,
+          });
+        }
+        job = this.autoSummaryQueue.shift();
       }
+    } finally {
+      this.isProcessingAutoSummaries = false;
+    }
+  }
+
+  private findPromptTemplate(name?: string): PromptTemplate | undefined {
+    if (!name) return undefined;
+    const { prompts } = this.store.getState().settings;
+    return (prompts.length ? prompts : DEFAULT_PROMPTS).find(
+      (prompt) => prompt.name === name
+    );
+  }
+
+  /**
+   * Generate, stream and save a summary for one recording. Events carry the
+   * recording ID so the renderer can ignore summaries of other recordings.
+   */
+  private async runSummary(
+    recordingId: string,
+    transcript: string,
+    template: PromptTemplate,
+    apiKey: string
+  ): Promise<SummaryOutcome> {
+    // A new request replaces one for the same recording that is still streaming
+    this.summaryAbortControllers.get(recordingId)?.abort();
+    const abortController = new AbortController();
+    this.summaryAbortControllers.set(recordingId, abortController);
+
+    try {
+      this.mainWindow.webContents.send('summarization-started', {
+        recordingId,
+      });
 
       const summary = await this.summarizationService.summarizeTranscript(
-        currentTranscript,
-        summaryPrompt,
-        apiKey
+        transcript,
+        template.content,
+        apiKey,
+        {
+          signal: abortController.signal,
+          onProgress: (progress) => {
+            this.mainWindow.webContents.send('summarization-progress', {
+              ...progress,
+              recordingId,
+            });
+          },
+          onPartial: (text) => {
+            this.mainWindow.webContents.send('summary-partial', {
+              text,
+              recordingId,
+            });
+          },
+        }
       );
 
       if (summary) {
         this.logger.info(
-          `Summarization complete - sending summary event for recording: ${String(currentRecordingId)}`
+          `Summarization complete - sending summary event for recording: ${recordingId}`
+        );
+
+        // Save to database and update Redux state via RecordingDataService.
+        // Saved before the UI hears of it, so the summary being replaced is
+        // read back and kept as a version before the UI writes over it.
+        this.logger.info(`Saving summary for recording: ${recordingId}`);
+        await this.recordingDataService.saveSummary(
+          recordingId,
+          summary,
+          template.name || undefined
         );
+        // Failures are logged by the service; the summary stands on its own
+        this.actionItemService
+          .extractActionItems(recordingId, transcript)
+          .catch(() => undefined);
+        // Recordings stopped before anything was said get named now
+        void this.generateTitle(recordingId, summary);
 
         // Send summary to UI with recording ID - UI will validate and handle both state update and database write
         this.mainWindow.webContents.send('summary', {
           text: summary,
-          recordingId: currentRecordingId,
+          recordingId,
         });
-
-        // Save to database and update Redux state via RecordingDataService
-        if (currentRecordingId) {
-          this.logger.info(
-            `Saving summary for recording: ${currentRecordingId}`
-          );
-          void this.recordingDataService.saveSummary(
-            currentRecordingId,
-            summary
-          );
-        }
       }
 
-      this.mainWindow.webContents.send('summarization-completed');
-      return true;
+      this.mainWindow.webContents.send('summarization-completed', {
+        recordingId,
+      });
+      return { status: 'completed' };
     } catch (err: unknown) {
+      this.mainWindow.webContents.send('summarization-completed', {
+        recordingId,
+      });
+      if (abortController.signal.aborted) {
+        // The existing summary is kept rather than replaced by a partial one
+        this.logger.info('Summarization stopped before completion');
+        return { status: 'stopped' };
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       this.logger.error(`Error during summarization: ${errorMessage}`);
       this.posthog.trackError(err, {
@@ -599,9 +998,29 @@ export class RecordingManager {
         operation: 'summarizeTranscript',
         fatal: false,
       });
-      this.mainWindow.webContents.send('summarization-completed');
+      return { status: 'failed', error: errorMessage };
+    } finally {
+      if (this.summaryAbortControllers.get(recordingId) === abortController) {
+        this.summaryAbortControllers.delete(recordingId);
+      }
+    }
+  }
+
+  /**
+   * Cancel the summary that is being generated for the open recording
+   */
+  stopSummarization(): boolean {
+    const recordingId = this.store.getState().recordings.currentRecording?.id;
+    const abortController =
+      recordingId && this.summaryAbortControllers.get(recordingId);
+    if (!abortController) {
       return false;
     }
+
+    this.logger.info('Stopping summarization');
+    abortController.abort();
+    this.summaryAbortControllers.delete(recordingId);
+    return true;
   }
 
   private startKeepAliveInterval(): void {
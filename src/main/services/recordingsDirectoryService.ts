@@ -0,0 +1,226 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { app, dialog, type BrowserWindow } from 'electron';
+import { inject, injectable } from 'tsyringe';
+
+import { ConfigurationError } from '../../errors/index.js';
+import type { RecordingsMoveResult } from '../../types/common.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type { SettingsService } from './settingsService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+
+interface RecordingsLocation {
+  transcriptsDir: string;
+  audioDir: string;
+}
+
+interface FileMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Decides where recordings are stored (by default the app data folder, or
+ * any folder such as an Obsidian or Logseq vault) and moves them when the
+ * location changes
+ */
+@injectable()
+export class RecordingsDirectoryService {
+  constructor(
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.MainWindow) private mainWindow: BrowserWindow,
+    @inject(DI_TOKENS.SettingsService)
+    private settingsService: SettingsService,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Point the file services at the configured location.
+   * Must run at startup before anything reads recordings.
+   */
+  applyConfiguredDirectory(): void {
+    const location = this.resolveLocation(
+      this.settingsService.getSetting('recordingsDirectory'),
+      this.settingsService.getSetting('audioSubfolder')
+    );
+    this.transcriptFileService.setTranscriptsDir(location.transcriptsDir);
+    this.audioRecordingService.setAudioDir(location.audioDir);
+    this.logger.info(
+      `Recordings directory: ${location.transcriptsDir} (audio in ${location.audioDir})`
+    );
+  }
+
+  /**
+   * Ask for a folder. Resolves to null if the dialog is cancelled.
+   */
+  async chooseDirectory(): Promise<string | null> {
+    const result = await dialog.showOpenDialog(this.mainWindow, {
+      title: 'Choose Recordings Folder',
+      defaultPath: this.transcriptFileService.getTranscriptsDir(),
+      properties: ['openDirectory', 'createDirectory'],
+    });
+
+    const directory = result.filePaths[0];
+    return result.canceled || !directory ? null : directory;
+  }
+
+  /**
+   * Move every recording's notes, sidecar files and audio to a new location
+   * and store it in settings. All files are copied before anything is
+   * removed, so a failure part way leaves the old location untouched.
+   * An empty directory means the app data folder.
+   */
+  async moveRecordings(
+    directory: string,
+    audioSubfolder: string
+  ): Promise<RecordingsMoveResult> {
+    if (this.audioRecordingService.hasActiveRecordings()) {
+      throw new ConfigurationError(
+        'Stop the current recording before moving recordings.'
+      );
+    }
+    const subfolder = audioSubfolder.trim();
+    if (directory !== '' && !path.isAbsolute(directory)) {
+      throw new ConfigurationError('Choose a full path for recordings.');
+    }
+    if (/[\\/]/.test(subfolder) || subfolder === '.' || subfolder === '..') {
+      throw new ConfigurationError(
+        'The audio subfolder must be a single folder name.'
+      );
+    }
+
+    const target = this.resolveLocation(directory, subfolder);
+    const { moves, recordings } = await this.planMoves(target);
+    const copied: string[] = [];
+
+    try {
+      for (const move of moves) {
+        if (await pathExists(move.to)) {
+          throw new ConfigurationError(
+            `${move.to} already exists. Nothing was moved.`
+          );
+        }
+      }
+
+      for (const move of moves) {
+        await fs.mkdir(path.dirname(move.to), { recursive: true });
+        await fs.copyFile(move.from, move.to, fs.constants.COPYFILE_EXCL);
+        copied.push(move.to);
+      }
+    } catch (error) {
+      await Promise.all(copied.map((file) => fs.rm(file, { force: true })));
+      this.logger.error('Failed to move recordings:', error);
+      this.posthog.trackError(error, {
+        service: 'RecordingsDirectoryService',
+        operation: 'moveRecordings',
+      });
+      throw error;
+    }
+
+    await fs.mkdir(target.audioDir, { recursive: true });
+    this.transcriptFileService.setTranscriptsDir(target.transcriptsDir);
+    this.audioRecordingService.setAudioDir(target.audioDir);
+    this.settingsService.updateSettings({
+      recordingsDirectory: directory,
+      audioSubfolder: subfolder,
+    });
+
+    // The copies are in use now; leftovers in the old folder are only clutter
+    for (const move of moves) {
+      try {
+        await fs.rm(move.from);
+      } catch (error) {
+        this.logger.warn(`Could not remove ${move.from} after moving:`, error);
+      }
+    }
+
+    this.logger.info(
+      `Moved ${String(moves.length)} files to ${target.transcriptsDir}`
+    );
+    return { recordings, files: moves.length };
+  }
+
+  private resolveLocation(
+    directory: string,
+    audioSubfolder: string
+  ): RecordingsLocation {
+    const transcriptsDir =
+      directory !== ''
+        ? directory
+        : path.join(app.getPath('userData'), 'recordings');
+    return {
+      transcriptsDir,
+      audioDir:
+        audioSubfolder !== ''
+          ? path.join(transcriptsDir, audioSubfolder)
+          : transcriptsDir,
+    };
+  }
+
+  /**
+   * Every file that belongs to a recording and the path it moves to.
+   * Other files in the folder, such as a vault's own notes, stay put.
+   */
+  private async planMoves(
+    target: RecordingsLocation
+  ): Promise<{ moves: FileMove[]; recordings: number }> {
+    const transcriptsDir = this.transcriptFileService.getTranscriptsDir();
+    const moves: FileMove[] = [];
+    let recordings = 0;
+
+    for (const record of await this.transcriptFileService.getAllTranscripts()) {
+      if (!record.filename) {
+        continue;
+      }
+      const relativePaths = [
+        record.filename,
+        ...(await this.transcriptFileService.listSidecarFiles(record.id)),
+      ];
+      const recordMoves = relativePaths.map((relativePath) => ({
+        from: path.join(transcriptsDir, relativePath),
+        to: path.join(target.transcriptsDir, relativePath),
+      }));
+
+      const audioPath = record.audio_filename
+        ? await this.audioRecordingService.resolveAudioFilePath(
+            record.audio_filename
+          )
+        : null;
+      if (audioPath) {
+        recordMoves.push({
+          from: audioPath,
+          to: path.join(target.audioDir, path.basename(audioPath)),
+        });
+      }
+
+      // Skip files already in place, e.g. notes when only the audio moves
+      const pending = recordMoves.filter(
+        (move) => path.resolve(move.from) !== path.resolve(move.to)
+      );
+      if (pending.length > 0) {
+        moves.push(...pending);
+        recordings++;
+      }
+    }
+
+    return { moves, recordings };
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,204 @@
+import { watch, type FSWatcher } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { StateBroadcaster } from '../state-broadcaster.js';
+import type {
+  TranscriptFileService,
+  TranscriptRecord,
+} from './transcriptFileService.js';
+import {
+  recordingsRemoved,
+  recordingsUpserted,
+} from '../store/slices/recordingsSlice.js';
+import type { RootState } from '../store/store.js';
+
+// Editors and sync clients often save in several steps; let them settle
+const SETTLE_DELAY_MS = 300;
+
+interface WatchedFile {
+  mtimeMs: number;
+  size: number;
+  id: string | null; // null for notes that are not recordings
+}
+
+/**
+ * Watches the recordings folder for notes that other apps add, edit,
+ * rename or delete (a notes vault, a sync client, a text editor) and
+ * publishes them to the recordings state. The app's own writes are
+ * recognised and left out.
+ */
+@injectable()
+export class RecordingsWatcherService {
+  private watcher: FSWatcher | null = null;
+  private files = new Map<string, WatchedFile>();
+  private settleTimer: NodeJS.Timeout | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.StateBroadcaster)
+    private stateBroadcaster: StateBroadcaster
+  ) {}
+
+  /**
+   * Watch the current recordings folder, replacing any earlier watch.
+   * Call again after the folder changes.
+   */
+  async start(): Promise<void> {
+    this.stop();
+    const dir = this.transcriptFileService.getTranscriptsDir();
+
+    try {
+      await this.transcriptFileService.ensureTranscriptsDirectory();
+      this.files = await this.scan(dir, new Map(), []);
+      this.watcher = watch(dir, (_event, filename) => {
+        if (!filename || filename.endsWith('.md')) {
+          this.scheduleSync();
+        }
+      });
+      this.watcher.on('error', (error) => {
+        this.logger.warn('Stopped watching the recordings folder:', error);
+        this.stop();
+      });
+      this.logger.info(`Watching ${dir} for external changes`);
+    } catch (error) {
+      this.logger.error(`Failed to watch ${dir}:`, error);
+    }
+  }
+
+  stop(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Compare the folder with the last scan and publish recordings that
+   * were changed or removed outside the app. Runs one scan at a time.
+   */
+  syncChanges(): Promise<void> {
+    this.pending = this.pending
+      .then(() => this.diffFolder())
+      .catch((error: unknown) => {
+        this.logger.warn('Failed to check the recordings folder:', error);
+      });
+    return this.pending;
+  }
+
+  private scheduleSync(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+    }
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      void this.syncChanges();
+    }, SETTLE_DELAY_MS);
+  }
+
+  private async diffFolder(): Promise<void> {
+    const dir = this.transcriptFileService.getTranscriptsDir();
+    const previous = this.files;
+    const changed: TranscriptRecord[] = [];
+    const current = await this.scan(dir, previous, changed);
+    // The folder was moved while scanning; start() takes a fresh baseline
+    if (dir !== this.transcriptFileService.getTranscriptsDir()) {
+      return;
+    }
+    this.files = current;
+
+    // A recording whose file reappears under another name was renamed
+    const presentIds = new Set(
+      [...current.values()].map((file) => file.id).filter(Boolean)
+    );
+    const removed = new Set<string>();
+    for (const [filename, file] of previous) {
+      if (
+        file.id &&
+        !current.has(filename) &&
+        !presentIds.has(file.id) &&
+        !this.transcriptFileService.isOwnChange(filename, null)
+      ) {
+        removed.add(file.id);
+      }
+    }
+
+    if (changed.length > 0) {
+      this.store.dispatch(recordingsUpserted(changed));
+      this.stateBroadcaster.recordingsUpserted(changed);
+    }
+    if (removed.size > 0) {
+      const ids = [...removed];
+      this.store.dispatch(recordingsRemoved(ids));
+      this.stateBroadcaster.recordingsRemoved(ids);
+    }
+    if (changed.length > 0 || removed.size > 0) {
+      this.logger.info(
+        `Recordings changed outside the app: ${String(changed.length)} updated, ${String(removed.size)} removed`
+      );
+    }
+  }
+
+  /**
+   * Stat every note in the folder, reading only those that changed since
+   * the previous scan. Changed recordings not written by the app are
+   * collected in `changed`.
+   */
+  private async scan(
+    dir: string,
+    previous: Map<string, WatchedFile>,
+    changed: TranscriptRecord[]
+  ): Promise<Map<string, WatchedFile>> {
+    const files = new Map<string, WatchedFile>();
+    const filenames = (await fs.readdir(dir)).filter((filename) =>
+      filename.endsWith('.md')
+    );
+
+    for (const filename of filenames) {
+      const filePath = path.join(dir, filename);
+      try {
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) {
+          continue;
+        }
+        const known = previous.get(filename);
+        if (known?.mtimeMs === stats.mtimeMs && known.size === stats.size) {
+          files.set(filename, known);
+          continue;
+        }
+
+        const content = await fs.readFile(filePath, 'utf-8');
+        const record = this.transcriptFileService.parseTranscriptContent(
+          content,
+          filename
+        );
+        files.set(filename, {
+          mtimeMs: stats.mtimeMs,
+          size: stats.size,
+          id: record?.id ?? null,
+        });
+        if (
+          record &&
+          !this.transcriptFileService.isOwnChange(filename, content)
+        ) {
+          changed.push(record);
+        }
+      } catch {
+        // Removed again before it could be read; the next scan settles it
+      }
+    }
+
+    return files;
+  }
+}
@@ -0,0 +1,80 @@
+import { inject, injectable } from 'tsyringe';
+
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type {
+  TranscriptFileService,
+  TranscriptRecord,
+} from './transcriptFileService.js';
+
+/**
+ * Recovery service that salvages recordings left in progress when the app
+ * quit or crashed mid-meeting
+ */
+@injectable()
+export class RecoveryService {
+  constructor(
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  /**
+   * Finalize partial audio and mark unfinished recordings as interrupted.
+   * The transcript is kept as last auto-saved. Returns the interrupted
+   * recordings so they can be offered for summarization.
+   */
+  async recoverInterruptedRecordings(): Promise<TranscriptRecord[]> {
+    const recoveredAudio =
+      await this.audioRecordingService.recoverPartialRecordings();
+    const audioById = new Map(
+      recoveredAudio.map(({ recordingId, filename }) => [recordingId, filename])
+    );
+
+    const interrupted: TranscriptRecord[] = [];
+    const transcripts = await this.transcriptFileService.getAllTranscripts();
+
+    for (const record of transcripts) {
+      const audioFilename = audioById.get(record.id);
+      if (record.status !== 'recording' && audioFilename === undefined) {
+        continue;
+      }
+
+      try {
+        await this.transcriptFileService.updateTranscript(record.id, {
+          status: 'interrupted',
+          ...(audioFilename !== undefined && { audio_filename: audioFilename }),
+        });
+        interrupted.push({
+          ...record,
+          status: 'interrupted',
+          ...(audioFilename !== undefined && { audio_filename: audioFilename }),
+        });
+        this.logger.info(`Recovered interrupted recording: ${record.id}`);
+      } catch (error) {
+        this.logger.error(
+          `Failed to recover recording ${record.id}: ${String(error)}`
+        );
+        this.posthog.trackError(error, {
+          service: 'RecoveryService',
+          operation: 'recoverInterruptedRecordings',
+          recordingId: record.id,
+        });
+      }
+    }
+
+    if (interrupted.length > 0) {
+      this.logger.info(
+        `Recovered ${String(interrupted.length)} interrupted recording(s)`
+      );
+    }
+
+    return interrupted;
+  }
+}
@@ -0,0 +1,149 @@
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import { DI_TOKENS } from '../di-tokens.js';
+import type Logger from '../logger.js';
+import type { AudioRecordingService } from './audioRecordingService.js';
+import type { PostHogService } from './posthogService.js';
+import type { RecordingDataService } from './recordingDataService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import {
+  formatUtterances,
+  type IFileTranscriber,
+} from './transcriptionService.js';
+import type { RootState } from '../store/store.js';
+
+/**
+ * Rebuilds a recording's transcript from its saved audio, e.g. after a
+ * live session lost its connection. The replaced transcript is kept as a
+ * version so the change can be rolled back.
+ */
+@injectable()
+export class RetranscriptionService {
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.FileTranscriber)
+    private fileTranscriber: IFileTranscriber,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.RecordingDataService)
+    private recordingDataService: RecordingDataService,
+    @inject(DI_TOKENS.AudioRecordingService)
+    private audioRecordingService: AudioRecordingService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  async retranscribe(recordingId: string): Promise<boolean> {
+    const state = this.store.getState();
+    if (
+      state.recording.status !== 'idle' &&
+      state.recordings.currentRecording?.id === recordingId
+    ) {
+      this.logger.warn(`Cannot re-transcribe active recording ${recordingId}`);
+      return false;
+    }
+
+    try {
+      const recording =
+        await this.transcriptFileService.getTranscriptById(recordingId);
+      const audioPath = recording?.audio_filename
+        ? await this.audioRecordingService.resolveAudioFilePath(
+            recording.audio_filename
+          )
+        : null;
+      if (!recording || !audioPath) {
+        this.logger.warn(`No saved audio to re-transcribe: ${recordingId}`);
+        return false;
+      }
+
+      this.logger.info(`Re-transcribing ${recordingId} from ${audioPath}`);
+      const utterances = await this.fileTranscriber.transcribeFile(
+        state.settings.assemblyaiKey,
+        audioPath
+      );
+      if (utterances.length === 0) {
+        this.logger.warn(`Re-transcription returned no speech: ${recordingId}`);
+        return false;
+      }
+
+      if (recording.transcript?.trim()) {
+        await this.transcriptFileService.saveVersion(
+          recordingId,
+          'transcript',
+          recording.transcript
+        );
+      }
+      await this.recordingDataService.replaceTranscript(
+        recordingId,
+        formatUtterances(utterances)
+      );
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to re-transcribe recording:', error);
+      this.posthog.trackError(error, {
+        service: 'RetranscriptionService',
+        operation: 'retranscribe',
+        recordingId,
+      });
+      return false;
+    }
+  }
+
+  getTranscriptVersions(recordingId: string): Promise<number[]> {
+    return this.transcriptFileService.getVersions(recordingId, 'transcript');
+  }
+
+  /**
+   * Swap a stored version back in. The transcript it replaces becomes a
+   * version itself, so a restore can be undone the same way.
+   */
+  async restoreTranscriptVersion(
+    recordingId: string,
+    createdAt: number
+  ): Promise<boolean> {
+    try {
+      const [recording, previous] = await Promise.all([
+        this.transcriptFileService.getTranscriptById(recordingId),
+        this.transcriptFileService.readVersion(
+          recordingId,
+          'transcript',
+          createdAt
+        ),
+      ]);
+      if (!recording || previous === null) {
+        this.logger.warn(
+          `Transcript version ${String(createdAt)} not found for ${recordingId}`
+        );
+        return false;
+      }
+
+      if (recording.transcript?.trim()) {
+        await this.transcriptFileService.saveVersion(
+          recordingId,
+          'transcript',
+          recording.transcript
+        );
+      }
+      await this.recordingDataService.replaceTranscript(recordingId, previous);
+      await this.transcriptFileService.deleteVersion(
+        recordingId,
+        'transcript',
+        createdAt
+      );
+      this.logger.info(
+        `Restored transcript version ${String(createdAt)} for ${recordingId}`
+      );
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to restore transcript version:', error);
+      this.posthog.trackError(error, {
+        service: 'RetranscriptionService',
+        operation: 'restoreTranscriptVersion',
+        recordingId,
+      });
+      return false;
+    }
+  }
+}
@@ -45,6 +45,20 @@ export class SettingsService {
       userId: settingsStore.get('userId'),
       microphoneGain: settingsStore.get('microphoneGain'),
       systemAudioGain: settingsStore.get('systemAudioGain'),
+      speakerSeparation: settingsStore.get('speakerSeparation'),
+      postCallDiarization: settingsStore.get('postCallDiarization'),
+      audioFormat: settingsStore.get('audioFormat'),
+      stereoRecording: settingsStore.get('stereoRecording'),
+      summarizeImports: settingsStore.get('summarizeImports'),
+      autoTitle: settingsStore.get('autoTitle'),
+      autoSummarize: settingsStore.get('autoSummarize'),
+      autoSummaryTemplate: settingsStore.get('autoSummaryTemplate'),
+      transcriptionProvider: settingsStore.get('transcriptionProvider'),
+      localTranscriptionUrl: settingsStore.get('localTranscriptionUrl'),
+      summaryLLM: settingsStore.get('summaryLLM'),
+      dictationLLM: settingsStore.get('dictationLLM'),
+      recordingsDirectory: settingsStore.get('recordingsDirectory'),
+      audioSubfolder: settingsStore.get('audioSubfolder'),
     };
   }
 
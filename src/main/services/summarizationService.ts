@@ -1,8 +1,34 @@
 import { inject, injectable } from 'tsyringe';
 
-import { SUMMARIZATION_SYSTEM_PROMPT } from '../../constants/prompts.js';
+import {
+  CHUNK_SUMMARY_INSTRUCTIONS,
+  MERGE_SUMMARY_INSTRUCTIONS,
+  SUMMARIZATION_SYSTEM_PROMPT,
+  TITLE_SYSTEM_PROMPT,
+} from '../../constants/prompts.js';
+import type { SummarizationProgress } from '../../types/common.js';
 import { DI_TOKENS } from '../di-tokens.js';
-import { LLMGatewayService } from './llmGatewayService.js';
+import { chunkTranscript, estimateTokens } from '../transcript-chunker.js';
+import {
+  LLMGatewayService,
+  type LLMGatewayMessage,
+} from './llmGatewayService.js';
+
+// Transcripts above this are summarized in parts and merged
+const MAX_INPUT_TOKENS = 16_000;
+const CHUNK_OVERLAP_TOKENS = 400;
+const CHUNK_SUMMARY_MAX_TOKENS = 1500;
+// A title only needs the gist, so long transcripts are cut short
+const TITLE_INPUT_TOKENS = 4000;
+const MAX_TITLE_LENGTH = 80;
+
+export interface SummarizeOptions {
+  /** Called with the summary generated so far as it streams in */
+  onPartial?: (text: string) => void;
+  /** Called as each part of a long transcript is summarized */
+  onProgress?: (progress: SummarizationProgress) => void;
+  signal?: AbortSignal;
+}
 
 @injectable()
 export class SummarizationService {
@@ -14,24 +40,167 @@ export class SummarizationService {
   async summarizeTranscript(
     transcript: string,
     summaryPrompt: string,
-    apiKey: string
+    apiKey: string,
+    options?: SummarizeOptions
   ): Promise<string> {
-    if (!apiKey) {
-      throw new Error('AssemblyAI API key not available');
+    const chunks = chunkTranscript(
+      transcript,
+      MAX_INPUT_TOKENS,
+      CHUNK_OVERLAP_TOKENS
+    );
+    if (chunks.length <= 1) {
+      return this.complete(
+        `${summaryPrompt}\n\nTranscript:\n${transcript}`,
+        apiKey,
+        options
+      );
+    }
+
+    // Map: notes for each part, in order
+    const notes: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      options?.onProgress?.({
+        stage: 'summarizing',
+        completed: index,
+        total: chunks.length,
+      });
+      const instructions = CHUNK_SUMMARY_INSTRUCTIONS.replace(
+        '{part}',
+        String(index + 1)
+      ).replace('{total}', String(chunks.length));
+      notes.push(
+        await this.complete(
+          `${summaryPrompt}\n\n${instructions}\n\nTranscript:\n${chunk}`,
+          apiKey,
+          {
+            ...(options?.signal && { signal: options.signal }),
+            maxTokens: CHUNK_SUMMARY_MAX_TOKENS,
+          }
+        )
+      );
+    }
+
+    // Reduce: merge the notes, in rounds if they are still too long together
+    options?.onProgress?.({
+      stage: 'merging',
+      completed: chunks.length,
+      total: chunks.length,
+    });
+    let merged = notes;
+    while (
+      merged.length > 1 &&
+      estimateTokens(merged.join('\n\n')) > MAX_INPUT_TOKENS
+    ) {
+      merged = await this.mergeInGroups(merged, summaryPrompt, apiKey, options);
     }
 
-    return this.llmGateway.chat(
+    return this.complete(
+      this.mergePrompt(summaryPrompt, merged),
+      apiKey,
+      options
+    );
+  }
+
+  /**
+   * Propose a short title for a recording from its summary or transcript
+   */
+  async generateTitle(text: string, apiKey: string): Promise<string> {
+    const [opening = ''] = chunkTranscript(text, TITLE_INPUT_TOKENS, 0);
+    const reply = await this.llmGateway.chat(
       [
-        {
-          role: 'system',
-          content: SUMMARIZATION_SYSTEM_PROMPT,
-        },
-        {
-          role: 'user',
-          content: `${summaryPrompt}\n\nTranscript:\n${transcript}`,
-        },
+        { role: 'system', content: TITLE_SYSTEM_PROMPT },
+        { role: 'user', content: opening },
       ],
-      apiKey
+      apiKey,
+      { useCase: 'summary', maxTokens: 30 }
     );
+
+    // Models still add quotes, a "Title:" label or a trailing period
+    const title = (reply.trim().split('\n')[0] ?? '')
+      .replace(/^title:\s*/i, '')
+      .replace(/^["'*]+|["'*.]+$/g, '')
+      .trim();
+    return title.length > MAX_TITLE_LENGTH
+      ? title.slice(0, MAX_TITLE_LENGTH).trimEnd()
+      : title;
+  }
+
+  private async mergeInGroups(
+    notes: string[],
+    summaryPrompt: string,
+    apiKey: string,
+    options?: SummarizeOptions
+  ): Promise<string[]> {
+    const groups: string[][] = [[]];
+    let groupTokens = 0;
+    for (const note of notes) {
+      const current = groups[groups.length - 1] ?? [];
+      const tokens = estimateTokens(note);
+      if (current.length > 0 && groupTokens + tokens > MAX_INPUT_TOKENS) {
+        groups.push([note]);
+        groupTokens = tokens;
+      } else {
+        current.push(note);
+        groupTokens += tokens;
+      }
+    }
+
+    // Always make progress, even if a single note fills a group
+    if (groups.length === notes.length) {
+      groups.splice(0, groups.length);
+      for (let i = 0; i < notes.length; i += 2) {
+        groups.push(notes.slice(i, i + 2));
+      }
+    }
+
+    const merged: string[] = [];
+    for (const group of groups) {
+      merged.push(
+        await this.complete(this.mergePrompt(summaryPrompt, group), apiKey, {
+          ...(options?.signal && { signal: options.signal }),
+          maxTokens: CHUNK_SUMMARY_MAX_TOKENS,
+        })
+      );
+    }
+    return merged;
+  }
+
+  private mergePrompt(summaryPrompt: string, notes: string[]): string {
+    const parts = notes
+      .map((note, index) => `Part ${String(index + 1)}:\n${note}`)
+      .join('\n\n');
+    return `${summaryPrompt}\n\n${MERGE_SUMMARY_INSTRUCTIONS}\n\n${parts}`;
+  }
+
+  private complete(
+    content: string,
+    apiKey: string,
+    options?: SummarizeOptions & { maxTokens?: number }
+  ): Promise<string> {
+    const onPartial = options?.onPartial;
+    let partial = '';
+
+    const messages: LLMGatewayMessage[] = [
+      {
+        role: 'system',
+        content: SUMMARIZATION_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content,
+      },
+    ];
+
+    return this.llmGateway.chat(messages, apiKey, {
+      useCase: 'summary',
+      ...(options?.maxTokens !== undefined && { maxTokens: options.maxTokens }),
+      ...(options?.signal && { signal: options.signal }),
+      ...(onPartial && {
+        onDelta: (delta: string) => {
+          partial += delta;
+          onPartial(partial);
+        },
+      }),
+    });
   }
 }
@@ -0,0 +1,183 @@
+import type { Store } from '@reduxjs/toolkit';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  TRANSCRIPT_CHAT_EXCERPTS_NOTE,
+  TRANSCRIPT_CHAT_SYSTEM_PROMPT,
+} from '../../constants/prompts.js';
+import type { TranscriptChatMessage } from '../../types/common.js';
+import { isNonEmptyString } from '../../utils/strings.js';
+import { DI_TOKENS } from '../di-tokens.js';
+import { tokenize } from '../library-index.js';
+import type Logger from '../logger.js';
+import type {
+  LLMGatewayMessage,
+  LLMGatewayService,
+} from './llmGatewayService.js';
+import type { PostHogService } from './posthogService.js';
+import type { TranscriptFileService } from './transcriptFileService.js';
+import type { RootState } from '../store/store.js';
+import { chunkTranscript, estimateTokens } from '../transcript-chunker.js';
+
+// Earlier turns beyond this are dropped from the request, not from history
+const MAX_CONTEXT_MESSAGES = 20;
+// Longer transcripts are cut down to the excerpts that best match the question
+const MAX_TRANSCRIPT_TOKENS = 16_000;
+const EXCERPT_TOKENS = 1000;
+
+/**
+ * Answers follow-up questions about one recording, with the transcript and
+ * summary as context. The conversation is stored with the recording so it
+ * is still there when the recording is opened again.
+ */
+@injectable()
+export class TranscriptChatService {
+  constructor(
+    @inject(DI_TOKENS.Store) private store: Store<RootState>,
+    @inject(DI_TOKENS.Logger) private logger: typeof Logger,
+    @inject(DI_TOKENS.LLMGatewayService)
+    private llmGateway: LLMGatewayService,
+    @inject(DI_TOKENS.TranscriptFileService)
+    private transcriptFileService: TranscriptFileService,
+    @inject(DI_TOKENS.PostHogService)
+    private posthog: PostHogService
+  ) {}
+
+  getHistory(recordingId: string): Promise<TranscriptChatMessage[]> {
+    return this.transcriptFileService.getChatHistory(recordingId);
+  }
+
+  /**
+   * Ask a question and return the updated history.
+   * The question is only kept once it has been answered.
+   */
+  async ask(
+    recordingId: string,
+    question: string
+  ): Promise<TranscriptChatMessage[]> {
+    try {
+      const { transcript, summary } = await this.getContext(recordingId);
+      if (!transcript.trim()) {
+        throw new Error('This recording has no transcript to ask about');
+      }
+
+      const history =
+        await this.transcriptFileService.getChatHistory(recordingId);
+      const messages: LLMGatewayMessage[] = [
+        {
+          role: 'system',
+          content: `${TRANSCRIPT_CHAT_SYSTEM_PROMPT}${this.transcriptContext(
+            transcript,
+            question
+          )}${summary.trim() ? `\n\nNotes:\n${summary}` : ''}`,
+        },
+        ...history
+          .slice(-MAX_CONTEXT_MESSAGES)
+          .map(({ role, content }) => ({ role, content })),
+        { role: 'user', content: question },
+      ];
+
+      const answer = await this.llmGateway.chat(
+        messages,
+        this.store.getState().settings.assemblyaiKey,
+        { useCase: 'summary' }
+      );
+
+      const updated: TranscriptChatMessage[] = [
+        ...history,
+        { role: 'user', content: question, created_at: Date.now() },
+        { role: 'assistant', content: answer, created_at: Date.now() },
+      ];
+      await this.transcriptFileService.saveChatHistory(recordingId, updated);
+      return updated;
+    } catch (error) {
+      this.logger.error('Failed to answer transcript question:', error);
+      this.posthog.trackError(error, {
+        service: 'TranscriptChatService',
+        operation: 'ask',
+        recordingId,
+        fatal: false,
+      });
+      throw error;
+    }
+  }
+
+  async clearHistory(recordingId: string): Promise<boolean> {
+    try {
+      await this.transcriptFileService.saveChatHistory(recordingId, []);
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to clear transcript chat:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The whole transcript when it fits, otherwise the excerpts sharing the
+   * most words with the question, kept in transcript order
+   */
+  private transcriptContext(transcript: string, question: string): string {
+    if (estimateTokens(transcript) <= MAX_TRANSCRIPT_TOKENS) {
+      return `Transcript:\n${transcript}`;
+    }
+
+    const terms = new Set(tokenize(question));
+    const excerpts = chunkTranscript(transcript, EXCERPT_TOKENS, 0).map(
+      (text, index) => ({
+        text,
+        index,
+        score: tokenize(text).filter((term) => terms.has(term)).length,
+      })
+    );
+
+    const chosen: typeof excerpts = [];
+    let tokens = 0;
+    for (const excerpt of [...excerpts].sort(
+      (a, b) => b.score - a.score || a.index - b.index
+    )) {
+      const size = estimateTokens(excerpt.text);
+      if (tokens + size > MAX_TRANSCRIPT_TOKENS) break;
+      chosen.push(excerpt);
+      tokens += size;
+    }
+
+    const text = chosen
+      .sort((a, b) => a.index - b.index)
+      .map((excerpt, i) =>
+        i > 0 && chosen[i - 1]?.index !== excerpt.index - 1
+          ? `[…]\n\n${excerpt.text}`
+          : excerpt.text
+      )
+      .join('\n\n');
+    return `${TRANSCRIPT_CHAT_EXCERPTS_NOTE}Transcript:\n${text}`;
+  }
+
+  /**
+   * The open recording may still be transcribing, so its live transcript
+   * wins over the saved file
+   */
+  private async getContext(
+    recordingId: string
+  ): Promise<{ transcript: string; summary: string }> {
+    const state = this.store.getState();
+    const current = state.recordings.currentRecording;
+    if (current?.id === recordingId) {
+      return {
+        transcript: isNonEmptyString(state.transcription.currentTranscript)
+          ? state.transcription.currentTranscript
+          : (current.transcript ?? ''),
+        summary: current.summary ?? '',
+      };
+    }
+
+    const recording =
+      await this.transcriptFileService.getTranscriptById(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    return {
+      transcript: recording.transcript ?? '',
+      summary: recording.summary ?? '',
+    };
+  }
+}
@@ -1,21 +1,111 @@
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 
 import { app } from 'electron';
 import { inject, injectable } from 'tsyringe';
 
-import type { Recording } from '../../types/common.js';
+import type {
+  ActionItem,
+  Recording,
+  RecordingVersionKind,
+  TranscriptChatMessage,
+} from '../../types/common.js';
 import { DI_TOKENS } from '../di-tokens.js';
 import type Logger from '../logger.js';
 
 // Interface for transcript record with optional filename
 export interface TranscriptRecord extends Recording {
   filename?: string;
+  // Frontmatter lines added in other apps, written back unchanged
+  extra_frontmatter?: string[];
 }
 
+type FrontmatterValue = string | number | boolean | string[];
+
+// Keys the app writes; anything else belongs to the user's vault
+const FRONTMATTER_KEYS = new Set([
+  'id',
+  'title',
+  'aliases',
+  'tags',
+  'created_at',
+  'updated_at',
+  'audio_filename',
+  'summary_template',
+  'status',
+]);
+
+/**
+ * Quote a frontmatter value when plain YAML would misread it, e.g. titles
+ * with a colon or that look like numbers. JSON strings are valid YAML.
+ */
+function toYamlString(value: string): string {
+  const isPlain =
+    /^[^\s\-?:,[\]{}#&*!|>'"%@`][^#]*$/.test(value) &&
+    !value.includes(': ') &&
+    !value.endsWith(':') &&
+    value === value.trim() &&
+    !/^(\d+(\.\d+)?|true|false|null|~)$/i.test(value);
+  return isPlain ? value : JSON.stringify(value);
+}
+
+function parseYamlString(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+// Block lists, which vault tools show as properties; empty lists stay inline
+function toYamlList(key: string, items: string[]): string[] {
+  return items.length === 0
+    ? [`${key}: []`]
+    : [`${key}:`, ...items.map((item) => `  - ${toYamlString(item)}`)];
+}
+
+// ISO dates are written now; older files carry epoch milliseconds
+function toTimestamp(value: FrontmatterValue | undefined): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const timestamp = Date.parse(value);
+    if (!Number.isNaN(timestamp)) {
+      return timestamp;
+    }
+  }
+  return Date.now();
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+// A live recording is saved on every final turn, so a scan may still read
+// one of the previous few saves
+const OWN_VERSIONS_KEPT = 5;
+
+// Versions, chat history and action items live in a hidden folder so note
+// apps indexing a vault used as the recordings folder skip them
+const SIDECAR_DIR = '.assembly-notes';
+
 @injectable()
 export class TranscriptFileService {
   private transcriptsDir: string;
+  // Hashes of what this service recently wrote to each transcript file,
+  // null for a removal, so external edits can be told apart
+  private ownChanges = new Map<string, (string | null)[]>();
+  // Pending read-modify-write updates per recording, run one at a time so
+  // a save never drops a field another update just wrote
+  private updates = new Map<string, Promise<unknown>>();
 
   constructor(@inject(DI_TOKENS.Logger) private logger: typeof Logger) {
     const userData = app.getPath('userData');
@@ -42,6 +132,61 @@ export class TranscriptFileService {
     return this.transcriptsDir;
   }
 
+  /**
+   * Point the service at another directory, e.g. a notes vault
+   */
+  setTranscriptsDir(dir: string): void {
+    this.transcriptsDir = dir;
+    this.ownChanges.clear();
+  }
+
+  /**
+   * Whether a transcript file's current content (null once it is gone) is
+   * something this service recently left there, rather than an edit by
+   * another app
+   */
+  isOwnChange(filename: string, content: string | null): boolean {
+    return (
+      this.ownChanges
+        .get(filename)
+        ?.includes(content === null ? null : hashContent(content)) ?? false
+    );
+  }
+
+  private rememberOwnChange(filename: string, hash: string | null): void {
+    const recent = this.ownChanges.get(filename) ?? [];
+    this.ownChanges.set(filename, [...recent, hash].slice(-OWN_VERSIONS_KEPT));
+  }
+
+  /**
+   * Write through a temporary file renamed into place, so the watcher and
+   * other apps never read a half-written note
+   */
+  private async writeTranscriptFile(
+    filename: string,
+    content: string
+  ): Promise<void> {
+    this.rememberOwnChange(filename, hashContent(content));
+    const filePath = path.join(this.transcriptsDir, filename);
+    // Hidden and without the .md extension, so vaults and the watcher skip it
+    const tempPath = path.join(
+      this.transcriptsDir,
+      `.${filename}.${crypto.randomUUID()}.tmp`
+    );
+    try {
+      await fs.writeFile(tempPath, content, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async removeTranscriptFile(filename: string): Promise<void> {
+    this.rememberOwnChange(filename, null);
+    await fs.unlink(path.join(this.transcriptsDir, filename));
+  }
+
   /**
    * Convert a title to a URL-safe slug
    */
@@ -107,22 +252,50 @@ export class TranscriptFileService {
    * Parse YAML frontmatter from markdown content
    */
   private parseFrontmatter(content: string): {
-    frontmatter: Record<string, string | number | boolean>;
+    frontmatter: Record<string, FrontmatterValue>;
+    extra: string[];
     body: string;
   } {
     const frontmatterRegex = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/;
     const match = frontmatterRegex.exec(content);
 
     if (!match) {
-      return { frontmatter: {}, body: content };
+      return { frontmatter: {}, extra: [], body: content };
     }
 
     const frontmatterStr = match[1] ?? '';
     const body = match[2] ?? '';
-    const frontmatter: Record<string, string | number | boolean> = {};
+    const frontmatter: Record<string, FrontmatterValue> = {};
+    // Lines of keys the app does not know, kept as written
+    const extra: string[] = [];
+    let inExtraKey = false;
+    // Key whose value may continue as a block list on the following lines
+    let listKey: string | null = null;
 
     // Simple YAML parsing for our known keys
     for (const line of frontmatterStr.split('\n')) {
+      const keyMatch = /^([^\s#:-][^:]*):(?:\s|$)/.exec(line);
+      if (keyMatch) {
+        inExtraKey = !FRONTMATTER_KEYS.has((keyMatch[1] ?? '').trim());
+      }
+      // Continuation lines (nested values, list items) follow their key
+      if (inExtraKey && (keyMatch || /^[\s-]/.test(line))) {
+        extra.push(line);
+        continue;
+      }
+      inExtraKey = false;
+
+      const listItem = /^\s*- (.*)$/.exec(line);
+      if (listItem && listKey) {
+        const list = frontmatter[listKey];
+        frontmatter[listKey] = [
+          ...(Array.isArray(list) ? list : []),
+          parseYamlString((listItem[1] ?? '').trim()),
+        ];
+        continue;
+      }
+      listKey = null;
+
       const colonIndex = line.indexOf(':');
       if (colonIndex > 0) {
         const key = line.slice(0, colonIndex).trim();
@@ -133,32 +306,54 @@ export class TranscriptFileService {
           frontmatter[key] = parseInt(value, 10);
         } else if (value === 'true' || value === 'false') {
           frontmatter[key] = value === 'true';
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+          frontmatter[key] = value
+            .slice(1, -1)
+            .split(',')
+            .map((item) => parseYamlString(item.trim()))
+            .filter((item) => item.length > 0);
         } else {
-          frontmatter[key] = value;
+          frontmatter[key] = parseYamlString(value);
+          if (value === '') {
+            listKey = key;
+          }
         }
       }
     }
 
-    return { frontmatter, body };
+    return { frontmatter, extra, body };
   }
 
   /**
-   * Generate YAML frontmatter string
+   * Generate YAML frontmatter string. Laid out for vault tools such as
+   * Obsidian and Logseq: the title doubles as an alias so notes can link to
+   * it, tags are a list, and dates are ISO 8601.
    */
   private generateFrontmatter(record: TranscriptRecord): string {
     const lines = [
       '---',
       `id: ${record.id}`,
-      `title: ${record.title ?? 'Untitled'}`,
-      `created_at: ${String(record.created_at)}`,
-      `updated_at: ${String(record.updated_at)}`,
+      `title: ${toYamlString(record.title ?? 'Untitled')}`,
+      ...toYamlList('aliases', record.title ? [record.title] : []),
+      ...toYamlList('tags', record.tags ?? []),
+      `created_at: ${new Date(record.created_at).toISOString()}`,
+      `updated_at: ${new Date(record.updated_at).toISOString()}`,
     ];
 
     if (record.audio_filename) {
-      lines.push(`audio_filename: ${record.audio_filename}`);
+      lines.push(`audio_filename: ${toYamlString(record.audio_filename)}`);
+    }
+
+    if (record.summary_template) {
+      lines.push(`summary_template: ${toYamlString(record.summary_template)}`);
+    }
+
+    // Completed recordings carry no status line
+    if (record.status && record.status !== 'complete') {
+      lines.push(`status: ${record.status}`);
     }
 
-    lines.push('---');
+    lines.push(...(record.extra_frontmatter ?? []), '---');
     return lines.join('\n');
   }
 
@@ -196,11 +391,12 @@ export class TranscriptFileService {
     filename: string
   ): TranscriptRecord | null {
     try {
-      const { frontmatter, body } = this.parseFrontmatter(content);
+      const { frontmatter, extra, body } = this.parseFrontmatter(content);
 
       const id = frontmatter['id'];
       if (!id || typeof id !== 'string') {
-        this.logger.warn(`No id in frontmatter for ${filename}`);
+        // Expected for other notes when the directory is a shared vault
+        this.logger.debug(`No id in frontmatter for ${filename}`);
         return null;
       }
 
@@ -225,21 +421,44 @@ export class TranscriptFileService {
       const audioFilename = frontmatter['audio_filename'];
       const createdAt = frontmatter['created_at'];
       const updatedAt = frontmatter['updated_at'];
+      const status = frontmatter['status'];
+      const summaryTemplate = frontmatter['summary_template'];
+      const tags = frontmatter['tags'];
 
       const result: TranscriptRecord = {
         id,
         title: typeof title === 'string' ? title : 'Untitled',
         transcript,
         summary,
-        created_at: typeof createdAt === 'number' ? createdAt : Date.now(),
-        updated_at: typeof updatedAt === 'number' ? updatedAt : Date.now(),
+        created_at: toTimestamp(createdAt),
+        updated_at: toTimestamp(updatedAt),
         filename,
       };
 
+      // Tags are edited in vault tools; keep them when the file is rewritten
+      if (Array.isArray(tags) && tags.length > 0) {
+        result.tags = tags;
+      } else if (typeof tags === 'string' && tags !== '') {
+        result.tags = tags.split(/[\s,]+/).filter((tag) => tag.length > 0);
+      }
+
       if (typeof audioFilename === 'string') {
         result.audio_filename = audioFilename;
       }
 
+      // Prompt names like "2024" come back as numbers
+      if (summaryTemplate !== undefined && summaryTemplate !== '') {
+        result.summary_template = String(summaryTemplate);
+      }
+
+      if (status === 'recording' || status === 'interrupted') {
+        result.status = status;
+      }
+
+      if (extra.length > 0) {
+        result.extra_frontmatter = extra;
+      }
+
       return result;
     } catch (error) {
       this.logger.error(
@@ -250,6 +469,17 @@ export class TranscriptFileService {
     }
   }
 
+  /**
+   * Parse transcript file content read from somewhere other than the
+   * transcripts directory, e.g. a library archive
+   */
+  parseTranscriptContent(
+    content: string,
+    filename: string
+  ): TranscriptRecord | null {
+    return this.parseMarkdownContent(content, filename);
+  }
+
   /**
    * Save a transcript to a markdown file
    * Returns the filename used
@@ -269,7 +499,7 @@ export class TranscriptFileService {
         await fs.access(existingPath);
         // File exists, update it
         const content = this.generateMarkdownContent(record);
-        await fs.writeFile(existingPath, content, 'utf-8');
+        await this.writeTranscriptFile(record.filename, content);
         this.logger.debug(`Updated transcript file: ${record.filename}`);
         return record.filename;
       } catch {
@@ -279,10 +509,9 @@ export class TranscriptFileService {
 
     // Find unique filename and save
     const filename = await this.findUniqueFilename(baseFilename);
-    const filePath = path.join(this.transcriptsDir, filename);
     const content = this.generateMarkdownContent(record);
 
-    await fs.writeFile(filePath, content, 'utf-8');
+    await this.writeTranscriptFile(filename, content);
     this.logger.debug(`Saved transcript file: ${filename}`);
 
     return filename;
@@ -341,9 +570,27 @@ export class TranscriptFileService {
   }
 
   /**
-   * Update a transcript file
+   * Update a transcript file. Updates to one recording apply in the order
+   * they were made.
    */
-  async updateTranscript(
+  updateTranscript(
+    id: string,
+    updates: Partial<Omit<Recording, 'id' | 'created_at'>>
+  ): Promise<boolean> {
+    const previous = this.updates.get(id) ?? Promise.resolve();
+    const task = () => this.applyUpdate(id, updates);
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    this.updates.set(id, settled);
+    void settled.then(() => {
+      if (this.updates.get(id) === settled) {
+        this.updates.delete(id);
+      }
+    });
+    return run;
+  }
+
+  private async applyUpdate(
     id: string,
     updates: Partial<Omit<Recording, 'id' | 'created_at'>>
   ): Promise<boolean> {
@@ -373,16 +620,14 @@ export class TranscriptFileService {
       // Check if new filename is different from current
       if (newBaseFilename !== existing.filename) {
         const newFilename = await this.findUniqueFilename(newBaseFilename);
-        const oldPath = path.join(this.transcriptsDir, existing.filename);
-        const newPath = path.join(this.transcriptsDir, newFilename);
 
         // Write to new file, then delete old
         updated.filename = newFilename;
         const content = this.generateMarkdownContent(updated);
-        await fs.writeFile(newPath, content, 'utf-8');
+        await this.writeTranscriptFile(newFilename, content);
 
         try {
-          await fs.unlink(oldPath);
+          await this.removeTranscriptFile(existing.filename);
         } catch {
           // Old file might not exist, that's ok
         }
@@ -409,10 +654,11 @@ export class TranscriptFileService {
       return false;
     }
 
-    const filePath = path.join(this.transcriptsDir, transcript.filename);
-
     try {
-      await fs.unlink(filePath);
+      await this.removeTranscriptFile(transcript.filename);
+      await fs.rm(this.getVersionsDir(id), { recursive: true, force: true });
+      await fs.rm(this.getChatPath(id), { force: true });
+      await fs.rm(this.getActionItemsPath(id), { force: true });
       this.logger.debug(`Deleted transcript file: ${transcript.filename}`);
       return true;
     } catch (error) {
@@ -452,4 +698,230 @@ export class TranscriptFileService {
     const transcript = await this.getTranscriptById(id);
     return transcript !== null;
   }
+
+  /**
+   * Directory holding replaced versions of a recording's content.
+   * Kept out of the recordings directory listing so versions are never
+   * loaded as recordings, and keyed by ID so they survive title renames.
+   */
+  private getVersionsDir(id: string): string {
+    return path.join(this.transcriptsDir, SIDECAR_DIR, 'versions', id);
+  }
+
+  /**
+   * Store content that is about to be replaced.
+   * Returns the version's timestamp.
+   */
+  async saveVersion(
+    id: string,
+    kind: RecordingVersionKind,
+    content: string
+  ): Promise<number> {
+    const versionsDir = this.getVersionsDir(id);
+    await fs.mkdir(versionsDir, { recursive: true });
+
+    const createdAt = Date.now();
+    await fs.writeFile(
+      path.join(versionsDir, `${kind}-${String(createdAt)}.md`),
+      content,
+      'utf-8'
+    );
+    this.logger.debug(`Saved ${kind} version ${String(createdAt)} for ${id}`);
+    return createdAt;
+  }
+
+  /**
+   * List stored version timestamps (newest first)
+   */
+  async getVersions(id: string, kind: RecordingVersionKind): Promise<number[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.getVersionsDir(id));
+    } catch {
+      return [];
+    }
+
+    const versionRegex = new RegExp(`^${kind}-(\\d+)\\.md$`);
+    return files
+      .map((file) => versionRegex.exec(file)?.[1])
+      .filter((createdAt): createdAt is string => createdAt !== undefined)
+      .map(Number)
+      .sort((a, b) => b - a);
+  }
+
+  /**
+   * Read a stored version, or null if it no longer exists
+   */
+  async readVersion(
+    id: string,
+    kind: RecordingVersionKind,
+    createdAt: number
+  ): Promise<string | null> {
+    try {
+      return await fs.readFile(
+        path.join(this.getVersionsDir(id), `${kind}-${String(createdAt)}.md`),
+        'utf-8'
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove a stored version
+   */
+  async deleteVersion(
+    id: string,
+    kind: RecordingVersionKind,
+    createdAt: number
+  ): Promise<void> {
+    await fs.rm(
+      path.join(this.getVersionsDir(id), `${kind}-${String(createdAt)}.md`),
+      { force: true }
+    );
+  }
+
+  /**
+   * Chat history file for a recording, keyed by ID like its versions
+   */
+  private getChatPath(id: string): string {
+    return path.join(this.transcriptsDir, SIDECAR_DIR, 'chats', `${id}.json`);
+  }
+
+  /**
+   * Read a recording's chat history (oldest first)
+   */
+  async getChatHistory(id: string): Promise<TranscriptChatMessage[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getChatPath(id), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    try {
+      const messages = JSON.parse(content) as unknown;
+      return Array.isArray(messages)
+        ? (messages as TranscriptChatMessage[])
+        : [];
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable chat history for ${id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace a recording's chat history; an empty history removes the file
+   */
+  async saveChatHistory(
+    id: string,
+    messages: TranscriptChatMessage[]
+  ): Promise<void> {
+    const chatPath = this.getChatPath(id);
+    if (messages.length === 0) {
+      await fs.rm(chatPath, { force: true });
+      return;
+    }
+
+    await fs.mkdir(path.dirname(chatPath), { recursive: true });
+    await fs.writeFile(chatPath, JSON.stringify(messages, null, 2), 'utf-8');
+  }
+
+  /**
+   * Action items file for a recording, keyed by ID like its chat history
+   */
+  private getActionItemsPath(id: string): string {
+    return path.join(
+      this.transcriptsDir,
+      SIDECAR_DIR,
+      'action-items',
+      `${id}.json`
+    );
+  }
+
+  /**
+   * Read a recording's extracted action items
+   */
+  async getActionItems(id: string): Promise<ActionItem[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getActionItemsPath(id), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    try {
+      const items = JSON.parse(content) as unknown;
+      return Array.isArray(items) ? (items as ActionItem[]) : [];
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable action items for ${id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace a recording's action items; an empty list removes the file
+   */
+  async saveActionItems(id: string, items: ActionItem[]): Promise<void> {
+    const itemsPath = this.getActionItemsPath(id);
+    if (items.length === 0) {
+      await fs.rm(itemsPath, { force: true });
+      return;
+    }
+
+    await fs.mkdir(path.dirname(itemsPath), { recursive: true });
+    await fs.writeFile(itemsPath, JSON.stringify(items, null, 2), 'utf-8');
+  }
+
+  /**
+   * Files kept alongside a recording (versions, chat history, action items)
+   * as paths relative to the transcripts directory, with forward slashes
+   */
+  async listSidecarFiles(id: string): Promise<string[]> {
+    const sidecars: string[] = [];
+    try {
+      const versions = await fs.readdir(this.getVersionsDir(id));
+      sidecars.push(
+        ...versions
+          .filter((file) => file.endsWith('.md'))
+          .sort()
+          .map((file) => `${SIDECAR_DIR}/versions/${id}/${file}`)
+      );
+    } catch {
+      // No versions saved
+    }
+
+    for (const candidate of [
+      `${SIDECAR_DIR}/chats/${id}.json`,
+      `${SIDECAR_DIR}/action-items/${id}.json`,
+    ]) {
+      try {
+        await fs.access(path.join(this.transcriptsDir, candidate));
+        sidecars.push(candidate);
+      } catch {
+        // Not created for this recording
+      }
+    }
+    return sidecars;
+  }
+
+  /**
+   * Whether a relative path is one a recording's sidecar files may live at.
+   * Guards writes of paths that come from outside the app.
+   */
+  isSidecarPath(id: string, relativePath: string): boolean {
+    if (
+      relativePath === `${SIDECAR_DIR}/chats/${id}.json` ||
+      relativePath === `${SIDECAR_DIR}/action-items/${id}.json`
+    ) {
+      return true;
+    }
+    const versionsPrefix = `${SIDECAR_DIR}/versions/${id}/`;
+    return (
+      relativePath.startsWith(versionsPrefix) &&
+      /^(transcript|summary)-\d+\.md$/.test(
+        relativePath.slice(versionsPrefix.length)
+      )
+    );
+  }
 }
@@ -1,23 +1,67 @@
+import type { Store } from '@reduxjs/toolkit';
 import type { StreamingTranscriber } from 'assemblyai';
 import { inject, injectable } from 'tsyringe';
 
+import { DEFAULT_LOCAL_TRANSCRIPTION_URL } from '../../constants/transcription.js';
 import { TranscriptionData } from '../../types/common.js';
+import { isNonEmptyString } from '../../utils/strings.js';
+import { formatTurns } from '../../utils/transcript.js';
 import { DI_TOKENS } from '../di-tokens.js';
+import { LocalStreamingSession } from '../local-transcriber.js';
 import logger from '../logger.js';
+import { ReconnectingTranscriber } from '../reconnecting-transcriber.js';
+import type { RootState } from '../store/store.js';
 
 export interface TranscriptionConnection {
-  microphone: StreamingTranscriber | null;
-  system: StreamingTranscriber | null;
+  microphone: ReconnectingTranscriber | null;
+  system: ReconnectingTranscriber | null;
 }
 
 export interface TranscriptionCallbacks {
   onTranscript?: (data: TranscriptionData) => void;
   onError?: (stream: string, error: Error) => void;
-  onConnectionStatus?: (stream: string, connected: boolean) => void;
+  // `nextRetryIn` (ms) is set while a dropped connection waits to reconnect
+  onConnectionStatus?: (
+    stream: string,
+    connected: boolean,
+    nextRetryIn?: number
+  ) => void;
+}
+
+export interface DiarizedUtterance {
+  speaker: string;
+  text: string;
+  start: number; // Milliseconds from the start of the audio
+  end: number;
+}
+
+/**
+ * Format diarized utterances as `[HH:MM:SS] **Speaker A:** text` turns
+ */
+export function formatUtterances(utterances: DiarizedUtterance[]): string {
+  return formatTurns(
+    utterances.map((utterance) => ({
+      speaker: `Speaker ${utterance.speaker}`,
+      text: utterance.text,
+      start: utterance.start / 1000,
+      end: utterance.end / 1000,
+    }))
+  );
 }
 
 // Abstract interfaces for better testability
 export interface IAssemblyAIClient {
+  transcripts: {
+    transcribe: (params: {
+      audio: string;
+      speaker_labels?: boolean;
+      speakers_expected?: number;
+    }) => Promise<{
+      status: string;
+      error?: string;
+      utterances?: DiarizedUtterance[] | null;
+    }>;
+  };
   streaming: {
     transcriber: (params: {
       sampleRate: number;
@@ -43,9 +87,114 @@ export class AssemblyAIFactory implements IAssemblyAIFactory {
   }
 }
 
+export interface StreamingTurn {
+  transcript: string;
+  end_of_turn: boolean;
+  turn_is_formatted: boolean;
+  words: { text: string; start: number; end: number }[]; // Milliseconds into the session
+}
+
+/**
+ * One live transcription session. AssemblyAI's `StreamingTranscriber`
+ * satisfies this directly; other engines adapt to it.
+ */
+export interface StreamingSession {
+  on(event: 'open' | 'close', listener: () => void): void;
+  on(event: 'turn', listener: (turn: StreamingTurn) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  connect(): Promise<unknown>;
+  sendAudio(audio: ArrayBufferLike): void;
+  close(waitForSessionTermination?: boolean): Promise<void>;
+}
+
+/**
+ * Engine behind live transcription, selected in settings
+ */
+export interface ITranscriptionProvider {
+  /**
+   * Prepare a recording's sessions. The returned function is called for the
+   * first session of each stream and again on every reconnect.
+   */
+  createSessionFactory(apiKey: string): Promise<() => StreamingSession>;
+}
+
+export class AssemblyAITranscriptionProvider implements ITranscriptionProvider {
+  constructor(private assemblyAIFactory: IAssemblyAIFactory) {}
+
+  async createSessionFactory(apiKey: string): Promise<() => StreamingSession> {
+    const aai = await this.assemblyAIFactory.createClient(apiKey);
+
+    return () =>
+      aai.streaming.transcriber({
+        sampleRate: 16000,
+        encoding: 'pcm_s16le',
+        // Enable turn formatting for better transcript structure
+        formatTurns: true,
+        // Adjust silence detection for meeting/dictation scenarios
+        endOfTurnConfidenceThreshold: 0.8,
+        minEndOfTurnSilenceWhenConfident: 1000, // 1 second of silence
+        maxTurnSilence: 2000, // 2 seconds max silence before turn end
+      });
+  }
+}
+
+/**
+ * Keeps audio on this machine by streaming it to a local engine instead
+ */
+export class LocalTranscriptionProvider implements ITranscriptionProvider {
+  constructor(private url: string) {}
+
+  createSessionFactory(): Promise<() => StreamingSession> {
+    logger.info(`Using local transcription engine at ${this.url}`);
+    return Promise.resolve(() => new LocalStreamingSession(this.url));
+  }
+}
+
+/**
+ * Transcribes a complete audio or video file, e.g. an imported voice memo
+ */
+export interface IFileTranscriber {
+  transcribeFile(
+    apiKey: string,
+    filePath: string
+  ): Promise<DiarizedUtterance[]>;
+}
+
 /**
- * Stateless transcription service that creates and manages AssemblyAI connections
- * All state management happens in Redux
+ * Uploads the file to AssemblyAI, which decodes WAV, MP3, M4A and WebM
+ * server-side, so nothing has to be transcoded locally
+ */
+@injectable()
+export class AssemblyAIFileTranscriber implements IFileTranscriber {
+  constructor(
+    @inject(DI_TOKENS.AssemblyAIFactory)
+    private assemblyAIFactory: IAssemblyAIFactory
+  ) {}
+
+  async transcribeFile(
+    apiKey: string,
+    filePath: string
+  ): Promise<DiarizedUtterance[]> {
+    const aai = await this.assemblyAIFactory.createClient(apiKey);
+
+    const transcript = await aai.transcripts.transcribe({
+      audio: filePath,
+      speaker_labels: true,
+    });
+
+    if (transcript.status === 'error') {
+      throw new Error(
+        `Transcription failed: ${transcript.error ?? 'Unknown error'}`
+      );
+    }
+
+    return transcript.utterances ?? [];
+  }
+}
+
+/**
+ * Stateless transcription service that creates and manages live connections
+ * through the configured provider. All state management happens in Redux
  */
 @injectable()
 export class TranscriptionService {
@@ -54,9 +203,21 @@ export class TranscriptionService {
 
   constructor(
     @inject(DI_TOKENS.AssemblyAIFactory)
-    private assemblyAIFactory: IAssemblyAIFactory
+    private assemblyAIFactory: IAssemblyAIFactory,
+    @inject(DI_TOKENS.Store) private store: Store<RootState>
   ) {}
 
+  private getProvider(): ITranscriptionProvider {
+    const settings = this.store.getState().settings;
+    if (settings.transcriptionProvider === 'local') {
+      const url = settings.localTranscriptionUrl?.trim();
+      return new LocalTranscriptionProvider(
+        isNonEmptyString(url) ? url : DEFAULT_LOCAL_TRANSCRIPTION_URL
+      );
+    }
+    return new AssemblyAITranscriptionProvider(this.assemblyAIFactory);
+  }
+
   /**
    * Creates transcription connection for microphone only (used in dictation mode)
    */
@@ -64,10 +225,10 @@ export class TranscriptionService {
     apiKey: string,
     callbacks: TranscriptionCallbacks
   ): Promise<TranscriptionConnection> {
-    const aai = await this.assemblyAIFactory.createClient(apiKey);
+    const createSession = await this.getProvider().createSessionFactory(apiKey);
 
     const microphoneTranscriber = await this.createTranscriber(
-      aai,
+      createSession,
       'microphone',
       callbacks
     );
@@ -85,12 +246,12 @@ export class TranscriptionService {
     apiKey: string,
     callbacks: TranscriptionCallbacks
   ): Promise<TranscriptionConnection> {
-    const aai = await this.assemblyAIFactory.createClient(apiKey);
+    const createSession = await this.getProvider().createSessionFactory(apiKey);
 
     // Create a single transcriber for the combined stream
     // We'll treat it as the "microphone" stream for compatibility
     const combinedTranscriber = await this.createTranscriber(
-      aai,
+      createSession,
       'microphone', // Use microphone as the stream type for the combined stream
       callbacks
     );
@@ -105,31 +266,97 @@ export class TranscriptionService {
     };
   }
 
+  /**
+   * Creates separate transcription connections for microphone and system audio
+   * so each final turn can be attributed to "You" or "Others"
+   */
+  async createSeparateConnection(
+    apiKey: string,
+    callbacks: TranscriptionCallbacks
+  ): Promise<TranscriptionConnection> {
+    const createSession = await this.getProvider().createSessionFactory(apiKey);
+
+    const [microphoneTranscriber, systemTranscriber] = await Promise.all([
+      this.createTranscriber(createSession, 'microphone', callbacks),
+      this.createTranscriber(createSession, 'system', callbacks),
+    ]);
+
+    logger.info('Created separate microphone and system audio transcribers');
+
+    return {
+      microphone: microphoneTranscriber,
+      system: systemTranscriber,
+    };
+  }
+
+  /**
+   * Runs pre-recorded transcription with speaker labels on a saved audio file
+   */
+  async diarizeAudioFile(
+    apiKey: string,
+    audioFilePath: string
+  ): Promise<DiarizedUtterance[]> {
+    const aai = await this.assemblyAIFactory.createClient(apiKey);
+
+    const transcript = await aai.transcripts.transcribe({
+      audio: audioFilePath,
+      speaker_labels: true,
+    });
+
+    if (transcript.status === 'error') {
+      throw new Error(
+        `Diarization failed: ${transcript.error ?? 'Unknown error'}`
+      );
+    }
+
+    return (transcript.utterances ?? []).map((utterance) => ({
+      speaker: utterance.speaker,
+      text: utterance.text,
+      start: utterance.start,
+      end: utterance.end,
+    }));
+  }
+
   private async createTranscriber(
-    aai: IAssemblyAIClient,
+    createSession: () => StreamingSession,
     streamType: 'microphone' | 'system',
     callbacks: TranscriptionCallbacks
-  ): Promise<StreamingTranscriber> {
-    const transcriber = aai.streaming.transcriber({
-      sampleRate: 16000,
-      encoding: 'pcm_s16le',
-      // Enable turn formatting for better transcript structure
-      formatTurns: true,
-      // Adjust silence detection for meeting/dictation scenarios
-      endOfTurnConfidenceThreshold: 0.8,
-      minEndOfTurnSilenceWhenConfident: 1000, // 1 second of silence
-      maxTurnSilence: 2000, // 2 seconds max silence before turn end
-    });
+  ): Promise<ReconnectingTranscriber> {
+    const connection: ReconnectingTranscriber = new ReconnectingTranscriber(
+      streamType,
+      () => {
+        const transcriber = createSession();
+        this.registerTurnHandlers(
+          transcriber,
+          connection,
+          streamType,
+          callbacks
+        );
+        return transcriber;
+      },
+      {
+        onConnected: () => {
+          callbacks.onConnectionStatus?.(streamType, true);
+        },
+        onDisconnected: (nextRetryIn) => {
+          callbacks.onConnectionStatus?.(streamType, false, nextRetryIn);
+        },
+      }
+    );
 
-    // Set up event handlers
-    transcriber.on('open', () => {
-      logger.info(`AssemblyAI ${streamType} connection opened`);
-      callbacks.onConnectionStatus?.(streamType, true);
-    });
+    await connection.connect();
+    return connection;
+  }
 
+  private registerTurnHandlers(
+    transcriber: StreamingSession,
+    connection: ReconnectingTranscriber,
+    streamType: 'microphone' | 'system',
+    callbacks: TranscriptionCallbacks
+  ): void {
     transcriber.on('error', (error: Error) => {
       // Log full error details for debugging
-      logger.error(`AssemblyAI ${streamType} error:`, {
+      logger.error(`Transcription ${streamType} error:`, {
         message: error.message,
         stack: error.stack,
         name: error.name,
@@ -143,13 +370,11 @@ export class TranscriptionService {
         error.message.includes('WebSocket') ||
         error.message.includes('connection')
       ) {
-        logger.info(`Attempting to handle connection error for ${streamType}`);
-
-        // Notify about the error but don't crash
+        // The close that follows triggers the reconnect
         callbacks.onError?.(
           streamType,
           new Error(
-            `Connection lost for ${streamType} stream. It may reconnect automatically.`
+            `Connection lost for ${streamType} stream. Reconnecting automatically.`
           )
         );
       } else {
@@ -157,11 +382,6 @@ export class TranscriptionService {
       }
     });
 
-    transcriber.on('close', () => {
-      logger.info(`AssemblyAI ${streamType} connection closed`);
-      callbacks.onConnectionStatus?.(streamType, false);
-    });
-
     transcriber.on('turn', (event) => {
       if (!event.transcript) return;
 
@@ -176,54 +396,32 @@ export class TranscriptionService {
         });
       } else if (event.turn_is_formatted) {
         // This is a final formatted turn - replace the partial with this
+        // Word timings give the turn's offsets within the audio stream
+        const firstWord = event.words[0];
+        const lastWord = event.words[event.words.length - 1];
+        if (lastWord) {
+          // Audio up to here is transcribed and no longer needs replaying
+          connection.acknowledge(lastWord.end);
+        }
         callbacks.onTranscript?.({
           streamType,
           text: event.transcript,
           partial: false,
+          ...(firstWord && {
+            start: connection.toStreamOffset(firstWord.start),
+          }),
+          ...(lastWord && { end: connection.toStreamOffset(lastWord.end) }),
         });
       }
       // Ignore unformatted finals - we'll get the formatted version
     });
-
-    // Connect with retry logic
-    const maxRetries = 3;
-    let retryCount = 0;
-
-    while (retryCount < maxRetries) {
-      try {
-        await transcriber.connect();
-        logger.info(`AssemblyAI ${streamType} connected successfully`);
-        return transcriber;
-      } catch (error) {
-        retryCount++;
-        logger.error(
-          `AssemblyAI ${streamType} connection attempt ${String(retryCount)} failed:`,
-          error
-        );
-
-        if (retryCount >= maxRetries) {
-          throw new Error(
-            `Failed to connect ${streamType} after ${String(maxRetries)} attempts: ${String(error)}`
-          );
-        }
-
-        // Wait before retrying (exponential backoff)
-        const waitTime = Math.min(1000 * Math.pow(2, retryCount - 1), 5000);
-        logger.info(
-          `Retrying ${streamType} connection in ${String(waitTime)}ms...`
-        );
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-      }
-    }
-
-    return transcriber;
   }
 
   /**
    * Sends audio data to a transcriber
    */
   sendAudio(
-    transcriber: StreamingTranscriber | null,
+    transcriber: ReconnectingTranscriber | null,
     audioData: ArrayBuffer
   ): void {
     if (!transcriber) return;
@@ -232,7 +430,7 @@ export class TranscriptionService {
       const buffer = Buffer.from(audioData);
       transcriber.sendAudio(buffer.buffer);
     } catch (error) {
-      // Silently ignore socket errors when connection is closed
+      // The socket dropped before its close event; the audio is replayed on reconnect
       if (
         error instanceof Error &&
         error.message.includes('Socket is not open')
@@ -246,18 +444,21 @@ export class TranscriptionService {
   /**
    * Sends keep-alive silence to maintain connection
    */
-  sendKeepAlive(transcriber: StreamingTranscriber | null): void {
+  sendKeepAlive(transcriber: ReconnectingTranscriber | null): void {
     if (!transcriber) return;
 
-    const silenceBuffer = Buffer.alloc(1600 * 2);
-    this.sendAudio(transcriber, silenceBuffer.buffer);
+    try {
+      transcriber.sendKeepAlive(Buffer.alloc(1600 * 2).buffer);
+    } catch (error) {
+      logger.warn('Error sending keep-alive:', error);
+    }
   }
 
   /**
    * Closes a transcriber connection
    */
   async closeTranscriber(
-    transcriber: StreamingTranscriber | null
+    transcriber: ReconnectingTranscriber | null
   ): Promise<void> {
     if (!transcriber) return;
 
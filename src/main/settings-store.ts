@@ -2,8 +2,15 @@ import crypto from 'crypto';
 
 import Store from 'electron-store';
 
+import { DEFAULT_LLM_BACKEND } from '../constants/llm.js';
 import { DEFAULT_DICTATION_STYLING_PROMPT } from '../constants/prompts.js';
-import type { PromptTemplate } from '../types/common.js';
+import { DEFAULT_LOCAL_TRANSCRIPTION_URL } from '../constants/transcription.js';
+import type {
+  AudioStorageFormat,
+  LLMBackendSettings,
+  PromptTemplate,
+  TranscriptionProviderId,
+} from '../types/common.js';
 
 // Settings store schema
 export interface SettingsStoreSchema {
@@ -15,6 +22,20 @@ export interface SettingsStoreSchema {
   dictationStylingPrompt: string;
   microphoneGain: number;
   systemAudioGain: number;
+  speakerSeparation: boolean;
+  postCallDiarization: boolean;
+  audioFormat: AudioStorageFormat;
+  stereoRecording: boolean;
+  summarizeImports: boolean;
+  autoTitle: boolean;
+  autoSummarize: boolean;
+  autoSummaryTemplate: string;
+  transcriptionProvider: TranscriptionProviderId;
+  localTranscriptionUrl: string;
+  summaryLLM: LLMBackendSettings;
+  dictationLLM: LLMBackendSettings;
+  recordingsDirectory: string;
+  audioSubfolder: string;
   migrationCompleted: boolean;
 }
 
@@ -30,6 +51,20 @@ const store = new Store<SettingsStoreSchema>({
     dictationStylingPrompt: DEFAULT_DICTATION_STYLING_PROMPT,
     microphoneGain: 1.0,
     systemAudioGain: 0.7,
+    speakerSeparation: false,
+    postCallDiarization: false,
+    audioFormat: 'wav',
+    stereoRecording: false,
+    summarizeImports: true,
+    autoTitle: true,
+    autoSummarize: false,
+    autoSummaryTemplate: '',
+    transcriptionProvider: 'assemblyai',
+    localTranscriptionUrl: DEFAULT_LOCAL_TRANSCRIPTION_URL,
+    summaryLLM: DEFAULT_LLM_BACKEND,
+    dictationLLM: DEFAULT_LLM_BACKEND,
+    recordingsDirectory: '',
+    audioSubfolder: '',
     migrationCompleted: false,
   },
 });
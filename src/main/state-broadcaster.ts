@@ -61,11 +61,13 @@ export class StateBroadcaster {
 
   recordingConnection(
     stream: 'microphone' | 'system',
-    connected: boolean
+    connected: boolean,
+    nextRetryIn?: number
   ): void {
     this.broadcast(IPC_STATE_CHANNELS.RECORDING_CONNECTION, {
       stream,
       connected,
+      ...(nextRetryIn !== undefined && { retrying: true, nextRetryIn }),
     });
   }
 
@@ -166,4 +168,12 @@ export class StateBroadcaster {
   recordingsTranscript(transcript: string): void {
     this.broadcast(IPC_STATE_CHANNELS.RECORDINGS_TRANSCRIPT, { transcript });
   }
+
+  recordingsUpserted(recordings: Recording[]): void {
+    this.broadcast(IPC_STATE_CHANNELS.RECORDINGS_UPSERTED, { recordings });
+  }
+
+  recordingsRemoved(ids: string[]): void {
+    this.broadcast(IPC_STATE_CHANNELS.RECORDINGS_REMOVED, { ids });
+  }
 }
@@ -1,5 +1,6 @@
 import { PayloadAction, createAsyncThunk, createSlice } from '@reduxjs/toolkit';
 
+import type { ConnectionStatusData } from '../../../types/common.js';
 import type { RecordingState } from '../../../types/redux.js';
 import { RootState } from '../store.js';
 
@@ -12,6 +13,11 @@ const initialState: RecordingState = {
     microphone: false,
     system: false,
   },
+  retrying: {
+    microphone: false,
+    system: false,
+  },
+  nextRetryIn: null,
   isDictating: false,
   isTransitioning: false,
 };
@@ -25,7 +31,8 @@ export const startRecording = createAsyncThunk<
   const state = getState();
   const apiKey = state.settings.assemblyaiKey;
 
-  if (!apiKey) {
+  // The local engine transcribes without an AssemblyAI key
+  if (!apiKey && state.settings.transcriptionProvider !== 'local') {
     return rejectWithValue(
       'AssemblyAI API Key is not set. Please add it in settings.'
     );
@@ -53,14 +60,18 @@ export const startDictation = createAsyncThunk<
   const state = getState();
   const apiKey = state.settings.assemblyaiKey;
 
-  if (!apiKey) {
+  // The local engine transcribes without an AssemblyAI key
+  if (!apiKey && state.settings.transcriptionProvider !== 'local') {
     return rejectWithValue(
       'AssemblyAI API Key is not set. Please add it in settings.'
     );
   }
 
-  // Check if already recording
-  if (state.recording.status === 'recording') {
+  // Check if already recording (a paused meeting is still in progress)
+  if (
+    state.recording.status === 'recording' ||
+    state.recording.status === 'paused'
+  ) {
     return rejectWithValue(
       'Cannot start dictation while recording is in progress.'
     );
@@ -109,18 +120,28 @@ const recordingSlice = createSlice({
     },
     updateConnectionStatus: (
       state,
-      action: PayloadAction<{
-        stream: 'microphone' | 'system';
-        connected: boolean;
-      }>
+      action: PayloadAction<ConnectionStatusData>
     ) => {
-      state.connectionStatus[action.payload.stream] = action.payload.connected;
+      const { stream, connected, retrying, nextRetryIn } = action.payload;
+      state.connectionStatus[stream] = connected;
+      state.retrying[stream] = retrying ?? false;
+      state.nextRetryIn = nextRetryIn ?? null;
 
       // If both are connected, clear any errors
       if (state.connectionStatus.microphone && state.connectionStatus.system) {
         state.error = null;
       }
     },
+    pause: (state) => {
+      if (state.status === 'recording') {
+        state.status = 'paused';
+      }
+    },
+    resume: (state) => {
+      if (state.status === 'paused') {
+        state.status = 'recording';
+      }
+    },
     reset: () => initialState,
     setDictationMode: (state, action: PayloadAction<boolean>) => {
       state.isDictating = action.payload;
@@ -193,6 +214,8 @@ export const {
   setRecordingError,
   clearRecordingError,
   updateConnectionStatus,
+  pause: pauseRecording,
+  resume: resumeRecording,
   reset: resetRecording,
   setDictationMode,
   setTransitioning,
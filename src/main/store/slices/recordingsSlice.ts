@@ -11,8 +11,11 @@ const recordingsAdapter = createEntityAdapter<Recording>({
   sortComparer: (a, b) => b.created_at - a.created_at,
 });
 
+// Recordings read from the recordings folder carry the name of their note
+type StoredRecording = Recording & { filename?: string };
+
 type RecordingsState = ReturnType<typeof recordingsAdapter.getInitialState> & {
-  currentRecording: Recording | null;
+  currentRecording: StoredRecording | null;
   searchResults: Recording[];
   searchQuery: string;
   loading: {
@@ -74,6 +77,21 @@ const recordingsSlice = createSlice({
         state.currentRecording.updated_at = Date.now();
       }
     },
+    // Recordings whose files were changed outside the app. The open
+    // recording only follows a rename here; its content is reloaded by
+    // the renderer once any conflict with unsaved edits is resolved.
+    recordingsUpserted: (state, action: PayloadAction<StoredRecording[]>) => {
+      recordingsAdapter.upsertMany(state, action.payload);
+      const current = action.payload.find(
+        (recording) => recording.id === state.currentRecording?.id
+      );
+      if (state.currentRecording && current?.filename) {
+        state.currentRecording.filename = current.filename;
+      }
+    },
+    recordingsRemoved: (state, action: PayloadAction<string[]>) => {
+      recordingsAdapter.removeMany(state, action.payload);
+    },
   },
 });
 
@@ -84,6 +102,8 @@ export const {
   updateCurrentRecordingTitle,
   updateCurrentRecordingSummary,
   updateCurrentRecordingTranscript,
+  recordingsUpserted,
+  recordingsRemoved,
 } = recordingsSlice.actions;
 
 export const {
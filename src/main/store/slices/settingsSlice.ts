@@ -1,6 +1,8 @@
 import { PayloadAction, createSlice } from '@reduxjs/toolkit';
 
+import { DEFAULT_LLM_BACKEND } from '../../../constants/llm.js';
 import { DEFAULT_DICTATION_STYLING_PROMPT } from '../../../constants/prompts.js';
+import { DEFAULT_LOCAL_TRANSCRIPTION_URL } from '../../../constants/transcription.js';
 import type { FullSettingsState, SettingsState } from '../../../types/index.js';
 import { isNonEmptyString } from '../../../utils/strings.js';
 
@@ -28,6 +30,25 @@ const initialState: SettingsState = {
   // Audio processing settings
   microphoneGain: 1.0, // Default microphone volume (full volume)
   systemAudioGain: 0.7, // Default system audio volume (reduced to prevent overpowering)
+  // Speaker labeling settings
+  speakerSeparation: false,
+  postCallDiarization: false,
+  // Audio storage settings
+  audioFormat: 'wav',
+  stereoRecording: false,
+  summarizeImports: true,
+  autoTitle: true,
+  autoSummarize: false,
+  autoSummaryTemplate: '',
+  // Live transcription engine settings
+  transcriptionProvider: 'assemblyai',
+  localTranscriptionUrl: DEFAULT_LOCAL_TRANSCRIPTION_URL,
+  // Language model settings
+  summaryLLM: DEFAULT_LLM_BACKEND,
+  dictationLLM: DEFAULT_LLM_BACKEND,
+  // Recordings location
+  recordingsDirectory: '',
+  audioSubfolder: '',
 };
 
 const settingsSlice = createSlice({
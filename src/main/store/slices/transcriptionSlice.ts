@@ -4,6 +4,10 @@ import type {
   TranscriptSegment,
   TranscriptionState,
 } from '../../../types/redux.js';
+import {
+  formatTranscript,
+  parseTranscriptSegments,
+} from '../../../utils/transcript.js';
 
 const initialState: TranscriptionState = {
   currentTranscript: '',
@@ -22,10 +26,7 @@ const transcriptionSlice = createSlice({
     addTranscriptSegment: (state, action: PayloadAction<TranscriptSegment>) => {
       state.segments.push(action.payload);
       // Rebuild the transcript from all final segments to prevent corruption
-      state.currentTranscript = state.segments
-        .filter((seg) => seg.isFinal)
-        .map((seg) => seg.text)
-        .join(' ');
+      state.currentTranscript = formatTranscript(state.segments);
     },
     updateTranscriptBuffer: (
       state,
@@ -47,8 +48,8 @@ const transcriptionSlice = createSlice({
     },
     loadExistingTranscript: (state, action: PayloadAction<string>) => {
       state.currentTranscript = action.payload;
-      // Clear segments since this is a pre-existing transcript, not live segments
-      state.segments = [];
+      // Rebuild segments so speakers and offsets survive a reload
+      state.segments = parseTranscriptSegments(action.payload);
       state.microphoneTranscriptBuffer = '';
       state.systemAudioTranscriptBuffer = '';
       state.error = null;
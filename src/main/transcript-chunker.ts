@@ -0,0 +1,112 @@
+/**
+ * Token estimation and chunking for transcripts too long for one request
+ *
+ * Estimates are deliberately rough (about four characters per token for
+ * English); they only need to keep each request comfortably inside the
+ * model's context. Chunks are cut on speaker turns where possible, and each
+ * one repeats the tail of the previous chunk so statements that straddle a
+ * boundary are seen whole at least once.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Approximate the number of tokens a model will see for `text`
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a transcript into chunks of at most `maxTokens`, each starting with
+ * up to `overlapTokens` of the previous chunk
+ */
+export function chunkTranscript(
+  transcript: string,
+  maxTokens: number,
+  overlapTokens: number
+): string[] {
+  const text = transcript.trim();
+  if (estimateTokens(text) <= maxTokens) {
+    return text ? [text] : [];
+  }
+
+  const pieces = splitIntoPieces(text, maxTokens);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const piece of pieces) {
+    const pieceTokens = estimateTokens(piece);
+
+    if (current.length > 0 && currentTokens + pieceTokens > maxTokens) {
+      chunks.push(current.join('\n\n'));
+
+      // Carry the tail of this chunk over, leaving room for the new piece
+      const overlap: string[] = [];
+      let overlapSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const previous = current[i] ?? '';
+        const size = estimateTokens(previous);
+        if (
+          overlapSize + size > overlapTokens ||
+          overlapSize + size + pieceTokens > maxTokens
+        ) {
+          break;
+        }
+        overlap.unshift(previous);
+        overlapSize += size;
+      }
+      current = overlap;
+      currentTokens = overlapSize;
+    }
+
+    current.push(piece);
+    currentTokens += pieceTokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join('\n\n'));
+  }
+
+  return chunks;
+}
+
+/**
+ * Break the transcript into turns, then break any turn that is still too
+ * long into sentences, and finally into fixed-size slices
+ */
+function splitIntoPieces(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const pieces: string[] = [];
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const turn = paragraph.trim();
+    if (!turn) continue;
+
+    if (turn.length <= maxChars) {
+      pieces.push(turn);
+      continue;
+    }
+
+    let sentenceRun = '';
+    for (const sentence of turn.split(/(?<=[.!?])\s+/)) {
+      if (sentenceRun && sentenceRun.length + sentence.length + 1 > maxChars) {
+        pieces.push(sentenceRun);
+        sentenceRun = '';
+      }
+      if (sentence.length > maxChars) {
+        for (let start = 0; start < sentence.length; start += maxChars) {
+          pieces.push(sentence.slice(start, start + maxChars));
+        }
+        continue;
+      }
+      sentenceRun = sentenceRun ? `${sentenceRun} ${sentence}` : sentence;
+    }
+    if (sentenceRun) {
+      pieces.push(sentenceRun);
+    }
+  }
+
+  return pieces;
+}
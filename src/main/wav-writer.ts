@@ -0,0 +1,163 @@
+/**
+ * Incremental 16-bit PCM WAV writer
+ *
+ * Samples are appended to disk as they arrive instead of being held in
+ * memory. The RIFF and data chunk sizes are written as zero up front and
+ * patched when the writer is finalized; a file left behind by a crash can be
+ * made playable again with `repairWavFile`.
+ */
+
+import fs, { type FileHandle } from 'fs/promises';
+
+export const WAV_HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Build a canonical 44-byte PCM WAV header
+ */
+export function createWavHeader(
+  dataSize: number,
+  sampleRate: number,
+  channels = 1
+): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  const blockAlign = channels * BYTES_PER_SAMPLE;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28); // byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize, 40);
+
+  return header;
+}
+
+export class WavFileWriter {
+  private handle: FileHandle | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private dataSize = 0;
+  private failure: Error | null = null;
+
+  constructor(
+    readonly filepath: string,
+    private sampleRate: number,
+    private channels = 1
+  ) {
+    this.queue = this.enqueue(async () => {
+      this.handle = await fs.open(filepath, 'w');
+      await this.handle.write(
+        createWavHeader(0, sampleRate, channels),
+        0,
+        WAV_HEADER_SIZE,
+        0
+      );
+    });
+  }
+
+  /**
+   * Queue interleaved samples for writing. Writes happen in order in the
+   * background; the first error is reported by `finalize`.
+   */
+  write(samples: Int16Array): void {
+    if (samples.length === 0) return;
+
+    const bytes = Buffer.from(
+      samples.buffer,
+      samples.byteOffset,
+      samples.byteLength
+    );
+    const position = WAV_HEADER_SIZE + this.dataSize;
+    this.dataSize += bytes.length;
+    this.queue = this.enqueue(async () => {
+      await this.handle?.write(bytes, 0, bytes.length, position);
+    });
+  }
+
+  /**
+   * Wait for pending writes, patch the header sizes and close the file.
+   * Returns the number of PCM data bytes written.
+   */
+  async finalize(): Promise<number> {
+    this.queue = this.enqueue(async () => {
+      await this.handle?.write(
+        createWavHeader(this.dataSize, this.sampleRate, this.channels),
+        0,
+        WAV_HEADER_SIZE,
+        0
+      );
+    });
+    await this.queue;
+    await this.close();
+
+    if (this.failure) {
+      throw this.failure;
+    }
+    return this.dataSize;
+  }
+
+  /**
+   * Close the file without patching the header (leaves a recoverable partial)
+   */
+  async close(): Promise<void> {
+    await this.queue;
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close();
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    return this.queue.then(async () => {
+      if (this.failure) return;
+      try {
+        await task();
+      } catch (error) {
+        this.failure =
+          error instanceof Error ? error : new Error(String(error));
+      }
+    });
+  }
+}
+
+/**
+ * Patch the header of a WAV file whose writer never finalized.
+ * The channel count is taken from the placeholder header when present.
+ * Returns the duration of recovered audio in seconds.
+ */
+export async function repairWavFile(
+  filepath: string,
+  sampleRate: number
+): Promise<number> {
+  const handle = await fs.open(filepath, 'r+');
+  try {
+    const { size } = await handle.stat();
+    const existing = Buffer.alloc(WAV_HEADER_SIZE);
+    const { bytesRead } = await handle.read(existing, 0, WAV_HEADER_SIZE, 0);
+    const channels =
+      bytesRead === WAV_HEADER_SIZE &&
+      existing.toString('ascii', 0, 4) === 'RIFF'
+        ? Math.max(1, existing.readUInt16LE(22))
+        : 1;
+    const blockAlign = channels * BYTES_PER_SAMPLE;
+    // Drop any trailing partial sample frame
+    const dataSize =
+      Math.floor(Math.max(0, size - WAV_HEADER_SIZE) / blockAlign) * blockAlign;
+    await handle.write(
+      createWavHeader(dataSize, sampleRate, channels),
+      0,
+      WAV_HEADER_SIZE,
+      0
+    );
+    await handle.truncate(WAV_HEADER_SIZE + dataSize);
+    return dataSize / blockAlign / sampleRate;
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,527 @@
+/**
+ * Minimal ZIP archive support
+ *
+ * Enough of the format for the files we produce ourselves: DOCX packages and
+ * library archives. Entries are stored or deflated. ZIP64 records are added
+ * only where an archive outgrows the base format (4 GB or 65,535 entries),
+ * so small archives stay readable by every tool. Archives on disk are
+ * written and read one entry at a time, and large files are streamed, so
+ * audio libraries never have to fit in memory.
+ */
+
+import { createWriteStream } from 'fs';
+import fs, { type FileHandle } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const VERSION = 20;
+const ZIP64_VERSION = 45;
+// Field values at these limits move to the ZIP64 records
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// End record plus the longest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+const COPY_CHUNK_SIZE = 1024 * 1024;
+
+export interface ZipEntry {
+  name: string; // Forward slashes, no leading slash
+  data: Buffer | string;
+}
+
+export interface ZipEntryOptions {
+  compress?: boolean; // Default true; already compressed audio is stored
+}
+
+interface CentralRecord {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// MS-DOS date and time, the only timestamp format the base spec knows
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+function toBuffer(data: Buffer | string): Buffer {
+  return typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+}
+
+// ZIP64 extended information: the 64-bit values of fields set to MAX_32
+function zip64Extra(values: number[]): Buffer {
+  if (values.length === 0) {
+    return Buffer.alloc(0);
+  }
+  const extra = Buffer.alloc(4 + 8 * values.length);
+  extra.writeUInt16LE(ZIP64_EXTRA, 0);
+  extra.writeUInt16LE(8 * values.length, 2);
+  values.forEach((value, i) => {
+    extra.writeBigUInt64LE(BigInt(value), 4 + 8 * i);
+  });
+  return extra;
+}
+
+/**
+ * Local header of an entry; sizes of 4 GB or more go in a ZIP64 extra field
+ */
+function encodeLocalHeader(
+  record: CentralRecord,
+  modified: { time: number; date: number }
+): Buffer {
+  const zip64 = record.size >= MAX_32 || record.compressedSize >= MAX_32;
+  const extra = zip64Extra(zip64 ? [record.size, record.compressedSize] : []);
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER, 0);
+  header.writeUInt16LE(zip64 ? ZIP64_VERSION : VERSION, 4); // Version needed
+  header.writeUInt16LE(UTF8_NAMES, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(modified.time, 10);
+  header.writeUInt16LE(modified.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(zip64 ? MAX_32 : record.compressedSize, 18);
+  header.writeUInt32LE(zip64 ? MAX_32 : record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+
+  return Buffer.concat([header, record.name, extra]);
+}
+
+/**
+ * Compress one entry and build its local header
+ */
+function encodeEntry(
+  name: string,
+  data: Buffer,
+  compress: boolean,
+  offset: number,
+  modified: { time: number; date: number }
+): { local: Buffer[]; record: CentralRecord } {
+  const body = compress ? zlib.deflateRawSync(data) : data;
+  const record: CentralRecord = {
+    name: Buffer.from(name, 'utf-8'),
+    method: compress ? DEFLATED : STORED,
+    crc: zlib.crc32(data),
+    compressedSize: body.length,
+    size: data.length,
+    offset,
+  };
+
+  return { local: [encodeLocalHeader(record, modified), body], record };
+}
+
+/**
+ * The central directory and end record that close an archive, with the
+ * ZIP64 end record and locator in front when the base fields overflow
+ */
+function encodeDirectory(
+  records: CentralRecord[],
+  directoryOffset: number,
+  modified: { time: number; date: number }
+): Buffer {
+  const parts: Buffer[] = [];
+  for (const record of records) {
+    const overflow = [record.size, record.compressedSize, record.offset].filter(
+      (value) => value >= MAX_32
+    );
+    const extra = zip64Extra(overflow);
+    const version = overflow.length > 0 ? ZIP64_VERSION : VERSION;
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_HEADER, 0);
+    header.writeUInt16LE(version, 4); // Version made by
+    header.writeUInt16LE(version, 6);
+    header.writeUInt16LE(UTF8_NAMES, 8);
+    header.writeUInt16LE(record.method, 10);
+    header.writeUInt16LE(modified.time, 12);
+    header.writeUInt16LE(modified.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(Math.min(record.compressedSize, MAX_32), 20);
+    header.writeUInt32LE(Math.min(record.size, MAX_32), 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(Math.min(record.offset, MAX_32), 42);
+    parts.push(header, record.name, extra);
+  }
+
+  const directory = Buffer.concat(parts);
+  if (
+    records.length >= MAX_16 ||
+    directory.length >= MAX_32 ||
+    directoryOffset >= MAX_32
+  ) {
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+    zip64End.writeBigUInt64LE(44n, 4); // Size of the rest of the record
+    zip64End.writeUInt16LE(ZIP64_VERSION, 12);
+    zip64End.writeUInt16LE(ZIP64_VERSION, 14);
+    zip64End.writeBigUInt64LE(BigInt(records.length), 24);
+    zip64End.writeBigUInt64LE(BigInt(records.length), 32);
+    zip64End.writeBigUInt64LE(BigInt(directory.length), 40);
+    zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_END_LOCATOR, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directory.length), 8);
+    locator.writeUInt32LE(1, 16); // Total number of disks
+    parts.push(zip64End, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(Math.min(records.length, MAX_16), 8);
+  end.writeUInt16LE(Math.min(records.length, MAX_16), 10);
+  end.writeUInt32LE(Math.min(directory.length, MAX_32), 12);
+  end.writeUInt32LE(Math.min(directoryOffset, MAX_32), 16);
+
+  return Buffer.concat([...parts, end]);
+}
+
+/**
+ * Pack entries into a ZIP archive in memory
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  const timestamp = dosDateTime(modified);
+  const parts: Buffer[] = [];
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const { local, record } = encodeEntry(
+      entry.name,
+      toBuffer(entry.data),
+      true,
+      offset,
+      timestamp
+    );
+    parts.push(...local);
+    records.push(record);
+    offset += local.reduce((total, part) => total + part.length, 0);
+  }
+
+  return Buffer.concat([...parts, encodeDirectory(records, offset, timestamp)]);
+}
+
+/**
+ * Writes an archive to disk entry by entry
+ */
+export class ZipWriter {
+  private records: CentralRecord[] = [];
+  private offset = 0;
+  private timestamp = dosDateTime(new Date());
+
+  private constructor(private handle: FileHandle) {}
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(await fs.open(filePath, 'w'));
+  }
+
+  async add(
+    name: string,
+    data: Buffer | string,
+    options: ZipEntryOptions = {}
+  ): Promise<void> {
+    const { local, record } = encodeEntry(
+      name,
+      toBuffer(data),
+      options.compress ?? true,
+      this.offset,
+      this.timestamp
+    );
+    await this.write(Buffer.concat(local));
+    this.records.push(record);
+  }
+
+  /**
+   * Copy a file into the archive as a stored entry, a chunk at a time.
+   * Meant for audio, which is large and already compressed or not worth
+   * deflating.
+   */
+  async addFile(name: string, filePath: string): Promise<void> {
+    const source = await fs.open(filePath, 'r');
+    try {
+      const { size } = await source.stat();
+      const record: CentralRecord = {
+        name: Buffer.from(name, 'utf-8'),
+        method: STORED,
+        crc: 0,
+        compressedSize: size,
+        size,
+        offset: this.offset,
+      };
+      // The checksum is only known once the data is copied
+      await this.write(encodeLocalHeader(record, this.timestamp));
+
+      const chunk = Buffer.alloc(Math.min(size, COPY_CHUNK_SIZE));
+      for (let copied = 0; copied < size; ) {
+        const { bytesRead } = await source.read(
+          chunk,
+          0,
+          Math.min(chunk.length, size - copied),
+          copied
+        );
+        if (bytesRead === 0) {
+          throw new Error(`${filePath} changed while it was being archived`);
+        }
+        const data = chunk.subarray(0, bytesRead);
+        record.crc = zlib.crc32(data, record.crc);
+        await this.write(data);
+        copied += bytesRead;
+      }
+
+      const crc = Buffer.alloc(4);
+      crc.writeUInt32LE(record.crc, 0);
+      await this.handle.write(crc, 0, 4, record.offset + 14);
+      this.records.push(record);
+    } finally {
+      await source.close();
+    }
+  }
+
+  /**
+   * Write the central directory and close the file
+   */
+  async close(): Promise<void> {
+    try {
+      await this.write(
+        encodeDirectory(this.records, this.offset, this.timestamp)
+      );
+    } finally {
+      await this.handle.close();
+    }
+  }
+
+  /**
+   * Close the file without finishing the archive, e.g. after an error
+   */
+  async abort(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    await this.handle.write(data, 0, data.length, this.offset);
+    this.offset += data.length;
+  }
+}
+
+/**
+ * Reads entries from an archive on disk
+ */
+export class ZipReader {
+  private constructor(
+    private handle: FileHandle,
+    private records: Map<string, CentralRecord>
+  ) {}
+
+  static async open(filePath: string): Promise<ZipReader> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      const tailLength = Math.min(size, MAX_END_RECORD_SEARCH);
+      const tail = Buffer.alloc(tailLength);
+      await handle.read(tail, 0, tailLength, size - tailLength);
+
+      let end = -1;
+      for (let i = tailLength - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+          end = i;
+          break;
+        }
+      }
+      if (end === -1) {
+        throw new Error('Not a ZIP archive');
+      }
+
+      let count = tail.readUInt16LE(end + 10);
+      let directorySize = tail.readUInt32LE(end + 12);
+      let directoryOffset = tail.readUInt32LE(end + 16);
+      // ZIP64 archives keep the real values in a record that the locator
+      // right before the end record points to
+      if (end >= 20 && tail.readUInt32LE(end - 20) === ZIP64_END_LOCATOR) {
+        const zip64End = Buffer.alloc(56);
+        await handle.read(
+          zip64End,
+          0,
+          56,
+          Number(tail.readBigUInt64LE(end - 12))
+        );
+        if (zip64End.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+          throw new Error('Corrupt ZIP64 end record');
+        }
+        count = Number(zip64End.readBigUInt64LE(32));
+        directorySize = Number(zip64End.readBigUInt64LE(40));
+        directoryOffset = Number(zip64End.readBigUInt64LE(48));
+      }
+      const directory = Buffer.alloc(directorySize);
+      await handle.read(directory, 0, directorySize, directoryOffset);
+
+      const records = new Map<string, CentralRecord>();
+      let position = 0;
+      for (let i = 0; i < count; i++) {
+        if (directory.readUInt32LE(position) !== CENTRAL_HEADER) {
+          throw new Error('Corrupt ZIP central directory');
+        }
+        const nameLength = directory.readUInt16LE(position + 28);
+        const extraLength = directory.readUInt16LE(position + 30);
+        const commentLength = directory.readUInt16LE(position + 32);
+        const name = directory.subarray(
+          position + 46,
+          position + 46 + nameLength
+        );
+        const record: CentralRecord = {
+          name,
+          method: directory.readUInt16LE(position + 10),
+          crc: directory.readUInt32LE(position + 16),
+          compressedSize: directory.readUInt32LE(position + 20),
+          size: directory.readUInt32LE(position + 24),
+          offset: directory.readUInt32LE(position + 42),
+        };
+        readZip64Extra(
+          record,
+          directory.subarray(
+            position + 46 + nameLength,
+            position + 46 + nameLength + extraLength
+          )
+        );
+        records.set(name.toString('utf-8'), record);
+        position += 46 + nameLength + extraLength + commentLength;
+      }
+
+      return new ZipReader(handle, records);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Entry names in archive order, directories excluded
+   */
+  entries(): string[] {
+    return [...this.records.keys()].filter((name) => !name.endsWith('/'));
+  }
+
+  has(name: string): boolean {
+    return this.records.has(name);
+  }
+
+  async read(name: string): Promise<Buffer> {
+    const { record, dataOffset } = await this.locate(name);
+    const body = Buffer.alloc(record.compressedSize);
+    await this.handle.read(body, 0, record.compressedSize, dataOffset);
+
+    let data: Buffer;
+    if (record.method === STORED) {
+      data = body;
+    } else if (record.method === DEFLATED) {
+      data = zlib.inflateRawSync(body);
+    } else {
+      throw new Error(`Unsupported compression in ZIP entry ${name}`);
+    }
+    if (zlib.crc32(data) !== record.crc) {
+      throw new Error(`Checksum mismatch in ZIP entry ${name}`);
+    }
+    return data;
+  }
+
+  /**
+   * Write an entry to a file a chunk at a time, for entries too large to
+   * read into memory
+   */
+  async extract(name: string, filePath: string): Promise<void> {
+    const { record, dataOffset } = await this.locate(name);
+    if (record.method !== STORED && record.method !== DEFLATED) {
+      throw new Error(`Unsupported compression in ZIP entry ${name}`);
+    }
+
+    let crc = 0;
+    await pipeline(
+      record.compressedSize > 0
+        ? this.handle.createReadStream({
+            start: dataOffset,
+            end: dataOffset + record.compressedSize - 1,
+            autoClose: false,
+          })
+        : [],
+      ...(record.method === DEFLATED ? [zlib.createInflateRaw()] : []),
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          crc = zlib.crc32(chunk, crc);
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath)
+    );
+    if (crc !== record.crc) {
+      await fs.rm(filePath, { force: true });
+      throw new Error(`Checksum mismatch in ZIP entry ${name}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private async locate(
+    name: string
+  ): Promise<{ record: CentralRecord; dataOffset: number }> {
+    const record = this.records.get(name);
+    if (!record) {
+      throw new Error(`Archive has no entry ${name}`);
+    }
+
+    const header = Buffer.alloc(30);
+    await this.handle.read(header, 0, 30, record.offset);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    return {
+      record,
+      dataOffset:
+        record.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28),
+    };
+  }
+}
+
+/**
+ * Replace central directory fields set to MAX_32 with their values from
+ * the ZIP64 extra field, which lists them in this order
+ */
+function readZip64Extra(record: CentralRecord, extra: Buffer): void {
+  for (let position = 0; position + 4 <= extra.length; ) {
+    const id = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (id === ZIP64_EXTRA) {
+      let field = position + 4;
+      for (const key of ['size', 'compressedSize', 'offset'] as const) {
+        if (record[key] === MAX_32 && field + 8 <= position + 4 + length) {
+          record[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
@@ -9,9 +9,11 @@ import { contextBridge, ipcRenderer } from 'electron';
 
 import { createInvoker, createSender } from './typed-ipc.js';
 import type {
-  UpdateInfo,
+  AutoSummaryFailure,
   DownloadProgress,
   Recording,
+  SummarizationProgressData,
+  UpdateInfo,
 } from '../types/index.js';
 import { IPC_STATE_CHANNELS } from '../types/ipc-events.js';
 
@@ -27,9 +29,13 @@ const electronAPI = {
   // Recording Control
   startRecording: createInvoker('start-recording'),
   stopRecording: createInvoker('stop-recording'),
+  pauseRecording: createInvoker('pause-recording'),
+  resumeRecording: createInvoker('resume-recording'),
   newRecording: createInvoker('new-recording'),
   loadRecording: createInvoker('load-recording'),
   summarizeTranscript: createInvoker('summarize-transcript'),
+  stopSummarization: createInvoker('stop-summarization'),
+  retryAutoSummary: createInvoker('retry-auto-summary'),
 
   // Recording Data
   getAllRecordings: createInvoker('get-all-recordings'),
@@ -41,6 +47,25 @@ const electronAPI = {
   getAudioFilePath: createInvoker('get-audio-file-path'),
   showAudioInFolder: createInvoker('show-audio-in-folder'),
   showTranscriptsFolder: createInvoker('show-transcripts-folder'),
+  convertAudioLibrary: createInvoker('convert-audio-library'),
+  importAudioFile: createInvoker('import-audio-file'),
+  retranscribeRecording: createInvoker('retranscribe-recording'),
+  getTranscriptVersions: createInvoker('get-transcript-versions'),
+  restoreTranscriptVersion: createInvoker('restore-transcript-version'),
+  getSummaryVersions: createInvoker('get-summary-versions'),
+  restoreSummaryVersion: createInvoker('restore-summary-version'),
+  getTranscriptChat: createInvoker('get-transcript-chat'),
+  askTranscript: createInvoker('ask-transcript'),
+  clearTranscriptChat: createInvoker('clear-transcript-chat'),
+  askLibrary: createInvoker('ask-library'),
+  getOpenActionItems: createInvoker('get-open-action-items'),
+  setActionItemStatus: createInvoker('set-action-item-status'),
+  exportCaptions: createInvoker('export-captions'),
+  exportDocument: createInvoker('export-document'),
+  exportLibrary: createInvoker('export-library'),
+  importLibrary: createInvoker('import-library'),
+  chooseRecordingsDirectory: createInvoker('choose-recordings-directory'),
+  moveRecordings: createInvoker('move-recordings'),
 
   // Settings
   getSettings: createInvoker('get-settings'),
@@ -55,6 +80,7 @@ const electronAPI = {
   // Audio Streaming (fire-and-forget)
   sendMicrophoneAudio: createSender('microphone-audio-data'),
   sendSystemAudio: createSender('system-audio-data'),
+  sendArchiveAudio: createSender('archive-audio-data'),
 
   // Event Listeners (main → renderer)
   onSummary: (
@@ -63,13 +89,31 @@ const electronAPI = {
     ipcRenderer.on('summary', (_event, data) => {
       callback(data as { text: string; recordingId: string });
     }),
-  onSummarizationStarted: (callback: () => void) =>
-    ipcRenderer.on('summarization-started', () => {
-      callback();
+  onSummaryPartial: (
+    callback: (data: { text: string; recordingId: string }) => void
+  ) =>
+    ipcRenderer.on('summary-partial', (_event, data) => {
+      callback(data as { text: string; recordingId: string });
     }),
-  onSummarizationCompleted: (callback: () => void) =>
-    ipcRenderer.on('summarization-completed', () => {
-      callback();
+  onSummarizationStarted: (callback: (data: { recordingId: string }) => void) =>
+    ipcRenderer.on('summarization-started', (_event, data) => {
+      callback(data as { recordingId: string });
+    }),
+  onSummarizationProgress: (
+    callback: (data: SummarizationProgressData) => void
+  ) =>
+    ipcRenderer.on('summarization-progress', (_event, data) => {
+      callback(data as SummarizationProgressData);
+    }),
+  onSummarizationCompleted: (
+    callback: (data: { recordingId: string }) => void
+  ) =>
+    ipcRenderer.on('summarization-completed', (_event, data) => {
+      callback(data as { recordingId: string });
+    }),
+  onAutoSummaryFailed: (callback: (data: AutoSummaryFailure) => void) =>
+    ipcRenderer.on('auto-summary-failed', (_event, data) => {
+      callback(data as AutoSummaryFailure);
     }),
   onDictationStatus: (callback: (isDictating: boolean) => void) =>
     ipcRenderer.on('dictation-status', (_event, isDictating) => {
@@ -87,6 +131,10 @@ const electronAPI = {
     ipcRenderer.on('reset-audio-processing', () => {
       callback();
     }),
+  onImportAudioRequested: (callback: () => void) =>
+    ipcRenderer.on('import-audio-requested', () => {
+      callback();
+    }),
 
   // Update Events
   onUpdateAvailable: (callback: (info: UpdateInfo) => void) =>
@@ -188,6 +236,9 @@ const stateAPI = {
       timestamp: number;
       isFinal: boolean;
       source: 'microphone' | 'system';
+      speaker?: string;
+      start?: number;
+      end?: number;
     }) => void
   ) =>
     ipcRenderer.on(IPC_STATE_CHANNELS.TRANSCRIPTION_SEGMENT, (_event, data) => {
@@ -274,6 +325,22 @@ const stateAPI = {
     ipcRenderer.on(IPC_STATE_CHANNELS.RECORDINGS_SUMMARY, (_event, data) => {
       callback(data as Parameters<typeof callback>[0]);
     }),
+  onRecordingsTranscript: (
+    callback: (payload: { transcript: string }) => void
+  ) =>
+    ipcRenderer.on(IPC_STATE_CHANNELS.RECORDINGS_TRANSCRIPT, (_event, data) => {
+      callback(data as Parameters<typeof callback>[0]);
+    }),
+  onRecordingsUpserted: (
+    callback: (payload: { recordings: Recording[] }) => void
+  ) =>
+    ipcRenderer.on(IPC_STATE_CHANNELS.RECORDINGS_UPSERTED, (_event, data) => {
+      callback(data as Parameters<typeof callback>[0]);
+    }),
+  onRecordingsRemoved: (callback: (payload: { ids: string[] }) => void) =>
+    ipcRenderer.on(IPC_STATE_CHANNELS.RECORDINGS_REMOVED, (_event, data) => {
+      callback(data as Parameters<typeof callback>[0]);
+    }),
 
   // Cleanup
   removeAllStateListeners: () => {
@@ -4,13 +4,32 @@ let combinedWorkletNode: AudioWorkletNode | null = null;
 let microphoneAudioContext: AudioContext | null = null;
 let systemAudioContext: AudioContext | null = null;
 let combinedAudioContext: AudioContext | null = null;
+// Taps on the unmixed sources used for stereo recordings in combined mode
+let archiveWorkletNodes: AudioWorkletNode[] = [];
+
+function createArchiveTap(
+  context: AudioContext,
+  sourceNode: AudioNode,
+  source: 'microphone' | 'system'
+): void {
+  const tap = new AudioWorkletNode(context, 'audio-processor');
+  tap.port.onmessage = (event: MessageEvent) => {
+    const data = event.data as { type: string; data: ArrayBuffer };
+    if (data.type === 'audioData') {
+      window.electronAPI.sendArchiveAudio(source, data.data);
+    }
+  };
+  sourceNode.connect(tap);
+  archiveWorkletNodes.push(tap);
+}
 
 export async function startAudioProcessing(
   micStream: MediaStream,
   systemStream: MediaStream | null,
   useCombinedMode = false,
   microphoneGainValue = 1.0,
-  systemAudioGainValue = 0.7
+  systemAudioGainValue = 0.7,
+  stereoRecording = false
 ): Promise<void> {
   // If we want to use combined mode and have both streams, mix them properly
   if (useCombinedMode && systemStream) {
@@ -74,6 +93,12 @@ export async function startAudioProcessing(
     systemGain.connect(systemLimiter);
     systemLimiter.connect(mixerNode);
 
+    // Stereo files keep each side unmixed, after its gain stage
+    if (stereoRecording) {
+      createArchiveTap(combinedAudioContext, micGain, 'microphone');
+      createArchiveTap(combinedAudioContext, systemLimiter, 'system');
+    }
+
     // Connect the audio processing chain
     mixerNode.connect(highpassFilter);
     highpassFilter.connect(compressor);
@@ -85,7 +110,7 @@ export async function startAudioProcessing(
     return;
   }
 
-  // Fallback to separate streams (for dictation mode or if combined stream fails)
+  // Separate streams (for dictation mode, speaker separation, or if combined stream fails)
   microphoneAudioContext = new AudioContext({ sampleRate: 16000 });
 
   await microphoneAudioContext.audioWorklet.addModule('./audio-processor.js');
@@ -100,10 +125,18 @@ export async function startAudioProcessing(
     const data = event.data as { type: string; data: ArrayBuffer };
     if (data.type === 'audioData') {
       window.electronAPI.sendMicrophoneAudio(data.data);
+      // Combined mode fell back here without system audio
+      if (useCombinedMode && stereoRecording) {
+        window.electronAPI.sendArchiveAudio('microphone', data.data);
+      }
     }
   };
 
-  micSource.connect(microphoneWorkletNode);
+  // Each source keeps its configured volume, as in the mixed stream
+  const micGain = microphoneAudioContext.createGain();
+  micGain.gain.value = microphoneGainValue;
+  micSource.connect(micGain);
+  micGain.connect(microphoneWorkletNode);
   // Audio worklet processes and sends data via postMessage - no need to connect to destination
 
   if (systemStream) {
@@ -125,12 +158,24 @@ export async function startAudioProcessing(
       }
     };
 
-    systemSource.connect(systemAudioWorkletNode);
+    const systemGain = systemAudioContext.createGain();
+    systemGain.gain.value = systemAudioGainValue;
+    systemSource.connect(systemGain);
+    systemGain.connect(systemAudioWorkletNode);
     // Audio worklet processes and sends data via postMessage - no need to connect to destination
   }
 }
 
 export function stopAudioProcessing(): void {
+  for (const tap of archiveWorkletNodes) {
+    tap.port.postMessage({
+      type: 'setRecording',
+      value: false,
+    });
+    tap.disconnect();
+  }
+  archiveWorkletNodes = [];
+
   if (combinedWorkletNode) {
     combinedWorkletNode.port.postMessage({
       type: 'setRecording',
@@ -175,6 +220,12 @@ export function stopAudioProcessing(): void {
 }
 
 export function setRecordingState(isRecording: boolean): void {
+  for (const tap of archiveWorkletNodes) {
+    tap.port.postMessage({
+      type: 'setRecording',
+      value: isRecording,
+    });
+  }
   if (combinedWorkletNode) {
     combinedWorkletNode.port.postMessage({
       type: 'setRecording',
@@ -203,7 +254,8 @@ declare global {
         systemStream: MediaStream | null,
         useCombinedMode?: boolean,
         microphoneGain?: number,
-        systemAudioGain?: number
+        systemAudioGain?: number,
+        stereoRecording?: boolean
       ) => Promise<void>;
       stopAudioProcessing: () => void;
       setRecordingState: (recording: boolean) => void;
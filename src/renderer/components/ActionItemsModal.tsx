@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+
+import { Modal } from './Modal.js';
+import type { RecordingActionItem } from '../../types/common.js';
+import type { ActionItemsModalProps } from '../../types/components.js';
+import {
+  useGetOpenActionItemsQuery,
+  useSetActionItemStatusMutation,
+} from '../slices/apiSlice.js';
+
+export const ActionItemsModal: React.FC<ActionItemsModalProps> = ({
+  onClose,
+  onOpenRecording,
+}) => {
+  // Extraction runs in the background after each summary, so always refetch
+  const { data: items = [], isLoading } = useGetOpenActionItemsQuery(
+    undefined,
+    { refetchOnMountOrArgChange: true }
+  );
+  const [setActionItemStatus, { isLoading: isUpdating }] =
+    useSetActionItemStatusMutation();
+  // Items ticked off here stay listed until the modal closes, so a mistaken
+  // tick can be undone
+  const [completed, setCompleted] = useState<RecordingActionItem[]>([]);
+  const shown = [
+    ...items.filter((item) => !completed.some((done) => done.id === item.id)),
+    ...completed,
+  ].sort((a, b) => b.recordingCreatedAt - a.recordingCreatedAt);
+
+  const toggleItem = (item: RecordingActionItem) => {
+    const done = item.status !== 'done';
+    setCompleted((current) =>
+      done
+        ? [...current, { ...item, status: 'done' }]
+        : current.filter((candidate) => candidate.id !== item.id)
+    );
+    void setActionItemStatus({
+      recordingId: item.recordingId,
+      itemId: item.id,
+      status: done ? 'done' : 'open',
+    });
+  };
+
+  return (
+    <Modal
+      title="Open action items"
+      onClose={onClose}
+      footer={
+        <button className="btn-secondary" onClick={onClose}>
+          Close
+        </button>
+      }
+      size="large"
+      testId="action-items-modal"
+    >
+      {isLoading ? (
+        <div>Loading action items...</div>
+      ) : shown.length === 0 ? (
+        <div className="text-xs text-white/[0.45] italic">
+          No open action items. They are picked out of each recording when it is
+          summarized.
+        </div>
+      ) : (
+        <ul className="m-0 p-0 list-none flex flex-col gap-1">
+          {shown.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-start gap-2 px-2 py-1 bg-white/[0.04] border border-white/[0.08] rounded-sm text-xs"
+              data-testid="action-item"
+            >
+              <input
+                type="checkbox"
+                className="mt-0.5 cursor-pointer"
+                data-testid="action-item-done-checkbox"
+                aria-label={
+                  item.status === 'done'
+                    ? `Reopen "${item.task}"`
+                    : `Mark "${item.task}" as done`
+                }
+                checked={item.status === 'done'}
+                disabled={isUpdating}
+                onChange={() => {
+                  toggleItem(item);
+                }}
+              />
+              <div className="flex-1 min-w-0">
+                <span
+                  className={`block ${item.status === 'done' ? 'text-white/[0.45] line-through' : 'text-white/[0.85]'}`}
+                >
+                  {item.task}
+                </span>
+                <span className="text-white/[0.45]">
+                  {[item.owner, item.due && `due ${item.due}`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </div>
+              <button
+                type="button"
+                className="bg-transparent border-none p-0 text-white/[0.5] hover:text-white cursor-pointer truncate max-w-[40%] text-right"
+                data-testid="action-item-recording"
+                onClick={() => {
+                  onOpenRecording(item.recordingId);
+                }}
+                title={new Date(item.recordingCreatedAt).toLocaleString()}
+              >
+                {item.recordingTitle}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Modal>
+  );
+};
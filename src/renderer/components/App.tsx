@@ -7,13 +7,17 @@ import {
   setActiveModal,
   setStatus,
 } from '../store';
+import { ActionItemsModal } from './ActionItemsModal';
+import { AutoSummaryFailures } from './AutoSummaryFailures';
 import { ErrorBoundary } from './ErrorBoundary';
+import { ExportModal } from './ExportModal';
 import { PromptModal } from './PromptModal';
 import { RecordingErrorBoundary } from './RecordingErrorBoundary';
 import { RecordingsList } from './RecordingsList';
 import { RecordingView } from './RecordingView';
 import { SettingsModal } from './SettingsModal';
 import { isEmptyString } from '../../utils/strings.js';
+import { useImportAudio } from '../hooks/useImportAudio';
 import { usePostHog } from '../hooks/usePostHog';
 import { useGetSettingsQuery, apiSlice } from '../slices/apiSlice.js';
 
@@ -28,8 +32,9 @@ export const App: React.FC = () => {
       state.recording
   );
   const { data: settings } = useGetSettingsQuery(undefined);
-  const isRecording = status === 'recording';
+  const isRecording = status === 'recording' || status === 'paused';
   const [isStoppingForNavigation, setIsStoppingForNavigation] = useState(false);
+  const { importAudio } = useImportAudio();
 
   // Identify user in PostHog when settings are loaded
   useEffect(() => {
@@ -39,8 +44,13 @@ export const App: React.FC = () => {
   }, [settings?.userId, posthog]);
 
   useEffect(() => {
-    // Check if settings are loaded and AssemblyAI key is missing
-    if (settings && isEmptyString(settings.assemblyaiKey)) {
+    // Check if settings are loaded and AssemblyAI key is missing; the
+    // local engine transcribes without one
+    if (
+      settings &&
+      settings.transcriptionProvider !== 'local' &&
+      isEmptyString(settings.assemblyaiKey)
+    ) {
       dispatch(setActiveModal('settings'));
     }
   }, [settings, dispatch]);
@@ -63,6 +73,17 @@ export const App: React.FC = () => {
     };
   }, [isStoppingForNavigation, dispatch]);
 
+  useEffect(() => {
+    // File > Import Audio... in the application menu
+    window.electronAPI.onImportAudioRequested(() => {
+      void importAudio();
+    });
+
+    return () => {
+      window.electronAPI.removeAllListeners('import-audio-requested');
+    };
+  }, [importAudio]);
+
   const handleNavigateToRecording = (recordingId?: string) => {
     dispatch(navigateToRecording(recordingId));
   };
@@ -116,12 +137,17 @@ export const App: React.FC = () => {
                 onShowPromptModal={() => {
                   dispatch(setActiveModal('prompt'));
                 }}
+                onShowExportModal={() => {
+                  dispatch(setActiveModal('export'));
+                }}
                 isStoppingForNavigation={isStoppingForNavigation}
               />
             </RecordingErrorBoundary>
           </div>
         )}
 
+        <AutoSummaryFailures />
+
         {activeModal === 'settings' && (
           <SettingsModal
             onClose={() => {
@@ -130,6 +156,27 @@ export const App: React.FC = () => {
           />
         )}
 
+        {activeModal === 'actionItems' && (
+          <ActionItemsModal
+            onClose={() => {
+              dispatch(setActiveModal(null));
+            }}
+            onOpenRecording={(recordingId) => {
+              dispatch(setActiveModal(null));
+              handleNavigateToRecording(recordingId);
+            }}
+          />
+        )}
+
+        {activeModal === 'export' && currentRecordingId && (
+          <ExportModal
+            recordingId={currentRecordingId}
+            onClose={() => {
+              dispatch(setActiveModal(null));
+            }}
+          />
+        )}
+
         {activeModal === 'prompt' && (
           <PromptModal
             onClose={() => {
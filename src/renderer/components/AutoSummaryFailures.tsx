@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+
+import type { AutoSummaryFailure } from '../../types/common.js';
+import type { AutoSummaryFailureNoticeProps } from '../../types/components.js';
+import { useGetRecordingQuery } from '../slices/apiSlice.js';
+
+const AutoSummaryFailureNotice: React.FC<AutoSummaryFailureNoticeProps> = ({
+  failure,
+  onRetry,
+  onDismiss,
+}) => {
+  const { data: recording } = useGetRecordingQuery(failure.recordingId);
+
+  return (
+    <div
+      className="w-72 p-2 bg-[#2a1215] border border-[#dc3545]/50 rounded-sm text-xs shadow-lg"
+      data-testid="auto-summary-failure"
+    >
+      <div className="text-white/[0.85]">
+        Couldn&apos;t summarize &quot;{recording?.title ?? 'a recording'}&quot;
+      </div>
+      <div className="mt-0.5 text-white/[0.5] truncate" title={failure.error}>
+        {failure.error}
+      </div>
+      <div className="mt-1.5 flex justify-end gap-1">
+        <button
+          type="button"
+          className="px-2 py-0.5 text-[10px] bg-transparent border border-white/[0.18] rounded-sm text-white/[0.6] cursor-pointer hover:text-white/[0.85]"
+          data-testid="dismiss-auto-summary-btn"
+          onClick={onDismiss}
+        >
+          Dismiss
+        </button>
+        <button
+          type="button"
+          className="px-2 py-0.5 text-[10px] bg-white/[0.09] border border-white/[0.18] rounded-sm text-white/[0.85] cursor-pointer hover:bg-white/[0.12] hover:text-white"
+          data-testid="retry-auto-summary-btn"
+          onClick={onRetry}
+        >
+          Retry
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Automatic summaries run in the background after a recording stops, so
+ * their failures are shown here rather than in the recording view
+ */
+export const AutoSummaryFailures: React.FC = () => {
+  const [failures, setFailures] = useState<AutoSummaryFailure[]>([]);
+
+  useEffect(() => {
+    window.electronAPI.onAutoSummaryFailed((failure) => {
+      setFailures((previous) => [
+        ...previous.filter(
+          (existing) => existing.recordingId !== failure.recordingId
+        ),
+        failure,
+      ]);
+    });
+
+    return () => {
+      window.electronAPI.removeAllListeners('auto-summary-failed');
+    };
+  }, []);
+
+  const dismiss = (recordingId: string) => {
+    setFailures((previous) =>
+      previous.filter((failure) => failure.recordingId !== recordingId)
+    );
+  };
+
+  if (failures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-3 right-3 z-[150] flex flex-col gap-1.5">
+      {failures.map((failure) => (
+        <AutoSummaryFailureNotice
+          key={failure.recordingId}
+          failure={failure}
+          onRetry={() => {
+            dismiss(failure.recordingId);
+            window.electronAPI
+              .retryAutoSummary(failure.recordingId)
+              .catch((error: unknown) => {
+                window.logger.error('Error retrying summary:', error);
+              });
+          }}
+          onDismiss={() => {
+            dismiss(failure.recordingId);
+          }}
+        />
+      ))}
+    </div>
+  );
+};
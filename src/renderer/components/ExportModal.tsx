@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+
+import { Modal } from './Modal.js';
+import { DOCUMENT_TEMPLATES } from '../../constants/export.js';
+import type { CaptionFormat, DocumentFormat } from '../../types/common.js';
+import type { ExportModalProps } from '../../types/components.js';
+import { useAppDispatch } from '../hooks/redux';
+import {
+  useExportCaptionsMutation,
+  useExportDocumentMutation,
+} from '../slices/apiSlice.js';
+import { setStatus } from '../store';
+
+type ExportFormat = DocumentFormat | CaptionFormat;
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'docx', label: 'Word document (.docx)' },
+  { value: 'pdf', label: 'PDF (.pdf)' },
+  { value: 'html', label: 'Web page (.html)' },
+  { value: 'srt', label: 'Subtitles (.srt)' },
+  { value: 'vtt', label: 'Captions (.vtt)' },
+];
+
+const isCaptionFormat = (format: ExportFormat): format is CaptionFormat =>
+  format === 'srt' || format === 'vtt';
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  recordingId,
+  onClose,
+}) => {
+  const dispatch = useAppDispatch();
+  const [format, setFormat] = useState<ExportFormat>('docx');
+  const [templateId, setTemplateId] = useState(DOCUMENT_TEMPLATES[0]?.id ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [exportCaptions, { isLoading: isExportingCaptions }] =
+    useExportCaptionsMutation();
+  const [exportDocument, { isLoading: isExportingDocument }] =
+    useExportDocumentMutation();
+  const isExporting = isExportingCaptions || isExportingDocument;
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const filePath = isCaptionFormat(format)
+        ? await exportCaptions({ recordingId, format }).unwrap()
+        : await exportDocument({ recordingId, format, templateId }).unwrap();
+      // Cancelling the save dialog leaves the choices open
+      if (filePath) {
+        dispatch(setStatus(`Exported to ${filePath}`));
+        onClose();
+      }
+    } catch (err) {
+      window.logger.error('Error exporting recording:', err);
+      // ipcQuery reports failures as { status: 'CUSTOM_ERROR', error: message }
+      setError(
+        typeof err === 'object' && err !== null && 'error' in err
+          ? String(err.error)
+          : 'Failed to export recording'
+      );
+    }
+  };
+
+  return (
+    <Modal
+      title="Export recording"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="btn-primary"
+            data-testid="export-confirm-btn"
+            disabled={isExporting}
+            onClick={() => {
+              void handleExport();
+            }}
+          >
+            {isExporting ? 'Exporting...' : 'Export...'}
+          </button>
+        </>
+      }
+      testId="export-modal"
+    >
+      <div className="form-group">
+        <label
+          htmlFor="exportFormat"
+          className="block mb-0.5 text-xs font-medium text-white/[0.85]"
+        >
+          Format:
+        </label>
+        <select
+          id="exportFormat"
+          data-testid="export-format-select"
+          className="form-input"
+          value={format}
+          onChange={(e) => {
+            setFormat(e.target.value as ExportFormat);
+          }}
+        >
+          {FORMATS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isCaptionFormat(format) ? (
+        <div className="text-xs text-white/[0.45] italic">
+          Captions are timed from the transcript, with the speaker before each
+          turn.
+        </div>
+      ) : (
+        <div className="form-group">
+          <label
+            htmlFor="exportTemplate"
+            className="block mb-0.5 text-xs font-medium text-white/[0.85]"
+          >
+            Template:
+          </label>
+          <select
+            id="exportTemplate"
+            data-testid="export-template-select"
+            className="form-input"
+            value={templateId}
+            onChange={(e) => {
+              setTemplateId(e.target.value);
+            }}
+          >
+            {DOCUMENT_TEMPLATES.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-1 text-xs text-[#dc3545]" data-testid="export-error">
+          {error}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+
+import type { LibraryAnswerPanelProps } from '../../types/components.js';
+import { formatOffset } from '../../utils/transcript.js';
+
+export const LibraryAnswerPanel: React.FC<LibraryAnswerPanelProps> = ({
+  question,
+  answer,
+  isLoading,
+  error,
+  onOpenRecording,
+  onClose,
+}) => (
+  <div
+    className="mx-3 mb-1.5 p-2 bg-white/[0.06] border border-white/[0.12] rounded-sm text-xs flex-shrink-0 max-h-[45%] overflow-y-auto"
+    data-testid="library-answer-panel"
+  >
+    <div className="flex items-start justify-between gap-2 mb-1">
+      <span className="font-semibold text-white/[0.85]">{question}</span>
+      <button
+        type="button"
+        className="bg-transparent border-none text-white/[0.5] hover:text-white cursor-pointer p-0"
+        data-testid="close-library-answer-btn"
+        onClick={onClose}
+      >
+        ×
+      </button>
+    </div>
+    {isLoading ? (
+      <span className="text-white/[0.45] italic">
+        Searching all recordings...
+      </span>
+    ) : error ? (
+      <span className="text-[#dc3545]" data-testid="library-answer-error">
+        {error}
+      </span>
+    ) : answer ? (
+      <>
+        <p
+          className="m-0 text-white/[0.85] whitespace-pre-wrap"
+          data-testid="library-answer"
+        >
+          {answer.answer}
+        </p>
+        {answer.sources.length > 0 && (
+          <ol className="m-0 mt-2 p-0 list-none flex flex-col gap-1">
+            {answer.sources.map((source, index) => (
+              <li key={`${source.recordingId}-${String(index)}`}>
+                <button
+                  type="button"
+                  className="w-full text-left bg-white/[0.04] border border-white/[0.08] rounded-sm px-2 py-1 cursor-pointer hover:bg-white/[0.09]"
+                  data-testid="library-source"
+                  onClick={() => {
+                    onOpenRecording(source.recordingId);
+                  }}
+                >
+                  <span className="text-white/[0.85]">
+                    [{index + 1}] {source.title}
+                  </span>
+                  <span className="ml-1 text-white/[0.45]">
+                    {new Date(source.created_at).toLocaleDateString()}
+                    {source.start !== undefined &&
+                      ` · ${formatOffset(source.start)}`}
+                  </span>
+                  <span className="block text-white/[0.55] truncate">
+                    {source.excerpt}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </>
+    ) : null}
+  </div>
+);
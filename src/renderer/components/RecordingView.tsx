@@ -1,14 +1,24 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 
+import { TranscriptChatPanel } from './TranscriptChatPanel';
 import type { RecordingViewProps } from '../../types/components.js';
+import { formatOffset, parseTranscriptTurns } from '../../utils/transcript.js';
 import { useAppSelector } from '../hooks/redux';
 import { usePrompts } from '../hooks/usePrompts';
 import { useRecording } from '../hooks/useRecording';
+import {
+  useGetSummaryVersionsQuery,
+  useGetTranscriptVersionsQuery,
+  useRestoreSummaryVersionMutation,
+  useRestoreTranscriptVersionMutation,
+  useRetranscribeRecordingMutation,
+} from '../slices/apiSlice.js';
 
 export const RecordingView: React.FC<RecordingViewProps> = ({
   recordingId,
   onNavigateToList,
   onShowPromptModal,
+  onShowExportModal,
   isStoppingForNavigation = false,
 }) => {
   const { isNewRecording } = useAppSelector((state) => state.ui);
@@ -21,26 +31,60 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
             title: string;
             transcript?: string;
             summary?: string;
+            summary_template?: string;
+            status?: string;
           } | null;
         }
       ).currentRecording
   );
+  const isReconnecting = useAppSelector(
+    (state) =>
+      state.recording.retrying.microphone || state.recording.retrying.system
+  );
+  const nextRetryIn = useAppSelector((state) => state.recording.nextRetryIn);
   const {
     isRecording,
+    isPaused,
     isStopping,
     isStarting,
     isSummarizing,
     transcript,
     partialTranscript,
     summary,
+    partialSummary,
     recordingTitle,
     setRecordingTitle,
     handleToggleRecording,
+    handlePauseResume,
     handleSummarize,
+    handleStopSummarize,
     setSummary,
+    externalChange,
+    hasConflict,
+    canReloadFromDisk,
+    handleReloadFromDisk,
+    handleKeepLocalChanges,
   } = useRecording(recordingId);
 
-  const { prompts, selectedPromptIndex, handlePromptChange } = usePrompts();
+  const { prompts, selectedPromptIndex, handlePromptChange } = usePrompts(
+    currentRecording?.id === recordingId
+      ? currentRecording.summary_template
+      : undefined
+  );
+  const { data: transcriptVersions = [] } = useGetTranscriptVersionsQuery(
+    recordingId ?? '',
+    { skip: !recordingId }
+  );
+  const [retranscribeRecording, { isLoading: isRetranscribing }] =
+    useRetranscribeRecordingMutation();
+  const [restoreTranscriptVersion] = useRestoreTranscriptVersionMutation();
+  const latestTranscriptVersion = transcriptVersions[0];
+  const { data: summaryVersions = [] } = useGetSummaryVersionsQuery(
+    recordingId ?? '',
+    { skip: !recordingId }
+  );
+  const [restoreSummaryVersion] = useRestoreSummaryVersionMutation();
+  const latestSummaryVersion = summaryVersions[0];
 
   const summaryRef = useRef<HTMLTextAreaElement>(null);
   const hasAutoStarted = useRef(false);
@@ -51,22 +95,25 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
   const titleInputRef = useRef<HTMLInputElement>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const recordingStartTime = useRef<number | null>(null);
+  const elapsedBeforePause = useRef(0);
 
   useEffect(() => {
     if (summaryRef.current) {
-      summaryRef.current.value = summary;
+      summaryRef.current.value = partialSummary ?? summary;
     }
-  }, [summary]);
+  }, [summary, partialSummary]);
 
   // Track recording duration
   useEffect(() => {
     let intervalId: NodeJS.Timeout | null = null;
 
     if (isRecording) {
-      recordingStartTime.current ??= Date.now();
+      // Resume the clock from where a pause left off
+      recordingStartTime.current ??= Date.now() - elapsedBeforePause.current;
 
       // Update duration every 100ms for smooth display
       intervalId = setInterval(() => {
@@ -75,8 +122,14 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
         setCurrentTime(elapsed);
         setDuration(elapsed);
       }, 100);
+    } else if (isPaused) {
+      if (recordingStartTime.current !== null) {
+        elapsedBeforePause.current = Date.now() - recordingStartTime.current;
+      }
+      recordingStartTime.current = null;
     } else {
       recordingStartTime.current = null;
+      elapsedBeforePause.current = 0;
       // When recording stops, reset currentTime to 0
       if (!audioUrl) {
         setCurrentTime(0);
@@ -88,7 +141,7 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
         clearInterval(intervalId);
       }
     };
-  }, [isRecording]);
+  }, [isRecording, isPaused]);
 
   // Load audio file when recording changes or stops
   useEffect(() => {
@@ -192,6 +245,13 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
     }
   };
 
+  // Jump the player to the start of a transcript segment
+  const handleSeekToSegment = (start: number) => {
+    if (!audioRef.current || isRecording) return;
+    audioRef.current.currentTime = start;
+    setCurrentTime(start);
+  };
+
   const formatTime = (seconds: number): string => {
     if (isNaN(seconds)) return '0:00';
     const mins = Math.floor(seconds / 60);
@@ -199,6 +259,50 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
     return `${mins.toString()}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Render labeled or timestamped transcripts as one block per turn
+  const renderTranscript = (text: string): React.ReactNode => {
+    const turns = parseTranscriptTurns(text);
+    if (
+      !turns.some((turn) => turn.speaker !== null || turn.start !== undefined)
+    ) {
+      return text;
+    }
+
+    const canSeek = Boolean(audioUrl) && !isRecording;
+
+    return turns.map((turn, index) => {
+      const start = turn.start;
+      const isSeekable = canSeek && start !== undefined;
+      return (
+        <div
+          key={index}
+          className={`mb-2 ${isSeekable ? 'cursor-pointer rounded-sm hover:bg-white/[0.06]' : ''}`}
+          data-testid="transcript-turn"
+          title={isSeekable ? `Play from ${formatOffset(start)}` : undefined}
+          onClick={
+            isSeekable
+              ? () => {
+                  handleSeekToSegment(start);
+                }
+              : undefined
+          }
+        >
+          {start !== undefined && (
+            <span className="text-[10px] text-white/[0.4] mr-1">
+              {formatOffset(start)}
+            </span>
+          )}
+          {turn.speaker && (
+            <span className="font-semibold text-white/[0.6]">
+              {turn.speaker}:{' '}
+            </span>
+          )}
+          {turn.text}
+        </div>
+      );
+    });
+  };
+
   const checkIfAtBottom = useCallback((element: HTMLElement) => {
     const threshold = 50; // Allow 50px from bottom to be considered "at bottom"
     return (
@@ -295,23 +399,150 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
             <option value="manage">+ Manage Prompts</option>
           </select>
 
+          {isSummarizing ? (
+            <button
+              type="button"
+              className="px-2 py-1 text-xs font-semibold rounded-sm cursor-pointer transition-all duration-200 h-7 tracking-wide w-[110px] bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white"
+              data-testid="stop-summary-btn"
+              title="Stop generating and keep the current summary"
+              onClick={() => {
+                void handleStopSummarize();
+              }}
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="px-2 py-1 text-xs font-semibold rounded-sm cursor-pointer transition-all duration-200 h-7 tracking-wide w-[110px] bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white disabled:text-white/[0.45] disabled:cursor-not-allowed disabled:opacity-50"
+              data-testid="summarize-btn"
+              onClick={() => {
+                void handleSummarize(prompts[selectedPromptIndex]?.name);
+              }}
+              disabled={
+                !(isNewRecording
+                  ? (transcript || '').trim()
+                  : (currentRecording?.transcript?.trim() ?? ''))
+              }
+            >
+              Summarize
+            </button>
+          )}
+
+          {recordingId && (
+            <button
+              type="button"
+              className={`px-2 py-1 text-xs font-semibold rounded-sm cursor-pointer transition-all duration-200 h-7 tracking-wide w-[60px] border hover:bg-white/[0.12] hover:text-white ${
+                isChatOpen
+                  ? 'bg-white/[0.15] border-white/[0.30] text-white'
+                  : 'bg-white/[0.09] border-white/[0.18] text-white/[0.85]'
+              }`}
+              data-testid="chat-toggle-btn"
+              title="Ask questions about this recording"
+              onClick={() => {
+                setIsChatOpen((open) => !open);
+              }}
+            >
+              Ask
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isReconnecting && (isRecording || isPaused) && (
+        <div
+          className="mx-2 px-2 py-1 flex-shrink-0 text-[11px] text-white/[0.7] bg-[#ffc107]/10 border border-[#ffc107]/30 rounded-sm"
+          data-testid="reconnecting-notice"
+        >
+          Transcription connection lost.{' '}
+          {nextRetryIn !== null
+            ? `Reconnecting in ${String(Math.ceil(nextRetryIn / 1000))}s...`
+            : 'Reconnecting...'}{' '}
+          Audio is buffered and will be transcribed once the connection is back.
+        </div>
+      )}
+
+      {currentRecording?.status === 'interrupted' &&
+        !isRecording &&
+        !summary.trim() &&
+        currentRecording.transcript?.trim() && (
+          <div
+            className="mx-2 px-2 py-1 flex items-center gap-1.5 flex-shrink-0 text-[11px] text-white/[0.7] bg-[#ffc107]/10 border border-[#ffc107]/30 rounded-sm"
+            data-testid="interrupted-notice"
+          >
+            <span className="flex-1">
+              This recording was interrupted. The transcript and audio were
+              recovered up to that point.
+            </span>
+            <button
+              type="button"
+              className="px-2 py-0.5 text-[11px] font-semibold rounded-sm cursor-pointer transition-all duration-200 bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              data-testid="summarize-interrupted-btn"
+              onClick={() => {
+                void handleSummarize(prompts[selectedPromptIndex]?.name);
+              }}
+              disabled={isSummarizing}
+            >
+              Summarize now
+            </button>
+          </div>
+        )}
+
+      {hasConflict && (
+        <div
+          className="mx-2 px-2 py-1 flex items-center gap-1.5 flex-shrink-0 text-[11px] text-white/[0.7] bg-[#ffc107]/10 border border-[#ffc107]/30 rounded-sm"
+          data-testid="external-change-notice"
+        >
+          <span className="flex-1">
+            This recording was changed in another app while you were editing it.
+          </span>
+          <button
+            type="button"
+            className={`px-2 py-0.5 text-[11px] font-semibold rounded-sm transition-all duration-200 bg-white/[0.09] border border-white/[0.18] text-white/[0.85] ${canReloadFromDisk ? 'cursor-pointer hover:bg-white/[0.12] hover:text-white' : 'opacity-50 cursor-not-allowed'}`}
+            data-testid="reload-external-change-btn"
+            title={
+              canReloadFromDisk
+                ? 'Discard your edits and show the file as it is now'
+                : 'Stop recording to load the other version'
+            }
+            onClick={handleReloadFromDisk}
+            disabled={!canReloadFromDisk}
+          >
+            Load their version
+          </button>
           <button
             type="button"
-            className="px-2 py-1 text-xs font-semibold rounded-sm cursor-pointer transition-all duration-200 h-7 tracking-wide w-[110px] bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white disabled:text-white/[0.45] disabled:cursor-not-allowed disabled:opacity-50"
-            data-testid="summarize-btn"
+            className="px-2 py-0.5 text-[11px] font-semibold rounded-sm cursor-pointer transition-all duration-200 bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white"
+            data-testid="keep-local-changes-btn"
+            title="Save the title and summary shown here over the other app's changes"
             onClick={() => {
-              void handleSummarize();
+              void handleKeepLocalChanges();
             }}
-            disabled={
-              !(isNewRecording
-                ? (transcript || '').trim()
-                : (currentRecording?.transcript?.trim() ?? '')) || isSummarizing
-            }
           >
-            {isSummarizing ? 'Summarizing...' : 'Summarize'}
+            Keep mine
           </button>
         </div>
-      </div>
+      )}
+
+      {externalChange === 'removed' && (
+        <div
+          className="mx-2 px-2 py-1 flex items-center gap-1.5 flex-shrink-0 text-[11px] text-white/[0.7] bg-[#ffc107]/10 border border-[#ffc107]/30 rounded-sm"
+          data-testid="external-removal-notice"
+        >
+          <span className="flex-1">
+            This recording&apos;s file was deleted or moved out of the
+            recordings folder. Changes here are no longer saved.
+          </span>
+          <button
+            type="button"
+            className="px-2 py-0.5 text-[11px] font-semibold rounded-sm cursor-pointer transition-all duration-200 bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white"
+            data-testid="external-removal-back-btn"
+            onClick={onNavigateToList}
+          >
+            Back to Recordings
+          </button>
+        </div>
+      )}
 
       <div className="flex flex-1 gap-1.5 px-1.5 py-1 pb-0.5 min-h-0 overflow-hidden bg-[#1a1a1a]">
         <div className="content-panel">
@@ -324,7 +555,9 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
           >
             {isNewRecording ? (
               <>
-                {(transcript || '').trim() || (
+                {(transcript || '').trim() ? (
+                  renderTranscript((transcript || '').trim())
+                ) : (
                   <span className="text-white/[0.35] italic text-[11px]">
                     {recordingId
                       ? ''
@@ -339,26 +572,51 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
                   </span>
                 )}
               </>
+            ) : currentRecording?.transcript !== undefined ? (
+              renderTranscript(currentRecording.transcript)
             ) : (
-              (currentRecording?.transcript ?? (
-                <span className="text-white/[0.35] italic text-[11px]">
-                  No transcript available for this recording
-                </span>
-              ))
+              <span className="text-white/[0.35] italic text-[11px]">
+                No transcript available for this recording
+              </span>
             )}
           </pre>
         </div>
 
         <div className="content-panel">
-          <h3 className="panel-header">Summary</h3>
+          <h3 className="panel-header flex items-center justify-between">
+            Summary
+            {latestSummaryVersion !== undefined &&
+              recordingId &&
+              !isSummarizing && (
+                <button
+                  type="button"
+                  className="bg-transparent border-none p-0 text-[10px] font-normal text-white/[0.5] hover:text-white/[0.8] transition-colors duration-200 cursor-pointer"
+                  data-testid="restore-summary-btn"
+                  title="Bring back the summary that was replaced"
+                  onClick={() => {
+                    void restoreSummaryVersion({
+                      recordingId,
+                      createdAt: latestSummaryVersion,
+                    });
+                  }}
+                >
+                  Restore previous
+                </button>
+              )}
+          </h3>
           <textarea
             ref={summaryRef}
             className="panel-content placeholder:text-white/[0.35]"
             data-testid="summary-textarea"
             placeholder="Click 'Summarize' at any time to generate or regenerate a summary"
+            readOnly={partialSummary !== null}
             onChange={handleSummaryChange}
           />
         </div>
+
+        {isChatOpen && recordingId && (
+          <TranscriptChatPanel recordingId={recordingId} />
+        )}
       </div>
 
       {/* Unified Audio/Recording Control - Always visible */}
@@ -366,7 +624,7 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
         <button
           type="button"
           className={`px-2 py-1 text-xs font-semibold rounded-sm transition-all duration-200 h-7 tracking-wide w-[85px] ${
-            isRecording || isPlaying
+            isRecording || isPaused || isPlaying
               ? 'cursor-pointer bg-[#dc3545]/20 border border-[#dc3545]/50 text-[#dc3545] hover:bg-[#dc3545]/30'
               : isStopping || isStarting
                 ? 'cursor-not-allowed bg-[#ffc107]/20 border border-[#ffc107]/50 text-[#ffc107] opacity-80'
@@ -375,7 +633,7 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
                   : 'cursor-not-allowed bg-white/[0.04] border border-white/[0.08] text-white/[0.25]'
           }`}
           onClick={() => {
-            if (isRecording) {
+            if (isRecording || isPaused) {
               void handleToggleRecording();
             } else if (isPlaying) {
               handlePlayPause();
@@ -391,12 +649,29 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
             ? 'Stopping...'
             : isStarting
               ? 'Starting...'
-              : isRecording || isPlaying
+              : isRecording || isPaused || isPlaying
                 ? 'Stop'
                 : !audioUrl
                   ? 'Record'
                   : 'Play'}
         </button>
+        {(isRecording || isPaused) && !isStopping && (
+          <button
+            type="button"
+            className="px-2 py-1 text-xs font-semibold rounded-sm transition-all duration-200 h-7 tracking-wide w-[70px] cursor-pointer bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white"
+            data-testid="pause-resume-btn"
+            title={
+              isPaused
+                ? 'Resume recording'
+                : 'Pause recording (nothing is captured while paused)'
+            }
+            onClick={() => {
+              void handlePauseResume();
+            }}
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+        )}
         <span
           className={`text-[10px] min-w-[35px] text-right ${isRecording ? 'text-[#dc3545]' : audioUrl ? 'text-white/[0.6]' : 'text-white/[0.25]'}`}
         >
@@ -444,6 +719,53 @@ export const RecordingView: React.FC<RecordingViewProps> = ({
             📁
           </button>
         )}
+        {audioUrl && recordingId && !isRecording && !isPaused && (
+          <button
+            type="button"
+            className="text-[10px] text-white/[0.5] hover:text-white/[0.8] transition-colors duration-200 cursor-pointer px-1 disabled:cursor-not-allowed"
+            data-testid="retranscribe-btn"
+            title="Transcribe the saved audio again, e.g. after connection drops"
+            onClick={() => {
+              void retranscribeRecording(recordingId);
+            }}
+            disabled={isRetranscribing}
+          >
+            {isRetranscribing ? 'Re-transcribing...' : 'Re-transcribe'}
+          </button>
+        )}
+        {recordingId &&
+          !isNewRecording &&
+          currentRecording?.transcript?.trim() && (
+            <button
+              type="button"
+              className="text-[10px] text-white/[0.5] hover:text-white/[0.8] transition-colors duration-200 cursor-pointer px-1"
+              data-testid="export-btn"
+              title="Save this recording as a document or captions"
+              onClick={onShowExportModal}
+            >
+              Export
+            </button>
+          )}
+        {latestTranscriptVersion !== undefined &&
+          recordingId &&
+          !isRecording &&
+          !isPaused &&
+          !isRetranscribing && (
+            <button
+              type="button"
+              className="text-[10px] text-white/[0.5] hover:text-white/[0.8] transition-colors duration-200 cursor-pointer px-1"
+              data-testid="restore-transcript-btn"
+              title="Bring back the transcript that was replaced"
+              onClick={() => {
+                void restoreTranscriptVersion({
+                  recordingId,
+                  createdAt: latestTranscriptVersion,
+                });
+              }}
+            >
+              Restore previous
+            </button>
+          )}
         {audioUrl && (
           <audio
             ref={audioRef}
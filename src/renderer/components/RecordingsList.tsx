@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 
 import { ConfirmModal } from './ConfirmModal';
+import { LibraryAnswerPanel } from './LibraryAnswerPanel';
 import type { RecordingsListProps } from '../../types/components.js';
 import { isEmptyString } from '../../utils/strings.js';
 import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { useImportAudio } from '../hooks/useImportAudio';
 import {
+  useAskLibraryMutation,
   useGetAllRecordingsQuery,
   useSearchRecordingsQuery,
   useDeleteRecordingMutation,
@@ -49,16 +52,20 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
   });
 
   const [deleteRecording] = useDeleteRecordingMutation();
+  const [askLibrary, libraryAnswer] = useAskLibraryMutation();
+  const [askedQuestion, setAskedQuestion] = useState<string | null>(null);
+  const { importAudio, isImporting, importError } = useImportAudio();
 
   // Determine which data to display
   const recordings = shouldSearch ? searchResults : allRecordings;
   const loading = shouldSearch ? isSearching : isLoadingAll;
   const error = shouldSearch ? searchError : allRecordingsError;
 
-  // Check if recording is active (starting, recording, or stopping) or dictating
+  // Check if recording is active (starting, recording, paused, or stopping) or dictating
   const isRecordingActive =
     recordingStatus === 'starting' ||
     recordingStatus === 'recording' ||
+    recordingStatus === 'paused' ||
     recordingStatus === 'stopping' ||
     isDictating;
 
@@ -96,6 +103,18 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
     }
   };
 
+  const handleAskLibrary = () => {
+    const question = searchQuery.trim();
+    if (!question) return;
+    setAskedQuestion(question);
+    void askLibrary(question);
+  };
+
+  const closeLibraryAnswer = () => {
+    setAskedQuestion(null);
+    libraryAnswer.reset();
+  };
+
   const cancelDeleteRecording = () => {
     setDeleteModal({ isOpen: false, recordingId: null });
   };
@@ -156,6 +175,9 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
   };
 
   const isAssemblyAIKeyMissing = isEmptyString(settings.assemblyaiKey);
+  // Local transcription records without a key; importing always needs one
+  const cannotRecord =
+    settings.transcriptionProvider !== 'local' && isAssemblyAIKeyMissing;
 
   return (
     <div
@@ -175,19 +197,36 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
               onChange={(e) => {
                 setSearchQuery(e.target.value);
               }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                  handleAskLibrary();
+                }
+              }}
             />
           </div>
           <div className="flex gap-1.5">
+            {shouldSearch && (
+              <button
+                type="button"
+                className="px-2 h-8 rounded-sm bg-white/[0.12] border border-white/[0.24] text-white text-xs cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 hover:bg-white/[0.05] disabled:opacity-50 disabled:cursor-not-allowed"
+                data-testid="ask-library-btn"
+                onClick={handleAskLibrary}
+                disabled={libraryAnswer.isLoading}
+                title="Ask this question across all meetings (⌘/Ctrl+Enter)"
+              >
+                Ask all
+              </button>
+            )}
             <button
               type="button"
-              className={`px-3 h-8 rounded-sm bg-[#28a745]/20 border border-[#28a745]/50 text-[#28a745] text-xs font-semibold cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 hover:bg-[#28a745]/30 ${isAssemblyAIKeyMissing || isRecordingActive ? 'opacity-50 cursor-not-allowed' : ''}`}
+              className={`px-3 h-8 rounded-sm bg-[#28a745]/20 border border-[#28a745]/50 text-[#28a745] text-xs font-semibold cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 hover:bg-[#28a745]/30 ${cannotRecord || isRecordingActive ? 'opacity-50 cursor-not-allowed' : ''}`}
               data-testid="new-recording-btn"
               onClick={() => {
-                if (!isAssemblyAIKeyMissing && !isRecordingActive) {
+                if (!cannotRecord && !isRecordingActive) {
                   void handleNewRecording();
                 }
               }}
-              disabled={isAssemblyAIKeyMissing || isRecordingActive}
+              disabled={cannotRecord || isRecordingActive}
               title={
                 isRecordingActive
                   ? 'Please wait for the current recording to finish'
@@ -196,6 +235,29 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
             >
               New Recording
             </button>
+            <button
+              type="button"
+              className={`px-2 h-8 rounded-sm bg-white/[0.12] border border-white/[0.24] text-white text-xs cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 hover:bg-white/[0.05] ${isAssemblyAIKeyMissing || isImporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+              data-testid="import-audio-btn"
+              onClick={() => {
+                void importAudio();
+              }}
+              disabled={isAssemblyAIKeyMissing || isImporting}
+              title="Transcribe an existing audio or video file"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            <button
+              type="button"
+              className="px-2 h-8 rounded-sm bg-white/[0.12] border border-white/[0.24] text-white text-sm cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 min-w-[32px] hover:bg-white/[0.05]"
+              data-testid="action-items-button"
+              onClick={() => {
+                dispatch(setActiveModal('actionItems'));
+              }}
+              title="Open action items from all recordings"
+            >
+              ☑️
+            </button>
             <button
               type="button"
               className="px-2 h-8 rounded-sm bg-white/[0.12] border border-white/[0.24] text-white text-sm cursor-pointer transition-all duration-200 flex items-center justify-center whitespace-nowrap flex-shrink-0 min-w-[32px] hover:bg-white/[0.05]"
@@ -227,8 +289,31 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
             </button>
           </div>
         </div>
+        {importError && (
+          <div
+            className="mt-1 text-xs text-[#dc3545]"
+            data-testid="import-error"
+          >
+            {importError}
+          </div>
+        )}
       </div>
 
+      {askedQuestion !== null && (
+        <LibraryAnswerPanel
+          question={askedQuestion}
+          answer={libraryAnswer.data}
+          isLoading={libraryAnswer.isLoading}
+          error={
+            libraryAnswer.isError
+              ? "Couldn't answer this question. Please try again."
+              : null
+          }
+          onOpenRecording={onNavigateToRecording}
+          onClose={closeLibraryAnswer}
+        />
+      )}
+
       <div className="flex-1 overflow-y-auto pb-10">
         {error ? (
           <div className="flex items-center justify-center py-20">
@@ -301,6 +386,14 @@ export const RecordingsList: React.FC<RecordingsListProps> = ({
                       <div className="flex justify-between items-center">
                         <h3 className="m-0 text-sm font-medium text-white flex-1">
                           {recording.title ?? 'Untitled Recording'}
+                          {recording.status === 'interrupted' && (
+                            <span
+                              className="ml-2 text-[10px] font-normal text-[#ffc107]/80"
+                              data-testid="interrupted-badge"
+                            >
+                              Interrupted
+                            </span>
+                          )}
                         </h3>
                         <div className="flex items-center ml-auto">
                           <span
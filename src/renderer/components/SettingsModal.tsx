@@ -1,13 +1,24 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 
 import { Modal } from './Modal.js';
+import { DEFAULT_LLM_BACKEND } from '../../constants/llm.js';
 import { DEFAULT_DICTATION_STYLING_PROMPT } from '../../constants/prompts.js';
+import { DEFAULT_LOCAL_TRANSCRIPTION_URL } from '../../constants/transcription.js';
+import type {
+  LibraryImportReport,
+  LLMBackendSettings,
+} from '../../types/common.js';
 import type { SettingsModalProps } from '../../types/components.js';
 import type { FullSettingsState } from '../../types/redux.js';
 import { isEmptyString } from '../../utils/strings.js';
 import { useAppDispatch } from '../hooks/redux.js';
 import {
+  useChooseRecordingsDirectoryMutation,
+  useConvertAudioLibraryMutation,
+  useExportLibraryMutation,
   useGetSettingsQuery,
+  useImportLibraryMutation,
+  useMoveRecordingsMutation,
   useUpdateSettingsMutation,
 } from '../slices/apiSlice.js';
 import { setStatus } from '../store';
@@ -20,19 +31,74 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
     error,
   } = useGetSettingsQuery(undefined);
   const [updateSettings, { isLoading: isSaving }] = useUpdateSettingsMutation();
+  const [convertAudioLibrary, { isLoading: isConverting }] =
+    useConvertAudioLibraryMutation();
+  const [exportLibrary, { isLoading: isExportingLibrary }] =
+    useExportLibraryMutation();
+  const [importLibrary, { isLoading: isImportingLibrary }] =
+    useImportLibraryMutation();
+  const [importLibrarySettings, setImportLibrarySettings] = useState(false);
+  const [importReport, setImportReport] = useState<LibraryImportReport | null>(
+    null
+  );
+  const [chooseRecordingsDirectory] = useChooseRecordingsDirectoryMutation();
+  const [moveRecordings, { isLoading: isMovingRecordings }] =
+    useMoveRecordingsMutation();
+  // Edited apart from the other settings: applying it moves files
+  const [recordingsLocation, setRecordingsLocation] = useState({
+    directory: '',
+    audioSubfolder: '',
+  });
   const [settings, setSettings] = useState<FullSettingsState>({
     assemblyaiKey: '',
     summaryPrompt: 'Summarize the key points from this meeting transcript:',
     prompts: [],
     autoStart: false,
     dictationStylingPrompt: DEFAULT_DICTATION_STYLING_PROMPT,
+    speakerSeparation: false,
+    postCallDiarization: false,
+    audioFormat: 'wav',
+    stereoRecording: false,
+    summarizeImports: true,
+    autoTitle: true,
+    autoSummarize: false,
+    autoSummaryTemplate: '',
+    transcriptionProvider: 'assemblyai',
+    localTranscriptionUrl: DEFAULT_LOCAL_TRANSCRIPTION_URL,
+    summaryLLM: DEFAULT_LLM_BACKEND,
+    dictationLLM: DEFAULT_LLM_BACKEND,
   });
   const dispatch = useAppDispatch();
+  // The local engine transcribes offline without an AssemblyAI key
+  const isAssemblyAIKeyMissing =
+    settings.transcriptionProvider !== 'local' &&
+    isEmptyString(settings.assemblyaiKey);
+
+  const previousSettings = useRef<FullSettingsState | null>(null);
 
   useEffect(() => {
-    // Update local state when settings are fetched
+    // Update local state when settings are fetched, keeping unsaved edits to
+    // settings that did not change, e.g. after moving the recordings folder
     if (fetchedSettings) {
-      setSettings(fetchedSettings);
+      const previous = previousSettings.current;
+      previousSettings.current = fetchedSettings;
+      setSettings((current) =>
+        previous
+          ? {
+              ...current,
+              ...Object.fromEntries(
+                Object.entries(fetchedSettings).filter(
+                  ([key, value]) =>
+                    previous[key as keyof FullSettingsState] !== value
+                )
+              ),
+            }
+          : fetchedSettings
+      );
+      setRecordingsLocation({
+        directory: fetchedSettings.recordingsDirectory ?? '',
+        audioSubfolder: fetchedSettings.audioSubfolder ?? '',
+      });
     }
   }, [fetchedSettings]);
 
@@ -47,10 +113,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [settings.assemblyaiKey]);
+  }, [isAssemblyAIKeyMissing]);
 
   const handleSave = async () => {
-    if (isEmptyString(settings.assemblyaiKey)) {
+    if (isAssemblyAIKeyMissing) {
       return;
     }
 
@@ -71,21 +137,192 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
     setSettings((prev: FullSettingsState) => ({ ...prev, [field]: value }));
   };
 
+  const handleLLMChange = (
+    field: 'summaryLLM' | 'dictationLLM',
+    updates: Partial<LLMBackendSettings>
+  ) => {
+    setSettings((prev: FullSettingsState) => ({
+      ...prev,
+      [field]: { ...(prev[field] ?? DEFAULT_LLM_BACKEND), ...updates },
+    }));
+  };
+
+  const renderLLMBackend = (
+    field: 'summaryLLM' | 'dictationLLM',
+    label: string,
+    testIdPrefix: string
+  ) => {
+    const backend = settings[field] ?? DEFAULT_LLM_BACKEND;
+    return (
+      <div className="mt-1">
+        <label
+          htmlFor={`${field}Provider`}
+          className="block mb-0.5 text-xs text-white/[0.70]"
+        >
+          {label}:
+        </label>
+        <select
+          id={`${field}Provider`}
+          data-testid={`${testIdPrefix}-provider-select`}
+          className="form-input"
+          value={backend.provider}
+          onChange={(e) => {
+            handleLLMChange(field, {
+              provider: e.target.value as LLMBackendSettings['provider'],
+            });
+          }}
+        >
+          <option value="assemblyai">AssemblyAI LLM Gateway</option>
+          <option value="openai-compatible">
+            OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp)
+          </option>
+        </select>
+        {backend.provider === 'openai-compatible' && (
+          <div className="flex gap-1 mt-1">
+            <input
+              type="text"
+              data-testid={`${testIdPrefix}-base-url-input`}
+              value={backend.baseUrl}
+              onChange={(e) => {
+                handleLLMChange(field, { baseUrl: e.target.value });
+              }}
+              placeholder="http://localhost:11434/v1"
+              className="form-input flex-[2]"
+            />
+            <input
+              type="text"
+              data-testid={`${testIdPrefix}-model-input`}
+              value={backend.model}
+              onChange={(e) => {
+                handleLLMChange(field, { model: e.target.value });
+              }}
+              placeholder="Model"
+              className="form-input flex-1"
+            />
+            <input
+              type="password"
+              data-testid={`${testIdPrefix}-api-key-input`}
+              value={backend.apiKey}
+              onChange={(e) => {
+                handleLLMChange(field, { apiKey: e.target.value });
+              }}
+              placeholder="API key (optional)"
+              className="form-input flex-1"
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const handleCancel = () => {
-    if (isEmptyString(settings.assemblyaiKey)) {
+    if (isAssemblyAIKeyMissing) {
       return;
     }
     onClose();
   };
 
   const handleClose = () => {
-    if (isEmptyString(settings.assemblyaiKey)) {
+    if (isAssemblyAIKeyMissing) {
       return;
     }
     onClose();
   };
 
-  const isAssemblyAIKeyMissing = isEmptyString(settings.assemblyaiKey);
+  const handleConvertAudioLibrary = async () => {
+    try {
+      const result = await convertAudioLibrary(undefined).unwrap();
+      dispatch(
+        setStatus(
+          `Converted ${String(result.converted)} recording(s)` +
+            (result.failed > 0 ? `, ${String(result.failed)} failed` : '')
+        )
+      );
+    } catch (error) {
+      window.logger.error('Error converting audio library:', error);
+      dispatch(setStatus('Error converting recordings'));
+    }
+  };
+
+  const handleExportLibrary = async () => {
+    try {
+      const result = await exportLibrary(undefined).unwrap();
+      if (result) {
+        dispatch(
+          setStatus(
+            `Exported ${String(result.recordings)} recording(s) to ${result.filePath}`
+          )
+        );
+      }
+    } catch (error) {
+      window.logger.error('Error exporting library:', error);
+      dispatch(setStatus('Error exporting library'));
+    }
+  };
+
+  const handleImportLibrary = async () => {
+    try {
+      const report = await importLibrary(importLibrarySettings).unwrap();
+      if (report) {
+        setImportReport(report);
+        dispatch(setStatus(`Imported ${String(report.imported)} recording(s)`));
+      }
+    } catch (error) {
+      window.logger.error('Error importing library:', error);
+      // ipcQuery reports failures as { status: 'CUSTOM_ERROR', error: message }
+      dispatch(
+        setStatus(
+          typeof error === 'object' && error !== null && 'error' in error
+            ? String(error.error)
+            : 'Error importing library'
+        )
+      );
+    }
+  };
+
+  const handleChooseRecordingsDirectory = async () => {
+    try {
+      const directory = await chooseRecordingsDirectory(undefined).unwrap();
+      if (directory) {
+        setRecordingsLocation((prev) => ({ ...prev, directory }));
+      }
+    } catch (error) {
+      window.logger.error('Error choosing recordings folder:', error);
+    }
+  };
+
+  const handleMoveRecordings = async () => {
+    try {
+      const result = await moveRecordings(recordingsLocation).unwrap();
+      dispatch(
+        setStatus(
+          `Moved ${String(result.recordings)} recording(s) to the new folder`
+        )
+      );
+    } catch (error) {
+      window.logger.error('Error moving recordings:', error);
+      // ipcQuery reports failures as { status: 'CUSTOM_ERROR', error: message }
+      dispatch(
+        setStatus(
+          typeof error === 'object' && error !== null && 'error' in error
+            ? String(error.error)
+            : 'Error moving recordings'
+        )
+      );
+    }
+  };
+
+  const hasRecordingsLocationChanged =
+    recordingsLocation.directory !==
+      (fetchedSettings?.recordingsDirectory ?? '') ||
+    recordingsLocation.audioSubfolder.trim() !==
+      (fetchedSettings?.audioSubfolder ?? '');
+
+  // Conversion uses the saved format, so only offer it once that is compressed
+  const savedAudioFormat = fetchedSettings?.audioFormat ?? 'wav';
+  const canConvertAudioLibrary =
+    savedAudioFormat !== 'wav' && savedAudioFormat === settings.audioFormat;
+
   const isDisabled = isAssemblyAIKeyMissing || isSaving;
 
   const footer = (
@@ -158,7 +395,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
           htmlFor="assemblyaiKey"
           className="block mb-0.5 text-xs font-medium text-white/[0.85]"
         >
-          AssemblyAI API Key (required):
+          AssemblyAI API Key
+          {settings.transcriptionProvider === 'local' ? '' : ' (required)'}:
         </label>
         <input
           type="password"
@@ -173,6 +411,329 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
         />
       </div>
 
+      <div className="form-group">
+        <label
+          htmlFor="transcriptionProvider"
+          className="block mb-0.5 text-xs font-medium text-white/[0.85]"
+        >
+          Live Transcription Engine:
+        </label>
+        <select
+          id="transcriptionProvider"
+          data-testid="transcription-provider-select"
+          className="form-input"
+          value={settings.transcriptionProvider ?? 'assemblyai'}
+          onChange={(e) => {
+            handleInputChange('transcriptionProvider', e.target.value);
+          }}
+        >
+          <option value="assemblyai">AssemblyAI (cloud)</option>
+          <option value="local">
+            Local engine (audio stays on this machine)
+          </option>
+        </select>
+        {settings.transcriptionProvider === 'local' && (
+          <input
+            type="text"
+            id="localTranscriptionUrl"
+            data-testid="local-transcription-url-input"
+            value={settings.localTranscriptionUrl ?? ''}
+            onChange={(e) => {
+              handleInputChange('localTranscriptionUrl', e.target.value);
+            }}
+            placeholder={DEFAULT_LOCAL_TRANSCRIPTION_URL}
+            title="WebSocket address of a Vosk-compatible server"
+            className="form-input mt-1"
+          />
+        )}
+      </div>
+
+      <div className="form-group">
+        <label className="flex items-center gap-2 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="speakerSeparation"
+            data-testid="speaker-separation-checkbox"
+            checked={settings.speakerSeparation ?? false}
+            onChange={(e) => {
+              handleInputChange('speakerSeparation', e.target.checked);
+            }}
+          />
+          Label speakers as You / Others (transcribes microphone and system
+          audio separately)
+        </label>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="postCallDiarization"
+            data-testid="post-call-diarization-checkbox"
+            checked={settings.postCallDiarization ?? false}
+            onChange={(e) => {
+              handleInputChange('postCallDiarization', e.target.checked);
+            }}
+          />
+          Identify individual speakers from the saved audio after recording
+        </label>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="summarizeImports"
+            data-testid="summarize-imports-checkbox"
+            checked={settings.summarizeImports ?? true}
+            onChange={(e) => {
+              handleInputChange('summarizeImports', e.target.checked);
+            }}
+          />
+          Summarize imported audio files automatically
+        </label>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="autoTitle"
+            data-testid="auto-title-checkbox"
+            checked={settings.autoTitle ?? true}
+            onChange={(e) => {
+              handleInputChange('autoTitle', e.target.checked);
+            }}
+          />
+          Name untitled recordings automatically after they stop
+        </label>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="autoSummarize"
+            data-testid="auto-summarize-checkbox"
+            checked={settings.autoSummarize ?? false}
+            onChange={(e) => {
+              handleInputChange('autoSummarize', e.target.checked);
+            }}
+          />
+          Summarize recordings automatically when they stop
+        </label>
+        {settings.autoSummarize && (
+          <select
+            id="autoSummaryTemplate"
+            data-testid="auto-summary-template-select"
+            className="form-input mt-1"
+            value={settings.autoSummaryTemplate ?? ''}
+            onChange={(e) => {
+              handleInputChange('autoSummaryTemplate', e.target.value);
+            }}
+          >
+            <option value="">Last used prompt</option>
+            {settings.prompts.map((prompt) => (
+              <option key={prompt.name} value={prompt.name}>
+                {prompt.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label
+          htmlFor="audioFormat"
+          className="block mb-0.5 text-xs font-medium text-white/[0.85]"
+        >
+          Audio Storage Format:
+        </label>
+        <select
+          id="audioFormat"
+          data-testid="audio-format-select"
+          className="form-input"
+          value={settings.audioFormat ?? 'wav'}
+          onChange={(e) => {
+            handleInputChange('audioFormat', e.target.value);
+          }}
+        >
+          <option value="wav">WAV (uncompressed)</option>
+          <option value="flac">FLAC (lossless, about half the size)</option>
+          <option value="opus">Opus (compressed, about 1/8 the size)</option>
+        </select>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="stereoRecording"
+            data-testid="stereo-recording-checkbox"
+            checked={settings.stereoRecording ?? false}
+            onChange={(e) => {
+              handleInputChange('stereoRecording', e.target.checked);
+            }}
+          />
+          Save in stereo with your microphone left and meeting audio right
+        </label>
+        {canConvertAudioLibrary && (
+          <div className="mt-1 flex items-center gap-2">
+            <button
+              className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+              data-testid="convert-audio-library-btn"
+              onClick={(e) => {
+                e.preventDefault();
+                void handleConvertAudioLibrary();
+              }}
+              disabled={isConverting}
+              type="button"
+            >
+              {isConverting
+                ? 'Converting...'
+                : 'Convert existing WAV recordings'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <span className="block mb-0.5 text-xs font-medium text-white/[0.85]">
+          Recordings Folder:
+        </span>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            id="recordingsDirectory"
+            data-testid="recordings-directory-input"
+            className="form-input"
+            value={recordingsLocation.directory}
+            placeholder="App data folder (default)"
+            readOnly
+          />
+          <button
+            className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="choose-recordings-directory-btn"
+            onClick={(e) => {
+              e.preventDefault();
+              void handleChooseRecordingsDirectory();
+            }}
+            type="button"
+          >
+            Choose...
+          </button>
+          {recordingsLocation.directory && (
+            <button
+              className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+              data-testid="default-recordings-directory-btn"
+              onClick={(e) => {
+                e.preventDefault();
+                setRecordingsLocation((prev) => ({ ...prev, directory: '' }));
+              }}
+              type="button"
+            >
+              Default
+            </button>
+          )}
+        </div>
+        <label
+          htmlFor="audioSubfolder"
+          className="block mt-1 mb-0.5 text-xs font-medium text-white/[0.85]"
+        >
+          Audio subfolder:
+        </label>
+        <input
+          type="text"
+          id="audioSubfolder"
+          data-testid="audio-subfolder-input"
+          className="form-input"
+          value={recordingsLocation.audioSubfolder}
+          placeholder="None (audio next to the notes)"
+          onChange={(e) => {
+            setRecordingsLocation((prev) => ({
+              ...prev,
+              audioSubfolder: e.target.value,
+            }));
+          }}
+        />
+        <div className="mt-1 flex items-center gap-2">
+          <button
+            className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="move-recordings-btn"
+            onClick={(e) => {
+              e.preventDefault();
+              void handleMoveRecordings();
+            }}
+            disabled={!hasRecordingsLocationChanged || isMovingRecordings}
+            type="button"
+          >
+            {isMovingRecordings ? 'Moving...' : 'Move recordings here'}
+          </button>
+        </div>
+        <div className="mt-1 text-xs text-white/[0.45] italic">
+          Notes can live in an Obsidian or Logseq vault. Existing files are
+          copied first and only removed once everything has moved.
+        </div>
+      </div>
+
+      <div className="form-group">
+        <span className="block mb-0.5 text-xs font-medium text-white/[0.85]">
+          Library:
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="export-library-btn"
+            onClick={(e) => {
+              e.preventDefault();
+              void handleExportLibrary();
+            }}
+            disabled={isExportingLibrary}
+            type="button"
+          >
+            {isExportingLibrary ? 'Exporting...' : 'Export library...'}
+          </button>
+          <button
+            className="px-2 py-0.5 text-[10px] bg-white/[0.06] border border-white/[0.12] rounded-sm text-white/[0.60] cursor-pointer transition-all duration-200 hover:bg-white/[0.09] hover:text-white/[0.85] hover:border-white/[0.18] disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="import-library-btn"
+            onClick={(e) => {
+              e.preventDefault();
+              void handleImportLibrary();
+            }}
+            disabled={isImportingLibrary}
+            type="button"
+          >
+            {isImportingLibrary ? 'Importing...' : 'Import library...'}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 mt-1 text-xs font-medium text-white/[0.85] cursor-pointer">
+          <input
+            type="checkbox"
+            id="importLibrarySettings"
+            data-testid="import-library-settings-checkbox"
+            checked={importLibrarySettings}
+            onChange={(e) => {
+              setImportLibrarySettings(e.target.checked);
+            }}
+          />
+          Also restore settings when importing (API keys are never included)
+        </label>
+        {importReport && (
+          <div
+            className="mt-1 text-xs text-white/[0.60]"
+            data-testid="import-library-report"
+          >
+            {`Imported ${String(importReport.imported)}, skipped ${String(importReport.skipped)} already present`}
+            {importReport.settingsImported && ', settings restored'}
+            {importReport.conflicts.length > 0 && (
+              <ul className="mt-0.5 list-disc pl-4 text-[#ffc107]">
+                {importReport.conflicts.map((conflict) => (
+                  <li key={conflict.recordingId}>
+                    {conflict.title}:{' '}
+                    {conflict.reason === 'changed'
+                      ? 'differs from your copy, kept yours'
+                      : 'could not be read'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <span className="block mb-0.5 text-xs font-medium text-white/[0.85]">
+          Language Models:
+        </span>
+        {renderLLMBackend('summaryLLM', 'Summaries', 'summary-llm')}
+        {renderLLMBackend('dictationLLM', 'Dictation styling', 'dictation-llm')}
+      </div>
+
       <div className="form-group">
         <label
           htmlFor="dictationStylingPrompt"
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import type { TranscriptChatPanelProps } from '../../types/components.js';
+import {
+  useAskTranscriptMutation,
+  useClearTranscriptChatMutation,
+  useGetTranscriptChatQuery,
+} from '../slices/apiSlice.js';
+
+export const TranscriptChatPanel: React.FC<TranscriptChatPanelProps> = ({
+  recordingId,
+}) => {
+  const { data: history = [] } = useGetTranscriptChatQuery(recordingId);
+  const [askTranscript, { isLoading: isAsking }] = useAskTranscriptMutation();
+  const [clearTranscriptChat] = useClearTranscriptChatMutation();
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const messages = messagesRef.current;
+    if (messages) {
+      messages.scrollTop = messages.scrollHeight;
+    }
+  }, [history.length, pendingQuestion]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || isAsking) return;
+
+    setPendingQuestion(text);
+    setQuestion('');
+    setErrorMessage(null);
+    try {
+      await askTranscript({ recordingId, question: text }).unwrap();
+    } catch (error) {
+      window.logger.error('Error asking about transcript:', error);
+      // Give the question back so it can be retried
+      setQuestion(text);
+      setErrorMessage("Couldn't get an answer. Please try again.");
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  return (
+    <div className="content-panel" data-testid="transcript-chat-panel">
+      <h3 className="panel-header flex items-center justify-between">
+        <span>Ask</span>
+        {history.length > 0 && (
+          <button
+            type="button"
+            className="text-[10px] font-normal text-white/[0.5] hover:text-white/[0.8] transition-colors duration-200 cursor-pointer"
+            data-testid="clear-chat-btn"
+            onClick={() => {
+              void clearTranscriptChat(recordingId);
+            }}
+          >
+            Clear
+          </button>
+        )}
+      </h3>
+      <div
+        ref={messagesRef}
+        className="flex-1 p-2 flex flex-col gap-1.5 overflow-y-auto text-[11px] leading-snug"
+        data-testid="chat-messages"
+      >
+        {history.length === 0 && pendingQuestion === null && (
+          <span className="text-white/[0.35] italic">
+            Ask a question about this recording, e.g. &quot;What did Sam commit
+            to?&quot;
+          </span>
+        )}
+        {history.map((message) => (
+          <div
+            key={`${message.role}-${String(message.created_at)}`}
+            className={`px-2 py-1 rounded-sm whitespace-pre-wrap break-words ${
+              message.role === 'user'
+                ? 'self-end bg-white/[0.12] text-white'
+                : 'self-start bg-white/[0.04] text-white/[0.85]'
+            }`}
+            data-testid={`chat-message-${message.role}`}
+          >
+            {message.content}
+          </div>
+        ))}
+        {pendingQuestion !== null && (
+          <>
+            <div className="px-2 py-1 rounded-sm self-end bg-white/[0.12] text-white whitespace-pre-wrap break-words">
+              {pendingQuestion}
+            </div>
+            <span className="self-start text-white/[0.45] italic">
+              Thinking...
+            </span>
+          </>
+        )}
+        {errorMessage && (
+          <span className="text-[#dc3545]" data-testid="chat-error">
+            {errorMessage}
+          </span>
+        )}
+      </div>
+      <form
+        className="flex gap-1 p-1 border-t border-white/[0.12]"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleAsk();
+        }}
+      >
+        <input
+          type="text"
+          className="flex-1 px-2 py-1 text-[11px] bg-white/[0.06] border border-white/[0.18] rounded-sm text-white focus:outline-none focus:border-white/[0.45] placeholder:text-white/[0.35]"
+          data-testid="chat-question-input"
+          placeholder="Ask about this recording..."
+          value={question}
+          onChange={(e) => {
+            setQuestion(e.target.value);
+          }}
+        />
+        <button
+          type="submit"
+          className="px-2 py-1 text-xs font-semibold rounded-sm cursor-pointer transition-all duration-200 bg-white/[0.09] border border-white/[0.18] text-white/[0.85] hover:bg-white/[0.12] hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+          data-testid="chat-ask-btn"
+          disabled={!question.trim() || isAsking}
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+
+import { useAppDispatch, useAppSelector } from './redux';
+import { useImportAudioFileMutation } from '../slices/apiSlice.js';
+import { navigateToRecording } from '../store';
+
+/**
+ * Import an audio/video file for transcription. State is shared between the
+ * list's import button and the application menu.
+ */
+export const useImportAudio = () => {
+  const dispatch = useAppDispatch();
+  const recordingStatus = useAppSelector((state) => state.recording.status);
+  const [importAudioFile, { isLoading, error }] = useImportAudioFileMutation({
+    fixedCacheKey: 'import-audio-file',
+  });
+
+  const importAudio = useCallback(async () => {
+    try {
+      const recordingId = await importAudioFile(undefined).unwrap();
+      // Stay put during a live recording; the import shows up in the list
+      if (recordingId && recordingStatus === 'idle') {
+        dispatch(navigateToRecording(recordingId));
+      }
+    } catch (err) {
+      window.logger.error('Error importing audio file:', err);
+    }
+  }, [importAudioFile, recordingStatus, dispatch]);
+
+  return {
+    importAudio,
+    isImporting: isLoading,
+    importError: error ? getImportErrorMessage(error) : null,
+  };
+};
+
+function getImportErrorMessage(error: unknown): string {
+  // ipcQuery reports failures as { status: 'CUSTOM_ERROR', error: message }
+  if (typeof error === 'object' && error !== null && 'error' in error) {
+    return String(error.error);
+  }
+  return 'Failed to import audio file';
+}
@@ -9,10 +9,14 @@
 import { useEffect } from 'react';
 
 import { useAppDispatch } from './redux.js';
+import { apiSlice } from '../slices/apiSlice.js';
 import {
   setCurrentRecording,
   updateCurrentRecordingTitle,
   updateCurrentRecordingSummary,
+  updateCurrentRecordingTranscript,
+  recordingsUpserted,
+  recordingsRemoved,
 } from '../slices/recordingsSlice.js';
 import {
   recordingActions,
@@ -35,6 +39,9 @@ export function useMainProcessSync(): void {
         case 'recording':
           dispatch(recordingActions.startFulfilled());
           break;
+        case 'paused':
+          dispatch(recordingActions.pause());
+          break;
         case 'stopping':
           dispatch(recordingActions.stopPending());
           break;
@@ -141,6 +148,34 @@ export function useMainProcessSync(): void {
       dispatch(updateCurrentRecordingSummary(payload.summary));
     });
 
+    window.stateAPI.onRecordingsTranscript((payload) => {
+      dispatch(updateCurrentRecordingTranscript(payload.transcript));
+    });
+
+    // Files changed outside the app; refetch the list and cached recordings
+    window.stateAPI.onRecordingsUpserted((payload) => {
+      dispatch(recordingsUpserted(payload.recordings));
+      dispatch(
+        apiSlice.util.invalidateTags([
+          'RecordingsList',
+          ...payload.recordings.map((recording) => ({
+            type: 'Recording' as const,
+            id: recording.id,
+          })),
+        ])
+      );
+    });
+
+    window.stateAPI.onRecordingsRemoved((payload) => {
+      dispatch(recordingsRemoved(payload.ids));
+      dispatch(
+        apiSlice.util.invalidateTags([
+          'RecordingsList',
+          ...payload.ids.map((id) => ({ type: 'Recording' as const, id })),
+        ])
+      );
+    });
+
     // Cleanup function
     return () => {
       window.stateAPI.removeAllStateListeners();
@@ -1,14 +1,28 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 import { useAppSelector } from './redux.js';
 import { DEFAULT_PROMPTS } from '../../constants/prompts.js';
 
-export const usePrompts = () => {
+/**
+ * @param initialTemplate - Name of the template to preselect, e.g. the one
+ * the recording was last summarized with
+ */
+export const usePrompts = (initialTemplate?: string) => {
   const settings = useAppSelector((state) => state.settings);
   const [selectedPromptIndex, setSelectedPromptIndex] = useState(0);
 
   const prompts = settings.prompts.length ? settings.prompts : DEFAULT_PROMPTS;
 
+  useEffect(() => {
+    if (!initialTemplate) return;
+    const index = prompts.findIndex(
+      (prompt) => prompt.name === initialTemplate
+    );
+    if (index !== -1) {
+      setSelectedPromptIndex(index);
+    }
+  }, [initialTemplate, prompts]);
+
   const handlePromptChange = (index: number) => {
     setSelectedPromptIndex(index);
   };
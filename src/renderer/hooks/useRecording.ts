@@ -1,14 +1,19 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 
 import { useAppSelector, useAppDispatch } from './redux';
 import { useDebouncedCallbackWithCancel } from './useDebouncedCallback';
 import { usePostHog } from './usePostHog';
-import type { Recording } from '../../types/common.js';
+import type {
+  Recording,
+  SummarizationProgressData,
+} from '../../types/common.js';
 import {
+  apiSlice,
   useUpdateRecordingTitleMutation,
   useUpdateRecordingSummaryMutation,
 } from '../slices/apiSlice.js';
 import {
+  clearExternalChange,
   updateCurrentRecordingTitle,
   updateCurrentRecordingSummary,
 } from '../slices/recordingsSlice.js';
@@ -21,6 +26,7 @@ export const useRecording = (recordingId: string | null) => {
       state.recording
   );
   const isRecording = recordingState.status === 'recording';
+  const isPaused = recordingState.status === 'paused';
   const {
     currentTranscript,
     microphoneTranscriptBuffer,
@@ -56,6 +62,11 @@ export const useRecording = (recordingId: string | null) => {
         .currentRecording
   );
 
+  // Set when another app changed or deleted the open recording's file
+  const externalChange = useAppSelector(
+    (state) => state.recordings.externalChange
+  );
+
   const [updateTitle] = useUpdateRecordingTitleMutation();
   const [updateSummary] = useUpdateRecordingSummaryMutation();
 
@@ -66,12 +77,17 @@ export const useRecording = (recordingId: string | null) => {
   const [isStopping, setIsStopping] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
   const [isSummarizing, setIsSummarizing] = useState(false);
+  // Summary text streamed so far, null when no summary is being generated
+  const [partialSummary, setPartialSummary] = useState<string | null>(null);
+  // Edits not yet written to the recording's file
+  const hasUnsavedEdits = useRef(false);
 
   // Debounced database updates
   const [debouncedTitleUpdate, cancelTitleUpdate] =
     useDebouncedCallbackWithCancel(
       useCallback(
         (id: string, title: string) => {
+          hasUnsavedEdits.current = false;
           void updateTitle({ id, title });
         },
         [updateTitle]
@@ -83,6 +99,7 @@ export const useRecording = (recordingId: string | null) => {
     useDebouncedCallbackWithCancel(
       useCallback(
         (id: string, summaryText: string) => {
+          hasUnsavedEdits.current = false;
           void updateSummary({ id, summary: summaryText });
         },
         [updateSummary]
@@ -97,31 +114,86 @@ export const useRecording = (recordingId: string | null) => {
     .filter(Boolean)
     .join(' ');
 
-  // Immediate Redux updates + debounced database writes
+  // Immediate Redux updates + debounced database writes. Writes wait while
+  // an external change is unresolved so they don't overwrite it.
   const handleTitleChange = useCallback(
     (title: string) => {
       if (!recordingId) return;
       dispatch(updateCurrentRecordingTitle(title));
-      debouncedTitleUpdate(recordingId, title);
+      hasUnsavedEdits.current = true;
+      if (!externalChange) {
+        debouncedTitleUpdate(recordingId, title);
+      }
     },
-    [recordingId, dispatch, debouncedTitleUpdate]
+    [recordingId, dispatch, debouncedTitleUpdate, externalChange]
   );
 
   const handleSummaryChange = useCallback(
     (summaryText: string) => {
       if (!recordingId) return;
       dispatch(updateCurrentRecordingSummary(summaryText));
-      debouncedSummaryUpdate(recordingId, summaryText);
+      hasUnsavedEdits.current = true;
+      if (!externalChange) {
+        debouncedSummaryUpdate(recordingId, summaryText);
+      }
     },
-    [recordingId, dispatch, debouncedSummaryUpdate]
+    [recordingId, dispatch, debouncedSummaryUpdate, externalChange]
   );
 
   // Clear pending debounced updates when recording changes
   useEffect(() => {
     cancelTitleUpdate();
     cancelSummaryUpdate();
+    hasUnsavedEdits.current = false;
   }, [recordingId, cancelTitleUpdate, cancelSummaryUpdate]);
 
+  // The file was edited in another app. Reload it unless that would drop
+  // unsaved edits or a live transcript; then the user picks a version.
+  const isBusy = isRecording || isPaused || isSummarizing;
+  const hasConflict =
+    externalChange === 'changed' && (hasUnsavedEdits.current || isBusy);
+  // Loading would replace the transcript that is still being recorded
+  const canReloadFromDisk = !isRecording && !isPaused;
+
+  const reloadFromDisk = useCallback(() => {
+    if (!recordingId || !canReloadFromDisk) return;
+    cancelTitleUpdate();
+    cancelSummaryUpdate();
+    hasUnsavedEdits.current = false;
+    // Loading replaces the current recording, which clears the change
+    window.electronAPI.loadRecording(recordingId).catch((error: unknown) => {
+      window.logger.error('Failed to reload recording:', error);
+    });
+  }, [recordingId, canReloadFromDisk, cancelTitleUpdate, cancelSummaryUpdate]);
+
+  useEffect(() => {
+    if (externalChange !== 'changed') return;
+    if (hasUnsavedEdits.current || isBusy) {
+      cancelTitleUpdate();
+      cancelSummaryUpdate();
+    } else {
+      reloadFromDisk();
+    }
+  }, [
+    externalChange,
+    isBusy,
+    reloadFromDisk,
+    cancelTitleUpdate,
+    cancelSummaryUpdate,
+  ]);
+
+  // Overwrite the external change with what is shown here
+  const handleKeepLocalChanges = useCallback(async () => {
+    if (!recordingId || !currentRecording) return;
+    hasUnsavedEdits.current = false;
+    dispatch(clearExternalChange());
+    await updateTitle({ id: recordingId, title: currentRecording.title ?? '' });
+    await updateSummary({
+      id: recordingId,
+      summary: currentRecording.summary ?? '',
+    });
+  }, [recordingId, currentRecording, dispatch, updateTitle, updateSummary]);
+
   useEffect(() => {
     const handleSummary = (data: { text: string; recordingId: string }) => {
       // Only update summary if it's for the current recording
@@ -134,33 +206,68 @@ export const useRecording = (recordingId: string | null) => {
       }
     };
 
-    const handleSummarizationStarted = () => {
+    const handleSummaryPartial = (data: {
+      text: string;
+      recordingId: string;
+    }) => {
+      if (recordingId && data.recordingId === recordingId) {
+        setPartialSummary(data.text);
+      }
+    };
+
+    const handleSummarizationProgress = (data: SummarizationProgressData) => {
+      if (!recordingId || data.recordingId !== recordingId) return;
+      dispatch(
+        setStatus(
+          data.stage === 'merging'
+            ? `Merging ${String(data.total)} summary parts...`
+            : `Summarizing part ${String(data.completed + 1)} of ${String(data.total)}...`
+        )
+      );
+    };
+
+    const handleSummarizationStarted = (data: { recordingId: string }) => {
+      // Automatic summaries of earlier recordings run in the background
+      if (data.recordingId !== recordingId) return;
       dispatch(setStatus('Generating summary...'));
       setIsSummarizing(true);
+      setPartialSummary('');
     };
 
-    const handleSummarizationCompleted = () => {
+    const handleSummarizationCompleted = (data: { recordingId: string }) => {
+      if (data.recordingId !== recordingId) return;
       dispatch(setStatus('Summary complete'));
+      // The summary that was replaced is now a version
+      dispatch(
+        apiSlice.util.invalidateTags([
+          { type: 'SummaryVersions', id: recordingId },
+        ])
+      );
       setIsSummarizing(false);
+      setPartialSummary(null);
       posthog.capture('summary_completed', {
         recordingId: recordingId,
       });
     };
 
     window.electronAPI.onSummary(handleSummary);
+    window.electronAPI.onSummaryPartial(handleSummaryPartial);
     window.electronAPI.onSummarizationStarted(handleSummarizationStarted);
+    window.electronAPI.onSummarizationProgress(handleSummarizationProgress);
     window.electronAPI.onSummarizationCompleted(handleSummarizationCompleted);
 
     return () => {
       window.electronAPI.removeAllListeners('summary');
+      window.electronAPI.removeAllListeners('summary-partial');
       window.electronAPI.removeAllListeners('summarization-started');
+      window.electronAPI.removeAllListeners('summarization-progress');
       window.electronAPI.removeAllListeners('summarization-completed');
     };
   }, [dispatch, recordingId, handleSummaryChange, posthog]);
 
   const handleToggleRecording = async () => {
     try {
-      if (!isRecording) {
+      if (!isRecording && !isPaused) {
         setIsStarting(true);
         dispatch(setStatus('Starting recording...'));
         const result = await window.electronAPI.startRecording();
@@ -169,8 +276,7 @@ export const useRecording = (recordingId: string | null) => {
             recordingId: recordingId,
           });
         }
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      } else if (isRecording) {
+      } else {
         setIsStopping(true);
         dispatch(setStatus('Stopping...'));
         await window.electronAPI.stopRecording();
@@ -186,18 +292,33 @@ export const useRecording = (recordingId: string | null) => {
       setIsStarting(false);
       posthog.capture('recording_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        action: isRecording ? 'stop' : 'start',
+        action: isRecording || isPaused ? 'stop' : 'start',
       });
     }
   };
 
-  const handleSummarize = async () => {
+  const handlePauseResume = async () => {
+    try {
+      if (isPaused) {
+        await window.electronAPI.resumeRecording();
+        posthog.capture('recording_resumed', { recordingId: recordingId });
+      } else if (isRecording) {
+        await window.electronAPI.pauseRecording();
+        posthog.capture('recording_paused', { recordingId: recordingId });
+      }
+    } catch (error) {
+      window.logger.error('Error pausing/resuming recording:', error);
+      dispatch(setStatus('Error pausing recording'));
+    }
+  };
+
+  const handleSummarize = async (templateName?: string) => {
     try {
       posthog.capture('summary_requested', {
         recordingId: recordingId,
         transcriptLength: currentTranscript.length,
       });
-      await window.electronAPI.summarizeTranscript();
+      await window.electronAPI.summarizeTranscript(undefined, templateName);
     } catch (error) {
       window.logger.error('Error generating summary:', error);
       dispatch(setStatus('Error generating summary'));
@@ -208,15 +329,24 @@ export const useRecording = (recordingId: string | null) => {
     }
   };
 
+  const handleStopSummarize = async () => {
+    try {
+      await window.electronAPI.stopSummarization();
+      posthog.capture('summary_stopped', { recordingId: recordingId });
+    } catch (error) {
+      window.logger.error('Error stopping summary:', error);
+    }
+  };
+
   // Reset loading states when recording state changes
   useEffect(() => {
-    if (!isRecording && isStopping) {
+    if (!isRecording && !isPaused && isStopping) {
       setIsStopping(false);
     }
     if (isRecording && isStarting) {
       setIsStarting(false);
     }
-  }, [isRecording, isStopping, isStarting]);
+  }, [isRecording, isPaused, isStopping, isStarting]);
 
   useEffect(() => {
     if (isStarting || isStopping) {
@@ -225,6 +355,8 @@ export const useRecording = (recordingId: string | null) => {
 
     if (transcriptionError) {
       dispatch(setStatus(`Error: ${transcriptionError}`));
+    } else if (isPaused) {
+      dispatch(setStatus('Paused'));
     } else if (isTranscribing) {
       dispatch(setStatus('Transcribing...'));
     } else if (isRecording) {
@@ -236,6 +368,7 @@ export const useRecording = (recordingId: string | null) => {
     transcriptionError,
     isTranscribing,
     isRecording,
+    isPaused,
     isStarting,
     isStopping,
     dispatch,
@@ -243,16 +376,25 @@ export const useRecording = (recordingId: string | null) => {
 
   return {
     isRecording,
+    isPaused,
     isStopping,
     isStarting,
     isSummarizing,
     transcript: currentTranscript,
     partialTranscript,
     summary,
+    partialSummary,
     recordingTitle,
     setRecordingTitle: handleTitleChange,
     handleToggleRecording,
+    handlePauseResume,
     handleSummarize,
+    handleStopSummarize,
     setSummary: handleSummaryChange,
+    externalChange,
+    hasConflict,
+    canReloadFromDisk,
+    handleReloadFromDisk: reloadFromDisk,
+    handleKeepLocalChanges,
   };
 };
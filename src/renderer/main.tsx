@@ -37,17 +37,20 @@ window.electronAPI.onStartAudioCapture(() => {
       const isDictationMode = state.recording.isDictating;
       const micGain = state.settings.microphoneGain ?? 1.0;
       const systemGain = state.settings.systemAudioGain ?? 0.7;
+      const speakerSeparation = state.settings.speakerSeparation ?? false;
+      const stereoRecording = state.settings.stereoRecording ?? false;
 
       const { microphoneStream, systemAudioStream } =
         await acquireStreams(isDictationMode);
       // Pass audio settings to audio processing
-      // Always use combined stream for meeting transcription
+      // Meetings use the combined stream unless speakers are transcribed separately
       await startAudioProcessing(
         microphoneStream,
         systemAudioStream,
-        !isDictationMode, // Use combined stream for meetings, not for dictation
+        !isDictationMode && !speakerSeparation,
         micGain,
-        systemGain
+        systemGain,
+        stereoRecording
       );
       setRecordingState(true);
 
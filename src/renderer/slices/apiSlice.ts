@@ -1,9 +1,19 @@
 import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
 
 import type {
+  ActionItemStatus,
+  AudioConversionResult,
+  CaptionFormat,
+  DocumentFormat,
   FullSettingsState,
+  LibraryAnswer,
+  LibraryExportResult,
+  LibraryImportReport,
   PromptTemplate,
   Recording,
+  RecordingActionItem,
+  RecordingsMoveResult,
+  TranscriptChatMessage,
 } from '../../types/index.js';
 
 /**
@@ -31,7 +41,15 @@ async function ipcQuery<T>(
 export const apiSlice = createApi({
   reducerPath: 'api',
   baseQuery: fakeBaseQuery(),
-  tagTypes: ['Settings', 'Recording', 'RecordingsList'],
+  tagTypes: [
+    'Settings',
+    'Recording',
+    'RecordingsList',
+    'TranscriptVersions',
+    'SummaryVersions',
+    'TranscriptChat',
+    'ActionItems',
+  ],
   endpoints: (builder) => ({
     // Settings endpoints
     getSettings: builder.query<FullSettingsState, undefined>({
@@ -146,6 +164,234 @@ export const apiSlice = createApi({
         'RecordingsList',
       ],
     }),
+
+    convertAudioLibrary: builder.mutation<AudioConversionResult, undefined>({
+      queryFn: () =>
+        ipcQuery(
+          () => window.electronAPI.convertAudioLibrary(),
+          'Failed to convert audio library'
+        ),
+      invalidatesTags: ['RecordingsList'],
+    }),
+
+    getTranscriptVersions: builder.query<number[], string>({
+      queryFn: (recordingId) =>
+        ipcQuery(
+          () => window.electronAPI.getTranscriptVersions(recordingId),
+          'Failed to fetch transcript versions'
+        ),
+      providesTags: (_, __, recordingId) => [
+        { type: 'TranscriptVersions', id: recordingId },
+      ],
+    }),
+
+    retranscribeRecording: builder.mutation<boolean, string>({
+      queryFn: (recordingId) =>
+        ipcQuery(
+          () => window.electronAPI.retranscribeRecording(recordingId),
+          'Failed to re-transcribe recording'
+        ),
+      invalidatesTags: (_, __, recordingId) => [
+        { type: 'Recording', id: recordingId },
+        { type: 'TranscriptVersions', id: recordingId },
+      ],
+    }),
+
+    restoreTranscriptVersion: builder.mutation<
+      boolean,
+      { recordingId: string; createdAt: number }
+    >({
+      queryFn: ({ recordingId, createdAt }) =>
+        ipcQuery(
+          () =>
+            window.electronAPI.restoreTranscriptVersion(recordingId, createdAt),
+          'Failed to restore transcript'
+        ),
+      invalidatesTags: (_, __, { recordingId }) => [
+        { type: 'Recording', id: recordingId },
+        { type: 'TranscriptVersions', id: recordingId },
+      ],
+    }),
+
+    getSummaryVersions: builder.query<number[], string>({
+      queryFn: (recordingId) =>
+        ipcQuery(
+          () => window.electronAPI.getSummaryVersions(recordingId),
+          'Failed to fetch summary versions'
+        ),
+      providesTags: (_, __, recordingId) => [
+        { type: 'SummaryVersions', id: recordingId },
+      ],
+    }),
+
+    restoreSummaryVersion: builder.mutation<
+      boolean,
+      { recordingId: string; createdAt: number }
+    >({
+      queryFn: ({ recordingId, createdAt }) =>
+        ipcQuery(
+          () =>
+            window.electronAPI.restoreSummaryVersion(recordingId, createdAt),
+          'Failed to restore summary'
+        ),
+      invalidatesTags: (_, __, { recordingId }) => [
+        { type: 'Recording', id: recordingId },
+        { type: 'SummaryVersions', id: recordingId },
+      ],
+    }),
+
+    getTranscriptChat: builder.query<TranscriptChatMessage[], string>({
+      queryFn: (recordingId) =>
+        ipcQuery(
+          () => window.electronAPI.getTranscriptChat(recordingId),
+          'Failed to fetch chat history'
+        ),
+      providesTags: (_, __, recordingId) => [
+        { type: 'TranscriptChat', id: recordingId },
+      ],
+    }),
+
+    askTranscript: builder.mutation<
+      TranscriptChatMessage[],
+      { recordingId: string; question: string }
+    >({
+      queryFn: ({ recordingId, question }) =>
+        ipcQuery(
+          () => window.electronAPI.askTranscript(recordingId, question),
+          'Failed to answer question'
+        ),
+      invalidatesTags: (_, __, { recordingId }) => [
+        { type: 'TranscriptChat', id: recordingId },
+      ],
+    }),
+
+    clearTranscriptChat: builder.mutation<boolean, string>({
+      queryFn: (recordingId) =>
+        ipcQuery(
+          () => window.electronAPI.clearTranscriptChat(recordingId),
+          'Failed to clear chat history'
+        ),
+      invalidatesTags: (_, __, recordingId) => [
+        { type: 'TranscriptChat', id: recordingId },
+      ],
+    }),
+
+    askLibrary: builder.mutation<LibraryAnswer, string>({
+      queryFn: (question) =>
+        ipcQuery(
+          () => window.electronAPI.askLibrary(question),
+          'Failed to answer question'
+        ),
+    }),
+
+    getOpenActionItems: builder.query<RecordingActionItem[], undefined>({
+      queryFn: () =>
+        ipcQuery(
+          () => window.electronAPI.getOpenActionItems(),
+          'Failed to fetch action items'
+        ),
+      providesTags: ['ActionItems'],
+    }),
+
+    setActionItemStatus: builder.mutation<
+      boolean,
+      { recordingId: string; itemId: string; status: ActionItemStatus }
+    >({
+      queryFn: ({ recordingId, itemId, status }) =>
+        ipcQuery(
+          () =>
+            window.electronAPI.setActionItemStatus(recordingId, itemId, status),
+          'Failed to update action item'
+        ),
+      invalidatesTags: ['ActionItems'],
+    }),
+
+    exportCaptions: builder.mutation<
+      string | null,
+      { recordingId: string; format: CaptionFormat }
+    >({
+      queryFn: ({ recordingId, format }) =>
+        ipcQuery(
+          () => window.electronAPI.exportCaptions(recordingId, format),
+          'Failed to export captions'
+        ),
+    }),
+
+    exportDocument: builder.mutation<
+      string | null,
+      { recordingId: string; format: DocumentFormat; templateId: string }
+    >({
+      queryFn: ({ recordingId, format, templateId }) =>
+        ipcQuery(
+          () =>
+            window.electronAPI.exportDocument(recordingId, format, templateId),
+          'Failed to export document'
+        ),
+    }),
+
+    exportLibrary: builder.mutation<LibraryExportResult | null, undefined>({
+      queryFn: () =>
+        ipcQuery(
+          () => window.electronAPI.exportLibrary(),
+          'Failed to export library'
+        ),
+    }),
+
+    importLibrary: builder.mutation<LibraryImportReport | null, boolean>({
+      queryFn: (includeSettings) =>
+        ipcQuery(
+          () => window.electronAPI.importLibrary(includeSettings),
+          'Failed to import library'
+        ),
+      invalidatesTags: ['RecordingsList', 'Settings', 'ActionItems'],
+    }),
+
+    chooseRecordingsDirectory: builder.mutation<string | null, undefined>({
+      queryFn: () =>
+        ipcQuery(
+          () => window.electronAPI.chooseRecordingsDirectory(),
+          'Failed to choose recordings folder'
+        ),
+    }),
+
+    moveRecordings: builder.mutation<
+      RecordingsMoveResult,
+      { directory: string; audioSubfolder: string }
+    >({
+      queryFn: ({ directory, audioSubfolder }) =>
+        ipcQuery(
+          () => window.electronAPI.moveRecordings(directory, audioSubfolder),
+          'Failed to move recordings'
+        ),
+      invalidatesTags: ['RecordingsList'],
+      // Refetching every setting would discard unsaved edits in the open
+      // settings form, so only the folder is updated
+      async onQueryStarted(
+        { directory, audioSubfolder },
+        { dispatch, queryFulfilled }
+      ) {
+        try {
+          await queryFulfilled;
+        } catch {
+          return;
+        }
+        dispatch(
+          apiSlice.util.updateQueryData('getSettings', undefined, (draft) => {
+            draft.recordingsDirectory = directory;
+            draft.audioSubfolder = audioSubfolder.trim();
+          })
+        );
+      },
+    }),
+
+    importAudioFile: builder.mutation<string | null, undefined>({
+      queryFn: () =>
+        ipcQuery(
+          () => window.electronAPI.importAudioFile(),
+          'Failed to import audio file'
+        ),
+      invalidatesTags: ['RecordingsList'],
+    }),
   }),
 });
 
@@ -160,4 +406,23 @@ export const {
   useUpdateRecordingTitleMutation,
   useUpdateRecordingSummaryMutation,
   useDeleteRecordingMutation,
+  useConvertAudioLibraryMutation,
+  useGetTranscriptVersionsQuery,
+  useRetranscribeRecordingMutation,
+  useRestoreTranscriptVersionMutation,
+  useGetSummaryVersionsQuery,
+  useRestoreSummaryVersionMutation,
+  useGetTranscriptChatQuery,
+  useAskTranscriptMutation,
+  useClearTranscriptChatMutation,
+  useAskLibraryMutation,
+  useGetOpenActionItemsQuery,
+  useSetActionItemStatusMutation,
+  useExportCaptionsMutation,
+  useExportDocumentMutation,
+  useExportLibraryMutation,
+  useImportLibraryMutation,
+  useChooseRecordingsDirectoryMutation,
+  useMoveRecordingsMutation,
+  useImportAudioFileMutation,
 } = apiSlice;
@@ -9,6 +9,8 @@ const initialState: RecordingState = {
   startTime: null,
   error: null,
   connectionStatus: { microphone: false, system: false },
+  retrying: { microphone: false, system: false },
+  nextRetryIn: null,
   isDictating: false,
   isTransitioning: false,
 };
@@ -30,19 +32,26 @@ const recordingSlice = createSlice({
         state.status = 'error';
         state.error = action.payload;
       })
+      .addCase(recordingActions.pause, (state) => {
+        state.status = 'paused';
+      })
       .addCase(recordingActions.stopPending, (state) => {
         state.status = 'stopping';
       })
       .addCase(recordingActions.stopFulfilled, (state) => {
         state.status = 'idle';
         state.connectionStatus = { microphone: false, system: false };
+        state.retrying = { microphone: false, system: false };
+        state.nextRetryIn = null;
       })
       .addCase(recordingActions.setError, (state, action) => {
         state.error = action.payload;
       })
       .addCase(recordingActions.updateConnectionStatus, (state, action) => {
-        state.connectionStatus[action.payload.stream] =
-          action.payload.connected;
+        const { stream, connected, retrying, nextRetryIn } = action.payload;
+        state.connectionStatus[stream] = connected;
+        state.retrying[stream] = retrying ?? false;
+        state.nextRetryIn = nextRetryIn ?? null;
       })
       .addCase(recordingActions.setDictationMode, (state, action) => {
         state.isDictating = action.payload;
@@ -10,8 +10,12 @@ const recordingsAdapter = createEntityAdapter<Recording>({
   sortComparer: (a, b) => b.created_at - a.created_at,
 });
 
+// How the open recording's file was changed outside the app
+export type ExternalRecordingChange = 'changed' | 'removed';
+
 type RecordingsState = ReturnType<typeof recordingsAdapter.getInitialState> & {
   currentRecording: Recording | null;
+  externalChange: ExternalRecordingChange | null;
   searchResults: Recording[];
   searchQuery: string;
   loading: {
@@ -26,6 +30,7 @@ type RecordingsState = ReturnType<typeof recordingsAdapter.getInitialState> & {
 
 const initialState: RecordingsState = recordingsAdapter.getInitialState({
   currentRecording: null,
+  externalChange: null,
   searchResults: [],
   searchQuery: '',
   loading: {
@@ -44,6 +49,7 @@ const recordingsSlice = createSlice({
   reducers: {
     setCurrentRecording(state, action: PayloadAction<Recording | null>) {
       state.currentRecording = action.payload;
+      state.externalChange = null;
     },
     updateCurrentRecordingTitle(state, action: PayloadAction<string>) {
       if (state.currentRecording) {
@@ -55,6 +61,34 @@ const recordingsSlice = createSlice({
         state.currentRecording.summary = action.payload;
       }
     },
+    updateCurrentRecordingTranscript(state, action: PayloadAction<string>) {
+      if (state.currentRecording) {
+        state.currentRecording.transcript = action.payload;
+      }
+    },
+    // Files edited, added or deleted outside the app, e.g. in a notes vault
+    recordingsUpserted(state, action: PayloadAction<Recording[]>) {
+      recordingsAdapter.upsertMany(state, action.payload);
+      if (
+        action.payload.some(
+          (recording) => recording.id === state.currentRecording?.id
+        )
+      ) {
+        state.externalChange = 'changed';
+      }
+    },
+    recordingsRemoved(state, action: PayloadAction<string[]>) {
+      recordingsAdapter.removeMany(state, action.payload);
+      if (
+        state.currentRecording &&
+        action.payload.includes(state.currentRecording.id)
+      ) {
+        state.externalChange = 'removed';
+      }
+    },
+    clearExternalChange(state) {
+      state.externalChange = null;
+    },
   },
 });
 
@@ -62,5 +96,9 @@ export const {
   setCurrentRecording,
   updateCurrentRecordingTitle,
   updateCurrentRecordingSummary,
+  updateCurrentRecordingTranscript,
+  recordingsUpserted,
+  recordingsRemoved,
+  clearExternalChange,
 } = recordingsSlice.actions;
 export default recordingsSlice.reducer;
@@ -3,7 +3,7 @@
 
 import { createAction } from '@reduxjs/toolkit';
 
-import type { UpdateInfo } from '../../types/common.js';
+import type { ConnectionStatusData, UpdateInfo } from '../../types/common.js';
 import type { SettingsState, TranscriptSegment } from '../../types/redux.js';
 
 // Recording action creators
@@ -13,11 +13,11 @@ export const recordingActions = {
   startRejected: createAction<string>('recording/start/rejected'),
   stopPending: createAction('recording/stop/pending'),
   stopFulfilled: createAction('recording/stop/fulfilled'),
+  pause: createAction('recording/pause'),
   setError: createAction<string>('recording/setError'),
-  updateConnectionStatus: createAction<{
-    stream: 'microphone' | 'system';
-    connected: boolean;
-  }>('recording/updateConnectionStatus'),
+  updateConnectionStatus: createAction<ConnectionStatusData>(
+    'recording/updateConnectionStatus'
+  ),
   setDictationMode: createAction<boolean>('recording/setDictationMode'),
 };
 
@@ -2,6 +2,10 @@ import { createSlice } from '@reduxjs/toolkit';
 
 import { recordingActions, transcriptionActions } from './syncActionTypes.js';
 import type { TranscriptionState } from '../../types/redux.js';
+import {
+  formatTranscript,
+  parseTranscriptSegments,
+} from '../../utils/transcript.js';
 
 const initialState: TranscriptionState = {
   currentTranscript: '',
@@ -31,10 +35,7 @@ const transcriptionSlice = createSlice({
       })
       .addCase(transcriptionActions.addTranscriptSegment, (state, action) => {
         state.segments.push(action.payload);
-        state.currentTranscript = state.segments
-          .filter((seg) => seg.isFinal)
-          .map((seg) => seg.text)
-          .join(' ');
+        state.currentTranscript = formatTranscript(state.segments);
       })
       .addCase(transcriptionActions.updateTranscriptBuffer, (state, action) => {
         if (action.payload.source === 'microphone') {
@@ -56,7 +57,7 @@ const transcriptionSlice = createSlice({
       })
       .addCase(transcriptionActions.loadExistingTranscript, (state, action) => {
         state.currentTranscript = action.payload;
-        state.segments = [];
+        state.segments = parseTranscriptSegments(action.payload);
         state.microphoneTranscriptBuffer = '';
         state.systemAudioTranscriptBuffer = '';
         state.error = null;
@@ -4,14 +4,26 @@
  */
 
 import type {
+  ActionItemStatus,
+  AudioConversionResult,
+  AutoSummaryFailure,
+  CaptionFormat,
+  ConnectionStatusData,
+  DocumentFormat,
+  DownloadProgress,
+  LibraryAnswer,
+  LibraryExportResult,
+  LibraryImportReport,
+  PromptTemplate,
   Recording,
+  RecordingActionItem,
+  RecordingStoppedData,
+  RecordingsMoveResult,
   Settings,
-  PromptTemplate,
-  UpdateInfo,
-  DownloadProgress,
+  SummarizationProgressData,
+  TranscriptChatMessage,
   TranscriptData,
-  ConnectionStatusData,
-  RecordingStoppedData,
+  UpdateInfo,
 } from './common.js';
 
 // ============================================================================
@@ -25,6 +37,8 @@ export interface RecordingAPI {
   // Recording control
   'start-recording': () => Promise<boolean>;
   'stop-recording': () => Promise<boolean>;
+  'pause-recording': () => Promise<boolean>;
+  'resume-recording': () => Promise<boolean>;
   'new-recording': () => Promise<string | null>;
   'load-recording': (recordingId: string) => boolean;
 
@@ -37,13 +51,81 @@ export interface RecordingAPI {
     recordingId: string,
     summary: string
   ) => Promise<void>;
-  'summarize-transcript': (transcript?: string) => Promise<boolean>;
+  'summarize-transcript': (
+    transcript?: string,
+    template?: string
+  ) => Promise<boolean>;
+  'stop-summarization': () => boolean;
+  'retry-auto-summary': (recordingId: string) => Promise<boolean>;
 
   // Recording queries
   'get-all-recordings': () => Recording[];
   'search-recordings': (query: string) => Recording[];
   'get-recording': (id: string) => Recording | null;
   'delete-recording': (id: string) => boolean;
+
+  // Batch transcription of an existing audio/video file
+  'import-audio-file': () => Promise<string | null>;
+
+  // Re-transcription from saved audio, with rollback
+  'retranscribe-recording': (recordingId: string) => Promise<boolean>;
+  'get-transcript-versions': (recordingId: string) => Promise<number[]>;
+  'restore-transcript-version': (
+    recordingId: string,
+    createdAt: number
+  ) => Promise<boolean>;
+
+  // Summaries replaced by a regeneration
+  'get-summary-versions': (recordingId: string) => Promise<number[]>;
+  'restore-summary-version': (
+    recordingId: string,
+    createdAt: number
+  ) => Promise<boolean>;
+
+  // Questions about a single recording
+  'get-transcript-chat': (
+    recordingId: string
+  ) => Promise<TranscriptChatMessage[]>;
+  'ask-transcript': (
+    recordingId: string,
+    question: string
+  ) => Promise<TranscriptChatMessage[]>;
+  'clear-transcript-chat': (recordingId: string) => Promise<boolean>;
+
+  // Questions across every recording
+  'ask-library': (question: string) => Promise<LibraryAnswer>;
+
+  // Action items across every recording
+  'get-open-action-items': () => Promise<RecordingActionItem[]>;
+  'set-action-item-status': (
+    recordingId: string,
+    itemId: string,
+    status: ActionItemStatus
+  ) => Promise<boolean>;
+
+  // Files for use outside the app
+  'export-captions': (
+    recordingId: string,
+    format: CaptionFormat
+  ) => Promise<string | null>;
+  'export-document': (
+    recordingId: string,
+    format: DocumentFormat,
+    templateId: string
+  ) => Promise<string | null>;
+
+  // Moving the library between installs
+  'export-library': () => Promise<LibraryExportResult | null>;
+  'import-library': (
+    includeSettings: boolean
+  ) => Promise<LibraryImportReport | null>;
+
+  // Where recordings are stored
+  'choose-recordings-directory': () => Promise<string | null>;
+  'move-recordings': (
+    directory: string,
+    audioSubfolder: string
+  ) => Promise<RecordingsMoveResult>;
 }
 
 /**
@@ -57,6 +139,14 @@ export interface AudioAPI {
   // Audio data streams (one-way, no return)
   'microphone-audio-data': (audioData: ArrayBuffer) => void;
   'system-audio-data': (audioData: ArrayBuffer) => void;
+  // Unmixed sources for stereo files while transcribing the combined stream
+  'archive-audio-data': (
+    source: 'microphone' | 'system',
+    audioData: ArrayBuffer
+  ) => void;
+
+  // Storage format conversion
+  'convert-audio-library': () => Promise<AudioConversionResult>;
 }
 
 /**
@@ -108,8 +198,11 @@ export interface MainToRendererEvents {
   // Transcription events
   transcript: (data: TranscriptData) => void;
   summary: (data: { text: string }) => void;
-  'summarization-started': () => void;
-  'summarization-completed': () => void;
+  'summary-partial': (data: { text: string; recordingId: string }) => void;
+  'summarization-started': (data: { recordingId: string }) => void;
+  'summarization-progress': (data: SummarizationProgressData) => void;
+  'summarization-completed': (data: { recordingId: string }) => void;
+  'auto-summary-failed': (data: AutoSummaryFailure) => void;
 
   // Connection events
   'connection-status': (data: ConnectionStatusData) => void;
@@ -122,6 +215,7 @@ export interface MainToRendererEvents {
 
   // Recording events
   'new-recording-created': (recordingId: string) => void;
+  'import-audio-requested': () => void;
   'recording-stopped': (data: RecordingStoppedData) => void;
 
   // Update events
@@ -9,6 +9,58 @@ export interface TranscriptionData {
   text: string;
   partial: boolean;
   streamType: 'microphone' | 'system';
+  start?: number; // Milliseconds from the start of the audio stream
+  end?: number;
+}
+
+// On-disk format for saved recording audio
+export type AudioStorageFormat = 'wav' | 'flac' | 'opus';
+
+// Engine used for live transcription
+export type TranscriptionProviderId = 'assemblyai' | 'local';
+
+// Features that send text to a language model
+export type LLMUseCase = 'summary' | 'dictation';
+
+export interface LLMBackendSettings {
+  provider: 'assemblyai' | 'openai-compatible';
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey: string; // Optional for local servers
+}
+
+// Outcome of converting existing recordings to the configured format
+export interface AudioConversionResult {
+  converted: number;
+  failed: number;
+}
+
+// Outcome of writing the whole library to an archive
+export interface LibraryExportResult {
+  filePath: string;
+  recordings: number;
+}
+
+// A recording in an imported archive that was not applied
+export interface LibraryImportConflict {
+  recordingId: string;
+  title: string;
+  // 'changed': the local copy differs and was kept; 'invalid': unreadable entry
+  reason: 'changed' | 'invalid';
+}
+
+// Outcome of merging an archive into the library
+export interface LibraryImportReport {
+  imported: number;
+  skipped: number; // Already present and unchanged
+  conflicts: LibraryImportConflict[];
+  settingsImported: boolean;
+}
+
+// Outcome of moving recordings to another directory
+export interface RecordingsMoveResult {
+  recordings: number;
+  files: number; // Notes, sidecar files and audio
 }
 
 export interface SettingsSchema {
@@ -22,6 +74,90 @@ export interface SettingsSchema {
   // Audio processing settings
   microphoneGain?: number; // Microphone volume level (0.0 to 2.0, default 1.0)
   systemAudioGain?: number; // System audio volume level (0.0 to 2.0, default 0.7)
+  // Speaker labeling settings
+  speakerSeparation?: boolean; // Transcribe microphone and system audio separately
+  postCallDiarization?: boolean; // Diarize the saved audio after recording stops
+  // Audio storage settings
+  audioFormat?: AudioStorageFormat; // Format saved recordings are stored in
+  stereoRecording?: boolean; // Save microphone left and system audio right
+  summarizeImports?: boolean; // Summarize imported audio files once transcribed
+  autoTitle?: boolean; // Name untitled recordings from their content
+  autoSummarize?: boolean; // Summarize recordings as soon as they stop
+  autoSummaryTemplate?: string; // Name of the prompt used; empty for the last used
+  // Live transcription engine settings
+  transcriptionProvider?: TranscriptionProviderId;
+  localTranscriptionUrl?: string; // WebSocket URL of the local engine
+  // Language model used per feature
+  summaryLLM?: LLMBackendSettings;
+  dictationLLM?: LLMBackendSettings;
+  // Where recordings are kept; change only by moving them
+  recordingsDirectory?: string; // Empty for the app data folder
+  audioSubfolder?: string; // Empty to keep audio next to the notes
+}
+
+// Lifecycle marker persisted in transcript frontmatter
+// 'recording' is left behind if the app exits before the recording is stopped
+export type RecordingFileStatus = 'recording' | 'interrupted' | 'complete';
+
+// Content whose replaced versions are kept for rollback
+export type RecordingVersionKind = 'transcript' | 'summary';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export type DocumentFormat = 'docx' | 'pdf' | 'html';
+
+export type DocumentSection = 'summary' | 'actionItems' | 'transcript';
+
+// Which parts of a recording an exported document contains, after the
+// title and date
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  sections: DocumentSection[];
+}
+
+// One question or answer in a recording's chat
+export interface TranscriptChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: number;
+}
+
+// An automatic summary that could not be generated
+export interface AutoSummaryFailure {
+  recordingId: string;
+  error: string;
+}
+
+// A follow-up extracted from a recording
+export type ActionItemStatus = 'open' | 'done';
+
+export interface ActionItem {
+  id: string;
+  task: string;
+  owner: string | null;
+  due: string | null; // As said in the meeting, e.g. "Friday" or "2024-03-15"
+  status: ActionItemStatus;
+}
+
+export interface RecordingActionItem extends ActionItem {
+  recordingId: string;
+  recordingTitle: string;
+  recordingCreatedAt: number;
+}
+
+// A passage an answer across the library was drawn from
+export interface LibrarySource {
+  recordingId: string;
+  title: string;
+  created_at: number;
+  start?: number; // Seconds from the start of the recording
+  excerpt: string;
+}
+
+export interface LibraryAnswer {
+  answer: string;
+  sources: LibrarySource[]; // Numbered [1], [2], ... in the answer
 }
 
 export interface Recording {
@@ -29,7 +165,10 @@ export interface Recording {
   title?: string;
   transcript?: string;
   summary?: string;
+  summary_template?: string; // Name of the prompt the summary was generated with
   audio_filename?: string;
+  status?: RecordingFileStatus;
+  tags?: string[]; // Frontmatter tags, usually added in a notes vault
   created_at: number;
   updated_at: number;
 }
@@ -61,6 +200,19 @@ export interface ConnectionStatusData {
   nextRetryIn?: number;
 }
 
+/**
+ * Progress through a long transcript that is summarized in parts
+ */
+export interface SummarizationProgress {
+  stage: 'summarizing' | 'merging';
+  completed: number; // Parts summarized so far
+  total: number;
+}
+
+export interface SummarizationProgressData extends SummarizationProgress {
+  recordingId: string;
+}
+
 export interface RecordingStoppedData {
   recordingId: string;
 }
@@ -1,3 +1,5 @@
+import type { AutoSummaryFailure, LibraryAnswer } from './common.js';
+
 // Component props types
 
 // Modal component props
@@ -9,6 +11,16 @@ export interface PromptModalProps {
   onClose: () => void;
 }
 
+export interface ActionItemsModalProps {
+  onClose: () => void;
+  onOpenRecording: (recordingId: string) => void;
+}
+
+export interface ExportModalProps {
+  recordingId: string;
+  onClose: () => void;
+}
+
 // List and view component props
 export interface RecordingsListProps {
   onNavigateToRecording: (recordingId?: string) => void;
@@ -18,5 +30,25 @@ export interface RecordingViewProps {
   recordingId: string | null;
   onNavigateToList: () => void;
   onShowPromptModal: () => void;
+  onShowExportModal: () => void;
   isStoppingForNavigation?: boolean;
 }
+
+export interface LibraryAnswerPanelProps {
+  question: string;
+  answer: LibraryAnswer | undefined;
+  isLoading: boolean;
+  error: string | null;
+  onOpenRecording: (recordingId: string) => void;
+  onClose: () => void;
+}
+
+export interface TranscriptChatPanelProps {
+  recordingId: string;
+}
+
+export interface AutoSummaryFailureNoticeProps {
+  failure: AutoSummaryFailure;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
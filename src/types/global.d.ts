@@ -6,11 +6,23 @@
  */
 
 import type {
+  ActionItemStatus,
+  AudioConversionResult,
+  AutoSummaryFailure,
+  CaptionFormat,
+  DocumentFormat,
+  DownloadProgress,
+  LibraryAnswer,
+  LibraryExportResult,
+  LibraryImportReport,
   PromptTemplate,
+  Recording,
+  RecordingActionItem,
+  RecordingsMoveResult,
   Settings,
+  SummarizationProgressData,
+  TranscriptChatMessage,
   UpdateInfo,
-  DownloadProgress,
-  Recording,
 } from './common.js';
 import type { StateAPI } from './ipc-events.js';
 
@@ -24,9 +36,16 @@ declare global {
       // Recording Control
       startRecording: () => Promise<boolean>;
       stopRecording: () => Promise<boolean>;
+      pauseRecording: () => Promise<boolean>;
+      resumeRecording: () => Promise<boolean>;
       newRecording: () => Promise<string | null>;
       loadRecording: (id: string) => Promise<boolean>;
-      summarizeTranscript: (transcript?: string) => Promise<boolean>;
+      summarizeTranscript: (
+        transcript?: string,
+        template?: string
+      ) => Promise<boolean>;
+      stopSummarization: () => Promise<boolean>;
+      retryAutoSummary: (recordingId: string) => Promise<boolean>;
 
       // Recording Data
       getAllRecordings: () => Promise<Recording[]>;
@@ -38,6 +57,52 @@ declare global {
       getAudioFilePath: (recordingId: string) => Promise<string | null>;
       showAudioInFolder: (recordingId: string) => Promise<boolean>;
       showTranscriptsFolder: () => Promise<boolean>;
+      convertAudioLibrary: () => Promise<AudioConversionResult>;
+      importAudioFile: () => Promise<string | null>;
+      retranscribeRecording: (recordingId: string) => Promise<boolean>;
+      getTranscriptVersions: (recordingId: string) => Promise<number[]>;
+      restoreTranscriptVersion: (
+        recordingId: string,
+        createdAt: number
+      ) => Promise<boolean>;
+      getSummaryVersions: (recordingId: string) => Promise<number[]>;
+      restoreSummaryVersion: (
+        recordingId: string,
+        createdAt: number
+      ) => Promise<boolean>;
+      getTranscriptChat: (
+        recordingId: string
+      ) => Promise<TranscriptChatMessage[]>;
+      askTranscript: (
+        recordingId: string,
+        question: string
+      ) => Promise<TranscriptChatMessage[]>;
+      clearTranscriptChat: (recordingId: string) => Promise<boolean>;
+      askLibrary: (question: string) => Promise<LibraryAnswer>;
+      getOpenActionItems: () => Promise<RecordingActionItem[]>;
+      setActionItemStatus: (
+        recordingId: string,
+        itemId: string,
+        status: ActionItemStatus
+      ) => Promise<boolean>;
+      exportCaptions: (
+        recordingId: string,
+        format: CaptionFormat
+      ) => Promise<string | null>;
+      exportDocument: (
+        recordingId: string,
+        format: DocumentFormat,
+        templateId: string
+      ) => Promise<string | null>;
+      exportLibrary: () => Promise<LibraryExportResult | null>;
+      importLibrary: (
+        includeSettings: boolean
+      ) => Promise<LibraryImportReport | null>;
+      chooseRecordingsDirectory: () => Promise<string | null>;
+      moveRecordings: (
+        directory: string,
+        audioSubfolder: string
+      ) => Promise<RecordingsMoveResult>;
 
       // Settings
       getSettings: () => Promise<Settings>;
@@ -54,17 +119,35 @@ declare global {
       // Audio Streaming (fire-and-forget)
       sendMicrophoneAudio: (data: ArrayBuffer) => void;
       sendSystemAudio: (data: ArrayBuffer) => void;
+      sendArchiveAudio: (
+        source: 'microphone' | 'system',
+        data: ArrayBuffer
+      ) => void;
 
       // Event Listeners (main → renderer)
       onSummary: (
         callback: (data: { text: string; recordingId: string }) => void
       ) => void;
-      onSummarizationStarted: (callback: () => void) => void;
-      onSummarizationCompleted: (callback: () => void) => void;
+      onSummaryPartial: (
+        callback: (data: { text: string; recordingId: string }) => void
+      ) => void;
+      onSummarizationStarted: (
+        callback: (data: { recordingId: string }) => void
+      ) => void;
+      onSummarizationProgress: (
+        callback: (data: SummarizationProgressData) => void
+      ) => void;
+      onSummarizationCompleted: (
+        callback: (data: { recordingId: string }) => void
+      ) => void;
+      onAutoSummaryFailed: (
+        callback: (data: AutoSummaryFailure) => void
+      ) => void;
       onDictationStatus: (callback: (isDictating: boolean) => void) => void;
       onStartAudioCapture: (callback: () => void) => void;
       onStopAudioCapture: (callback: () => void) => void;
       onResetAudioProcessing: (callback: () => void) => void;
+      onImportAudioRequested: (callback: () => void) => void;
 
       // Update Events
       onUpdateAvailable: (callback: (info: UpdateInfo) => void) => void;
@@ -5,7 +5,21 @@
  * Defines the contract between main and renderer processes.
  */
 
-import type { PromptTemplate, Recording, SettingsSchema } from './common.js';
+import type {
+  ActionItemStatus,
+  AudioConversionResult,
+  CaptionFormat,
+  DocumentFormat,
+  LibraryAnswer,
+  LibraryExportResult,
+  LibraryImportReport,
+  PromptTemplate,
+  Recording,
+  RecordingActionItem,
+  RecordingsMoveResult,
+  SettingsSchema,
+  TranscriptChatMessage,
+} from './common.js';
 
 // ============================================================================
 // IPC Handlers (Request/Response via ipcMain.handle)
@@ -19,9 +33,16 @@ export interface IPCHandlers {
   // Recording Control
   'start-recording': { args: []; return: boolean };
   'stop-recording': { args: []; return: boolean };
+  'pause-recording': { args: []; return: boolean };
+  'resume-recording': { args: []; return: boolean };
   'new-recording': { args: []; return: string | null };
   'load-recording': { args: [recordingId: string]; return: boolean };
-  'summarize-transcript': { args: [transcript?: string]; return: boolean };
+  'summarize-transcript': {
+    args: [transcript?: string, template?: string];
+    return: boolean;
+  };
+  'stop-summarization': { args: []; return: boolean };
+  'retry-auto-summary': { args: [recordingId: string]; return: boolean };
 
   // Recording Data
   'get-all-recordings': { args: []; return: Recording[] };
@@ -43,6 +64,52 @@ export interface IPCHandlers {
   'get-audio-file-path': { args: [recordingId: string]; return: string | null };
   'show-audio-in-folder': { args: [recordingId: string]; return: boolean };
   'show-transcripts-folder': { args: []; return: boolean };
+  'convert-audio-library': { args: []; return: AudioConversionResult };
+  'import-audio-file': { args: []; return: string | null };
+  'retranscribe-recording': { args: [recordingId: string]; return: boolean };
+  'get-transcript-versions': { args: [recordingId: string]; return: number[] };
+  'restore-transcript-version': {
+    args: [recordingId: string, createdAt: number];
+    return: boolean;
+  };
+  'get-summary-versions': { args: [recordingId: string]; return: number[] };
+  'restore-summary-version': {
+    args: [recordingId: string, createdAt: number];
+    return: boolean;
+  };
+  'get-transcript-chat': {
+    args: [recordingId: string];
+    return: TranscriptChatMessage[];
+  };
+  'ask-transcript': {
+    args: [recordingId: string, question: string];
+    return: TranscriptChatMessage[];
+  };
+  'clear-transcript-chat': { args: [recordingId: string]; return: boolean };
+  'ask-library': { args: [question: string]; return: LibraryAnswer };
+  'get-open-action-items': { args: []; return: RecordingActionItem[] };
+  'set-action-item-status': {
+    args: [recordingId: string, itemId: string, status: ActionItemStatus];
+    return: boolean;
+  };
+  'export-captions': {
+    args: [recordingId: string, format: CaptionFormat];
+    return: string | null;
+  };
+  'export-document': {
+    args: [recordingId: string, format: DocumentFormat, templateId: string];
+    return: string | null;
+  };
+  'export-library': { args: []; return: LibraryExportResult | null };
+  'import-library': {
+    args: [includeSettings: boolean];
+    return: LibraryImportReport | null;
+  };
+  'choose-recordings-directory': { args: []; return: string | null };
+  'move-recordings': {
+    args: [directory: string, audioSubfolder: string];
+    return: RecordingsMoveResult;
+  };
 
   // Settings
   'get-settings': { args: []; return: SettingsSchema };
@@ -74,6 +141,9 @@ export interface IPCHandlers {
 export interface IPCEvents {
   'microphone-audio-data': { args: [audioData: ArrayBuffer] };
   'system-audio-data': { args: [audioData: ArrayBuffer] };
+  'archive-audio-data': {
+    args: [source: 'microphone' | 'system', audioData: ArrayBuffer];
+  };
   log: {
     args: [level: 'info' | 'warn' | 'error' | 'debug', ...messages: unknown[]];
   };
@@ -6,7 +6,7 @@
  * via webContents.send(), renderer listens and dispatches to Redux.
  */
 
-import type { Recording, UpdateInfo } from './common.js';
+import type { ConnectionStatusData, Recording, UpdateInfo } from './common.js';
 import type {
   RecordingStatus,
   TranscriptSegment,
@@ -48,6 +48,8 @@ export const IPC_STATE_CHANNELS = {
   RECORDINGS_TITLE: 'state:recordings:title',
   RECORDINGS_SUMMARY: 'state:recordings:summary',
   RECORDINGS_TRANSCRIPT: 'state:recordings:transcript',
+  RECORDINGS_UPSERTED: 'state:recordings:upserted',
+  RECORDINGS_REMOVED: 'state:recordings:removed',
 } as const;
 
 export type IPCStateChannel =
@@ -62,10 +64,7 @@ export interface IPCStatePayloads {
     startTime?: number | null;
     error?: string | null;
   };
-  [IPC_STATE_CHANNELS.RECORDING_CONNECTION]: {
-    stream: 'microphone' | 'system';
-    connected: boolean;
-  };
+  [IPC_STATE_CHANNELS.RECORDING_CONNECTION]: ConnectionStatusData;
   [IPC_STATE_CHANNELS.RECORDING_ERROR]: {
     error: string;
   };
@@ -125,6 +124,12 @@ export interface IPCStatePayloads {
   [IPC_STATE_CHANNELS.RECORDINGS_TRANSCRIPT]: {
     transcript: string;
   };
+  [IPC_STATE_CHANNELS.RECORDINGS_UPSERTED]: {
+    recordings: Recording[];
+  };
+  [IPC_STATE_CHANNELS.RECORDINGS_REMOVED]: {
+    ids: string[];
+  };
 }
 
 // Type helper to get payload type for a channel
@@ -238,6 +243,16 @@ export interface StateAPI {
       payload: IPCStatePayloads[typeof IPC_STATE_CHANNELS.RECORDINGS_TRANSCRIPT]
     ) => void
   ) => void;
+  onRecordingsUpserted: (
+    callback: (
+      payload: IPCStatePayloads[typeof IPC_STATE_CHANNELS.RECORDINGS_UPSERTED]
+    ) => void
+  ) => void;
+  onRecordingsRemoved: (
+    callback: (
+      payload: IPCStatePayloads[typeof IPC_STATE_CHANNELS.RECORDINGS_REMOVED]
+    ) => void
+  ) => void;
 
   // Cleanup
   removeAllStateListeners: () => void;
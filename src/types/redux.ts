@@ -2,13 +2,21 @@
 
 import type { EntityState } from '@reduxjs/toolkit';
 
-import type { PromptTemplate, Recording, UpdateInfo } from './common.js';
+import type {
+  AudioStorageFormat,
+  LLMBackendSettings,
+  PromptTemplate,
+  Recording,
+  TranscriptionProviderId,
+  UpdateInfo,
+} from './common.js';
 
 // Recording slice state
 export type RecordingStatus =
   | 'idle'
   | 'starting'
   | 'recording'
+  | 'paused'
   | 'stopping'
   | 'error';
 
@@ -21,6 +29,12 @@ export interface RecordingState {
     microphone: boolean;
     system: boolean;
   };
+  // Streams that dropped mid-session and are waiting to reconnect
+  retrying: {
+    microphone: boolean;
+    system: boolean;
+  };
+  nextRetryIn: number | null; // Milliseconds until the next reconnect attempt
   isDictating: boolean;
   isTransitioning: boolean;
 }
@@ -46,6 +60,9 @@ export interface TranscriptSegment {
   timestamp: number;
   isFinal: boolean;
   source: 'microphone' | 'system';
+  speaker?: string; // Speaker label, e.g. "You" / "Others"
+  start?: number; // Seconds from the start of the recording
+  end?: number;
 }
 
 export interface TranscriptionState {
@@ -81,6 +98,25 @@ export interface FullSettingsState {
   // Audio processing settings
   microphoneGain?: number; // Microphone volume level (0.0 to 2.0, default 1.0)
   systemAudioGain?: number; // System audio volume level (0.0 to 2.0, default 0.7)
+  // Speaker labeling settings
+  speakerSeparation?: boolean; // Transcribe microphone and system audio separately
+  postCallDiarization?: boolean; // Diarize the saved audio after recording stops
+  // Audio storage settings
+  audioFormat?: AudioStorageFormat; // Format saved recordings are stored in
+  stereoRecording?: boolean; // Save microphone left and system audio right
+  summarizeImports?: boolean; // Summarize imported audio files once transcribed
+  autoTitle?: boolean; // Name untitled recordings from their content
+  autoSummarize?: boolean; // Summarize recordings as soon as they stop
+  autoSummaryTemplate?: string; // Name of the prompt used; empty for the last used
+  // Live transcription engine settings
+  transcriptionProvider?: TranscriptionProviderId;
+  localTranscriptionUrl?: string; // WebSocket URL of the local engine
+  // Language model used per feature
+  summaryLLM?: LLMBackendSettings;
+  dictationLLM?: LLMBackendSettings;
+  // Where recordings are kept; change only by moving them
+  recordingsDirectory?: string; // Empty for the app data folder
+  audioSubfolder?: string; // Empty to keep audio next to the notes
 }
 
 export interface SettingsState extends FullSettingsState {
@@ -92,7 +128,7 @@ export interface SettingsState extends FullSettingsState {
 
 // UI slice state (renderer)
 export type Page = 'list' | 'recording';
-export type ModalType = 'settings' | 'prompt' | null;
+export type ModalType = 'settings' | 'prompt' | 'actionItems' | 'export' | null;
 
 export interface UIState {
   currentPage: Page;
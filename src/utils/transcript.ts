@@ -0,0 +1,146 @@
+/**
+ * Transcript formatting utilities shared by the main and renderer processes
+ */
+
+import type { TranscriptSegment } from '../types/redux.js';
+
+/**
+ * Speaker labels used when microphone and system audio are transcribed separately
+ */
+export const SPEAKER_LABELS = {
+  microphone: 'You',
+  system: 'Others',
+} as const;
+
+/**
+ * A single speaker turn parsed from a stored transcript
+ */
+export interface TranscriptTurn {
+  speaker: string | null;
+  text: string;
+  start?: number; // Seconds from the start of the recording
+  end?: number;
+}
+
+const TURN_REGEX =
+  /^(?:\[(\d{2,}):(\d{2}):(\d{2})\]\s)?(?:\*\*(.+?):\*\*\s?)?([\s\S]*)$/;
+
+/**
+ * Format a recording offset as `HH:MM:SS`
+ */
+export function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, mins, secs]
+    .map((value) => value.toString().padStart(2, '0'))
+    .join(':');
+}
+
+/**
+ * Build the transcript text from final segments.
+ * Plain segments are joined into a single paragraph. Once segments carry a
+ * speaker or a start offset, each turn becomes its own
+ * `[HH:MM:SS] **Speaker:** text` paragraph; consecutive segments by the same
+ * speaker are merged only when they have no offset of their own.
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  const finalSegments = segments.filter((seg) => seg.isFinal);
+
+  if (
+    !finalSegments.some(
+      (seg) => seg.speaker !== undefined || seg.start !== undefined
+    )
+  ) {
+    return finalSegments.map((seg) => seg.text).join(' ');
+  }
+
+  const turns: TranscriptTurn[] = [];
+  for (const seg of finalSegments) {
+    const speaker = seg.speaker ?? null;
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn?.speaker === speaker && seg.start === undefined) {
+      lastTurn.text = `${lastTurn.text} ${seg.text}`;
+    } else {
+      turns.push({
+        speaker,
+        text: seg.text,
+        ...(seg.start !== undefined && { start: seg.start }),
+        ...(seg.end !== undefined && { end: seg.end }),
+      });
+    }
+  }
+
+  return formatTurns(turns);
+}
+
+/**
+ * Write speaker turns as markdown paragraphs
+ */
+export function formatTurns(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn) => {
+      const offset =
+        turn.start !== undefined ? `[${formatOffset(turn.start)}] ` : '';
+      const speaker = turn.speaker ? `**${turn.speaker}:** ` : '';
+      return `${offset}${speaker}${turn.text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Split a stored transcript back into speaker turns.
+ * Each turn ends where the next timestamped turn starts. Transcripts without
+ * speaker labels or offsets come back as a single unlabeled turn.
+ */
+export function parseTranscriptTurns(transcript: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const paragraph of transcript.split(/\n{2,}/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+
+    const match = TURN_REGEX.exec(text);
+    const [, hours, mins, secs, speaker, body] = match ?? [];
+    const turn: TranscriptTurn = {
+      speaker: speaker ?? null,
+      text: (body ?? text).trim(),
+    };
+    if (hours && mins && secs) {
+      turn.start = Number(hours) * 3600 + Number(mins) * 60 + Number(secs);
+    }
+    turns.push(turn);
+  }
+
+  // Close each timestamped turn at the start of the next one
+  let nextStart: number | undefined;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    if (!turn) continue;
+    if (turn.start !== undefined && nextStart !== undefined) {
+      turn.end = nextStart;
+    }
+    nextStart = turn.start ?? nextStart;
+  }
+
+  return turns;
+}
+
+/**
+ * Rebuild final segments from a stored transcript so that reloaded
+ * recordings keep their speakers and offsets
+ */
+export function parseTranscriptSegments(
+  transcript: string
+): TranscriptSegment[] {
+  return parseTranscriptTurns(transcript).map((turn) => ({
+    text: turn.text,
+    timestamp: 0,
+    isFinal: true,
+    source: turn.speaker === SPEAKER_LABELS.system ? 'system' : 'microphone',
+    ...(turn.speaker && { speaker: turn.speaker }),
+    ...(turn.start !== undefined && { start: turn.start }),
+    ...(turn.end !== undefined && { end: turn.end }),
+  }));
+}